@@ -86,30 +86,23 @@ async function advancedFeatureExamples() {
     // 1. Function Calling with OpenAI
     console.log('1️⃣ Function Calling - Weather Assistant');
     
-    const weatherResponse = await openai.generate(
+    const weatherResponse = await openai.generateWithTools(
       'What\'s the weather like in New York City? I prefer Celsius.',
+      [{
+        ...weatherFunction.function,
+        execute: ({ location, unit }) => mockGetWeather(location, unit)
+      }],
       {
         maxTokens: 150,
-        tools: [weatherFunction]
+        maxSteps: 3
       }
     );
     
     console.log('AI Response:', weatherResponse.text);
     
-    if (weatherResponse.toolCalls) {
-      console.log('\n🔧 Function Calls Detected:');
-      for (const toolCall of weatherResponse.toolCalls) {
-        if (toolCall.function) {
-          console.log(`Function: ${toolCall.function.name}`);
-          const args = JSON.parse(toolCall.function.arguments);
-          console.log(`Arguments:`, args);
-          
-          // Execute function
-          if (toolCall.function.name === 'get_weather') {
-            const weather = mockGetWeather(args.location, args.unit);
-            console.log('Function Result:', weather);
-          }
-        }
+    for (const step of weatherResponse.steps) {
+      for (const result of step.toolResults) {
+        console.log(`🔧 Step ${step.step}: ${result.toolName}`, result.arguments, '→', result.result);
       }
     }
     console.log();
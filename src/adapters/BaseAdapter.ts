@@ -10,41 +10,118 @@ import {
   LLMResponse, 
   ModelInfo, 
   LLMProviderError,
+  RateLimitError,
+  AuthenticationError,
+  ContextLengthExceededError,
+  ContentFilterError,
+  InvalidRequestError,
+  ProviderOverloadedError,
+  TimeoutError,
   ProviderConfig,
   ProviderCapabilities,
   TokenUsage,
-  CostDetails
+  CostDetails,
+  Message,
+  MessageContent,
+  ContentPart,
+  ResolvedMedia,
+  PromptInput,
+  Tool,
+  ToolCall,
+  ExecutableTool,
+  ToolExecutionContext,
+  ToolExecutionResult,
+  ToolStep,
+  ToolLoopOptions,
+  ToolLoopResponse,
+  StreamEvent,
+  JSONGenerateOptions,
+  ObjectResponse,
+  ToolChoice,
+  ObjectStreamEvent,
+  ReasoningOptions,
+  ReasoningEffort,
+  ReasoningOutput
 } from './types';
+import { SchemaType } from './SchemaBuilder';
+import { PartialJSONParser, PartialJSONUpdate } from './PartialJSON';
+import { ModelRegistry } from './ModelRegistry';
+import { ModelSpec } from './modelTypes';
+import { ChatCompletionStreamAccumulator } from './StreamUtils';
 import { BaseCache, CacheManager } from '../utils/CacheManager';
+import { RateLimitUtils } from '../utils/RateLimitUtils';
+import { ApiKeyPool, ApiKeyStats } from '../utils/ApiKeyPool';
+import { HttpTransport, FetchFunction } from '../utils/HttpTransport';
+import { RetryManager, RetryConfig, CircuitOpenError, CircuitStats } from '../utils/RetryManager';
+import { ConfigManager, DEFAULT_RETRY_CONFIG, RetryDefaults } from '../utils/ConfigManager';
+import { JsonSchemaValidator, JsonSchemaValidationResult } from '../utils/JsonSchemaValidator';
 import { createHash } from 'crypto';
 
+// Reasoning token budgets used when only an effort level is given, and the
+// thresholds for mapping a budget back to an effort level
+const REASONING_EFFORT_BUDGETS: Record<ReasoningEffort, number> = {
+  low: 2048,
+  medium: 8192,
+  high: 24576
+};
+
+// Provider messages that mean the request does not fit the context window
+const CONTEXT_LENGTH_PATTERN = /context[_ ]length|context window|maximum context|prompt is too long|input token count|maximum number of tokens/i;
+
+// Provider messages that mean a safety filter blocked the request
+const CONTENT_FILTER_PATTERN = /content (management )?polic|content filter|safety (system|filter)/i;
+
 export abstract class BaseAdapter {
   abstract readonly name: string;
   abstract readonly baseUrl: string;
   
   protected apiKey: string;
+  protected keyPool: ApiKeyPool | null;
   protected currentModel: string;
   protected config: ProviderConfig;
+  protected httpFetch: FetchFunction; // Every request goes through this; SDK clients get it as their fetch
+  protected requiresApiKey: boolean; // False for adapters constructed with an empty envKeyName
   protected cache!: BaseCache<LLMResponse>;
+  private static retryConfigUnavailable = false;
 
-  constructor(envKeyName: string, defaultModel: string, baseUrl?: string) {
-    this.apiKey = process.env[envKeyName] || '';
+  /**
+   * An explicit config.apiKey wins over the environment. Several keys in
+   * ${envKeyName}S (comma-separated) are used as a pool; a config key that is
+   * one of them, as ConfigManager passes it, keeps that pool.
+   */
+  constructor(envKeyName: string, defaultModel: string, config: ProviderConfig = {}) {
+    const envKeys = ApiKeyPool.readEnvKeys(envKeyName);
+    const keys = config.apiKey && !envKeys.includes(config.apiKey) ? [config.apiKey] : envKeys;
+    this.apiKey = config.apiKey || keys[0] || '';
+    this.keyPool = keys.length > 1 ? new ApiKeyPool(keys) : null;
     this.currentModel = defaultModel;
     
-    if (!this.apiKey) {
+    // Adapters that need no key (local servers, composites) pass an empty envKeyName
+    this.requiresApiKey = !!envKeyName;
+    if (!this.apiKey && this.requiresApiKey) {
       console.warn(`⚠️ ${envKeyName} not found in environment variables`);
     }
 
     this.config = {
-      apiKey: this.apiKey,
-      baseUrl: baseUrl || ''
+      ...config,
+      apiKey: this.apiKey
     };
+    this.httpFetch = new HttpTransport(config.transport).fetch;
 
     this.validateConfiguration();
   }
 
+  /**
+   * Adapters share a response cache only when they call the same endpoint
+   * with the same account, so one key's or organization's responses are
+   * never served to another
+   */
   protected initializeCache(cacheConfig?: any): void {
-    const cacheName = `${this.name}-responses`;
+    const scope = createHash('sha256')
+      .update(JSON.stringify([this.baseUrl, this.config.organizationId, this.config.projectId, this.apiKey]))
+      .digest('hex')
+      .slice(0, 16);
+    const cacheName = `${this.name}-responses-${scope}`;
     this.cache = CacheManager.getCache<LLMResponse>(cacheName) || 
                  CacheManager.createLRUCache<LLMResponse>(cacheName, {
                    maxSize: cacheConfig?.maxSize || 1000,
@@ -54,14 +131,22 @@ export abstract class BaseAdapter {
   }
 
   // Abstract methods that each provider must implement
-  abstract generateUncached(prompt: string, options?: GenerateOptions): Promise<LLMResponse>;
-  abstract generateStream(prompt: string, options?: StreamOptions): Promise<LLMResponse>;
+  abstract generateUncached(prompt: PromptInput, options?: GenerateOptions): Promise<LLMResponse>;
+  /**
+   * Provider streaming implementation. Yields events as they arrive and must
+   * end with a finish event; errors are thrown and surfaced by stream().
+   */
+  protected abstract streamEvents(prompt: PromptInput, options?: GenerateOptions): AsyncGenerator<StreamEvent>;
   abstract listModels(): Promise<ModelInfo[]>;
   abstract getCapabilities(): ProviderCapabilities;
   abstract getModelPricing(modelId: string): Promise<CostDetails | null>;
 
   // Cached generate method
-  async generate(prompt: string, options?: GenerateOptions): Promise<LLMResponse> {
+  async generate(prompt: PromptInput, options?: GenerateOptions): Promise<LLMResponse> {
+    this.assertContentSupported(prompt, options?.model || this.currentModel);
+    this.assertToolOptionsSupported(options);
+    options = this.applyStructuredOutput(options);
+
     // Skip cache if explicitly disabled or for streaming
     if (options?.disableCache) {
       return this.generateUncached(prompt, options);
@@ -98,41 +183,283 @@ export abstract class BaseAdapter {
     };
   }
 
-  // Common implementations
-  async generateJSON(prompt: string, schema?: any, options?: GenerateOptions): Promise<any> {
+  /**
+   * Stream a response as typed events.
+   * Failures are yielded as a single error event that ends the stream.
+   */
+  async *stream(prompt: PromptInput, options?: GenerateOptions): AsyncGenerator<StreamEvent> {
     try {
-      const response = await this.generate(prompt, { 
-        ...options, 
-        jsonMode: true 
-      });
-      
-      const parsed = JSON.parse(response.text);
-      
-      // Basic schema validation if provided
-      if (schema && !this.validateSchema(parsed, schema)) {
-        throw new LLMProviderError(
-          'Response does not match expected schema',
-          this.name,
-          'SCHEMA_VALIDATION_ERROR'
-        );
+      this.assertContentSupported(prompt, options?.model || this.currentModel);
+      this.assertToolOptionsSupported(options);
+      yield* this.streamEvents(prompt, this.applyStructuredOutput(options));
+    } catch (error) {
+      yield { type: 'error', error: this.toProviderError(error, 'streaming generation') };
+    }
+  }
+
+  /**
+   * Stream a JSON result as progressively more complete partial objects.
+   * Array elements are reported as soon as each one is complete; the final
+   * object is parsed and validated against the schema before finishing.
+   */
+  streamObject<T>(prompt: PromptInput, schema: SchemaType<T, boolean>, options?: GenerateOptions): AsyncGenerator<ObjectStreamEvent<T>>;
+  streamObject<T = any>(prompt: PromptInput, schema?: Record<string, any>, options?: GenerateOptions): AsyncGenerator<ObjectStreamEvent<T>>;
+  async *streamObject(
+    prompt: PromptInput,
+    schema?: SchemaType<any, boolean> | Record<string, any>,
+    options?: GenerateOptions
+  ): AsyncGenerator<ObjectStreamEvent<any>> {
+    const jsonSchema = schema instanceof SchemaType ? schema.jsonSchema : schema;
+    const parser = new PartialJSONParser();
+    const events = this.stream(prompt, {
+      ...options,
+      jsonMode: true,
+      ...(jsonSchema ? { jsonSchema: { ...options?.jsonSchema, schema: jsonSchema } } : {})
+    });
+
+    for await (const event of events) {
+      if (event.type === 'text-delta') {
+        yield event;
+        yield* this.toObjectStreamEvents(parser, parser.push(event.text));
+      } else if (event.type === 'usage' || event.type === 'error') {
+        yield event;
+      } else if (event.type === 'finish') {
+        yield* this.toObjectStreamEvents(parser, parser.end());
+        const result = this.checkJSONResponse(event.response.text, jsonSchema);
+        if (result.error) {
+          yield { type: 'error', error: result.error };
+        } else {
+          yield { type: 'finish', object: result.value, response: { ...event.response, object: result.value } };
+        }
       }
-      
-      return parsed;
+    }
+  }
+
+  private *toObjectStreamEvents(parser: PartialJSONParser, update: PartialJSONUpdate): Generator<ObjectStreamEvent<any>> {
+    if (update.changed) {
+      yield { type: 'partial-object', object: parser.value };
+    }
+    for (const element of update.elements) {
+      yield { type: 'array-element', ...element };
+    }
+  }
+
+  /**
+   * Callback-based streaming layered on top of stream()
+   */
+  async generateStream(prompt: PromptInput, options?: StreamOptions): Promise<LLMResponse> {
+    let response: LLMResponse | undefined;
+
+    for await (const event of this.stream(prompt, options)) {
+      if (event.type === 'text-delta') {
+        options?.onToken?.(event.text);
+      } else if (event.type === 'finish') {
+        response = event.response;
+      } else if (event.type === 'error') {
+        options?.onError?.(event.error);
+        throw event.error;
+      }
+    }
+
+    if (!response) {
+      const error = new LLMProviderError('Stream ended without a final response', this.name, 'STREAM_INCOMPLETE');
+      options?.onError?.(error);
+      throw error;
+    }
+
+    options?.onComplete?.(response);
+    return response;
+  }
+
+  // Common implementations
+  /**
+   * Generate a JSON value, validated against `schema` when one is given.
+   * With maxRepairAttempts, invalid output is sent back to the model together
+   * with the parse or validation errors and the model is asked to correct it.
+   */
+  async generateJSON(prompt: PromptInput, schema?: any, options?: JSONGenerateOptions): Promise<any> {
+    const { value } = await this.generateValidatedJSON(prompt, schema, options);
+    return value;
+  }
+
+  /**
+   * Generate an object typed by a schema built with the `s` schema builder.
+   * Returns the object with the response's usage and cost, summed over any
+   * repair attempts.
+   */
+  async generateObject<T>(
+    prompt: PromptInput,
+    schema: SchemaType<T, boolean>,
+    options?: JSONGenerateOptions
+  ): Promise<ObjectResponse<T>> {
+    const { value, responses } = await this.generateValidatedJSON(prompt, schema.jsonSchema, options);
+    const response = responses[responses.length - 1]!;
+    if (responses.length === 1) {
+      return { ...response, object: value as T };
+    }
+    return {
+      ...response,
+      ...this.sumUsage(responses),
+      metadata: { ...response.metadata, repairAttempts: responses.length - 1 },
+      object: value as T
+    };
+  }
+
+  private async generateValidatedJSON(
+    prompt: PromptInput,
+    schema?: any,
+    options?: JSONGenerateOptions
+  ): Promise<{ value: any; responses: LLMResponse[] }> {
+    const { maxRepairAttempts = 0, ...generateOptions } = options || {};
+    const requestOptions: GenerateOptions = {
+      ...generateOptions,
+      jsonMode: true,
+      ...(schema ? { jsonSchema: { ...generateOptions.jsonSchema, schema } } : {})
+    };
+    const responses: LLMResponse[] = [];
+    let conversation: PromptInput = prompt;
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.generate(conversation, requestOptions);
+      responses.push(response);
+      const result = this.checkJSONResponse(response.text, schema);
+      if (!result.error) {
+        return { value: result.value, responses };
+      }
+      if (attempt >= maxRepairAttempts) {
+        throw result.error;
+      }
+
+      if (attempt === 0) {
+        conversation = this.normalizeMessages(prompt, requestOptions.systemPrompt);
+        delete requestOptions.systemPrompt;
+      }
+      conversation = [
+        ...(conversation as Message[]),
+        { role: 'assistant', content: response.text },
+        { role: 'user', content: result.feedback }
+      ];
+    }
+  }
+
+  /**
+   * Parse and validate JSON output, describing any problem for a repair prompt
+   */
+  private checkJSONResponse(
+    text: string,
+    schema?: any
+  ): { value: any; error?: undefined } | { error: LLMProviderError; feedback: string } {
+    let value: any;
+    try {
+      value = this.parseJSONText(text);
     } catch (error) {
-      if (error instanceof SyntaxError) {
-        throw new LLMProviderError(
-          `Invalid JSON response: ${error.message}`,
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        error: new LLMProviderError(
+          `Invalid JSON response: ${message}`,
           this.name,
           'JSON_PARSE_ERROR',
-          error
-        );
+          error instanceof Error ? error : undefined
+        ),
+        feedback: `Your previous response was not valid JSON (${message}). Respond again with only the corrected JSON.`
+      };
+    }
+
+    if (schema) {
+      const validation = this.validateSchema(value, schema);
+      if (!validation.valid) {
+        const details = JsonSchemaValidator.formatErrors(validation.errors);
+        return {
+          error: new LLMProviderError(
+            `Response does not match expected schema:\n${details}`,
+            this.name,
+            'SCHEMA_VALIDATION_ERROR'
+          ),
+          feedback: `Your previous response did not match the required JSON Schema:\n${details}\n` +
+            'Respond again with only the corrected JSON.'
+        };
+      }
+    }
+
+    return { value };
+  }
+
+  /**
+   * Generate with automatic tool execution.
+   * Tool calls returned by the model are executed with their handlers (calls
+   * from the same turn run in parallel), the results are sent back and the
+   * model is called again until it answers without tool calls.
+   */
+  async generateWithTools(
+    prompt: PromptInput,
+    tools: ExecutableTool[],
+    options?: ToolLoopOptions
+  ): Promise<ToolLoopResponse> {
+    const { maxSteps = 5, onStep, ...generateOptions } = options || {};
+    const toolDefinitions: Tool[] = tools.map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters
+      }
+    }));
+
+    const messages = this.normalizeMessages(prompt, generateOptions.systemPrompt);
+    delete generateOptions.systemPrompt;
+    const steps: ToolStep[] = [];
+
+    for (let step = 1; step <= maxSteps; step++) {
+      const response = await this.generate([...messages], {
+        ...generateOptions,
+        tools: toolDefinitions,
+        ...(step > 1 && generateOptions.toolChoice && generateOptions.toolChoice !== 'none' ? { toolChoice: 'auto' } : {})
+      });
+      const toolCalls = (response.toolCalls || []).filter(call => call.function);
+
+      messages.push({
+        role: 'assistant',
+        content: response.text,
+        ...(toolCalls.length > 0 ? { toolCalls } : {}),
+        ...(response.reasoning ? { reasoning: response.reasoning } : {})
+      });
+
+      const toolResults = await Promise.all(
+        toolCalls.map(call => this.executeToolCall(call, tools, step, messages, generateOptions.signal))
+      );
+      this.throwIfAborted(generateOptions.signal);
+      for (const result of toolResults) {
+        messages.push({
+          role: 'tool',
+          toolCallId: result.toolCallId,
+          name: result.toolName,
+          content: this.serializeToolResult(result)
+        });
+      }
+
+      const toolStep: ToolStep = { step, response, toolResults };
+      steps.push(toolStep);
+      await onStep?.(toolStep);
+
+      if (toolCalls.length === 0) {
+        return {
+          ...response,
+          ...this.sumUsage(steps.map(step => step.response)),
+          steps,
+          messages
+        };
       }
-      throw error;
     }
+
+    throw new LLMProviderError(
+      `Tool loop did not produce a final answer within ${maxSteps} steps`,
+      this.name,
+      'MAX_STEPS_EXCEEDED'
+    );
   }
 
   // Cache management methods
-  protected generateCacheKey(prompt: string, options?: GenerateOptions): string {
+  protected generateCacheKey(prompt: PromptInput, options?: GenerateOptions): string {
     const cacheData = {
       prompt,
       model: options?.model || this.currentModel,
@@ -143,7 +470,13 @@ export abstract class BaseAdapter {
       presencePenalty: options?.presencePenalty,
       stopSequences: options?.stopSequences,
       systemPrompt: options?.systemPrompt,
-      jsonMode: options?.jsonMode
+      jsonMode: options?.jsonMode,
+      jsonSchema: options?.jsonSchema,
+      tools: options?.tools,
+      toolChoice: options?.toolChoice,
+      parallelToolCalls: options?.parallelToolCalls,
+      reasoning: this.getReasoningOptions(options),
+      interleavedThinking: options?.enableInteractiveThinking
     };
     
     const serialized = JSON.stringify(cacheData);
@@ -159,7 +492,7 @@ export abstract class BaseAdapter {
   }
 
   async isAvailable(): Promise<boolean> {
-    if (!this.apiKey) {
+    if (this.requiresApiKey && !this.apiKey) {
       return false;
     }
     
@@ -167,7 +500,7 @@ export abstract class BaseAdapter {
       await this.listModels();
       return true;
     } catch (error) {
-      console.warn(`Provider ${this.name} unavailable:`, error);
+      console.warn(`Provider ${this.name} unavailable:`, this.redactApiKeys(error instanceof Error ? error.message : String(error)));
       return false;
     }
   }
@@ -181,16 +514,46 @@ export abstract class BaseAdapter {
   }
 
   getApiKey(): string {
-    return this.apiKey ? '***' + this.apiKey.slice(-4) : 'NOT_SET';
+    return this.keyPool ? this.keyPool.getMaskedKeys().join(', ') : ApiKeyPool.mask(this.apiKey);
+  }
+
+  /**
+   * Spread requests over a pool of keys, or pass null to go back to a single key
+   */
+  setApiKeyPool(pool: ApiKeyPool | null): void {
+    this.keyPool = pool;
+  }
+
+  /**
+   * Per-key request and rate-limit counters (empty without a key pool)
+   */
+  getApiKeyStats(): ApiKeyStats[] {
+    return this.keyPool?.getStats() ?? [];
+  }
+
+  /**
+   * Auth headers that send a key with a single request. Adapters whose
+   * provider expects another header override this.
+   */
+  protected buildAuthHeaders(apiKey: string): Record<string, string> {
+    return { 'Authorization': `Bearer ${apiKey}` };
+  }
+
+  /**
+   * Mask every configured key that appears in text, for error messages and logs
+   */
+  protected redactApiKeys(text: string): string {
+    if (this.keyPool) return this.keyPool.redact(text);
+    return this.apiKey ? text.split(this.apiKey).join(ApiKeyPool.mask(this.apiKey)) : text;
   }
 
   // Helper methods
   protected validateConfiguration(): void {
-    if (!this.apiKey) {
-      throw new LLMProviderError(
+    if (this.requiresApiKey && !this.apiKey) {
+      throw new AuthenticationError(
         `API key not configured for ${this.name}`,
         this.name,
-        'MISSING_API_KEY'
+        { code: 'MISSING_API_KEY' }
       );
     }
   }
@@ -199,93 +562,779 @@ export abstract class BaseAdapter {
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
       'User-Agent': 'Synaptic-Lab-Kit/1.0.0',
+      ...this.config.customHeaders,
       ...additionalHeaders
     };
 
     return headers;
   }
 
+  /**
+   * Per-request options for SDK clients: the abort signal, the auth headers
+   * for apiKey (the key withRetry picked) and any extra headers
+   */
+  protected buildSdkRequestOptions(
+    options?: GenerateOptions,
+    apiKey?: string
+  ): { signal?: AbortSignal; headers?: Record<string, string> } {
+    const headers = { ...(apiKey ? this.buildAuthHeaders(apiKey) : {}), ...options?.headers };
+    return {
+      ...(options?.signal ? { signal: options.signal } : {}),
+      ...(Object.keys(headers).length > 0 ? { headers } : {})
+    };
+  }
+
+  /**
+   * fetch with config.timeout covering the wait for the response headers.
+   * Streams are not cut off once they have started; the caller's signal
+   * still cancels the body.
+   */
+  protected async fetchWithTimeout(url: string, init: RequestInit): Promise<Response> {
+    const timeout = this.config.timeout;
+    if (!timeout) {
+      return this.httpFetch(url, init);
+    }
+
+    const controller = new AbortController();
+    const signal = init.signal;
+    if (signal?.aborted) {
+      controller.abort(signal.reason);
+    } else {
+      signal?.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+    }
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+
+    try {
+      return await this.httpFetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (timedOut) {
+        throw new TimeoutError(`Request timed out after ${timeout}ms`, this.name, { originalError: error as Error });
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
   protected handleError(error: any, operation: string): never {
     if (error instanceof LLMProviderError) {
       throw error;
     }
 
-    if (error.response) {
-      // HTTP error
-      const status = error.response.status;
-      const message = error.response.data?.error?.message || error.message;
-      
-      let errorCode = 'HTTP_ERROR';
-      if (status === 401) errorCode = 'AUTHENTICATION_ERROR';
-      if (status === 403) errorCode = 'PERMISSION_ERROR';
-      if (status === 429) errorCode = 'RATE_LIMIT_ERROR';
-      if (status >= 500) errorCode = 'SERVER_ERROR';
+    if (this.isAbortError(error)) {
+      throw this.createAbortError(error);
+    }
 
-      throw new LLMProviderError(
-        `${operation} failed: ${message}`,
-        this.name,
-        errorCode,
-        error
-      );
+    throw this.classifyError(error, operation);
+  }
+
+  /**
+   * Map a provider failure onto the typed error hierarchy. Axios errors,
+   * provider SDK errors and createResponseError() results all carry an HTTP
+   * status, response headers and the error body, so every adapter is
+   * classified the same way. `messages` replaces the provider's message for
+   * specific statuses.
+   */
+  protected classifyError(error: any, operation: string, messages: Record<number, string> = {}): LLMProviderError {
+    const status = error?.response?.status ?? error?.status;
+    if (typeof status !== 'number') {
+      const message = this.redactApiKeys(`${operation} failed: ${error?.message ?? String(error)}`);
+      if (['ETIMEDOUT', 'ECONNABORTED'].includes(error?.code) || ['APIConnectionTimeoutError', 'TimeoutError'].includes(error?.name)) {
+        return new TimeoutError(message, this.name, { originalError: error });
+      }
+      if (['ECONNREFUSED', 'ENOTFOUND', 'ECONNRESET', 'EAI_AGAIN'].includes(error?.code) || error?.name === 'APIConnectionError') {
+        return new LLMProviderError(message, this.name, 'NETWORK_ERROR', error);
+      }
+      return new LLMProviderError(message, this.name, 'UNKNOWN_ERROR', error);
     }
 
-    throw new LLMProviderError(
-      `${operation} failed: ${error.message}`,
+    const body = this.getErrorBody(error);
+    const providerMessage: string = body?.error?.message ?? body?.message ?? this.getErrorText(body) ?? error.message;
+    const message = this.redactApiKeys(`${operation} failed: ${messages[status] ?? providerMessage}`);
+    const details = { status, originalError: error };
+    const providerCodes = [body?.error?.code, body?.error?.type, body?.error?.status, body?.code, body?.type]
+      .filter(code => typeof code === 'string')
+      .map(code => code.toLowerCase());
+
+    if (status >= 400 && status < 500 && status !== 429) {
+      if (providerCodes.includes('context_length_exceeded') || CONTEXT_LENGTH_PATTERN.test(providerMessage)) {
+        return new ContextLengthExceededError(message, this.name, { ...details, ...this.parseContextLimits(providerMessage) });
+      }
+      if (providerCodes.some(code => ['content_filter', 'content_policy_violation'].includes(code)) || CONTENT_FILTER_PATTERN.test(providerMessage)) {
+        return new ContentFilterError(message, this.name, details);
+      }
+    }
+
+    const retryAfterMs = RateLimitUtils.parseRetryAfter(error?.response?.headers ?? error?.headers);
+    if (status === 401) return new AuthenticationError(message, this.name, details);
+    if (status === 403) return new AuthenticationError(message, this.name, { ...details, code: 'PERMISSION_ERROR' });
+    if (status === 429) {
+      return new RateLimitError(message, this.name, { ...details, ...(retryAfterMs !== undefined ? { retryAfterMs } : {}) });
+    }
+    if (status === 408 || status === 504) return new TimeoutError(message, this.name, details);
+    if (status >= 500) {
+      return new ProviderOverloadedError(message, this.name, {
+        ...details,
+        ...(status === 503 ? { code: 'SERVICE_UNAVAILABLE' } : {}),
+        ...(retryAfterMs !== undefined ? { retryAfterMs } : {})
+      });
+    }
+    if (status >= 400) {
+      const unknownModel = /model/i.test(providerMessage) && /not found|does not exist|unknown|not supported|decommissioned/i.test(providerMessage);
+      return new InvalidRequestError(message, this.name, { ...details, ...(unknownModel ? { code: 'UNSUPPORTED_MODEL' } : {}) });
+    }
+    return new LLMProviderError(message, this.name, 'HTTP_ERROR', error, status);
+  }
+
+  /**
+   * Error for a failed fetch() response, shaped like an SDK error (status,
+   * headers and the parsed body) so classifyError treats it the same way
+   */
+  protected async createResponseError(response: Response): Promise<Error> {
+    let text = '';
+    try {
+      text = await response.text();
+    } catch {
+      // Body unavailable
+    }
+
+    let body: any = text || undefined;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Plain-text error body
+    }
+
+    const message = body?.error?.message ?? body?.message ?? this.getErrorText(body) ?? response.statusText;
+    return Object.assign(new Error(`HTTP ${response.status}: ${message}`), {
+      status: response.status,
+      headers: response.headers,
+      error: body
+    });
+  }
+
+  /**
+   * Plain-text error bodies, and bodies like Ollama's { error: "..." }
+   */
+  private getErrorText(body: any): string | undefined {
+    if (typeof body === 'string') return body;
+    return typeof body?.error === 'string' ? body.error : undefined;
+  }
+
+  private getErrorBody(error: any): any {
+    const body = error?.response?.data ?? error?.error ?? error?.body;
+    if (body !== undefined) return body;
+
+    // @google/genai puts the JSON error body in the message
+    const message = typeof error?.message === 'string' ? error.message.trim() : '';
+    if (message.startsWith('{')) {
+      try {
+        return JSON.parse(message);
+      } catch {
+        return undefined;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Pull the model limit and the requested size out of a context-length message
+   */
+  private parseContextLimits(message: string): { maxTokens?: number; requestedTokens?: number } {
+    const find = (patterns: RegExp[]): number | undefined => {
+      for (const pattern of patterns) {
+        const match = message.match(pattern);
+        if (match) return Number(match[1]!.replace(/,/g, ''));
+      }
+      return undefined;
+    };
+
+    const maxTokens = find([
+      /maximum context length is (\d[\d,]*)/i,
+      /maximum number of tokens allowed \((\d[\d,]*)\)/i,
+      /(\d[\d,]*) maximum/i,
+      /context window of (\d[\d,]*)/i
+    ]);
+    const requestedTokens = find([
+      /(?:resulted in|requested) (\d[\d,]*) tokens/i,
+      /too long: (\d[\d,]*) tokens/i,
+      /input token count \((\d[\d,]*)\)/i,
+      /contains (\d[\d,]*) tokens/i
+    ]);
+
+    return {
+      ...(maxTokens !== undefined ? { maxTokens } : {}),
+      ...(requestedTokens !== undefined ? { requestedTokens } : {})
+    };
+  }
+
+  /**
+   * Await an SDK request, also returning the HTTP headers when the SDK
+   * exposes them (OpenAI, Anthropic and Groq clients support withResponse)
+   */
+  protected async withResponseHeaders<T>(request: Promise<T>): Promise<{ data: T; headers?: any }> {
+    const withResponse = (request as any)?.withResponse;
+    if (typeof withResponse !== 'function') {
+      return { data: await request };
+    }
+    const { data, response } = await withResponse.call(request);
+    return { data, headers: response?.headers };
+  }
+
+  /**
+   * Record the provider's rate-limit headers on metadata.rateLimit
+   */
+  protected attachRateLimit<R extends LLMResponse>(response: R, headers: any): R {
+    const rateLimit = RateLimitUtils.parseRateLimitHeaders(headers);
+    if (rateLimit) {
+      response.metadata = { ...response.metadata, rateLimit };
+    }
+    return response;
+  }
+
+  /**
+   * Detect cancellation errors from fetch, axios and the provider SDKs
+   */
+  protected isAbortError(error: any): boolean {
+    if (!error) return false;
+    if (error instanceof LLMProviderError) return error.code === 'ABORTED';
+    return error.name === 'AbortError' ||
+      error.name === 'APIUserAbortError' ||
+      error.name === 'CanceledError' ||
+      error.code === 'ERR_CANCELED';
+  }
+
+  protected createAbortError(cause?: any): LLMProviderError {
+    return new LLMProviderError(
+      'Request was aborted',
       this.name,
-      'UNKNOWN_ERROR',
-      error
+      'ABORTED',
+      cause instanceof Error ? cause : undefined
     );
   }
 
-  protected validateSchema(data: any, schema: any): boolean {
-    // Basic schema validation - could be enhanced with a proper validator
-    if (typeof schema !== 'object' || schema === null) {
-      return true;
+  protected throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw this.createAbortError(signal.reason);
     }
+  }
 
-    if (schema.type) {
-      const expectedType = schema.type;
-      const actualType = Array.isArray(data) ? 'array' : typeof data;
-      
-      if (expectedType !== actualType) {
-        return false;
+  /**
+   * Convert any thrown value into an LLMProviderError without throwing
+   */
+  protected toProviderError(error: unknown, operation: string): Error {
+    try {
+      this.handleError(error, operation);
+    } catch (handled) {
+      return handled as Error;
+    }
+    return error as Error;
+  }
+
+  /**
+   * Translate OpenAI-style chat-completion chunks into stream events
+   * Shared by every OpenAI-compatible provider
+   */
+  protected async *streamChatCompletionChunks(
+    chunks: AsyncIterable<any>,
+    model: string,
+    metadata?: Record<string, any>
+  ): AsyncGenerator<StreamEvent> {
+    const state = new ChatCompletionStreamAccumulator();
+    let usage: TokenUsage | undefined;
+
+    for await (const chunk of chunks) {
+      yield* state.push(chunk);
+
+      if (chunk.usage) {
+        usage = this.extractUsage(chunk);
+        if (usage) yield { type: 'usage', usage };
       }
     }
+    yield* state.flushToolCalls();
 
-    if (schema.properties && typeof data === 'object') {
-      for (const [key, propSchema] of Object.entries(schema.properties)) {
-        if (schema.required?.includes(key) && !(key in data)) {
-          return false;
-        }
-        
-        if (key in data && !this.validateSchema(data[key], propSchema)) {
-          return false;
+    const toolCalls = state.toolCalls;
+    const response = await this.buildLLMResponse(
+      state.text,
+      state.model || model,
+      usage,
+      { ...metadata, streamed: true },
+      toolCalls.length > 0 ? 'tool_calls' : this.normalizeFinishReason(state.finishReason),
+      toolCalls
+    );
+    const reasoning = this.buildReasoningOutput({ text: state.reasoning, tokens: usage?.reasoningTokens });
+    if (reasoning) response.reasoning = reasoning;
+
+    yield { type: 'finish', finishReason: response.finishReason || 'stop', response };
+  }
+
+  protected normalizeFinishReason(reason?: string | null): 'stop' | 'length' | 'tool_calls' | 'content_filter' {
+    if (reason === 'length' || reason === 'tool_calls' || reason === 'content_filter') {
+      return reason;
+    }
+    return 'stop';
+  }
+
+  /**
+   * Whether the model enforces options.jsonSchema natively.
+   * Adapters override this; when false the schema is emulated via the system prompt.
+   */
+  protected supportsNativeStructuredOutput(_model: string): boolean {
+    return false;
+  }
+
+  /**
+   * Fold jsonSchema into the system prompt for models without native support
+   */
+  protected applyStructuredOutput(options?: GenerateOptions): GenerateOptions | undefined {
+    if (!options?.jsonSchema || this.supportsNativeStructuredOutput(options.model || this.currentModel)) {
+      return options;
+    }
+
+    const { jsonSchema, ...rest } = options;
+    const instructions = [
+      'Respond only with valid JSON that conforms to the following JSON Schema.',
+      'Do not wrap the JSON in code fences or add any other text.',
+      jsonSchema.description ? `Description: ${jsonSchema.description}` : '',
+      JSON.stringify(jsonSchema.schema, null, 2)
+    ].filter(Boolean).join('\n');
+
+    return {
+      ...rest,
+      jsonMode: true,
+      systemPrompt: rest.systemPrompt ? `${rest.systemPrompt}\n\n${instructions}` : instructions
+    };
+  }
+
+  /**
+   * OpenAI-style response_format for chat-completion APIs
+   */
+  protected buildResponseFormat(options?: GenerateOptions): Record<string, any> | undefined {
+    if (options?.jsonSchema) {
+      return {
+        type: 'json_schema',
+        json_schema: {
+          name: options.jsonSchema.name || 'response',
+          ...(options.jsonSchema.description ? { description: options.jsonSchema.description } : {}),
+          schema: options.jsonSchema.schema,
+          strict: options.jsonSchema.strict ?? false
         }
+      };
+    }
+    return options?.jsonMode ? { type: 'json_object' } : undefined;
+  }
+
+  /**
+   * Parse model JSON output, tolerating surrounding markdown code fences
+   */
+  protected parseJSONText(text: string): any {
+    const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+    return JSON.parse(fenced ? fenced[1]! : text);
+  }
+
+  protected validateSchema(data: any, schema: any): JsonSchemaValidationResult {
+    return JsonSchemaValidator.validate(data, schema);
+  }
+
+  private async executeToolCall(
+    call: ToolCall,
+    tools: ExecutableTool[],
+    step: number,
+    messages: Message[],
+    signal?: AbortSignal
+  ): Promise<ToolExecutionResult> {
+    const toolName = call.function!.name;
+    const args = this.parseToolArguments(call.function!.arguments);
+    const started = Date.now();
+    const tool = tools.find(t => t.name === toolName);
+
+    if (!tool) {
+      return { toolCallId: call.id, toolName, arguments: args, error: `Unknown tool: ${toolName}`, durationMs: 0 };
+    }
+
+    try {
+      const context: ToolExecutionContext = { toolCallId: call.id, step, messages: [...messages] };
+      if (signal) context.signal = signal;
+      const result = await tool.execute(args, context);
+      return { toolCallId: call.id, toolName, arguments: args, result, durationMs: Date.now() - started };
+    } catch (error) {
+      return {
+        toolCallId: call.id,
+        toolName,
+        arguments: args,
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - started
+      };
+    }
+  }
+
+  private serializeToolResult(result: ToolExecutionResult): string {
+    if (result.error !== undefined) {
+      return JSON.stringify({ error: result.error });
+    }
+    if (typeof result.result === 'string') {
+      return result.result;
+    }
+    return JSON.stringify(result.result ?? null);
+  }
+
+  private sumUsage(responses: LLMResponse[]): Pick<LLMResponse, 'usage' | 'cost'> {
+    const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    let cost: CostDetails | undefined;
+
+    for (const response of responses) {
+      if (response.usage) {
+        usage.promptTokens += response.usage.promptTokens;
+        usage.completionTokens += response.usage.completionTokens;
+        usage.totalTokens += response.usage.totalTokens;
+      }
+      if (response.cost) {
+        cost = cost
+          ? {
+              ...cost,
+              inputCost: cost.inputCost + response.cost.inputCost,
+              outputCost: cost.outputCost + response.cost.outputCost,
+              totalCost: cost.totalCost + response.cost.totalCost
+            }
+          : { ...response.cost };
       }
     }
 
-    return true;
+    return cost ? { usage, cost } : { usage };
   }
 
-  protected buildMessages(prompt: string, systemPrompt?: string): any[] {
-    const messages: any[] = [];
-    
+  /**
+   * Check toolChoice against the tools in the request before anything is sent.
+   * Adapters extend this to reject settings their provider cannot honour.
+   */
+  protected assertToolOptionsSupported(options?: GenerateOptions): void {
+    const choice = options?.toolChoice;
+    if (!choice || choice === 'auto' || choice === 'none') return;
+
+    const tools = options?.tools || [];
+    if (choice === 'required' && tools.length === 0) {
+      throw new InvalidRequestError(
+        'toolChoice "required" needs at least one tool',
+        this.name,
+        { code: 'INVALID_TOOL_CHOICE' }
+      );
+    }
+    if (typeof choice === 'object' && !tools.some(tool => tool.function?.name === choice.name)) {
+      throw new InvalidRequestError(
+        `toolChoice names an unknown tool: ${choice.name}`,
+        this.name,
+        { code: 'INVALID_TOOL_CHOICE' }
+      );
+    }
+  }
+
+  /**
+   * OpenAI-style tool_choice for chat-completion APIs
+   */
+  protected buildToolChoice(choice?: ToolChoice): any {
+    if (!choice) return undefined;
+    return typeof choice === 'string' ? choice : { type: 'function', function: { name: choice.name } };
+  }
+
+  /**
+   * Resolve the reasoning request, folding in the deprecated enableThinking flag.
+   * Undefined when the caller did not ask for anything, so provider defaults apply.
+   */
+  protected getReasoningOptions(options?: GenerateOptions): (ReasoningOptions & { enabled: boolean }) | undefined {
+    if (options?.reasoning) {
+      return { ...options.reasoning, enabled: options.reasoning.enabled ?? true };
+    }
+    return options?.enableThinking ? { enabled: true } : undefined;
+  }
+
+  /**
+   * Token budget for budget-based providers, derived from effort when not given
+   */
+  protected getReasoningBudget(reasoning: ReasoningOptions): number {
+    return reasoning.budgetTokens ?? REASONING_EFFORT_BUDGETS[reasoning.effort ?? 'medium'];
+  }
+
+  /**
+   * Effort level for effort-based providers, derived from the budget when not given
+   */
+  protected getReasoningEffort(reasoning: ReasoningOptions): ReasoningEffort {
+    if (reasoning.effort) return reasoning.effort;
+    if (reasoning.budgetTokens === undefined) return 'medium';
+    if (reasoning.budgetTokens <= REASONING_EFFORT_BUDGETS.low) return 'low';
+    return reasoning.budgetTokens <= REASONING_EFFORT_BUDGETS.medium ? 'medium' : 'high';
+  }
+
+  /**
+   * Assemble LLMResponse.reasoning from whatever the provider returned,
+   * dropping empty fields; undefined when there is nothing to report
+   */
+  protected buildReasoningOutput(reasoning: { [K in keyof ReasoningOutput]?: ReasoningOutput[K] | undefined }): ReasoningOutput | undefined {
+    const output: ReasoningOutput = {};
+    if (reasoning.text) output.text = reasoning.text;
+    if (reasoning.summary) output.summary = reasoning.summary;
+    if (reasoning.tokens) output.tokens = reasoning.tokens;
+    if (reasoning.signatures?.length) output.signatures = reasoning.signatures;
+    return Object.keys(output).length > 0 ? output : undefined;
+  }
+
+  /**
+   * Signatures from an earlier assistant turn that this adapter produced
+   */
+  protected getReasoningSignatures(message: Message): NonNullable<ReasoningOutput['signatures']> {
+    return (message.reasoning?.signatures || []).filter(signature => signature.provider === this.name);
+  }
+
+  /**
+   * Normalize a prompt or conversation into provider-neutral messages.
+   * An explicit systemPrompt option is prepended to the conversation.
+   */
+  protected normalizeMessages(prompt: PromptInput, systemPrompt?: string): Message[] {
+    const messages: Message[] = [];
+
     if (systemPrompt) {
       messages.push({ role: 'system', content: systemPrompt });
     }
-    
-    messages.push({ role: 'user', content: prompt });
-    
+
+    if (typeof prompt === 'string') {
+      messages.push({ role: 'user', content: prompt });
+      return messages;
+    }
+
+    if (!Array.isArray(prompt) || prompt.length === 0) {
+      throw new InvalidRequestError(
+        'Conversation must contain at least one message',
+        this.name,
+        { code: 'INVALID_MESSAGES' }
+      );
+    }
+
+    for (const message of prompt) {
+      if (message.role === 'tool' && !message.toolCallId) {
+        throw new InvalidRequestError(
+          'Tool messages require a toolCallId',
+          this.name,
+          { code: 'INVALID_MESSAGES' }
+        );
+      }
+      messages.push(message);
+    }
+
     return messages;
   }
 
+  /**
+   * Separate system messages from the conversation for providers that take
+   * the system prompt as a dedicated request field
+   */
+  protected splitSystemMessages(messages: Message[]): { system?: string; messages: Message[] } {
+    const systemParts = messages
+      .filter(msg => msg.role === 'system')
+      .map(msg => this.getTextContent(msg.content));
+    const conversation = messages.filter(msg => msg.role !== 'system');
+
+    return systemParts.length > 0
+      ? { system: systemParts.join('\n\n'), messages: conversation }
+      : { messages: conversation };
+  }
+
+  /**
+   * Build messages in the OpenAI chat-completions format
+   * Shared by every OpenAI-compatible provider
+   */
+  protected buildMessages(prompt: PromptInput, systemPrompt?: string): any[] {
+    return this.normalizeMessages(prompt, systemPrompt).map(message => {
+      if (message.role === 'tool') {
+        return {
+          role: 'tool',
+          tool_call_id: message.toolCallId,
+          content: this.getTextContent(message.content)
+        };
+      }
+
+      if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+        return {
+          role: 'assistant',
+          content: this.getTextContent(message.content) || null,
+          tool_calls: message.toolCalls.map(toolCall => ({
+            id: toolCall.id,
+            type: 'function',
+            function: {
+              name: toolCall.function?.name,
+              arguments: toolCall.function?.arguments || '{}'
+            }
+          }))
+        };
+      }
+
+      if (typeof message.content === 'string' || message.role !== 'user') {
+        return { role: message.role, content: this.getTextContent(message.content) };
+      }
+
+      return {
+        role: message.role,
+        content: message.content.map(part => this.toChatContentPart(part))
+      };
+    });
+  }
+
+  /**
+   * Convert a content part to the OpenAI chat-completions format.
+   * Override for providers with a different image or document shape.
+   */
+  protected toChatContentPart(part: ContentPart): any {
+    switch (part.type) {
+      case 'text':
+        return { type: 'text', text: part.text };
+      case 'image':
+        return { type: 'image_url', image_url: { url: this.toMediaUrl(this.resolveMedia(part.image, part.mimeType, 'image/png')) } };
+      case 'document':
+        return {
+          type: 'file',
+          file: {
+            filename: part.name || 'document.pdf',
+            file_data: this.toMediaUrl(this.resolveMedia(part.data, part.mimeType, 'application/pdf'))
+          }
+        };
+    }
+  }
+
+  /**
+   * Flatten message content to plain text, ignoring media parts
+   */
+  protected getTextContent(content: MessageContent): string {
+    if (typeof content === 'string') {
+      return content;
+    }
+    return content
+      .filter((part): part is Extract<ContentPart, { type: 'text' }> => part.type === 'text')
+      .map(part => part.text)
+      .join('\n');
+  }
+
+  /**
+   * Reject image and document input early for models whose registry
+   * entry says they cannot read it
+   */
+  protected assertContentSupported(prompt: PromptInput, model: string): void {
+    if (typeof prompt === 'string') return;
+
+    const hasMedia = prompt.some(message =>
+      Array.isArray(message.content) && message.content.some(part => part.type !== 'text')
+    );
+    if (!hasMedia) return;
+
+    const modelSpec = this.findModelSpec(model);
+    if (modelSpec && !modelSpec.capabilities.supportsImages) {
+      throw new InvalidRequestError(
+        `Model ${model} does not support image or document input`,
+        this.name,
+        { code: 'UNSUPPORTED_CONTENT' }
+      );
+    }
+  }
+
+  /**
+   * Registry entry for a model requested from this adapter. Adapters whose
+   * model names are aliases (deployments) override this.
+   */
+  findModelSpec(model: string): ModelSpec | undefined {
+    return ModelRegistry.findModel(this.name, model);
+  }
+
+  /**
+   * Resolve image or document data into a URL or base64 payload with a MIME type
+   */
+  protected resolveMedia(data: string | Uint8Array, mimeType?: string, fallbackMimeType = 'application/octet-stream'): ResolvedMedia {
+    if (typeof data !== 'string') {
+      const bytes = Buffer.from(data);
+      return {
+        type: 'base64',
+        data: bytes.toString('base64'),
+        mimeType: mimeType || this.detectMimeType(bytes) || fallbackMimeType
+      };
+    }
+
+    const dataUrl = /^data:([^;,]+)?(;base64)?,(.*)$/s.exec(data);
+    if (dataUrl) {
+      const payload = dataUrl[2] ? dataUrl[3] || '' : Buffer.from(decodeURIComponent(dataUrl[3] || '')).toString('base64');
+      return {
+        type: 'base64',
+        data: payload,
+        mimeType: mimeType || dataUrl[1] || fallbackMimeType
+      };
+    }
+
+    if (/^(https?|gs):\/\//i.test(data)) {
+      return {
+        type: 'url',
+        url: data,
+        mimeType: mimeType || this.detectMimeTypeFromUrl(data) || fallbackMimeType
+      };
+    }
+
+    // Plain base64 string
+    return {
+      type: 'base64',
+      data,
+      mimeType: mimeType || this.detectMimeType(Buffer.from(data.slice(0, 32), 'base64')) || fallbackMimeType
+    };
+  }
+
+  protected toMediaUrl(media: ResolvedMedia): string {
+    return media.type === 'url' ? media.url : `data:${media.mimeType};base64,${media.data}`;
+  }
+
+  private detectMimeType(bytes: Buffer): string | undefined {
+    if (bytes.length >= 4 && bytes[0] === 0x89 && bytes.toString('ascii', 1, 4) === 'PNG') return 'image/png';
+    if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+    if (bytes.toString('ascii', 0, 3) === 'GIF') return 'image/gif';
+    if (bytes.toString('ascii', 0, 4) === 'RIFF' && bytes.toString('ascii', 8, 12) === 'WEBP') return 'image/webp';
+    if (bytes.toString('ascii', 0, 4) === '%PDF') return 'application/pdf';
+    return undefined;
+  }
+
+  private detectMimeTypeFromUrl(url: string): string | undefined {
+    const extension = url.split(/[?#]/)[0]?.split('.').pop()?.toLowerCase();
+    const mimeTypes: Record<string, string> = {
+      'png': 'image/png',
+      'jpg': 'image/jpeg',
+      'jpeg': 'image/jpeg',
+      'gif': 'image/gif',
+      'webp': 'image/webp',
+      'pdf': 'application/pdf',
+      'txt': 'text/plain'
+    };
+    return extension ? mimeTypes[extension] : undefined;
+  }
+
+  /**
+   * Parse tool call arguments, tolerating empty or malformed JSON
+   */
+  protected parseToolArguments(args?: string): Record<string, any> {
+    if (!args) return {};
+    try {
+      const parsed = JSON.parse(args);
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+      return {};
+    }
+  }
+
   protected extractUsage(response: any): TokenUsage | undefined {
     // Default implementation - override in specific adapters
     if (response.usage) {
+      const reasoningTokens = response.usage.completion_tokens_details?.reasoning_tokens
+        ?? response.usage.output_tokens_details?.reasoning_tokens;
       return {
         promptTokens: response.usage.prompt_tokens || response.usage.input_tokens || 0,
         completionTokens: response.usage.completion_tokens || response.usage.output_tokens || 0,
-        totalTokens: response.usage.total_tokens || 0
+        totalTokens: response.usage.total_tokens || 0,
+        ...(reasoningTokens ? { reasoningTokens } : {})
       };
     }
     return undefined;
@@ -340,34 +1389,130 @@ export abstract class BaseAdapter {
   }
 
   // Rate limiting and retry logic
+
+  /**
+   * Run a provider call through the shared RetryManager, behind a circuit
+   * breaker per provider and model so a failing endpoint fails fast with
+   * CIRCUIT_OPEN instead of spending retries on every call. The operation
+   * gets the key to send with its request, from the key pool when there is one.
+   */
   protected async withRetry<T>(
-    operation: () => Promise<T>,
-    maxRetries: number = 3,
-    baseDelay: number = 1000
+    operation: (apiKey: string) => Promise<T>,
+    options: {
+      maxRetries?: number;
+      baseDelay?: number;
+      maxDelay?: number;
+      model?: string | undefined;
+      signal?: AbortSignal | undefined;
+    } = {}
   ): Promise<T> {
-    let lastError: Error;
-    
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    const defaults = this.getRetryDefaults();
+    const {
+      maxRetries = defaults.maxRetries,
+      baseDelay = defaults.baseDelay,
+      maxDelay = defaults.maxDelay,
+      model = this.currentModel,
+      signal
+    } = options;
+    this.throwIfAborted(signal);
+
+    // Client errors (bad keys, invalid requests, oversized prompts) fail the same way every time
+    const isProviderFailure = (error: any) => !this.isAbortError(error) && RateLimitUtils.isRetryable(error);
+    const retryConfig: Partial<RetryConfig> = {
+      maxAttempts: maxRetries + 1,
+      baseDelay,
+      maxDelay,
+      jitter: defaults.jitter,
+      signal,
+      // Wait as long as the provider asks, but give up rather than sleep past maxDelay
+      retryCondition: error => isProviderFailure(error) && !((RateLimitUtils.getRetryAfterMs(error) ?? 0) > maxDelay)
+    };
+
+    const attempt = this.keyPool ? () => this.withPooledKey(operation) : () => operation(this.apiKey);
+
+    try {
+      const retryManager = RetryManager.getInstance();
+      if (!defaults.circuitBreaker.enabled) {
+        return await retryManager.withRetry(attempt, retryConfig, this.getCircuitName(model));
+      }
+      return await retryManager.withRetryAndCircuitBreaker(attempt, this.getCircuitName(model), retryConfig, {
+        failureThreshold: defaults.circuitBreaker.failureThreshold,
+        resetTimeout: defaults.circuitBreaker.resetTimeout,
+        monitoringPeriod: defaults.circuitBreaker.monitoringPeriod,
+        isFailure: isProviderFailure
+      });
+    } catch (error) {
+      // Never retry once the caller has cancelled
+      if (signal?.aborted || this.isAbortError(error)) {
+        throw error instanceof LLMProviderError ? error : this.createAbortError(error);
+      }
+      if (error instanceof CircuitOpenError) {
+        throw new LLMProviderError(
+          `${this.name} requests for ${model} are failing; circuit is open until ${new Date(error.retryAt).toISOString()}`,
+          this.name,
+          'CIRCUIT_OPEN',
+          error
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run one attempt with a key from the pool. A rate-limited key is rested and
+   * the attempt moves straight on to the next ready key; once none is ready,
+   * the error goes to the retry policy. The key only travels with this
+   * request, so concurrent requests never see each other's key.
+   */
+  private async withPooledKey<T>(operation: (apiKey: string) => Promise<T>): Promise<T> {
+    const pool = this.keyPool!;
+
+    for (;;) {
+      const key = pool.acquire();
       try {
-        return await operation();
+        const result = await operation(key);
+        pool.reportSuccess(key);
+        return result;
       } catch (error) {
-        lastError = error as Error;
-        
-        // Don't retry on certain errors
-        if (error instanceof LLMProviderError) {
-          if (['AUTHENTICATION_ERROR', 'PERMISSION_ERROR', 'MISSING_API_KEY'].includes(error.code || '')) {
-            throw error;
-          }
-        }
-        
-        if (attempt < maxRetries) {
-          const delay = baseDelay * Math.pow(2, attempt);
-          console.warn(`Attempt ${attempt + 1} failed, retrying in ${delay}ms...`);
-          await new Promise(resolve => setTimeout(resolve, delay));
+        pool.reportFailure(key, error);
+        if (!ApiKeyPool.isRateLimitError(error) || !pool.hasAvailableKey()) {
+          throw error;
         }
       }
     }
-    
-    throw lastError!;
   }
-}
\ No newline at end of file
+
+  /**
+   * Circuit breaker statistics for a model (the current model by default)
+   */
+  getCircuitStats(model: string = this.currentModel): CircuitStats | null {
+    return RetryManager.getInstance().getCircuitStats(this.getCircuitName(model));
+  }
+
+  /**
+   * Close the circuit for a model, e.g. after fixing a misconfiguration
+   */
+  resetCircuit(model: string = this.currentModel): void {
+    RetryManager.getInstance().resetCircuit(this.getCircuitName(model));
+  }
+
+  protected getCircuitName(model: string): string {
+    return `${this.name}:${model}`;
+  }
+
+  /**
+   * Retry defaults from ConfigManager, or the built-in ones when no
+   * configuration can be loaded
+   */
+  private getRetryDefaults(): RetryDefaults {
+    if (!BaseAdapter.retryConfigUnavailable) {
+      try {
+        return ConfigManager.getInstance().getRetryConfig();
+      } catch {
+        // ConfigManager rejects setups it considers incomplete; don't rebuild it on every call
+        BaseAdapter.retryConfigUnavailable = true;
+      }
+    }
+    return DEFAULT_RETRY_CONFIG;
+  }
+}
@@ -15,6 +15,8 @@ import { MISTRAL_MODELS, MISTRAL_DEFAULT_MODEL } from './mistral/MistralModels';
 import { OPENROUTER_MODELS, OPENROUTER_DEFAULT_MODEL } from './openrouter/OpenRouterModels';
 import { REQUESTY_MODELS, REQUESTY_DEFAULT_MODEL } from './requesty/RequestyModels';
 import { GROQ_MODELS, GROQ_DEFAULT_MODEL } from './groq/GroqModels';
+import { GROK_MODELS, GROK_DEFAULT_MODEL } from './grok/GrokModels';
+import { PERPLEXITY_MODELS, PERPLEXITY_DEFAULT_MODEL } from './perplexity/PerplexityModels';
 
 // Re-export ModelSpec for convenience
 export { ModelSpec };
@@ -30,7 +32,9 @@ export const AI_MODELS: Record<string, ModelSpec[]> = {
   mistral: MISTRAL_MODELS,
   openrouter: OPENROUTER_MODELS,
   requesty: REQUESTY_MODELS,
-  groq: GROQ_MODELS
+  groq: GROQ_MODELS,
+  grok: GROK_MODELS,
+  perplexity: PERPLEXITY_MODELS
 };
 
 /**
@@ -124,5 +128,7 @@ export const DEFAULT_MODELS: Record<string, string> = {
   mistral: MISTRAL_DEFAULT_MODEL,
   openrouter: OPENROUTER_DEFAULT_MODEL,
   requesty: REQUESTY_DEFAULT_MODEL,
-  groq: GROQ_DEFAULT_MODEL
+  groq: GROQ_DEFAULT_MODEL,
+  grok: GROK_DEFAULT_MODEL,
+  perplexity: PERPLEXITY_DEFAULT_MODEL
 };
\ No newline at end of file
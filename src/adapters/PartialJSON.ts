@@ -0,0 +1,296 @@
+/**
+ * Incremental JSON parsing for streamed structured output
+ * Builds progressively more complete values from JSON text as it arrives
+ */
+
+export interface ArrayElement {
+  path: string; // JSON pointer to the array ('' is the root)
+  index: number;
+  element: any;
+}
+
+export interface PartialJSONUpdate {
+  changed: boolean; // Whether the partial value differs from the previous update
+  elements: ArrayElement[]; // Array elements completed by this update
+}
+
+interface Frame {
+  kind: 'object' | 'array';
+  value: any;
+  path: string;
+  state: 'key' | 'colon' | 'value' | 'next';
+  key?: string;
+  complete: () => void; // Called when the container closes
+}
+
+type Token =
+  | { kind: 'key'; text: string; escape: string | null }
+  | { kind: 'string'; text: string; escape: string | null; assign: (value: any) => void; complete: () => void }
+  | { kind: 'literal'; text: string; assign: (value: any) => void; complete: () => void };
+
+const ESCAPES: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+/**
+ * Tolerant, incremental JSON parser. Each character is processed once; after
+ * every push the current value reflects everything received so far, with
+ * unfinished strings and numbers included as far as they have arrived.
+ * Leading prose or a markdown code fence before the value is skipped.
+ */
+export class PartialJSONParser {
+  private stack: Frame[] = [];
+  private root: any;
+  private started = false;
+  private finished = false;
+  private token: Token | null = null;
+  private inFence = false;
+  private sawLeadingText = false;
+  private changed = false;
+  private elements: ArrayElement[] = [];
+
+  push(text: string): PartialJSONUpdate {
+    for (const char of text) {
+      this.processChar(char);
+    }
+    return this.flush();
+  }
+
+  /**
+   * Finish a trailing top-level literal (e.g. a bare number) at end of input
+   */
+  end(): PartialJSONUpdate {
+    if (this.token?.kind === 'literal') {
+      this.finishLiteral();
+    }
+    return this.flush();
+  }
+
+  /**
+   * Snapshot of the value parsed so far (undefined before it starts)
+   */
+  get value(): any {
+    return this.root === undefined ? undefined : clone(this.root);
+  }
+
+  get isComplete(): boolean {
+    return this.finished;
+  }
+
+  private flush(): PartialJSONUpdate {
+    const update = { changed: this.changed, elements: this.elements };
+    this.changed = false;
+    this.elements = [];
+    return update;
+  }
+
+  private processChar(char: string): void {
+    if (this.finished) return;
+
+    const token = this.token;
+    if (token && token.kind !== 'literal') {
+      this.processStringChar(token, char);
+      return;
+    }
+    if (token?.kind === 'literal') {
+      if (/[0-9a-zA-Z+\-.]/.test(char)) {
+        token.text += char;
+        this.assignLiteral(token, false);
+        return;
+      }
+      this.finishLiteral();
+      if (this.finished) return;
+    }
+
+    if (!this.started && !this.acceptsRootStart(char)) return;
+    if (/\s/.test(char)) return;
+
+    const frame = this.stack[this.stack.length - 1];
+    switch (char) {
+      case '{':
+      case '[': {
+        const value = char === '{' ? {} : [];
+        const slot = this.openSlot();
+        if (!slot) return;
+        slot.assign(value);
+        this.stack.push({
+          kind: char === '{' ? 'object' : 'array',
+          value,
+          path: slot.path,
+          state: char === '{' ? 'key' : 'value',
+          complete: slot.complete
+        });
+        return;
+      }
+
+      case '}':
+      case ']':
+        if (frame && frame.kind === (char === '}' ? 'object' : 'array')) {
+          this.stack.pop();
+          frame.complete();
+        }
+        return;
+
+      case '"':
+        if (frame?.kind === 'object' && frame.state === 'key') {
+          this.token = { kind: 'key', text: '', escape: null };
+          return;
+        }
+        {
+          const slot = this.openSlot();
+          if (!slot) return;
+          slot.assign('');
+          this.token = { kind: 'string', text: '', escape: null, assign: slot.assign, complete: slot.complete };
+        }
+        return;
+
+      case ':':
+        if (frame?.kind === 'object' && frame.state === 'colon') frame.state = 'value';
+        return;
+
+      case ',':
+        if (frame?.state === 'next') frame.state = frame.kind === 'object' ? 'key' : 'value';
+        return;
+
+      default:
+        if (/[-0-9tfn]/.test(char)) {
+          const slot = this.openSlot();
+          if (!slot) return;
+          this.token = { kind: 'literal', text: char, assign: slot.assign, complete: slot.complete };
+          this.assignLiteral(this.token, false);
+        }
+    }
+  }
+
+  /**
+   * Skip code fences and prose before the root value. Bare literals are only
+   * accepted as the root when nothing but whitespace or a fence precedes them.
+   */
+  private acceptsRootStart(char: string): boolean {
+    if (this.inFence) {
+      if (char === '\n') this.inFence = false;
+      return false;
+    }
+    if (char === '`') {
+      this.inFence = true;
+      return false;
+    }
+    if (/\s/.test(char)) return false;
+    if (char === '{' || char === '[') return true;
+    if (!this.sawLeadingText && /["\-0-9tfn]/.test(char)) return true;
+    this.sawLeadingText = true;
+    return false;
+  }
+
+  private processStringChar(token: Exclude<Token, { kind: 'literal' }>, char: string): void {
+    if (token.escape !== null) {
+      token.escape += char;
+      if (token.escape[0] === 'u') {
+        if (token.escape.length < 5) return;
+        token.text += String.fromCharCode(parseInt(token.escape.slice(1), 16) || 0);
+      } else {
+        token.text += ESCAPES[char] ?? char;
+      }
+      token.escape = null;
+    } else if (char === '\\') {
+      token.escape = '';
+      return;
+    } else if (char === '"') {
+      this.token = null;
+      if (token.kind === 'key') {
+        const frame = this.stack[this.stack.length - 1]!;
+        frame.key = token.text;
+        frame.state = 'colon';
+      } else {
+        token.complete();
+      }
+      return;
+    } else {
+      token.text += char;
+    }
+
+    if (token.kind === 'string') {
+      token.assign(token.text);
+    }
+  }
+
+  private finishLiteral(): void {
+    const token = this.token as Extract<Token, { kind: 'literal' }>;
+    this.token = null;
+    this.assignLiteral(token, true);
+    token.complete();
+  }
+
+  /**
+   * Numbers are exposed while they stream; true/false/null only once complete
+   */
+  private assignLiteral(token: Extract<Token, { kind: 'literal' }>, final: boolean): void {
+    const keywords: Record<string, any> = { true: true, false: false, null: null };
+    if (token.text in keywords) {
+      token.assign(keywords[token.text]);
+      return;
+    }
+    const number = Number(token.text);
+    if (/^-?\d/.test(token.text) && !isNaN(number) && (final || !/[eE+\-]$/.test(token.text))) {
+      token.assign(number);
+    }
+  }
+
+  /**
+   * Reserve the position for the next value in the current container (or the
+   * root) and return how to assign it and what to do once it is complete
+   */
+  private openSlot(): { assign: (value: any) => void; complete: () => void; path: string } | undefined {
+    const frame = this.stack[this.stack.length - 1];
+
+    if (!frame) {
+      if (this.started) return undefined;
+      this.started = true;
+      return {
+        path: '',
+        assign: value => {
+          this.root = value;
+          this.changed = true;
+        },
+        complete: () => {
+          this.finished = true;
+        }
+      };
+    }
+
+    if (frame.state !== 'value') return undefined;
+    frame.state = 'next';
+
+    if (frame.kind === 'object') {
+      const container = frame.value;
+      const key = frame.key ?? '';
+      return {
+        path: `${frame.path}/${escapePointer(key)}`,
+        assign: value => {
+          container[key] = value;
+          this.changed = true;
+        },
+        complete: () => {}
+      };
+    }
+
+    const container: any[] = frame.value;
+    const index = container.length;
+    return {
+      path: `${frame.path}/${index}`,
+      assign: value => {
+        container[index] = value;
+        this.changed = true;
+      },
+      complete: () => {
+        this.elements.push({ path: frame.path, index, element: clone(container[index]) });
+      }
+    };
+  }
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,158 @@
+/**
+ * Schema Builder
+ * Builds JSON Schemas whose TypeScript type is inferred, for generateObject
+ *
+ * @example
+ * const person = s.object({
+ *   name: s.string(),
+ *   role: s.enum(['admin', 'user']),
+ *   tags: s.array(s.string()).optional()
+ * });
+ * type Person = Infer<typeof person>; // { name: string; role: 'admin' | 'user'; tags?: string[] }
+ */
+
+export type JsonSchema = Record<string, any>;
+
+/**
+ * A JSON Schema paired with the TypeScript type of the values it accepts.
+ * `Optional` marks properties that may be omitted from an object.
+ */
+export class SchemaType<T, Optional extends boolean = false> {
+  /** Compile-time only: carries the inferred type */
+  declare readonly _type: T;
+
+  constructor(
+    readonly jsonSchema: JsonSchema,
+    readonly isOptional: Optional = false as Optional
+  ) {}
+
+  describe(description: string): SchemaType<T, Optional> {
+    return new SchemaType<T, Optional>({ ...this.jsonSchema, description }, this.isOptional);
+  }
+
+  /**
+   * Allow the property to be omitted when used inside s.object()
+   */
+  optional(): SchemaType<T, true> {
+    return new SchemaType<T, true>(this.jsonSchema, true);
+  }
+
+  nullable(): SchemaType<T | null, Optional> {
+    return new SchemaType<T | null, Optional>({ anyOf: [this.jsonSchema, { type: 'null' }] }, this.isOptional);
+  }
+}
+
+export type AnySchemaType = SchemaType<any, boolean>;
+
+export type Infer<S extends AnySchemaType> = S['_type'];
+
+type ObjectShape = Record<string, AnySchemaType>;
+
+type RequiredKeys<S extends ObjectShape> = { [K in keyof S]: S[K] extends SchemaType<any, true> ? never : K }[keyof S];
+type OptionalKeys<S extends ObjectShape> = Exclude<keyof S, RequiredKeys<S>>;
+
+type Flatten<T> = { [K in keyof T]: T[K] } & {};
+
+export type InferShape<S extends ObjectShape> = Flatten<
+  { [K in RequiredKeys<S>]: Infer<S[K]> } &
+  { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+interface StringConstraints {
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: 'date-time' | 'date' | 'time' | 'duration' | 'email' | 'hostname' | 'ipv4' | 'ipv6' | 'uri' | 'uuid';
+}
+
+interface NumberConstraints {
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+}
+
+interface ArrayConstraints {
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+}
+
+type Literal = string | number | boolean | null;
+
+export const s = {
+  string(constraints: StringConstraints = {}): SchemaType<string> {
+    return new SchemaType({ type: 'string', ...constraints });
+  },
+
+  number(constraints: NumberConstraints = {}): SchemaType<number> {
+    return new SchemaType({ type: 'number', ...constraints });
+  },
+
+  integer(constraints: NumberConstraints = {}): SchemaType<number> {
+    return new SchemaType({ type: 'integer', ...constraints });
+  },
+
+  boolean(): SchemaType<boolean> {
+    return new SchemaType({ type: 'boolean' });
+  },
+
+  null(): SchemaType<null> {
+    return new SchemaType({ type: 'null' });
+  },
+
+  literal<const V extends Literal>(value: V): SchemaType<V> {
+    return new SchemaType({ const: value });
+  },
+
+  enum<const V extends readonly [string, ...string[]]>(values: V): SchemaType<V[number]> {
+    return new SchemaType({ type: 'string', enum: [...values] });
+  },
+
+  array<I extends AnySchemaType>(items: I, constraints: ArrayConstraints = {}): SchemaType<Infer<I>[]> {
+    return new SchemaType({ type: 'array', items: items.jsonSchema, ...constraints });
+  },
+
+  /**
+   * Object with a fixed set of properties; additional properties are rejected
+   */
+  object<S extends ObjectShape>(shape: S): SchemaType<InferShape<S>> {
+    const properties: JsonSchema = {};
+    const required: string[] = [];
+    for (const [key, value] of Object.entries(shape)) {
+      properties[key] = value.jsonSchema;
+      if (!value.isOptional) required.push(key);
+    }
+    return new SchemaType({ type: 'object', properties, required, additionalProperties: false });
+  },
+
+  union<const O extends readonly [AnySchemaType, ...AnySchemaType[]]>(options: O): SchemaType<Infer<O[number]>> {
+    return new SchemaType({ anyOf: options.map(option => option.jsonSchema) });
+  },
+
+  /**
+   * Union of objects told apart by a literal discriminator property, e.g.
+   * s.discriminatedUnion('kind', [s.object({ kind: s.literal('circle'), ... }), ...])
+   */
+  discriminatedUnion<
+    D extends string,
+    const O extends readonly [SchemaType<Record<D, Literal>>, ...SchemaType<Record<D, Literal>>[]]
+  >(discriminator: D, options: O): SchemaType<Infer<O[number]>> {
+    const seen = new Set<string>();
+    for (const option of options) {
+      const tag = option.jsonSchema.properties?.[discriminator];
+      if (!tag || !('const' in tag)) {
+        throw new Error(`Every discriminatedUnion option needs a literal '${discriminator}' property`);
+      }
+      const key = JSON.stringify(tag.const);
+      if (seen.has(key)) {
+        throw new Error(`Duplicate discriminator value ${key} in discriminatedUnion`);
+      }
+      seen.add(key);
+    }
+    // anyOf rather than oneOf: the literal tags already make branches exclusive
+    // and anyOf is accepted by every provider's structured-output mode
+    return new SchemaType({ anyOf: options.map(option => option.jsonSchema) });
+  }
+};
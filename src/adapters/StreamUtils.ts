@@ -0,0 +1,261 @@
+/**
+ * Streaming helpers shared by adapters
+ * Server-sent event and NDJSON parsing, OpenAI-style chunk accumulation and <think> tag splitting
+ */
+
+import { StreamEvent, ToolCall } from './types';
+
+export interface SSEMessage {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Parse a server-sent event stream into messages.
+ * Buffers across chunk boundaries so events split between reads are not lost.
+ */
+export async function* parseSSE(source: AsyncIterable<Uint8Array | string>): AsyncGenerator<SSEMessage> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event: string | undefined;
+  let data: string[] = [];
+
+  function* processLine(line: string): Generator<SSEMessage> {
+    if (line === '') {
+      if (data.length > 0) {
+        yield event ? { event, data: data.join('\n') } : { data: data.join('\n') };
+      }
+      event = undefined;
+      data = [];
+      return;
+    }
+    if (line.startsWith(':')) return; // Comment / keep-alive
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    let value = separator === -1 ? '' : line.slice(separator + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    if (field === 'event') event = value;
+    if (field === 'data') data.push(value);
+  }
+
+  for await (const chunk of source) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+
+    let newline = buffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+      yield* processLine(line);
+      newline = buffer.indexOf('\n');
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer) {
+    yield* processLine(buffer.replace(/\r$/, ''));
+  }
+  yield* processLine('');
+}
+
+/**
+ * Parse an SSE stream of JSON payloads, stopping at the OpenAI-style [DONE] marker
+ */
+export async function* parseSSEJson(source: AsyncIterable<Uint8Array | string>): AsyncGenerator<any> {
+  for await (const message of parseSSE(source)) {
+    if (message.data === '[DONE]') return;
+    try {
+      yield JSON.parse(message.data);
+    } catch {
+      // Skip non-JSON payloads
+    }
+  }
+}
+
+/**
+ * Parse a newline-delimited JSON stream (Ollama) into objects.
+ * Buffers across chunk boundaries; lines that are not JSON are skipped.
+ */
+export async function* parseNDJSON(source: AsyncIterable<Uint8Array | string>): AsyncGenerator<any> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  function* parseLine(line: string): Generator<any> {
+    if (!line.trim()) return;
+    try {
+      yield JSON.parse(line);
+    } catch {
+      // Skip non-JSON lines
+    }
+  }
+
+  for await (const chunk of source) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+
+    let newline = buffer.indexOf('\n');
+    while (newline !== -1) {
+      yield* parseLine(buffer.slice(0, newline));
+      buffer = buffer.slice(newline + 1);
+      newline = buffer.indexOf('\n');
+    }
+  }
+
+  yield* parseLine(buffer + decoder.decode());
+}
+
+/**
+ * Accumulates OpenAI chat-completion stream chunks into text, reasoning and
+ * tool calls, translating each chunk into stream events as it arrives.
+ * Tool calls are emitted as complete events once the choice finishes.
+ */
+export class ChatCompletionStreamAccumulator {
+  text = '';
+  reasoning = '';
+  finishReason: string | null = null;
+  model: string | undefined;
+
+  private toolCallsByIndex = new Map<number, ToolCall>();
+  private toolCallsEmitted = false;
+
+  push(chunk: any): StreamEvent[] {
+    const events: StreamEvent[] = [];
+    if (chunk.model) this.model = chunk.model;
+
+    const choice = chunk.choices?.[0];
+    const delta = choice?.delta;
+
+    if (delta?.content) {
+      this.text += delta.content;
+      events.push({ type: 'text-delta', text: delta.content });
+    }
+
+    const reasoningDelta = delta?.reasoning_content ?? delta?.reasoning;
+    if (typeof reasoningDelta === 'string' && reasoningDelta) {
+      this.reasoning += reasoningDelta;
+      events.push({ type: 'reasoning-delta', text: reasoningDelta });
+    }
+
+    for (const part of delta?.tool_calls || []) {
+      const index: number = part.index ?? this.toolCallsByIndex.size;
+      let toolCall = this.toolCallsByIndex.get(index);
+      if (!toolCall) {
+        toolCall = {
+          id: part.id || `call_${index}`,
+          type: 'function',
+          function: { name: part.function?.name || '', arguments: '' }
+        };
+        this.toolCallsByIndex.set(index, toolCall);
+      } else {
+        if (part.id) toolCall.id = part.id;
+        if (part.function?.name) toolCall.function!.name = part.function.name;
+      }
+
+      const argumentsDelta: string = part.function?.arguments || '';
+      toolCall.function!.arguments += argumentsDelta;
+      events.push({
+        type: 'tool-call-delta',
+        index,
+        toolCallId: toolCall.id,
+        toolName: toolCall.function!.name,
+        argumentsDelta
+      });
+    }
+
+    if (choice?.finish_reason) {
+      this.finishReason = choice.finish_reason;
+      events.push(...this.flushToolCalls());
+    }
+
+    return events;
+  }
+
+  /**
+   * Emit completed tool calls that have not been emitted yet
+   */
+  flushToolCalls(): StreamEvent[] {
+    if (this.toolCallsEmitted) return [];
+    this.toolCallsEmitted = true;
+    return this.toolCalls.map(toolCall => ({ type: 'tool-call', toolCall }));
+  }
+
+  get toolCalls(): ToolCall[] {
+    return [...this.toolCallsByIndex.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, toolCall]) => toolCall);
+  }
+}
+
+/**
+ * Separates reasoning wrapped in <think>...</think> (Perplexity sonar-reasoning
+ * and other R1-style models) from the answer text as content streams in.
+ * A tag split across chunks is held back until it can be recognised.
+ */
+export class ThinkTagSplitter {
+  text = '';
+  reasoning = '';
+
+  private inThink = false;
+  private pending = '';
+
+  push(content: string): StreamEvent[] {
+    const events: StreamEvent[] = [];
+    let buffer = this.pending + content;
+    this.pending = '';
+
+    while (buffer) {
+      const tag = this.inThink ? '</think>' : '<think>';
+      const index = buffer.indexOf(tag);
+      if (index !== -1) {
+        this.emit(buffer.slice(0, index), events);
+        this.inThink = !this.inThink;
+        buffer = buffer.slice(index + tag.length);
+        continue;
+      }
+
+      // Hold back a trailing partial tag
+      let keep = Math.min(tag.length - 1, buffer.length);
+      while (keep > 0 && !tag.startsWith(buffer.slice(-keep))) keep--;
+      this.emit(buffer.slice(0, buffer.length - keep), events);
+      this.pending = buffer.slice(buffer.length - keep);
+      break;
+    }
+
+    return events;
+  }
+
+  /**
+   * Release any held-back text at the end of the stream
+   */
+  flush(): StreamEvent[] {
+    const events: StreamEvent[] = [];
+    this.emit(this.pending, events);
+    this.pending = '';
+    return events;
+  }
+
+  private emit(text: string, events: StreamEvent[]): void {
+    if (this.inThink) {
+      if (!text) return;
+      this.reasoning += text;
+      events.push({ type: 'reasoning-delta', text });
+      return;
+    }
+
+    // Drop the whitespace between the closing tag and the answer
+    const delta = this.text ? text : text.trimStart();
+    if (!delta) return;
+    this.text += delta;
+    events.push({ type: 'text-delta', text: delta });
+  }
+}
+
+/**
+ * Split a complete response into <think> reasoning and answer text
+ */
+export function splitThinkTags(content: string): { text: string; reasoning: string } {
+  const splitter = new ThinkTagSplitter();
+  splitter.push(content);
+  splitter.flush();
+  return { text: splitter.text, reasoning: splitter.reasoning.trim() };
+}
@@ -0,0 +1,98 @@
+/**
+ * Cancellation Tests
+ * Verifies AbortSignal stops requests, retries, streams and rate-limiter waits
+ * Runs offline - provider responses are stubbed
+ */
+
+import { MistralAdapter } from '../mistral/MistralAdapter';
+import { GrokAdapter } from '../grok/GrokAdapter';
+import { StreamEvent } from '../types';
+
+describe('AbortSignal cancellation', () => {
+  const envKeys = ['MISTRAL_API_KEY', 'XAI_API_KEY'];
+  const originalEnv: Record<string, string | undefined> = {};
+  const originalFetch = global.fetch;
+
+  beforeAll(() => {
+    for (const key of envKeys) {
+      originalEnv[key] = process.env[key];
+      process.env[key] = process.env[key] || 'test-key';
+    }
+  });
+
+  afterAll(() => {
+    for (const key of envKeys) {
+      if (originalEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = originalEnv[key];
+      }
+    }
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('should reject with ABORTED without calling the provider when already aborted', async () => {
+    const fetchMock = jest.fn();
+    global.fetch = fetchMock as any;
+    const controller = new AbortController();
+    controller.abort();
+
+    const adapter = new MistralAdapter();
+    await expect(adapter.generate('Hello', { disableCache: true, signal: controller.signal }))
+      .rejects.toMatchObject({ code: 'ABORTED' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  test('should pass the signal to fetch and stop retrying once aborted', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({ ok: false, status: 500, statusText: 'Server Error' });
+    global.fetch = fetchMock as any;
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+
+    const adapter = new MistralAdapter();
+    const started = Date.now();
+    await expect(adapter.generate('Hello', { disableCache: true, signal: controller.signal }))
+      .rejects.toMatchObject({ code: 'ABORTED' });
+
+    expect(Date.now() - started).toBeLessThan(1000); // First backoff is 1s
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][1].signal).toBe(controller.signal);
+  });
+
+  test('should end a stream with an ABORTED error event', async () => {
+    const controller = new AbortController();
+    async function* body() {
+      yield `data: ${JSON.stringify({ choices: [{ delta: { content: 'Hel' } }] })}\n\n`;
+      controller.abort();
+      const error = new Error('This operation was aborted');
+      error.name = 'AbortError';
+      throw error;
+    }
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, body: body() }) as any;
+
+    const adapter = new MistralAdapter();
+    const events: StreamEvent[] = [];
+    for await (const event of adapter.stream('Hello', { signal: controller.signal })) {
+      events.push(event);
+    }
+
+    expect(events.map(e => e.type)).toEqual(['text-delta', 'error']);
+    expect((events[1] as any).error.code).toBe('ABORTED');
+  });
+
+  test('should abandon a Grok rate-limiter wait when aborted', async () => {
+    const adapter = new GrokAdapter();
+    const limiter = (adapter as any).rateLimiter;
+    limiter.requestQueue = Array.from({ length: 60 }, () => ({ timestamp: Date.now(), resolve: () => {}, reject: () => {} }));
+
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(adapter.generate('Hello', { disableCache: true, signal: controller.signal }))
+      .rejects.toMatchObject({ code: 'ABORTED' });
+    expect(limiter.requestQueue).toHaveLength(60);
+  });
+});
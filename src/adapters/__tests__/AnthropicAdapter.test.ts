@@ -11,7 +11,8 @@ describe('Anthropic Claude Adapter', () => {
   let adapter: AnthropicAdapter;
 
   beforeAll(() => {
-    adapter = new AnthropicAdapter();
+    const cassette = BaseAdapterTest.cassette('anthropic');
+    adapter = new AnthropicAdapter(undefined, cassette.providerConfig());
     adapterTest = new BaseAdapterTest(adapter, 'anthropic', 'ANTHROPIC_API_KEY');
   });
 
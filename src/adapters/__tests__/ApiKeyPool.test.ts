@@ -0,0 +1,155 @@
+/**
+ * API Key Pool Tests
+ * Verifies key selection, cooldown after rate limits, counters and masking
+ * Runs offline - provider responses are stubbed
+ */
+
+import { MistralAdapter } from '../mistral/MistralAdapter';
+import { OpenAIAdapter } from '../openai/OpenAIAdapter';
+import { ApiKeyPool } from '../../utils/ApiKeyPool';
+import { RetryManager } from '../../utils/RetryManager';
+import { RateLimitError } from '../types';
+
+function jsonResponse(status: number, body: any, headers: Record<string, string> = {}) {
+  return {
+    ok: status < 400,
+    status,
+    statusText: status < 400 ? 'OK' : 'Error',
+    headers: new Headers(headers),
+    json: async () => body,
+    text: async () => JSON.stringify(body)
+  };
+}
+
+const completion = {
+  model: 'mistral-large-latest',
+  choices: [{ message: { content: 'Hello' }, finish_reason: 'stop' }],
+  usage: { prompt_tokens: 5, completion_tokens: 1, total_tokens: 6 }
+};
+
+describe('ApiKeyPool', () => {
+  test('should rotate keys and skip keys cooling down after a rate limit', () => {
+    const pool = new ApiKeyPool(['key-aaaa', 'key-bbbb', 'key-cccc']);
+
+    expect([pool.acquire(), pool.acquire(), pool.acquire(), pool.acquire()])
+      .toEqual(['key-aaaa', 'key-bbbb', 'key-cccc', 'key-aaaa']);
+
+    pool.reportFailure('key-bbbb', new RateLimitError('Too many requests', 'mistral', { retryAfterMs: 30000 }));
+    expect([pool.acquire(), pool.acquire(), pool.acquire()]).toEqual(['key-cccc', 'key-aaaa', 'key-cccc']);
+
+    const stats = pool.getStats();
+    expect(stats[1]).toMatchObject({ key: '***bbbb', requests: 1, failures: 1, rateLimits: 1 });
+    expect(stats[1]!.coolingDownUntil).toBeGreaterThan(Date.now() + 29000);
+  });
+
+  test('should prefer the key rate limited longest ago', () => {
+    const pool = new ApiKeyPool(['key-aaaa', 'key-bbbb'], { strategy: 'least-recently-rate-limited', cooldownMs: 0 });
+    pool.reportFailure('key-aaaa', { status: 429 });
+
+    expect(pool.acquire()).toBe('key-bbbb');
+    expect(pool.acquire()).toBe('key-bbbb');
+    expect(pool.redact('Incorrect API key provided: key-aaaa')).toBe('Incorrect API key provided: ***aaaa');
+  });
+});
+
+describe('Adapter key pools', () => {
+  const envKeys = ['MISTRAL_API_KEY', 'MISTRAL_API_KEYS'];
+  const originalEnv: Record<string, string | undefined> = {};
+  const originalFetch = global.fetch;
+
+  beforeAll(() => {
+    for (const key of envKeys) {
+      originalEnv[key] = process.env[key];
+    }
+    process.env.MISTRAL_API_KEY = 'primary-1111';
+    process.env.MISTRAL_API_KEYS = 'secondary-2222, primary-1111';
+  });
+
+  afterAll(() => {
+    for (const key of envKeys) {
+      if (originalEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = originalEnv[key];
+      }
+    }
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+    new MistralAdapter().resetCircuit();
+  });
+
+  test('should move to the next key on a 429 without waiting', async () => {
+    const sleep = jest.spyOn(RetryManager.getInstance() as any, 'sleep').mockResolvedValue(undefined);
+    const fetchMock = jest.fn()
+      .mockResolvedValueOnce(jsonResponse(429, { message: 'Rate limit exceeded' }, { 'retry-after': '20' }))
+      .mockResolvedValueOnce(jsonResponse(200, completion));
+    global.fetch = fetchMock as any;
+    const adapter = new MistralAdapter();
+
+    const response = await adapter.generate('Hi', { disableCache: true });
+
+    expect(response.text).toBe('Hello');
+    expect(fetchMock.mock.calls.map(([, init]) => init.headers.Authorization))
+      .toEqual(['Bearer primary-1111', 'Bearer secondary-2222']);
+    expect(sleep).not.toHaveBeenCalled();
+    expect(adapter.getApiKey()).toBe('***1111, ***2222');
+    expect(adapter.getApiKeyStats()).toEqual([
+      expect.objectContaining({ key: '***1111', requests: 1, rateLimits: 1 }),
+      expect.objectContaining({ key: '***2222', requests: 1, successes: 1, rateLimits: 0 })
+    ]);
+  });
+
+  test('should send each concurrent request with its own key', async () => {
+    const pending: Array<() => void> = [];
+    const fetchMock = jest.fn().mockImplementation(() => new Promise(resolve => {
+      pending.push(() => resolve(jsonResponse(200, completion)));
+    }));
+    global.fetch = fetchMock as any;
+    const adapter = new MistralAdapter();
+
+    const responses = Promise.all([
+      adapter.generate('Hi', { disableCache: true }),
+      adapter.generate('Hello', { disableCache: true })
+    ]);
+    while (pending.length < 2) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    pending.forEach(resolve => resolve());
+    await responses;
+
+    expect(fetchMock.mock.calls.map(([, init]) => init.headers.Authorization))
+      .toEqual(['Bearer primary-1111', 'Bearer secondary-2222']);
+  });
+
+  test('should pass the pooled key to SDK clients per request', async () => {
+    const fetchMock = jest.fn().mockImplementation(async () =>
+      new Response(JSON.stringify({ error: { message: 'Invalid API key' } }), { status: 401 })
+    );
+    const adapter = new OpenAIAdapter('gpt-4o', { apiKey: 'client-0000', transport: { fetch: fetchMock } });
+    adapter.setApiKeyPool(new ApiKeyPool(['pooled-1111', 'pooled-2222']));
+
+    await Promise.all([
+      adapter.generate('Hi', { disableCache: true }).catch(e => e),
+      adapter.generate('Hello', { disableCache: true }).catch(e => e)
+    ]);
+
+    expect(fetchMock.mock.calls.map(([, init]) => new Headers(init.headers).get('authorization')))
+      .toEqual(['Bearer pooled-1111', 'Bearer pooled-2222']);
+    adapter.resetCircuit();
+  });
+
+  test('should mask pooled keys in error messages', async () => {
+    global.fetch = jest.fn().mockResolvedValue(
+      jsonResponse(401, { message: 'Invalid API key: primary-1111' })
+    ) as any;
+
+    const error = await new MistralAdapter().generate('Hi', { disableCache: true }).catch(e => e);
+
+    expect(error.code).toBe('AUTHENTICATION_ERROR');
+    expect(error.message).toContain('***1111');
+    expect(error.message).not.toContain('primary-1111');
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Azure OpenAI Adapter Tests
+ * Verifies deployment URLs, api-key and Entra ID auth, deployment pricing and
+ * content filter results in metadata and errors
+ * Runs offline - server responses are stubbed
+ */
+
+import { AzureOpenAIAdapter, AzureOpenAIOptions } from '../azure/AzureOpenAIAdapter';
+import { createAdapter } from '../index';
+import { AuthenticationError, ContentFilterError } from '../types';
+
+function jsonResponse(status: number, body: any): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+}
+
+function sseResponse(chunks: any[]): Response {
+  const text = chunks.map(chunk => `data: ${JSON.stringify(chunk)}\n\n`).join('') + 'data: [DONE]\n\n';
+  return new Response(text, { status: 200, headers: { 'content-type': 'text/event-stream' } });
+}
+
+const safe = {
+  hate: { filtered: false, severity: 'safe' },
+  self_harm: { filtered: false, severity: 'safe' },
+  sexual: { filtered: false, severity: 'safe' },
+  violence: { filtered: false, severity: 'safe' }
+};
+
+describe('AzureOpenAIAdapter', () => {
+  const envNames = ['AZURE_OPENAI_API_KEY', 'AZURE_OPENAI_ENDPOINT', 'AZURE_OPENAI_API_VERSION', 'AZURE_OPENAI_DEPLOYMENT'];
+  const originalEnv = envNames.map(name => process.env[name]);
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    envNames.forEach(name => delete process.env[name]);
+    fetchMock = jest.fn();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    envNames.forEach((name, i) => {
+      if (originalEnv[i] === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = originalEnv[i];
+      }
+    });
+  });
+
+  function createAzure(config: AzureOpenAIOptions = {}): AzureOpenAIAdapter {
+    return new AzureOpenAIAdapter('chat-prod', {
+      baseUrl: 'https://contoso.openai.azure.com/',
+      deployments: { 'chat-prod': 'gpt-4o', 'chat-mini': 'gpt-4.1-mini' },
+      transport: { fetch: fetchMock },
+      ...config
+    });
+  }
+
+  test('should call the deployment with api-key auth and price it as its model', async () => {
+    process.env.AZURE_OPENAI_API_KEY = 'azure-secret';
+    fetchMock.mockResolvedValue(jsonResponse(200, {
+      model: 'gpt-4o-2024-08-06',
+      prompt_filter_results: [{ prompt_index: 0, content_filter_results: safe }],
+      choices: [{ index: 0, message: { role: 'assistant', content: 'Hello' }, finish_reason: 'stop', content_filter_results: safe }],
+      usage: { prompt_tokens: 1000000, completion_tokens: 1000000, total_tokens: 2000000 }
+    }));
+
+    const response = await createAzure({ apiVersion: '2025-01-01-preview' }).generate('Hi', { disableCache: true });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://contoso.openai.azure.com/openai/deployments/chat-prod/chat/completions?api-version=2025-01-01-preview');
+    expect(init.headers).toMatchObject({ 'api-key': 'azure-secret' });
+    expect(init.headers).not.toHaveProperty('Authorization');
+    expect(response.provider).toBe('azure');
+    expect(response.cost?.totalCost).toBeCloseTo(12.5);
+    expect(response.metadata).toMatchObject({
+      promptFilterResults: [{ prompt_index: 0, content_filter_results: safe }],
+      contentFilterResults: safe
+    });
+    expect(await createAzure().getModelPricing('chat-mini')).toMatchObject({ rateInputPerMillion: 0.1, rateOutputPerMillion: 1.6 });
+    expect((await createAzure().listModels()).map(model => model.id)).toEqual(['chat-prod', 'chat-mini']);
+  });
+
+  test('should use Entra ID tokens instead of an api-key', async () => {
+    const tokenProvider = jest.fn().mockResolvedValue('entra-token');
+    fetchMock.mockResolvedValue(jsonResponse(200, {
+      choices: [{ index: 0, message: { role: 'assistant', content: 'Hello' }, finish_reason: 'stop' }]
+    }));
+
+    const adapter = createAzure({ azureADTokenProvider: tokenProvider });
+    await adapter.generate('Hi', { disableCache: true, model: 'chat-mini' });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toContain('/openai/deployments/chat-mini/chat/completions?api-version=2024-10-21');
+    expect(init.headers).toMatchObject({ 'Authorization': 'Bearer entra-token' });
+    expect(init.headers).not.toHaveProperty('api-key');
+    expect(tokenProvider).toHaveBeenCalledTimes(1);
+
+    const failure = new Error('CredentialUnavailableError');
+    const failing = createAzure({ azureADTokenProvider: jest.fn().mockRejectedValue(failure) });
+    await expect(failing.generate('Hi', { disableCache: true })).rejects.toMatchObject({
+      name: 'AuthenticationError',
+      originalError: failure
+    });
+    await expect(failing.generate('Hi', { disableCache: true })).rejects.toBeInstanceOf(AuthenticationError);
+  });
+
+  test('should surface content filter results from errors and streams', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(400, {
+      error: {
+        message: "The response was filtered due to the prompt triggering Azure OpenAI's content management policy.",
+        type: null,
+        param: 'prompt',
+        code: 'content_filter',
+        status: 400,
+        innererror: {
+          code: 'ResponsibleAIPolicyViolation',
+          content_filter_result: { ...safe, violence: { filtered: true, severity: 'high' } }
+        }
+      }
+    }));
+    const adapter = createAzure({ apiKey: 'azure-secret' });
+
+    const error = await adapter.generate('Hi', { disableCache: true }).catch(e => e);
+    expect(error).toBeInstanceOf(ContentFilterError);
+    expect(error.status).toBe(400);
+    expect(error.filterResults.violence).toEqual({ filtered: true, severity: 'high' });
+
+    fetchMock.mockResolvedValueOnce(sseResponse([
+      { model: '', choices: [], prompt_filter_results: [{ prompt_index: 0, content_filter_results: safe }] },
+      { model: 'gpt-4o-2024-08-06', choices: [{ index: 0, delta: { content: 'Once upon' }, content_filter_results: {} }] },
+      { model: 'gpt-4o-2024-08-06', choices: [{ index: 0, delta: {}, finish_reason: 'content_filter', content_filter_results: { ...safe, violence: { filtered: true, severity: 'medium' } } }] }
+    ]));
+    const response = await adapter.generateStream('Tell me a story', { disableCache: true });
+
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body).stream_options).toEqual({ include_usage: true });
+    expect(response.finishReason).toBe('content_filter');
+    expect(response.metadata).toMatchObject({
+      streamed: true,
+      promptFilterResults: [{ prompt_index: 0, content_filter_results: safe }],
+      contentFilterResults: { violence: { filtered: true, severity: 'medium' } }
+    });
+  });
+
+  test('should check image input against the deployment model', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, {
+      choices: [{ index: 0, message: { role: 'assistant', content: 'A cat' }, finish_reason: 'stop' }]
+    }));
+    const adapter = createAzure({ apiKey: 'azure-secret', deployments: { 'chat-prod': 'gpt-4o', 'chat-nano': 'gpt-4.1-nano' } });
+    const prompt = [{
+      role: 'user' as const,
+      content: [{ type: 'text' as const, text: 'What is this?' }, { type: 'image' as const, image: 'https://example.com/cat.png' }]
+    }];
+
+    const error = await adapter.generate(prompt, { disableCache: true, model: 'chat-nano' }).catch(e => e);
+    expect(error).toMatchObject({ code: 'UNSUPPORTED_CONTENT', message: 'Model chat-nano does not support image or document input' });
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    const response = await adapter.generate(prompt, { disableCache: true });
+    expect(response.text).toBe('A cat');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('should be created by createAdapter and require an endpoint', () => {
+    const adapter = createAdapter('azure', 'chat-prod', {
+      apiKey: 'azure-secret',
+      baseUrl: 'https://contoso.openai.azure.com',
+      deployments: { 'chat-prod': 'gpt-4o' }
+    });
+
+    expect(adapter).toBeInstanceOf(AzureOpenAIAdapter);
+    expect((adapter as AzureOpenAIAdapter).getDeploymentModel('chat-prod')).toBe('gpt-4o');
+    expect(() => new AzureOpenAIAdapter('chat-prod', { apiKey: 'azure-secret' }))
+      .toThrow(expect.objectContaining({ name: 'InvalidRequestError', code: 'MISSING_ENDPOINT' }));
+  });
+});
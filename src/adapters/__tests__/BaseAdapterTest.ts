@@ -3,14 +3,17 @@
  * Provides shared test methods for all adapter implementations
  */
 
+import path from 'path';
 import { BaseAdapter } from '../BaseAdapter';
 import { LLMResponse } from '../types';
 import { CostCalculator } from '../CostCalculator';
+import { Cassette } from '../../testing/Cassette';
 
 export class BaseAdapterTest {
   protected adapter: BaseAdapter;
   protected providerName: string;
   protected requiredEnvVar: string;
+  protected stubbed = false;
 
   constructor(adapter: BaseAdapter, providerName: string, requiredEnvVar: string) {
     this.adapter = adapter;
@@ -19,9 +22,34 @@ export class BaseAdapterTest {
   }
 
   /**
-   * Check if the provider is available for testing
+   * Cassette for a suite, stored in __cassettes__/<name>.json. Pass
+   * cassette.providerConfig() to the adapter under test. Replaying does not
+   * make a suite available: it still needs the provider's key.
+   */
+  static cassette(name: string): Cassette {
+    return new Cassette(path.join(__dirname, '__cassettes__', `${name}.json`));
+  }
+
+  /**
+   * Test an adapter whose baseUrl points at a StubServer; always available
+   */
+  static againstStub(adapter: BaseAdapter, providerName: string): BaseAdapterTest {
+    const adapterTest = new BaseAdapterTest(adapter, providerName, '');
+    adapterTest.stubbed = true;
+    return adapterTest;
+  }
+
+  /**
+   * Check if the provider is available for testing: a key, or a stub server
    */
   isAvailable(): boolean {
+    return this.stubbed || this.hasApiKey();
+  }
+
+  /**
+   * Whether the provider's key is set, for tests that need live calls
+   */
+  hasApiKey(): boolean {
     return !!process.env[this.requiredEnvVar];
   }
 
@@ -219,6 +247,41 @@ export class BaseAdapterTest {
     console.log(`✅ ${this.providerName} models: ${models.length} available`);
   }
 
+  /**
+   * Test tool calling (if supported)
+   */
+  async testToolCalling(): Promise<void> {
+    if (!this.isAvailable()) {
+      console.warn(`Skipping ${this.providerName} tool calling test`);
+      return;
+    }
+
+    const capabilities = this.adapter.getCapabilities();
+    if (!capabilities.supportsFunctions) {
+      console.log(`🔧 ${this.providerName} does not support tool calling - skipping`);
+      return;
+    }
+
+    const response = await this.adapter.generate("What's the weather in Paris? Use the get_weather tool.", {
+      maxTokens: 100,
+      disableCache: true,
+      tools: [{
+        type: 'function',
+        function: {
+          name: 'get_weather',
+          description: 'Current weather for a city',
+          parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] }
+        }
+      }]
+    });
+
+    expect(response.finishReason).toBe('tool_calls');
+    expect(response.toolCalls?.[0]?.function?.name).toBe('get_weather');
+    expect(JSON.parse(response.toolCalls![0]!.function!.arguments)).toHaveProperty('city');
+
+    console.log(`✅ ${this.providerName} tool call: ${response.toolCalls![0]!.function!.arguments}`);
+  }
+
   /**
    * Test capabilities
    */
@@ -259,6 +322,7 @@ export class BaseAdapterTest {
       await this.testJsonMode();
       await this.testStreaming();
       await this.testCostCalculation();
+      await this.testToolCalling();
       
       console.log(`✅ ${this.providerName} adapter tests completed successfully!`);
     } catch (error) {
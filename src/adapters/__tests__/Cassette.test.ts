@@ -0,0 +1,134 @@
+/**
+ * Cassette Tests
+ * Verifies recording, key scrubbing and offline replay of JSON and SSE traffic
+ * Runs offline - recordings are made against a stubbed fetch
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MistralAdapter } from '../mistral/MistralAdapter';
+import { Cassette } from '../../testing/Cassette';
+
+const SECRET = 'sk-mistral-secret-123456';
+
+const completion = {
+  id: 'cmpl-1',
+  model: 'mistral-small-latest',
+  choices: [{ index: 0, message: { role: 'assistant', content: 'Hello' }, finish_reason: 'stop' }],
+  usage: { prompt_tokens: 5, completion_tokens: 1, total_tokens: 6 }
+};
+
+const sseChunks = [
+  'data: {"id":"cmpl-2","model":"mistral-small-latest","choices":[{"index":0,"delta":{"content":"Hel"}}]}\n\n',
+  'data: {"id":"cmpl-2","model":"mistral-small-latest","choices":[{"index":0,"delta":{"content":"lo"},"finish_reason":"stop"}],' +
+    '"usage":{"prompt_tokens":5,"completion_tokens":2,"total_tokens":7}}\n\n',
+  'data: [DONE]\n\n'
+];
+
+function providerFetch(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+  if (JSON.parse(String(init!.body)).stream) {
+    const encoder = new TextEncoder();
+    return Promise.resolve(new Response(new ReadableStream({
+      start(controller) {
+        sseChunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+        controller.close();
+      }
+    }), { status: 200, headers: { 'content-type': 'text/event-stream' } }));
+  }
+  return Promise.resolve(new Response(JSON.stringify(completion), {
+    status: 200,
+    headers: { 'content-type': 'application/json', 'set-cookie': `session=${SECRET}` }
+  }));
+}
+
+describe('Cassette', () => {
+  const originalKey = process.env.MISTRAL_API_KEY;
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cassette-'));
+    file = path.join(dir, 'mistral.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    if (originalKey === undefined) {
+      delete process.env.MISTRAL_API_KEY;
+    } else {
+      process.env.MISTRAL_API_KEY = originalKey;
+    }
+  });
+
+  test('should record traffic with keys scrubbed and replay it without network or key', async () => {
+    process.env.MISTRAL_API_KEY = SECRET;
+    const fetchMock = jest.fn(providerFetch);
+    const recorder = new Cassette(file, { mode: 'once', fetch: fetchMock });
+    expect(recorder.isReplaying).toBe(false);
+
+    const recordingAdapter = new MistralAdapter('mistral-small-latest', recorder.providerConfig());
+    const recorded = await recordingAdapter.generate('Hi', { disableCache: true });
+    const recordedStream = await recordingAdapter.generateStream('Hi', { disableCache: true });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const contents = fs.readFileSync(file, 'utf8');
+    expect(contents).not.toContain(SECRET);
+    const saved = JSON.parse(contents);
+    expect(saved.interactions[0].request).toMatchObject({
+      method: 'POST',
+      url: 'https://api.mistral.ai/v1/chat/completions',
+      headers: { authorization: 'REDACTED' },
+      json: { model: 'mistral-small-latest' }
+    });
+    expect(saved.interactions[0].response.headers['set-cookie']).toBe('REDACTED');
+    expect(saved.interactions[1].response.chunks).toEqual(sseChunks);
+
+    delete process.env.MISTRAL_API_KEY;
+    const player = new Cassette(file, { mode: 'replay', fetch: () => Promise.reject(new Error('network used')) });
+    const replayingAdapter = new MistralAdapter('mistral-small-latest', player.providerConfig());
+    const tokens: string[] = [];
+
+    const replayed = await replayingAdapter.generate('Hi', { disableCache: true });
+    const replayedStream = await replayingAdapter.generateStream('Hi', { disableCache: true, onToken: token => tokens.push(token) });
+
+    expect(player.isReplaying).toBe(true);
+    expect(replayed).toMatchObject({ text: recorded.text, usage: recorded.usage });
+    expect(replayedStream).toMatchObject({ text: 'Hello', usage: recordedStream.usage });
+    expect(tokens).toEqual(['Hel', 'lo']);
+  });
+
+  test('should replay by default and scrub config keys from URLs and bodies', async () => {
+    const originalMode = process.env.LLM_CASSETTE_MODE;
+    delete process.env.LLM_CASSETTE_MODE;
+    fs.writeFileSync(file, JSON.stringify({ version: 1, interactions: [] }));
+    expect(new Cassette(file).mode).toBe('replay');
+    if (originalMode !== undefined) process.env.LLM_CASSETTE_MODE = originalMode;
+
+    const configKey = 'gw-config-key/987654';
+    const recorder = new Cassette(file, { mode: 'record', fetch: providerFetch });
+    const config = recorder.providerConfig({ apiKey: configKey });
+    await config.transport!.fetch!(`https://gateway.internal/v1/chat/completions?token=${encodeURIComponent(configKey)}`, {
+      method: 'POST',
+      headers: { 'X-Gateway-Token': configKey },
+      body: JSON.stringify({ model: 'mistral-small-latest', user: configKey })
+    });
+
+    const contents = fs.readFileSync(file, 'utf8');
+    expect(contents).not.toContain(configKey);
+    expect(contents).not.toContain(encodeURIComponent(configKey));
+    expect(JSON.parse(contents).interactions[0].request).toMatchObject({
+      url: 'https://gateway.internal/v1/chat/completions?token=REDACTED',
+      headers: { 'x-gateway-token': 'REDACTED' },
+      json: { user: 'REDACTED' }
+    });
+  });
+
+  test('should fail requests that were not recorded', async () => {
+    fs.writeFileSync(file, JSON.stringify({ version: 1, interactions: [] }));
+    const player = new Cassette(file, { mode: 'replay' });
+
+    await expect(player.fetch('https://generativelanguage.googleapis.com/v1beta/models?key=abc', { method: 'GET' }))
+      .rejects.toThrow('No recorded interaction in mistral.json matches GET https://generativelanguage.googleapis.com/v1beta/models?key=REDACTED');
+  });
+});
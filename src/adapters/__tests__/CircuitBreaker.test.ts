@@ -0,0 +1,113 @@
+/**
+ * Circuit Breaker Tests
+ * Verifies adapter retries run through RetryManager with a circuit per provider and model
+ * Runs offline - provider responses are stubbed
+ */
+
+import { MistralAdapter } from '../mistral/MistralAdapter';
+import { OpenAIAdapter } from '../openai/OpenAIAdapter';
+import { RetryManager } from '../../utils/RetryManager';
+import { ConfigManager } from '../../utils/ConfigManager';
+
+function errorResponse(status: number, message: string) {
+  return {
+    ok: false,
+    status,
+    statusText: 'Error',
+    headers: new Headers(),
+    text: async () => JSON.stringify({ message })
+  };
+}
+
+describe('Circuit breaker', () => {
+  let originalKey: string | undefined;
+  const originalFetch = global.fetch;
+  const adapter = () => new MistralAdapter();
+
+  beforeAll(() => {
+    originalKey = process.env.MISTRAL_API_KEY;
+    process.env.MISTRAL_API_KEY = originalKey || 'test-key';
+  });
+
+  afterAll(() => {
+    if (originalKey === undefined) {
+      delete process.env.MISTRAL_API_KEY;
+    } else {
+      process.env.MISTRAL_API_KEY = originalKey;
+    }
+  });
+
+  beforeEach(() => {
+    jest.spyOn(RetryManager.getInstance() as any, 'sleep').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+    adapter().resetCircuit('mistral-large-latest');
+    adapter().resetCircuit('mistral-small-latest');
+  });
+
+  test('should retry with the configured defaults and open after repeated failures', async () => {
+    const { maxRetries, circuitBreaker } = ConfigManager.getInstance().getRetryConfig();
+    const fetchMock = jest.fn().mockResolvedValue(errorResponse(503, 'Service unavailable'));
+    global.fetch = fetchMock as any;
+
+    for (let i = 0; i < circuitBreaker.failureThreshold; i++) {
+      await expect(adapter().generate('Hi', { disableCache: true })).rejects.toMatchObject({ code: 'SERVICE_UNAVAILABLE' });
+    }
+    expect(fetchMock).toHaveBeenCalledTimes(circuitBreaker.failureThreshold * (maxRetries + 1));
+    expect(adapter().getCircuitStats()).toMatchObject({ state: 'open', failureCount: circuitBreaker.failureThreshold });
+
+    // Fails fast without calling the provider, and only for this model
+    fetchMock.mockClear();
+    await expect(adapter().generate('Hi', { disableCache: true })).rejects.toMatchObject({ code: 'CIRCUIT_OPEN', provider: 'mistral' });
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    await expect(adapter().generate('Hi', { model: 'mistral-small-latest', disableCache: true }))
+      .rejects.toMatchObject({ code: 'SERVICE_UNAVAILABLE' });
+    expect(adapter().getCircuitStats('mistral-small-latest')).toMatchObject({ state: 'closed', failureCount: 1 });
+  });
+
+  test('should not count client errors against the circuit', async () => {
+    global.fetch = jest.fn().mockResolvedValue(errorResponse(400, 'Invalid temperature')) as any;
+
+    for (let i = 0; i < 6; i++) {
+      await expect(adapter().generate('Hi', { disableCache: true })).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+    }
+
+    expect(adapter().getCircuitStats()).toMatchObject({ state: 'closed', failureCount: 0, totalRequests: 6 });
+  });
+
+  test('should retry OpenAI Responses API calls without falling back on rate limits', async () => {
+    const fetchMock = jest.fn().mockImplementation(async () => new Response(
+      JSON.stringify({ error: { message: 'Rate limit reached for requests', type: 'requests' } }),
+      { status: 429, headers: { 'content-type': 'application/json', 'retry-after-ms': '1' } }
+    ));
+    const openai = new OpenAIAdapter('gpt-4o', { apiKey: 'test-key', transport: { fetch: fetchMock } });
+
+    await expect(openai.generate('Hi', { disableCache: true })).rejects.toMatchObject({ code: 'RATE_LIMIT_ERROR' });
+
+    expect(fetchMock.mock.calls.every(([url]) => String(url).endsWith('/responses'))).toBe(true);
+    expect(openai.getCircuitStats()).toMatchObject({ totalRequests: 1, failureCount: 1 });
+    openai.resetCircuit();
+  });
+
+  test('should fall back to Chat Completions only when the Responses API is unavailable', async () => {
+    const chatCompletion = { id: 'c', model: 'gpt-4o', choices: [{ message: { content: 'Hi' }, finish_reason: 'stop' }], usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 } };
+    const fetchFor = (responsesStatus: number) => jest.fn().mockImplementation(async (url: string) => String(url).endsWith('/responses')
+      ? new Response(JSON.stringify({ error: { message: 'Responses failed' } }), { status: responsesStatus, headers: { 'content-type': 'application/json' } })
+      : new Response(JSON.stringify(chatCompletion), { status: 200, headers: { 'content-type': 'application/json' } }));
+
+    const missing = fetchFor(404);
+    const openai = new OpenAIAdapter('gpt-4o', { apiKey: 'test-key', transport: { fetch: missing } });
+    await expect(openai.generate('Hi', { disableCache: true })).resolves.toMatchObject({ text: 'Hi' });
+    expect(missing.mock.calls.some(([url]) => String(url).endsWith('/chat/completions'))).toBe(true);
+
+    const broken = fetchFor(400);
+    const failing = new OpenAIAdapter('gpt-4o', { apiKey: 'test-key', transport: { fetch: broken } });
+    await expect(failing.generate('Hi', { disableCache: true })).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+    expect(broken.mock.calls.every(([url]) => String(url).endsWith('/responses'))).toBe(true);
+    openai.resetCircuit();
+  });
+});
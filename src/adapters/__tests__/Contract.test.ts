@@ -0,0 +1,138 @@
+/**
+ * Adapter Contract Tests
+ * Runs the shared BaseAdapterTest suite against every adapter pointed at a StubServer,
+ * plus tool calls, retried and exhausted errors, and malformed stream events
+ * Runs offline - the stub answers in each provider's wire format
+ */
+
+import { BaseAdapter } from '../BaseAdapter';
+import { OpenAIAdapter } from '../openai/OpenAIAdapter';
+import { AnthropicAdapter } from '../anthropic/AnthropicAdapter';
+import { GoogleAdapter } from '../google/GoogleAdapter';
+import { GroqAdapter } from '../groq/GroqAdapter';
+import { GrokAdapter } from '../grok/GrokAdapter';
+import { MistralAdapter } from '../mistral/MistralAdapter';
+import { OpenRouterAdapter } from '../openrouter/OpenRouterAdapter';
+import { RequestyAdapter } from '../requesty/RequestyAdapter';
+import { PerplexityAdapter } from '../perplexity/PerplexityAdapter';
+import { OllamaAdapter } from '../ollama/OllamaAdapter';
+import { OpenAICompatibleAdapter } from '../compatible/OpenAICompatibleAdapter';
+import { AzureOpenAIAdapter } from '../azure/AzureOpenAIAdapter';
+import { RateLimitError, ProviderOverloadedError, StreamEvent } from '../types';
+import { BaseAdapterTest } from './BaseAdapterTest';
+import { StubServer, StubRequest, StubReply } from '../../testing/StubServer';
+import { RetryManager } from '../../utils/RetryManager';
+import { ConfigManager } from '../../utils/ConfigManager';
+
+const config = { apiKey: 'stub-key' };
+
+// Each adapter with the base URL its client appends its API paths to
+const adapters: Array<{ name: string; create: (url: string) => BaseAdapter }> = [
+  { name: 'openai', create: url => new OpenAIAdapter(undefined, { ...config, baseUrl: `${url}/v1` }) },
+  { name: 'anthropic', create: url => new AnthropicAdapter(undefined, { ...config, baseUrl: url }) },
+  { name: 'google', create: url => new GoogleAdapter(undefined, { ...config, baseUrl: url }) },
+  { name: 'groq', create: url => new GroqAdapter(undefined, { ...config, baseUrl: url }) },
+  { name: 'grok', create: url => new GrokAdapter(undefined, { ...config, baseUrl: `${url}/v1` }) },
+  { name: 'mistral', create: url => new MistralAdapter(undefined, { ...config, baseUrl: `${url}/v1` }) },
+  { name: 'openrouter', create: url => new OpenRouterAdapter(undefined, { ...config, baseUrl: `${url}/api/v1` }) },
+  { name: 'requesty', create: url => new RequestyAdapter(undefined, { ...config, baseUrl: `${url}/v1` }) },
+  { name: 'perplexity', create: url => new PerplexityAdapter(undefined, { ...config, baseUrl: url }) },
+  { name: 'ollama', create: url => new OllamaAdapter(undefined, { baseUrl: url }) }, // Local servers take no key
+  { name: 'vllm', create: url => new OpenAICompatibleAdapter({ name: 'vllm', baseUrl: `${url}/v1`, model: 'stub-model', streamUsage: true }) },
+  { name: 'azure', create: url => new AzureOpenAIAdapter('gpt-4o', { ...config, baseUrl: url }) }
+];
+
+/**
+ * Answers the BaseAdapterTest prompts the way a capable model would
+ */
+function respond(request: StubRequest): StubReply {
+  const prompt = StubServer.lastUserText(request);
+  if (request.tools.includes('get_weather') && !request.messages.some(message => message.role === 'tool')) {
+    return { toolCalls: [{ name: 'get_weather', arguments: { city: 'Paris' } }] };
+  }
+  if (prompt.includes('JSON')) {
+    return { text: JSON.stringify({ language: 'TypeScript', description: 'A strongly typed programming language' }) };
+  }
+  if (prompt.includes('Count from 1 to 5')) {
+    return { text: '1\n2\n3\n4\n5' };
+  }
+  return 'Semicolons align\nTypes guard the midnight build\nTests pass at dawn';
+}
+
+describe('Adapter contract', () => {
+  const server = new StubServer({ respond });
+
+  beforeAll(async () => {
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+    server.setResponder(respond);
+    jest.spyOn(RetryManager.getInstance() as any, 'sleep').mockResolvedValue(undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe.each(adapters)('$name', ({ name, create }) => {
+    let adapter: BaseAdapter;
+    let adapterTest: BaseAdapterTest;
+
+    beforeAll(() => {
+      adapter = create(server.url);
+      adapterTest = BaseAdapterTest.againstStub(adapter, name);
+    });
+
+    afterEach(() => {
+      adapter.resetCircuit();
+    });
+
+    test('should pass the shared adapter suite', async () => {
+      await adapterTest.runAllTests();
+
+      expect(server.requests.length).toBeGreaterThan(0);
+      expect(server.requests.every(request => request.model === adapter.getCurrentModel())).toBe(true);
+    });
+
+    test('should retry a rate-limited request after Retry-After', async () => {
+      server.enqueue({ status: 429, retryAfter: 1, message: 'Rate limit reached for requests' });
+
+      const response = await adapter.generate('Hello, world!', { disableCache: true });
+
+      expect(response.text).toContain('Tests pass at dawn');
+      expect(server.requests).toHaveLength(2);
+    });
+
+    test('should surface exhausted retries as typed errors', async () => {
+      server.setResponder(() => ({ status: 429, retryAfter: 1, message: 'Rate limit reached for requests' }));
+      await expect(adapter.generate('Hello, world!', { disableCache: true })).rejects.toBeInstanceOf(RateLimitError);
+      // Only withRetry retries; SDK clients make a single attempt each time
+      expect(server.requests).toHaveLength(ConfigManager.getInstance().getRetryConfig().maxRetries + 1);
+
+      adapter.resetCircuit();
+      server.setResponder(() => ({ status: 500, message: 'The server had an error processing your request' }));
+      await expect(adapter.generate('Hello, world!', { disableCache: true })).rejects.toBeInstanceOf(ProviderOverloadedError);
+    });
+
+    test('should end a stream with a malformed event in exactly one finish or error event', async () => {
+      server.enqueue({ text: 'Hello there, friend', malformed: true });
+      const events: StreamEvent[] = [];
+
+      for await (const event of adapter.stream('Hi', { disableCache: true })) {
+        events.push(event);
+      }
+
+      const endings = events.filter(event => event.type === 'finish' || event.type === 'error');
+      expect(endings).toHaveLength(1);
+      expect(events[events.length - 1]).toBe(endings[0]);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Fallback Adapter Tests
+ * Verifies failover order, model mapping and stream failover before the first token
+ * Runs offline - provider responses are stubbed
+ */
+
+import { FallbackAdapter } from '../fallback/FallbackAdapter';
+import { AnthropicAdapter } from '../anthropic/AnthropicAdapter';
+import { OpenAIAdapter } from '../openai/OpenAIAdapter';
+import { MistralAdapter } from '../mistral/MistralAdapter';
+import { InvalidRequestError, LLMResponse, RateLimitError, StreamEvent } from '../types';
+
+function reply(provider: string, model: string, text = 'Hello'): LLMResponse {
+  return { text, model, provider, finishReason: 'stop' };
+}
+
+async function* events(items: StreamEvent[]): AsyncGenerator<StreamEvent> {
+  for (const item of items) {
+    yield item;
+  }
+}
+
+describe('FallbackAdapter', () => {
+  const envKeys = ['ANTHROPIC_API_KEY', 'OPENAI_API_KEY', 'MISTRAL_API_KEY'];
+  const originalEnv: Record<string, string | undefined> = {};
+
+  beforeAll(() => {
+    for (const key of envKeys) {
+      originalEnv[key] = process.env[key];
+      process.env[key] = process.env[key] || 'test-key';
+    }
+  });
+
+  afterAll(() => {
+    for (const key of envKeys) {
+      if (originalEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = originalEnv[key];
+      }
+    }
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should fail over on rate limits and record the serving provider', async () => {
+    const anthropic = new AnthropicAdapter();
+    const openai = new OpenAIAdapter();
+    jest.spyOn(anthropic, 'generate').mockRejectedValue(new RateLimitError('Too many requests', 'anthropic', { retryAfterMs: 5000 }));
+    const openaiGenerate = jest.spyOn(openai, 'generate').mockResolvedValue(reply('openai', 'gpt-4o-mini'));
+    const onFallback = jest.fn();
+
+    const adapter = new FallbackAdapter([
+      { adapter: anthropic, models: { smart: 'claude-sonnet-4-20250514' } },
+      { adapter: openai, model: 'gpt-4o-mini', models: { smart: 'gpt-4o' } }
+    ], { onFallback });
+
+    const response = await adapter.generate('Hi', { model: 'smart', maxTokens: 50 });
+
+    expect(anthropic.generate).toHaveBeenCalledWith('Hi', { model: 'claude-sonnet-4-20250514', maxTokens: 50 });
+    expect(openaiGenerate).toHaveBeenCalledWith('Hi', { model: 'gpt-4o', maxTokens: 50 });
+    expect(response.provider).toBe('openai');
+    expect(response.metadata?.fallback).toEqual({
+      provider: 'openai',
+      model: 'gpt-4o',
+      attempts: [{ provider: 'anthropic', model: 'claude-sonnet-4-20250514', code: 'RATE_LIMIT_ERROR', message: 'Too many requests' }]
+    });
+    expect(onFallback).toHaveBeenCalledWith(
+      expect.objectContaining({ provider: 'anthropic' }),
+      { provider: 'openai', model: 'gpt-4o' }
+    );
+  });
+
+  test('should pass unmapped models through only to providers that have them', async () => {
+    const anthropic = new AnthropicAdapter();
+    const openai = new OpenAIAdapter();
+    jest.spyOn(anthropic, 'generate').mockRejectedValue(new RateLimitError('Too many requests', 'anthropic'));
+    const openaiGenerate = jest.spyOn(openai, 'generate').mockResolvedValue(reply('openai', 'gpt-4.1'));
+    const adapter = new FallbackAdapter([
+      { adapter: anthropic, model: 'claude-3-5-haiku-20241022', models: { smart: 'claude-sonnet-4-20250514' } },
+      { adapter: openai, model: 'gpt-4o-mini' }
+    ]);
+
+    await adapter.generate('Hi', { model: 'gpt-4.1' });
+    await adapter.generate('Hi');
+
+    expect(anthropic.generate).toHaveBeenNthCalledWith(1, 'Hi', { model: 'claude-3-5-haiku-20241022' });
+    expect(openaiGenerate).toHaveBeenNthCalledWith(1, 'Hi', { model: 'gpt-4.1' });
+    expect(anthropic.generate).toHaveBeenNthCalledWith(2, 'Hi', { model: 'claude-3-5-haiku-20241022' });
+    expect(openaiGenerate).toHaveBeenNthCalledWith(2, 'Hi', { model: 'gpt-4o-mini' });
+  });
+
+  test('should not fall back on errors every provider would repeat', async () => {
+    const anthropic = new AnthropicAdapter();
+    const openai = new OpenAIAdapter();
+    const invalid = new InvalidRequestError('max_tokens is too large', 'anthropic');
+    jest.spyOn(anthropic, 'generate').mockRejectedValue(invalid);
+    const openaiGenerate = jest.spyOn(openai, 'generate');
+
+    await expect(new FallbackAdapter([anthropic, openai]).generate('Hi')).rejects.toBe(invalid);
+    expect(openaiGenerate).not.toHaveBeenCalled();
+  });
+
+  test('should throw the last error when every provider fails', async () => {
+    const anthropic = new AnthropicAdapter();
+    const mistral = new MistralAdapter();
+    jest.spyOn(anthropic, 'generate').mockRejectedValue(new RateLimitError('Slow down', 'anthropic'));
+    const last = new RateLimitError('Also slow down', 'mistral');
+    jest.spyOn(mistral, 'generate').mockRejectedValue(last);
+
+    await expect(new FallbackAdapter([anthropic, mistral]).generate('Hi')).rejects.toBe(last);
+  });
+
+  test('should fail over a stream only before the first token', async () => {
+    const anthropic = new AnthropicAdapter();
+    const mistral = new MistralAdapter();
+    jest.spyOn(anthropic, 'stream').mockReturnValue(events([
+      { type: 'error', error: new RateLimitError('Too many requests', 'anthropic') }
+    ]));
+    jest.spyOn(mistral, 'stream').mockReturnValue(events([
+      { type: 'text-delta', text: 'Hel' },
+      { type: 'text-delta', text: 'lo' },
+      { type: 'finish', finishReason: 'stop', response: reply('mistral', 'mistral-large-latest') }
+    ]));
+
+    const tokens: string[] = [];
+    const response = await new FallbackAdapter([anthropic, mistral]).generateStream('Hi', {
+      onToken: token => tokens.push(token)
+    });
+
+    expect(tokens).toEqual(['Hel', 'lo']);
+    expect(response.metadata?.fallback).toMatchObject({ provider: 'mistral', attempts: [{ provider: 'anthropic' }] });
+
+    // A failure after output has started ends the stream
+    jest.spyOn(anthropic, 'stream').mockReturnValue(events([
+      { type: 'text-delta', text: 'Hel' },
+      { type: 'error', error: new RateLimitError('Too many requests', 'anthropic') }
+    ]));
+    const streamed: StreamEvent[] = [];
+    for await (const event of new FallbackAdapter([anthropic, mistral]).stream('Hi')) {
+      streamed.push(event);
+    }
+
+    expect(streamed.map(event => event.type)).toEqual(['text-delta', 'error']);
+    expect(mistral.stream).toHaveBeenCalledTimes(1);
+  });
+});
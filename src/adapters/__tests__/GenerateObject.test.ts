@@ -0,0 +1,126 @@
+/**
+ * Typed Object Generation Tests
+ * Verifies the schema builder's JSON Schemas and inferred types, and generateObject
+ * Runs offline - the provider call is stubbed
+ */
+
+import { s, Infer } from '../SchemaBuilder';
+import { MistralAdapter } from '../mistral/MistralAdapter';
+import { LLMResponse } from '../types';
+
+// Compile-time type assertions (ts-jest type-checks this file)
+type Equal<A, B> = (<T>() => T extends A ? 1 : 2) extends (<T>() => T extends B ? 1 : 2) ? true : false;
+type Expect<T extends true> = T;
+
+const shape = s.discriminatedUnion('kind', [
+  s.object({ kind: s.literal('circle'), radius: s.number({ exclusiveMinimum: 0 }) }),
+  s.object({ kind: s.literal('rect'), width: s.number(), height: s.number() })
+]);
+
+const drawing = s.object({
+  title: s.string().describe('Short title'),
+  status: s.enum(['draft', 'final']),
+  shapes: s.array(shape, { minItems: 1 }),
+  notes: s.string().nullable().optional()
+});
+
+type Drawing = Infer<typeof drawing>;
+export type DrawingTypeCheck = Expect<Equal<Drawing, {
+  title: string;
+  status: 'draft' | 'final';
+  shapes: ({ kind: 'circle'; radius: number } | { kind: 'rect'; width: number; height: number })[];
+  notes?: string | null;
+}>>;
+
+function textResponse(text: string, cost: number): LLMResponse {
+  return {
+    text,
+    model: 'mistral-large-latest',
+    provider: 'mistral',
+    finishReason: 'stop',
+    usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+    cost: {
+      inputCost: cost,
+      outputCost: cost,
+      totalCost: cost * 2,
+      currency: 'USD',
+      rateInputPerMillion: 2,
+      rateOutputPerMillion: 6
+    }
+  };
+}
+
+describe('Schema builder', () => {
+  test('should build JSON Schemas with required and optional properties', () => {
+    expect(drawing.jsonSchema).toEqual({
+      type: 'object',
+      properties: {
+        title: { type: 'string', description: 'Short title' },
+        status: { type: 'string', enum: ['draft', 'final'] },
+        shapes: { type: 'array', items: shape.jsonSchema, minItems: 1 },
+        notes: { anyOf: [{ type: 'string' }, { type: 'null' }] }
+      },
+      required: ['title', 'status', 'shapes'],
+      additionalProperties: false
+    });
+    expect(shape.jsonSchema.anyOf[0].properties.kind).toEqual({ const: 'circle' });
+  });
+
+  test('should reject discriminated union options without a literal tag', () => {
+    expect(() => s.discriminatedUnion('kind', [
+      s.object({ kind: s.literal('a') }),
+      s.object({ kind: s.literal('a') })
+    ])).toThrow('Duplicate discriminator value "a"');
+  });
+});
+
+describe('generateObject', () => {
+  let adapter: MistralAdapter;
+  let originalKey: string | undefined;
+
+  beforeAll(() => {
+    originalKey = process.env.MISTRAL_API_KEY;
+    process.env.MISTRAL_API_KEY = originalKey || 'test-key';
+  });
+
+  afterAll(() => {
+    if (originalKey === undefined) {
+      delete process.env.MISTRAL_API_KEY;
+    } else {
+      process.env.MISTRAL_API_KEY = originalKey;
+    }
+  });
+
+  beforeEach(() => {
+    adapter = new MistralAdapter();
+  });
+
+  test('should return the typed object with usage and cost', async () => {
+    const generate = jest.spyOn(adapter, 'generateUncached').mockResolvedValue(textResponse(
+      '{"title":"Logo","status":"draft","shapes":[{"kind":"circle","radius":2}]}',
+      0.001
+    ));
+
+    const result = await adapter.generateObject('Draw a logo', drawing, { disableCache: true });
+
+    const first = result.object.shapes[0]!;
+    expect(first.kind === 'circle' ? first.radius : first.width).toBe(2);
+    expect(result.object.title).toBe('Logo');
+    expect(result.usage).toEqual({ promptTokens: 10, completionTokens: 5, totalTokens: 15 });
+    expect(result.cost?.totalCost).toBe(0.002);
+    expect(generate.mock.calls[0]![1]!.jsonSchema!.schema).toBe(drawing.jsonSchema);
+  });
+
+  test('should sum usage over repair attempts', async () => {
+    jest.spyOn(adapter, 'generateUncached')
+      .mockResolvedValueOnce(textResponse('{"title":"Logo","status":"done","shapes":[]}', 0.001))
+      .mockResolvedValueOnce(textResponse('{"title":"Logo","status":"final","shapes":[{"kind":"rect","width":1,"height":2}]}', 0.002));
+
+    const result = await adapter.generateObject('Draw a logo', drawing, { maxRepairAttempts: 1, disableCache: true });
+
+    expect(result.object.status).toBe('final');
+    expect(result.usage?.totalTokens).toBe(30);
+    expect(result.cost?.totalCost).toBeCloseTo(0.006);
+    expect(result.metadata?.repairAttempts).toBe(1);
+  });
+});
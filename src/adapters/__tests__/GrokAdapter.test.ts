@@ -14,7 +14,8 @@ describe('Grok Adapter', () => {
   let adapter: GrokAdapter;
 
   beforeAll(() => {
-    adapter = new GrokAdapter();
+    const cassette = BaseAdapterTest.cassette('grok');
+    adapter = new GrokAdapter(undefined, cassette.providerConfig());
     adapterTest = new BaseAdapterTest(adapter, 'grok', 'XAI_API_KEY');
   });
 
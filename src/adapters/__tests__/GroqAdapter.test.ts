@@ -12,7 +12,8 @@ describe('Groq Adapter', () => {
   let adapter: GroqAdapter;
 
   beforeAll(() => {
-    adapter = new GroqAdapter();
+    const cassette = BaseAdapterTest.cassette('groq');
+    adapter = new GroqAdapter(undefined, cassette.providerConfig());
     adapterTest = new BaseAdapterTest(adapter, 'groq', 'GROQ_API_KEY');
   });
 
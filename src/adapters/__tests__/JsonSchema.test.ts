@@ -0,0 +1,165 @@
+/**
+ * JSON Schema Validation Tests
+ * Verifies the draft 2020-12 validator and the generateJSON repair loop
+ * Runs offline - the provider call is stubbed
+ */
+
+import { JsonSchemaValidator } from '../../utils/JsonSchemaValidator';
+import { MistralAdapter } from '../mistral/MistralAdapter';
+import { LLMResponse, Message } from '../types';
+
+function textResponse(text: string): LLMResponse {
+  return { text, model: 'mistral-large-latest', provider: 'mistral', finishReason: 'stop' };
+}
+
+describe('JsonSchemaValidator', () => {
+  const orderSchema = {
+    type: 'object',
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      status: { enum: ['pending', 'shipped'] },
+      items: {
+        type: 'array',
+        minItems: 1,
+        items: { $ref: '#/$defs/item' }
+      }
+    },
+    required: ['id', 'status', 'items'],
+    additionalProperties: false,
+    $defs: {
+      item: {
+        type: 'object',
+        properties: {
+          sku: { type: 'string', pattern: '^[A-Z]{3}-\\d+$' },
+          quantity: { type: 'integer', minimum: 1 }
+        },
+        required: ['sku', 'quantity']
+      }
+    }
+  };
+
+  test('should report every failure with JSON-pointer paths', () => {
+    const result = JsonSchemaValidator.validate({
+      id: 'not-a-uuid',
+      status: 'lost',
+      items: [{ sku: 'ABC-1', quantity: 2 }, { sku: 'abc', quantity: 1.5 }],
+      note: 'extra'
+    }, orderSchema);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map(e => [e.path, e.keyword])).toEqual([
+      ['/id', 'format'],
+      ['/status', 'enum'],
+      ['/items/1/sku', 'pattern'],
+      ['/items/1/quantity', 'type'],
+      ['/note', 'additionalProperties']
+    ]);
+    expect(result.errors[3]!.schemaPath).toBe('/properties/items/items/$ref/properties/quantity/type');
+    expect(JsonSchemaValidator.formatErrors(result.errors.slice(1, 2)))
+      .toBe('/status: must be one of "pending", "shipped"');
+  });
+
+  test('should accept valid data', () => {
+    expect(JsonSchemaValidator.validate({
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      status: 'pending',
+      items: [{ sku: 'ABC-1', quantity: 2 }]
+    }, orderSchema)).toEqual({ valid: true, errors: [] });
+  });
+
+  test('should apply composition, conditional and unevaluated keywords', () => {
+    const schema = {
+      type: 'object',
+      oneOf: [
+        { properties: { kind: { const: 'circle' }, radius: { type: 'number', exclusiveMinimum: 0 } }, required: ['kind', 'radius'] },
+        { properties: { kind: { const: 'square' }, side: { type: 'number' } }, required: ['kind', 'side'] }
+      ],
+      if: { properties: { kind: { const: 'square' } } },
+      then: { properties: { side: { maximum: 10 } } },
+      unevaluatedProperties: false
+    };
+
+    expect(JsonSchemaValidator.validate({ kind: 'circle', radius: 2 }, schema).valid).toBe(true);
+    expect(JsonSchemaValidator.validate({ kind: 'square', side: 12 }, schema).errors.map(e => e.path))
+      .toEqual(['/side']);
+    expect(JsonSchemaValidator.validate({ kind: 'circle', radius: 2, color: 'red' }, schema).errors)
+      .toMatchObject([{ path: '/color', keyword: 'unevaluatedProperties' }]);
+    expect(JsonSchemaValidator.validate({ kind: 'triangle' }, schema).errors[0])
+      .toMatchObject({ path: '', keyword: 'oneOf' });
+  });
+
+  test('should check array keywords', () => {
+    const schema = {
+      type: 'array',
+      prefixItems: [{ type: 'string' }],
+      items: { type: 'number' },
+      contains: { const: 0 },
+      uniqueItems: true
+    };
+
+    expect(JsonSchemaValidator.validate(['a', 0, 1], schema).valid).toBe(true);
+    expect(JsonSchemaValidator.validate(['a', 1, 1, 'b'], schema).errors.map(e => `${e.path} ${e.keyword}`)).toEqual([
+      '/3 type',
+      ' contains',
+      ' uniqueItems'
+    ]);
+  });
+});
+
+describe('generateJSON repair loop', () => {
+  let adapter: MistralAdapter;
+  let originalKey: string | undefined;
+  const schema = {
+    type: 'object',
+    properties: { name: { type: 'string' }, age: { type: 'integer' } },
+    required: ['name', 'age']
+  };
+
+  beforeAll(() => {
+    originalKey = process.env.MISTRAL_API_KEY;
+    process.env.MISTRAL_API_KEY = originalKey || 'test-key';
+  });
+
+  afterAll(() => {
+    if (originalKey === undefined) {
+      delete process.env.MISTRAL_API_KEY;
+    } else {
+      process.env.MISTRAL_API_KEY = originalKey;
+    }
+  });
+
+  beforeEach(() => {
+    adapter = new MistralAdapter();
+  });
+
+  test('should re-prompt with validation errors until the output is valid', async () => {
+    const generate = jest.spyOn(adapter, 'generateUncached')
+      .mockResolvedValueOnce(textResponse('{"name": "Ada", "age": "36"'))
+      .mockResolvedValueOnce(textResponse('{"name": "Ada", "age": "36"}'))
+      .mockResolvedValueOnce(textResponse('{"name": "Ada", "age": 36}'));
+
+    const result = await adapter.generateJSON('Who was Ada Lovelace?', schema, {
+      maxRepairAttempts: 2,
+      systemPrompt: 'Be precise.',
+      disableCache: true
+    });
+
+    expect(result).toEqual({ name: 'Ada', age: 36 });
+    expect(generate).toHaveBeenCalledTimes(3);
+
+    const lastCall = generate.mock.calls[2]![0] as Message[];
+    expect(lastCall.map(m => m.role)).toEqual(['system', 'user', 'assistant', 'user', 'assistant', 'user']);
+    expect(lastCall[3]!.content).toMatch(/^Your previous response was not valid JSON/);
+    expect(lastCall[5]!.content).toContain('/age: must be integer');
+  });
+
+  test('should fail with the validation errors when repairs are exhausted', async () => {
+    jest.spyOn(adapter, 'generateUncached').mockResolvedValue(textResponse('{"name": "Ada"}'));
+
+    await expect(adapter.generateJSON('Who was Ada Lovelace?', schema, { disableCache: true }))
+      .rejects.toMatchObject({
+        code: 'SCHEMA_VALIDATION_ERROR',
+        message: "Response does not match expected schema:\n/: must have required property 'age'"
+      });
+  });
+});
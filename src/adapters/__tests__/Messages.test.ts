@@ -0,0 +1,217 @@
+/**
+ * Multi-turn Message Conversion Tests
+ * Verifies each adapter translates provider-neutral messages into its native format
+ * Runs offline - no API calls are made
+ */
+
+import { AnthropicAdapter } from '../anthropic/AnthropicAdapter';
+import { GoogleAdapter } from '../google/GoogleAdapter';
+import { OpenAIAdapter } from '../openai/OpenAIAdapter';
+import { MistralAdapter } from '../mistral/MistralAdapter';
+import { LLMProviderError, Message } from '../types';
+
+const conversation: Message[] = [
+  { role: 'system', content: 'You are a weather assistant.' },
+  { role: 'user', content: 'What is the weather in Paris?' },
+  {
+    role: 'assistant',
+    content: '',
+    toolCalls: [{
+      id: 'call_1',
+      type: 'function',
+      function: { name: 'get_weather', arguments: '{"location":"Paris"}' }
+    }]
+  },
+  { role: 'tool', toolCallId: 'call_1', content: '{"temperature":"22C"}' },
+  { role: 'assistant', content: 'It is 22C in Paris.' },
+  { role: 'user', content: 'Thanks!' }
+];
+
+describe('Multi-turn Messages', () => {
+  const envKeys = ['ANTHROPIC_API_KEY', 'GOOGLE_API_KEY', 'OPENAI_API_KEY', 'MISTRAL_API_KEY'];
+  const originalEnv: Record<string, string | undefined> = {};
+
+  beforeAll(() => {
+    for (const key of envKeys) {
+      originalEnv[key] = process.env[key];
+      process.env[key] = process.env[key] || 'test-key';
+    }
+  });
+
+  afterAll(() => {
+    for (const key of envKeys) {
+      if (originalEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = originalEnv[key];
+      }
+    }
+  });
+
+  describe('OpenAI chat format', () => {
+    test('should convert tool calls and tool results', () => {
+      const adapter = new MistralAdapter();
+      const messages = (adapter as any).buildMessages(conversation);
+
+      expect(messages).toHaveLength(6);
+      expect(messages[0]).toEqual({ role: 'system', content: 'You are a weather assistant.' });
+      expect(messages[2].content).toBeNull();
+      expect(messages[2].tool_calls[0]).toEqual({
+        id: 'call_1',
+        type: 'function',
+        function: { name: 'get_weather', arguments: '{"location":"Paris"}' }
+      });
+      expect(messages[3]).toEqual({ role: 'tool', tool_call_id: 'call_1', content: '{"temperature":"22C"}' });
+    });
+
+    test('should prepend systemPrompt option to a conversation', () => {
+      const adapter = new MistralAdapter();
+      const messages = (adapter as any).buildMessages(
+        [{ role: 'user', content: 'Hi' }],
+        'Be brief.'
+      );
+
+      expect(messages).toEqual([
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Hi' }
+      ]);
+    });
+
+    test('should reject empty conversations and tool messages without an id', () => {
+      const adapter = new MistralAdapter();
+
+      expect(() => (adapter as any).buildMessages([])).toThrow(LLMProviderError);
+      expect(() => (adapter as any).buildMessages([{ role: 'tool', content: 'x' }]))
+        .toThrow('Tool messages require a toolCallId');
+    });
+  });
+
+  describe('Anthropic format', () => {
+    test('should split system prompt and map tool turns to content blocks', () => {
+      const adapter = new AnthropicAdapter();
+      const { system, messages } = (adapter as any).buildAnthropicMessages(conversation);
+
+      expect(system).toBe('You are a weather assistant.');
+      expect(messages.map((m: any) => m.role)).toEqual(['user', 'assistant', 'user', 'assistant', 'user']);
+      expect(messages[1].content).toEqual([{
+        type: 'tool_use',
+        id: 'call_1',
+        name: 'get_weather',
+        input: { location: 'Paris' }
+      }]);
+      expect(messages[2].content[0]).toEqual({
+        type: 'tool_result',
+        tool_use_id: 'call_1',
+        content: '{"temperature":"22C"}'
+      });
+    });
+
+    test('should merge adjacent turns with the same role', () => {
+      const adapter = new AnthropicAdapter();
+      const { messages } = (adapter as any).buildAnthropicMessages([
+        { role: 'user', content: 'First' },
+        { role: 'user', content: 'Second' }
+      ]);
+
+      expect(messages).toHaveLength(1);
+      expect(messages[0].content).toHaveLength(2);
+    });
+  });
+
+  describe('Gemini format', () => {
+    test('should map assistant turns to model role and tool results to functionResponse', () => {
+      const adapter = new GoogleAdapter();
+      const { messages } = (adapter as any).splitSystemMessages(conversation);
+      const contents = (adapter as any).buildGeminiContents(messages);
+
+      expect(contents.map((c: any) => c.role)).toEqual(['user', 'model', 'user', 'model', 'user']);
+      expect(contents[1].parts[0]).toEqual({
+        functionCall: { name: 'get_weather', args: { location: 'Paris' } }
+      });
+      expect(contents[2].parts[0]).toEqual({
+        functionResponse: { name: 'get_weather', response: { temperature: '22C' } }
+      });
+    });
+  });
+
+  describe('OpenAI Responses format', () => {
+    test('should build instructions and function call items', () => {
+      const adapter = new OpenAIAdapter();
+      const { instructions, input } = (adapter as any).buildInputForResponsesAPI(conversation);
+
+      expect(instructions).toBe('You are a weather assistant.');
+      expect(input).toEqual([
+        { role: 'user', content: 'What is the weather in Paris?' },
+        { type: 'function_call', call_id: 'call_1', name: 'get_weather', arguments: '{"location":"Paris"}' },
+        { type: 'function_call_output', call_id: 'call_1', output: '{"temperature":"22C"}' },
+        { role: 'assistant', content: 'It is 22C in Paris.' },
+        { role: 'user', content: 'Thanks!' }
+      ]);
+    });
+  });
+  describe('Content parts', () => {
+    const pngBytes = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    const multimodal: Message[] = [{
+      role: 'user',
+      content: [
+        { type: 'text', text: 'What is in this image?' },
+        { type: 'image', image: pngBytes },
+        { type: 'document', data: 'https://example.com/report.pdf' }
+      ]
+    }];
+
+    test('should map parts to chat-completions content', () => {
+      const adapter = new MistralAdapter();
+      const [message] = (adapter as any).buildMessages(multimodal);
+
+      expect(message.content[0]).toEqual({ type: 'text', text: 'What is in this image?' });
+      expect(message.content[1]).toEqual({
+        type: 'image_url',
+        image_url: { url: `data:image/png;base64,${pngBytes.toString('base64')}` }
+      });
+      expect(message.content[2]).toEqual({ type: 'document_url', document_url: 'https://example.com/report.pdf' });
+    });
+
+    test('should map parts to Anthropic image and document blocks', () => {
+      const adapter = new AnthropicAdapter();
+      const { messages } = (adapter as any).buildAnthropicMessages(multimodal);
+
+      expect(messages[0].content[1]).toEqual({
+        type: 'image',
+        source: { type: 'base64', media_type: 'image/png', data: pngBytes.toString('base64') }
+      });
+      expect(messages[0].content[2]).toEqual({
+        type: 'document',
+        source: { type: 'url', url: 'https://example.com/report.pdf' }
+      });
+    });
+
+    test('should map parts to Gemini inlineData and fileData', () => {
+      const adapter = new GoogleAdapter();
+      const [content] = (adapter as any).buildGeminiContents(multimodal);
+
+      expect(content.parts[1]).toEqual({ inlineData: { mimeType: 'image/png', data: pngBytes.toString('base64') } });
+      expect(content.parts[2]).toEqual({
+        fileData: { mimeType: 'application/pdf', fileUri: 'https://example.com/report.pdf' }
+      });
+    });
+
+    test('should map parts to Responses API input items', () => {
+      const adapter = new OpenAIAdapter();
+      const { input } = (adapter as any).buildInputForResponsesAPI(multimodal);
+
+      expect(input[0].content).toEqual([
+        { type: 'input_text', text: 'What is in this image?' },
+        { type: 'input_image', image_url: `data:image/png;base64,${pngBytes.toString('base64')}` },
+        { type: 'input_file', file_url: 'https://example.com/report.pdf' }
+      ]);
+    });
+
+    test('should reject media before calling a model without image support', async () => {
+      const adapter = new AnthropicAdapter('claude-3-5-haiku-latest');
+
+      await expect(adapter.generate(multimodal, { disableCache: true }))
+        .rejects.toMatchObject({ code: 'UNSUPPORTED_CONTENT' });
+    });
+  });
+});
@@ -11,7 +11,8 @@ describe('Mistral AI Adapter', () => {
   let adapter: MistralAdapter;
 
   beforeAll(() => {
-    adapter = new MistralAdapter();
+    const cassette = BaseAdapterTest.cassette('mistral');
+    adapter = new MistralAdapter(undefined, cassette.providerConfig());
     adapterTest = new BaseAdapterTest(adapter, 'mistral', 'MISTRAL_API_KEY');
   });
 
@@ -0,0 +1,105 @@
+/**
+ * Mock Adapter Tests
+ * Verifies scripted and function responses, streaming, JSON, tool loops, errors and request assertions
+ * Runs offline - no API keys needed
+ */
+
+import { MockAdapter } from '../mock/MockAdapter';
+import { RateLimitError, ProviderOverloadedError, StreamEvent } from '../types';
+import { s } from '../SchemaBuilder';
+
+describe('MockAdapter', () => {
+  test('should play back the script in order and record each request', async () => {
+    const adapter = new MockAdapter({
+      responses: ['Paris', { text: 'Berlin', usage: { promptTokens: 12, completionTokens: 3 } }],
+      pricing: { inputPerMillion: 1, outputPerMillion: 2 }
+    });
+
+    const first = await adapter.generate('Capital of France?', { systemPrompt: 'Be brief' });
+    const second = await adapter.generate('Capital of Germany?', { model: 'mock-large', temperature: 0 });
+
+    expect(first).toMatchObject({ text: 'Paris', provider: 'mock', model: 'mock-model', finishReason: 'stop' });
+    expect(second.usage).toEqual({ promptTokens: 12, completionTokens: 3, totalTokens: 15 });
+    expect(second.cost).toMatchObject({ inputCost: 0.000012, outputCost: 0.000006 });
+    expect(second.model).toBe('mock-large');
+
+    adapter.assertCallCount(2);
+    adapter.assertAllResponsesUsed();
+    expect(adapter.assertRequested('Germany').options).toMatchObject({ temperature: 0 });
+    expect(adapter.requests[0]!.messages).toEqual([
+      { role: 'system', content: 'Be brief' },
+      { role: 'user', content: 'Capital of France?' }
+    ]);
+    expect(() => adapter.assertRequested('Italy')).toThrow('No request to the mock adapter matched "Italy"');
+
+    const error = await adapter.generate('Capital of Spain?').catch(e => e);
+    expect(error.code).toBe('MOCK_EXHAUSTED');
+  });
+
+  test('should stream the text in chunks with the configured timing', async () => {
+    const adapter = new MockAdapter({
+      respond: request => ({ text: `You said: ${MockAdapter.lastUserText(request)}`, reasoning: 'Echo it back' }),
+      tokenDelayMs: 5
+    });
+    const tokens: string[] = [];
+    const events: StreamEvent[] = [];
+
+    const response = await adapter.generateStream('hello there', { onToken: token => tokens.push(token) });
+    for await (const event of adapter.stream('again')) {
+      events.push(event);
+    }
+
+    expect(tokens).toEqual(['You ', 'said: ', 'hello ', 'there']);
+    expect(response).toMatchObject({ text: 'You said: hello there', reasoning: { text: 'Echo it back' } });
+    expect(events.map(event => event.type)).toEqual([
+      'reasoning-delta', 'text-delta', 'text-delta', 'text-delta', 'usage', 'finish'
+    ]);
+    expect(adapter.lastRequest()).toMatchObject({ index: 1, stream: true });
+  });
+
+  test('should support JSON output and tool calls', async () => {
+    const adapter = new MockAdapter({
+      responses: [
+        { json: { city: 'Paris', population: 2100000 } },
+        { toolCalls: [{ name: 'get_weather', arguments: { city: 'Paris' } }] },
+        'It is sunny in Paris.'
+      ]
+    });
+
+    const { object } = await adapter.generateObject('Describe Paris', s.object({ city: s.string(), population: s.number() }));
+    expect(object).toEqual({ city: 'Paris', population: 2100000 });
+    expect(adapter.requests[0]!.options.jsonSchema!.schema).toMatchObject({ required: ['city', 'population'] });
+
+    const getWeather = jest.fn(async ({ city }: { city: string }) => ({ city, conditions: 'sunny' }));
+    const result = await adapter.generateWithTools('Weather in Paris?', [{
+      name: 'get_weather',
+      description: 'Current weather for a city',
+      parameters: { type: 'object', properties: { city: { type: 'string' } } },
+      execute: getWeather
+    }]);
+
+    expect(getWeather).toHaveBeenCalledWith({ city: 'Paris' }, expect.anything());
+    expect(result.text).toBe('It is sunny in Paris.');
+    expect(result.steps[0]!.response).toMatchObject({ finishReason: 'tool_calls', toolCalls: [{ id: 'call_1' }] });
+    expect(adapter.lastRequest()!.messages.map(message => message.role)).toEqual(['user', 'assistant', 'tool']);
+  });
+
+  test('should fail requests with scripted errors', async () => {
+    const adapter = new MockAdapter({
+      responses: [
+        new RateLimitError('Too many requests', 'mock', { retryAfterMs: 1000 }),
+        Object.assign(new Error('Service unavailable'), { status: 503 }),
+        { text: 'Too late', delayMs: 1000 }
+      ]
+    });
+
+    await expect(adapter.generate('Hi')).rejects.toBeInstanceOf(RateLimitError);
+    const streamed = await adapter.generateStream('Hi').catch(e => e);
+    expect(streamed).toBeInstanceOf(ProviderOverloadedError);
+
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 10);
+    const aborted = await adapter.generate('Hi', { signal: controller.signal }).catch(e => e);
+    expect(aborted.code).toBe('ABORTED');
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Ollama Adapter Tests
+ * Verifies keyless requests, native message mapping, NDJSON streaming and model management
+ * Runs offline - server responses are stubbed
+ */
+
+import { OllamaAdapter, OllamaPullProgress } from '../ollama/OllamaAdapter';
+import { InvalidRequestError, LLMProviderError, StreamEvent } from '../types';
+import { RetryManager } from '../../utils/RetryManager';
+
+function jsonResponse(status: number, body: any): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+}
+
+// Lines split across chunk boundaries, as they arrive from a real server
+function ndjsonResponse(lines: any[]): Response {
+  const text = lines.map(line => JSON.stringify(line) + '\n').join('');
+  const encoder = new TextEncoder();
+  return new Response(new ReadableStream({
+    start(controller) {
+      for (let i = 0; i < text.length; i += 40) {
+        controller.enqueue(encoder.encode(text.slice(i, i + 40)));
+      }
+      controller.close();
+    }
+  }), { status: 200, headers: { 'content-type': 'application/x-ndjson' } });
+}
+
+const weatherTool = {
+  type: 'function' as const,
+  function: {
+    name: 'get_weather',
+    description: 'Current weather for a city',
+    parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] }
+  }
+};
+
+describe('OllamaAdapter', () => {
+  const originalHost = process.env.OLLAMA_HOST;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    delete process.env.OLLAMA_HOST;
+    fetchMock = jest.fn();
+    jest.spyOn(RetryManager.getInstance() as any, 'sleep').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    if (originalHost === undefined) {
+      delete process.env.OLLAMA_HOST;
+    } else {
+      process.env.OLLAMA_HOST = originalHost;
+    }
+  });
+
+  function createAdapter(baseUrl?: string): OllamaAdapter {
+    return new OllamaAdapter('qwen3', { ...(baseUrl ? { baseUrl } : {}), transport: { fetch: fetchMock } });
+  }
+
+  test('should send native chat requests without an API key', async () => {
+    process.env.OLLAMA_HOST = 'gpu-box:11434';
+    fetchMock.mockResolvedValue(jsonResponse(200, {
+      model: 'qwen3',
+      message: {
+        role: 'assistant',
+        content: '',
+        thinking: 'The user wants Paris',
+        tool_calls: [{ function: { name: 'get_weather', arguments: { city: 'Paris' } } }]
+      },
+      done: true,
+      done_reason: 'stop',
+      total_duration: 2_500_000_000,
+      prompt_eval_count: 40,
+      eval_count: 20,
+      eval_duration: 1_000_000_000
+    }));
+
+    const adapter = createAdapter();
+    const response = await adapter.generate([
+      { role: 'user', content: [{ type: 'text', text: 'Weather?' }, { type: 'image', image: new Uint8Array([0x89, 0x50, 0x4e, 0x47]) }] },
+      { role: 'assistant', content: '', toolCalls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Oslo"}' } }] },
+      { role: 'tool', toolCallId: 'call_1', content: '{"temp":3}' },
+      { role: 'user', content: 'And Paris?' }
+    ], { disableCache: true, tools: [weatherTool], maxTokens: 50, keepAlive: '10m', reasoning: { enabled: true } });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    const body = JSON.parse(init.body);
+    expect(url).toBe('http://gpu-box:11434/api/chat');
+    expect(init.headers).not.toHaveProperty('Authorization');
+    expect(body).toMatchObject({ model: 'qwen3', stream: false, keep_alive: '10m', think: true, options: { num_predict: 50 } });
+    expect(body.messages).toEqual([
+      { role: 'user', content: 'Weather?', images: ['iVBORw=='] },
+      { role: 'assistant', content: '', tool_calls: [{ function: { name: 'get_weather', arguments: { city: 'Oslo' } } }] },
+      { role: 'tool', content: '{"temp":3}', tool_name: 'get_weather' },
+      { role: 'user', content: 'And Paris?' }
+    ]);
+
+    expect(response.finishReason).toBe('tool_calls');
+    expect(response.toolCalls?.[0]?.function).toEqual({ name: 'get_weather', arguments: '{"city":"Paris"}' });
+    expect(response.reasoning?.text).toBe('The user wants Paris');
+    expect(response.usage).toEqual({ promptTokens: 40, completionTokens: 20, totalTokens: 60 });
+    expect(response.cost?.totalCost).toBe(0);
+    expect(response.metadata).toMatchObject({ totalDurationMs: 2500, tokensPerSecond: 20 });
+  });
+
+  test('should stream NDJSON chunks as events', async () => {
+    fetchMock.mockResolvedValue(ndjsonResponse([
+      { model: 'qwen3', message: { role: 'assistant', content: '', thinking: 'Counting' }, done: false },
+      { model: 'qwen3', message: { role: 'assistant', content: '1, 2, ' }, done: false },
+      { model: 'qwen3', message: { role: 'assistant', content: '3' }, done: false },
+      { model: 'qwen3', message: { role: 'assistant', content: '' }, done: true, done_reason: 'length', prompt_eval_count: 8, eval_count: 4 }
+    ]));
+
+    const events: StreamEvent[] = [];
+    for await (const event of createAdapter('http://localhost:11434/').stream('Count to 3', { disableCache: true, jsonMode: true })) {
+      events.push(event);
+    }
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/api/chat');
+    expect(body).toMatchObject({ stream: true, format: 'json' });
+    expect(events.filter(event => event.type === 'reasoning-delta')).toEqual([{ type: 'reasoning-delta', text: 'Counting' }]);
+    expect(events.filter(event => event.type === 'text-delta').map(event => (event as any).text).join('')).toBe('1, 2, 3');
+    expect(events[events.length - 1]).toMatchObject({
+      type: 'finish',
+      finishReason: 'length',
+      response: { text: '1, 2, 3', usage: { promptTokens: 8, completionTokens: 4, totalTokens: 12 } }
+    });
+  });
+
+  test('should send fill-in-the-middle requests to /api/generate', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, { model: 'qwen3', response: 'return a + b;', done: true, done_reason: 'stop' }));
+
+    const response = await createAdapter().generate('function add(a, b) {', { disableCache: true, suffix: '}' });
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/api/generate');
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({ prompt: 'function add(a, b) {', suffix: '}', stream: false });
+    expect(response.text).toBe('return a + b;');
+  });
+
+  test('should not share cached responses between Ollama options', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(200, { model: 'qwen3', response: 'return a + b;', done: true, done_reason: 'stop' }));
+    const adapter = createAdapter();
+    const prompt = 'function sum(a, b) {';
+
+    await adapter.generate(prompt, { suffix: '}' });
+    const cached = await adapter.generate(prompt, { suffix: '}' });
+    await adapter.generate(prompt, { suffix: '};' });
+    await adapter.generate(prompt, { suffix: '}', raw: true });
+    await adapter.generate(prompt, { suffix: '}', numCtx: 8192 });
+    await adapter.generate(prompt, { suffix: '}', modelOptions: { seed: 42 } });
+    await adapter.generate(prompt, { suffix: '}', keepAlive: 0 });
+
+    expect(cached.metadata?.cached).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(6);
+  });
+
+  test('should report pull progress and manage loaded models', async () => {
+    const adapter = createAdapter();
+    fetchMock.mockResolvedValueOnce(ndjsonResponse([
+      { status: 'pulling manifest' },
+      { status: 'pulling abc123', digest: 'sha256:abc123', total: 2000, completed: 500 },
+      { status: 'pulling abc123', digest: 'sha256:abc123', total: 2000, completed: 2000 },
+      { status: 'success' }
+    ]));
+    const progress: OllamaPullProgress[] = [];
+
+    await adapter.pullModel('llama3.2', { onProgress: update => progress.push(update) });
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ model: 'llama3.2', stream: true });
+    expect(progress.map(update => update.percent)).toEqual([undefined, 25, 100, undefined]);
+    expect(progress[3]!.status).toBe('success');
+
+    fetchMock.mockResolvedValueOnce(ndjsonResponse([{ status: 'pulling manifest' }, { error: 'pull model manifest: file does not exist' }]));
+    const error = await adapter.pullModel('no-such-model').catch(e => e);
+    expect(error).toBeInstanceOf(LLMProviderError);
+    expect(error.code).toBe('PULL_FAILED');
+
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { model: 'qwen3', response: '', done: true, done_reason: 'unload' }));
+    await adapter.unloadModel();
+    expect(JSON.parse(fetchMock.mock.calls[2][1].body)).toEqual({ model: 'qwen3', stream: false, keep_alive: 0 });
+  });
+
+  test('should reject forced tool calls and classify missing models', async () => {
+    const adapter = createAdapter();
+
+    await expect(adapter.generate('Hi', { tools: [weatherTool], toolChoice: 'required' }))
+      .rejects.toMatchObject({ code: 'UNSUPPORTED_TOOL_CHOICE' });
+    await expect(adapter.generate([{ role: 'user', content: [{ type: 'image', image: 'https://example.com/cat.png' }] }]))
+      .rejects.toMatchObject({ code: 'UNSUPPORTED_CONTENT' });
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    fetchMock.mockResolvedValue(jsonResponse(404, { error: "model 'qwen3' not found, try pulling it first" }));
+    const error = await adapter.generate('Hi', { disableCache: true }).catch(e => e);
+    expect(error).toBeInstanceOf(InvalidRequestError);
+    expect(error.code).toBe('UNSUPPORTED_MODEL');
+    expect(error.message).toContain("model 'qwen3' not found");
+  });
+});
@@ -11,7 +11,8 @@ describe('OpenAI Adapter', () => {
   let adapter: OpenAIAdapter;
 
   beforeAll(() => {
-    adapter = new OpenAIAdapter();
+    const cassette = BaseAdapterTest.cassette('openai');
+    adapter = new OpenAIAdapter(undefined, cassette.providerConfig());
     adapterTest = new BaseAdapterTest(adapter, 'openai', 'OPENAI_API_KEY');
   });
 
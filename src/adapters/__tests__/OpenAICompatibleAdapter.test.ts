@@ -0,0 +1,139 @@
+/**
+ * OpenAI-Compatible Adapter Tests
+ * Verifies configurable auth, pricing, model lists and structured output, and
+ * custom providers registered for createAdapter
+ * Runs offline - server responses are stubbed
+ */
+
+import { OpenAICompatibleAdapter } from '../compatible/OpenAICompatibleAdapter';
+import {
+  createAdapter,
+  registerOpenAICompatibleProvider,
+  unregisterOpenAICompatibleProvider,
+  getRegisteredProviders
+} from '../index';
+
+function jsonResponse(status: number, body: any): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+}
+
+function sseResponse(chunks: any[]): Response {
+  const text = chunks.map(chunk => `data: ${JSON.stringify(chunk)}\n\n`).join('') + 'data: [DONE]\n\n';
+  return new Response(text, { status: 200, headers: { 'content-type': 'text/event-stream' } });
+}
+
+const completion = {
+  id: 'cmpl-1',
+  model: 'qwen2.5-7b-instruct',
+  choices: [{ index: 0, message: { role: 'assistant', content: 'Hello', reasoning_content: 'Greeting back' }, finish_reason: 'stop' }],
+  usage: { prompt_tokens: 1000000, completion_tokens: 500000, total_tokens: 1500000 }
+};
+
+describe('OpenAICompatibleAdapter', () => {
+  const originalKey = process.env.GATEWAY_API_KEY;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+  });
+
+  afterEach(() => {
+    unregisterOpenAICompatibleProvider('gateway');
+    if (originalKey === undefined) {
+      delete process.env.GATEWAY_API_KEY;
+    } else {
+      process.env.GATEWAY_API_KEY = originalKey;
+    }
+  });
+
+  test('should create registered providers through createAdapter', async () => {
+    process.env.GATEWAY_API_KEY = 'gw-secret';
+    fetchMock.mockResolvedValue(jsonResponse(200, completion));
+    registerOpenAICompatibleProvider('Gateway', {
+      baseUrl: 'https://llm.internal/v1/',
+      apiKeyEnvVar: 'GATEWAY_API_KEY',
+      auth: { header: 'X-Gateway-Token', prefix: 'Token' },
+      model: 'llama-3.1-8b',
+      pricing: { '*': { inputPerMillion: 0.2, outputPerMillion: 0.4 } },
+      transport: { fetch: fetchMock }
+    });
+
+    const adapter = createAdapter('gateway', 'qwen2.5-7b-instruct', { customHeaders: { 'X-Team': 'search' } });
+    const response = await adapter.generate('Hi', { disableCache: true, topP: 0.9 });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(getRegisteredProviders()).toEqual(['gateway']);
+    expect(url).toBe('https://llm.internal/v1/chat/completions');
+    expect(init.headers).toMatchObject({ 'X-Gateway-Token': 'Token gw-secret', 'X-Team': 'search' });
+    expect(init.headers).not.toHaveProperty('Authorization');
+    expect(JSON.parse(init.body)).toMatchObject({ model: 'qwen2.5-7b-instruct', top_p: 0.9 });
+    expect(response).toMatchObject({ provider: 'gateway', text: 'Hello', reasoning: { text: 'Greeting back' } });
+    expect(response.cost?.totalCost).toBeCloseTo(0.4);
+  });
+
+  test('should reject built-in names and forget unregistered providers', () => {
+    expect(() => registerOpenAICompatibleProvider('openai', { baseUrl: 'http://localhost:8000/v1' }))
+      .toThrow(expect.objectContaining({ code: 'PROVIDER_NAME_TAKEN' }));
+
+    registerOpenAICompatibleProvider('gateway', { baseUrl: 'http://localhost:8000/v1' });
+    expect(unregisterOpenAICompatibleProvider('gateway')).toBe(true);
+    expect(() => createAdapter('gateway')).toThrow(expect.objectContaining({ code: 'UNSUPPORTED_PROVIDER' }));
+  });
+
+  test('should work without a key and list models from the server', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(200, { object: 'list', data: [{ id: 'qwen2.5-7b-instruct', object: 'model' }] }))
+      .mockResolvedValueOnce(sseResponse([
+        { model: 'qwen2.5-7b-instruct', choices: [{ index: 0, delta: { content: '{"ok":' } }] },
+        { model: 'qwen2.5-7b-instruct', choices: [{ index: 0, delta: { content: 'true}' }, finish_reason: 'stop' }] },
+        { model: 'qwen2.5-7b-instruct', choices: [], usage: { prompt_tokens: 12, completion_tokens: 4, total_tokens: 16 } }
+      ]));
+    const adapter = new OpenAICompatibleAdapter({
+      name: 'llamacpp',
+      baseUrl: 'http://localhost:8080/v1',
+      responseFormat: 'none',
+      streamUsage: true,
+      transport: { fetch: fetchMock }
+    });
+
+    const models = await adapter.listModels();
+    const response = await adapter.generateStream('Is it ok?', {
+      disableCache: true,
+      jsonSchema: { schema: { type: 'object', properties: { ok: { type: 'boolean' } } } }
+    });
+
+    expect(models.map(model => model.id)).toEqual(['qwen2.5-7b-instruct']);
+    expect(fetchMock.mock.calls[0][1].headers).not.toHaveProperty('Authorization');
+    const body = JSON.parse(fetchMock.mock.calls[1][1].body);
+    expect(body.stream_options).toEqual({ include_usage: true });
+    expect(body.response_format).toBeUndefined();
+    expect(body.messages[0].content).toContain('Respond only with valid JSON');
+    expect(response).toMatchObject({ provider: 'llamacpp', text: '{"ok":true}', usage: { totalTokens: 16 } });
+  });
+
+  test('should report configured models, pricing and capabilities without calling the server', async () => {
+    const adapter = new OpenAICompatibleAdapter({
+      name: 'lmstudio',
+      baseUrl: 'http://localhost:1234/v1',
+      auth: 'none',
+      apiKey: 'unused',
+      models: ['phi-4', { id: 'llava-1.6', contextWindow: 4096, supportsImages: true, pricing: { inputPerMillion: 1, outputPerMillion: 2 } }],
+      pricing: { 'phi-4': { inputPerMillion: 0, outputPerMillion: 0 } },
+      capabilities: { maxContextWindow: 16384, supportsFunctions: false },
+      transport: { fetch: fetchMock }
+    });
+
+    const models = await adapter.listModels();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(adapter.getCurrentModel()).toBe('phi-4');
+    expect(adapter.getCapabilities()).toMatchObject({ maxContextWindow: 16384, supportsFunctions: false, supportsStreaming: true });
+    expect(models).toEqual([
+      expect.objectContaining({ id: 'phi-4', contextWindow: 16384, supportsImages: false, supportsFunctions: false }),
+      expect.objectContaining({ id: 'llava-1.6', contextWindow: 4096, supportsImages: true, pricing: expect.objectContaining({ outputPerMillion: 2 }) })
+    ]);
+    expect(await adapter.getModelPricing('llava-1.6')).toMatchObject({ rateInputPerMillion: 1, rateOutputPerMillion: 2 });
+    expect(await adapter.getModelPricing('unknown')).toBeNull();
+    expect((adapter as any).buildHeaders()).not.toHaveProperty('Authorization');
+  });
+});
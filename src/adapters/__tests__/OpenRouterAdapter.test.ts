@@ -11,7 +11,8 @@ describe('OpenRouter Adapter', () => {
   let adapter: OpenRouterAdapter;
 
   beforeAll(() => {
-    adapter = new OpenRouterAdapter();
+    const cassette = BaseAdapterTest.cassette('openrouter');
+    adapter = new OpenRouterAdapter(undefined, cassette.providerConfig());
     adapterTest = new BaseAdapterTest(adapter, 'openrouter', 'OPENROUTER_API_KEY');
   });
 
@@ -11,7 +11,8 @@ describe('Perplexity Adapter', () => {
   let adapter: PerplexityAdapter;
 
   beforeAll(() => {
-    adapter = new PerplexityAdapter();
+    const cassette = BaseAdapterTest.cassette('perplexity');
+    adapter = new PerplexityAdapter(undefined, cassette.providerConfig());
     adapterTest = new BaseAdapterTest(adapter, 'perplexity', 'PERPLEXITY_API_KEY');
   });
 
@@ -0,0 +1,131 @@
+/**
+ * Provider Config Tests
+ * Verifies adapters take credentials, endpoints, headers and timeouts from an explicit config
+ * Runs offline - provider responses are stubbed
+ */
+
+import { MistralAdapter } from '../mistral/MistralAdapter';
+import { OpenAIAdapter } from '../openai/OpenAIAdapter';
+import { createAdapter } from '../index';
+import { ConfigManager } from '../../utils/ConfigManager';
+import { RetryManager } from '../../utils/RetryManager';
+import { TimeoutError } from '../types';
+
+function jsonResponse(status: number, body: any) {
+  return {
+    ok: status < 400,
+    status,
+    statusText: 'OK',
+    headers: new Headers(),
+    json: async () => body,
+    text: async () => JSON.stringify(body)
+  };
+}
+
+const completion = {
+  model: 'mistral-large-latest',
+  choices: [{ message: { content: 'Hello' }, finish_reason: 'stop' }],
+  usage: { prompt_tokens: 5, completion_tokens: 1, total_tokens: 6 }
+};
+
+describe('Provider config', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  test('should send requests with the configured key, base URL and headers', async () => {
+    const fetchMock = jest.fn().mockResolvedValue(jsonResponse(200, completion));
+    global.fetch = fetchMock as any;
+
+    const adapter = new MistralAdapter('mistral-small-latest', {
+      apiKey: 'tenant-key',
+      baseUrl: 'https://gateway.internal/mistral/v1',
+      customHeaders: { 'X-Tenant': 'acme' }
+    });
+    await adapter.generate('Hi', { disableCache: true });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://gateway.internal/mistral/v1/chat/completions');
+    expect(init.headers).toMatchObject({ 'Authorization': 'Bearer tenant-key', 'X-Tenant': 'acme' });
+    expect(JSON.parse(init.body).model).toBe('mistral-small-latest');
+    expect(adapter.getApiKey()).toBe('***-key');
+  });
+
+  test('should pass the config to SDK clients', () => {
+    const adapter = new OpenAIAdapter('gpt-4o-mini', {
+      apiKey: 'tenant-key',
+      baseUrl: 'https://gateway.internal/openai/v1',
+      organizationId: 'org-tenant',
+      projectId: 'proj-tenant',
+      timeout: 15000
+    });
+    const client = (adapter as any).client;
+
+    expect(adapter.getCurrentModel()).toBe('gpt-4o-mini');
+    expect(client).toMatchObject({
+      apiKey: 'tenant-key',
+      baseURL: 'https://gateway.internal/openai/v1',
+      organization: 'org-tenant',
+      project: 'proj-tenant',
+      timeout: 15000
+    });
+  });
+
+  test('should merge ConfigManager settings with the config given to createAdapter', async () => {
+    jest.spyOn(ConfigManager.getInstance(), 'getProviderConfig').mockReturnValue({
+      apiKey: 'configured-key',
+      customHeaders: { 'X-Title': 'Research Bot' }
+    });
+    const fetchMock = jest.fn().mockResolvedValue(jsonResponse(200, completion));
+    global.fetch = fetchMock as any;
+
+    const adapter = createAdapter('openrouter', 'openai/gpt-4o', { customHeaders: { 'X-Tenant': 'acme' } });
+    await adapter.generate('Hi', { disableCache: true });
+
+    expect(ConfigManager.getInstance().getProviderConfig).toHaveBeenCalledWith('openrouter');
+    expect(fetchMock.mock.calls[0][1].headers).toMatchObject({
+      'Authorization': 'Bearer configured-key',
+      'X-Title': 'Research Bot',
+      'X-Tenant': 'acme'
+    });
+  });
+
+  test('should not share cached responses between keys or base URLs', async () => {
+    const fetchMock = jest.fn().mockImplementation(async () => jsonResponse(200, completion));
+    global.fetch = fetchMock as any;
+    const prompt = `Cache scope ${Date.now()}`;
+
+    await new MistralAdapter('mistral-small-latest', { apiKey: 'tenant-a' }).generate(prompt);
+    const sameAccount = await new MistralAdapter('mistral-small-latest', { apiKey: 'tenant-a' }).generate(prompt);
+    await new MistralAdapter('mistral-small-latest', { apiKey: 'tenant-b' }).generate(prompt);
+    await new MistralAdapter('mistral-small-latest', {
+      apiKey: 'tenant-a',
+      baseUrl: 'https://gateway.internal/mistral/v1'
+    }).generate(prompt);
+
+    expect(sameAccount.metadata?.cached).toBe(true);
+    expect(fetchMock.mock.calls.map(([url, init]) => [url, init.headers.Authorization])).toEqual([
+      ['https://api.mistral.ai/v1/chat/completions', 'Bearer tenant-a'],
+      ['https://api.mistral.ai/v1/chat/completions', 'Bearer tenant-b'],
+      ['https://gateway.internal/mistral/v1/chat/completions', 'Bearer tenant-a']
+    ]);
+  });
+
+  test('should raise TimeoutError when the provider does not answer in time', async () => {
+    jest.spyOn(RetryManager.getInstance() as any, 'sleep').mockResolvedValue(undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    global.fetch = jest.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal!.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+    })) as any;
+
+    const adapter = new MistralAdapter('mistral-tiny', { apiKey: 'tenant-key', timeout: 20 });
+    const error = await adapter.generate('Hi', { disableCache: true }).catch(e => e);
+    adapter.resetCircuit();
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.message).toBe('Request timed out after 20ms');
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Provider Error Tests
+ * Verifies provider failures are normalized into the typed error hierarchy
+ * Runs offline - provider responses are stubbed
+ */
+
+import { MistralAdapter } from '../mistral/MistralAdapter';
+import { AnthropicAdapter } from '../anthropic/AnthropicAdapter';
+import { OpenAIAdapter } from '../openai/OpenAIAdapter';
+import { RetryManager } from '../../utils/RetryManager';
+import {
+  AuthenticationError,
+  ContentFilterError,
+  ContextLengthExceededError,
+  InvalidRequestError,
+  LLMProviderError,
+  ProviderOverloadedError,
+  RateLimitError,
+  TimeoutError
+} from '../types';
+
+function errorResponse(status: number, body: any, headers: Record<string, string> = {}) {
+  return {
+    ok: false,
+    status,
+    statusText: 'Error',
+    headers: new Headers(headers),
+    text: async () => JSON.stringify(body)
+  };
+}
+
+describe('Provider errors', () => {
+  const envKeys = ['MISTRAL_API_KEY', 'ANTHROPIC_API_KEY', 'OPENAI_API_KEY'];
+  const originalEnv: Record<string, string | undefined> = {};
+  const originalFetch = global.fetch;
+
+  beforeAll(() => {
+    for (const key of envKeys) {
+      originalEnv[key] = process.env[key];
+      process.env[key] = process.env[key] || 'test-key';
+    }
+  });
+
+  afterAll(() => {
+    for (const key of envKeys) {
+      if (originalEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = originalEnv[key];
+      }
+    }
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  function mistral(): MistralAdapter {
+    const adapter = new MistralAdapter();
+    jest.spyOn(RetryManager.getInstance() as any, 'sleep').mockResolvedValue(undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    return adapter;
+  }
+
+  test('should raise RateLimitError with the Retry-After delay', async () => {
+    global.fetch = jest.fn().mockResolvedValue(
+      errorResponse(429, { message: 'Requests rate limit exceeded' }, { 'retry-after': '12' })
+    ) as any;
+
+    const error = await mistral().generate('Hi', { disableCache: true }).catch(e => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error).toBeInstanceOf(LLMProviderError);
+    expect(error).toMatchObject({ code: 'RATE_LIMIT_ERROR', status: 429, retryAfterMs: 12000, provider: 'mistral' });
+  });
+
+  test('should parse token limits from a context length error', async () => {
+    global.fetch = jest.fn().mockResolvedValue(errorResponse(400, {
+      error: {
+        message: "This model's maximum context length is 128000 tokens. However, your messages resulted in 130,512 tokens.",
+        type: 'invalid_request_error',
+        code: 'context_length_exceeded'
+      }
+    })) as any;
+
+    const error = await mistral().generate('Hi', { disableCache: true }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ContextLengthExceededError);
+    expect(error).toMatchObject({ code: 'CONTEXT_LENGTH_EXCEEDED', status: 400, maxTokens: 128000, requestedTokens: 130512 });
+  });
+
+  test('should classify SDK errors by status and provider code', () => {
+    const anthropic = new AnthropicAdapter() as any;
+    const sdkError = (status: number, error: any, headers: Record<string, string> = {}) =>
+      Object.assign(new Error(`${status} ${error.message}`), { status, headers, error: { type: 'error', error } });
+
+    const overloaded = anthropic.classifyError(
+      sdkError(529, { type: 'overloaded_error', message: 'Overloaded' }, { 'retry-after': '3' }),
+      'generation'
+    );
+    expect(overloaded).toBeInstanceOf(ProviderOverloadedError);
+    expect(overloaded).toMatchObject({ code: 'SERVER_ERROR', status: 529, retryAfterMs: 3000 });
+
+    const unauthorized = anthropic.classifyError(sdkError(401, { type: 'authentication_error', message: 'invalid x-api-key' }), 'generation');
+    expect(unauthorized).toBeInstanceOf(AuthenticationError);
+    expect(unauthorized.code).toBe('AUTHENTICATION_ERROR');
+
+    const openai = new OpenAIAdapter() as any;
+    const filtered = openai.classifyError(
+      Object.assign(new Error('400 blocked'), { status: 400, error: { message: 'Request was rejected', code: 'content_filter' } }),
+      'generation'
+    );
+    expect(filtered).toBeInstanceOf(ContentFilterError);
+    expect(filtered.code).toBe('CONTENT_FILTER_ERROR');
+
+    const unknownModel = openai.classifyError(
+      Object.assign(new Error('404'), { status: 404, error: { message: 'The model `gpt-9` does not exist' } }),
+      'generation'
+    );
+    expect(unknownModel).toBeInstanceOf(InvalidRequestError);
+    expect(unknownModel.code).toBe('UNSUPPORTED_MODEL');
+  });
+
+  test('should raise TimeoutError for connection timeouts', () => {
+    const adapter = new OpenAIAdapter() as any;
+    const error = adapter.classifyError(Object.assign(new Error('socket hang up'), { code: 'ETIMEDOUT' }), 'generation');
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.code).toBe('TIMEOUT');
+    expect(error.message).toBe('generation failed: socket hang up');
+  });
+
+  test('should raise InvalidRequestError for pre-flight validation', async () => {
+    global.fetch = jest.fn() as any;
+
+    const error = await new MistralAdapter().generate('Hi', { toolChoice: 'required' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(InvalidRequestError);
+    expect(error.code).toBe('INVALID_TOOL_CHOICE');
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+});
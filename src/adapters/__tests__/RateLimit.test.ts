@@ -0,0 +1,178 @@
+/**
+ * Rate Limit Tests
+ * Verifies header-aware retry scheduling and metadata.rateLimit
+ * Runs offline - provider responses are stubbed
+ */
+
+import { MistralAdapter } from '../mistral/MistralAdapter';
+import { AnthropicAdapter } from '../anthropic/AnthropicAdapter';
+import { RateLimitUtils } from '../../utils/RateLimitUtils';
+import { RetryManager } from '../../utils/RetryManager';
+
+function jsonResponse(status: number, body: any, headers: Record<string, string> = {}) {
+  return {
+    ok: status < 400,
+    status,
+    statusText: status < 400 ? 'OK' : 'Error',
+    headers: new Headers(headers),
+    json: async () => body,
+    text: async () => JSON.stringify(body)
+  };
+}
+
+const completion = {
+  model: 'mistral-large-latest',
+  choices: [{ message: { content: 'Hello' }, finish_reason: 'stop' }],
+  usage: { prompt_tokens: 5, completion_tokens: 1, total_tokens: 6 }
+};
+
+describe('RateLimitUtils', () => {
+  test('should parse OpenAI-style rate-limit headers', () => {
+    expect(RateLimitUtils.parseRateLimitHeaders({
+      'x-ratelimit-limit-requests': '500',
+      'x-ratelimit-remaining-requests': '499',
+      'x-ratelimit-reset-requests': '120ms',
+      'x-ratelimit-limit-tokens': '30000',
+      'x-ratelimit-remaining-tokens': '29000',
+      'x-ratelimit-reset-tokens': '6m0s'
+    })).toEqual({
+      limitRequests: 500,
+      remainingRequests: 499,
+      resetRequestsMs: 120,
+      limitTokens: 30000,
+      remainingTokens: 29000,
+      resetTokensMs: 360000
+    });
+    expect(RateLimitUtils.parseRateLimitHeaders({ 'content-type': 'application/json' })).toBeUndefined();
+  });
+
+  test('should wait for an exhausted Anthropic quota to reset', () => {
+    const reset = new Date(Date.now() + 30000).toISOString();
+    const delay = RateLimitUtils.parseRetryAfter(new Headers({
+      'anthropic-ratelimit-requests-limit': '50',
+      'anthropic-ratelimit-requests-remaining': '0',
+      'anthropic-ratelimit-requests-reset': reset
+    }));
+
+    expect(delay).toBeGreaterThan(28000);
+    expect(delay).toBeLessThanOrEqual(30000);
+    expect(RateLimitUtils.parseRetryAfter({ 'retry-after': '7', 'x-ratelimit-remaining-requests': '0' })).toBe(7000);
+  });
+
+  test('should only retry rate limits, timeouts and server errors', () => {
+    expect(RateLimitUtils.isRetryable({ status: 429 })).toBe(true);
+    expect(RateLimitUtils.isRetryable({ status: 503 })).toBe(true);
+    expect(RateLimitUtils.isRetryable({ response: { status: 408 } })).toBe(true);
+    expect(RateLimitUtils.isRetryable({ status: 400 })).toBe(false);
+    expect(RateLimitUtils.isRetryable({ code: 'CONTEXT_LENGTH_EXCEEDED' })).toBe(false);
+    expect(RateLimitUtils.isRetryable(Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' }))).toBe(true);
+    expect(RateLimitUtils.isRetryable(Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNREFUSED' } }))).toBe(true);
+    expect(RateLimitUtils.isRetryable({ code: 'TIMEOUT' })).toBe(true);
+    expect(RateLimitUtils.isRetryable(new Error('socket hang up'))).toBe(false);
+    expect(RateLimitUtils.isRetryable(new TypeError("Cannot read properties of undefined (reading 'text')"))).toBe(false);
+  });
+});
+
+describe('Header-aware retries', () => {
+  const envKeys = ['MISTRAL_API_KEY', 'ANTHROPIC_API_KEY'];
+  const originalEnv: Record<string, string | undefined> = {};
+  const originalFetch = global.fetch;
+
+  beforeAll(() => {
+    for (const key of envKeys) {
+      originalEnv[key] = process.env[key];
+      process.env[key] = process.env[key] || 'test-key';
+    }
+  });
+
+  afterAll(() => {
+    for (const key of envKeys) {
+      if (originalEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = originalEnv[key];
+      }
+    }
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  function mistral(): { adapter: MistralAdapter; sleep: jest.SpyInstance } {
+    const adapter = new MistralAdapter();
+    const sleep = jest.spyOn(RetryManager.getInstance() as any, 'sleep').mockResolvedValue(undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    return { adapter, sleep };
+  }
+
+  test('should wait for Retry-After and report rate-limit state', async () => {
+    const fetchMock = jest.fn()
+      .mockResolvedValueOnce(jsonResponse(429, { message: 'Rate limit exceeded' }, { 'retry-after': '2' }))
+      .mockResolvedValueOnce(jsonResponse(200, completion, {
+        'x-ratelimit-limit-requests': '60',
+        'x-ratelimit-remaining-requests': '58'
+      }));
+    global.fetch = fetchMock as any;
+    const { adapter, sleep } = mistral();
+
+    const response = await adapter.generate('Hi', { disableCache: true });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(sleep).toHaveBeenCalledWith(2000, undefined);
+    expect(response.metadata?.rateLimit).toEqual({ limitRequests: 60, remainingRequests: 58 });
+  });
+
+  test('should not retry non-retryable 4xx responses', async () => {
+    const fetchMock = jest.fn().mockResolvedValue(jsonResponse(400, { message: 'Invalid temperature' }));
+    global.fetch = fetchMock as any;
+    const { adapter, sleep } = mistral();
+
+    await expect(adapter.generate('Hi', { disableCache: true })).rejects.toMatchObject({ code: 'INVALID_REQUEST', status: 400 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  test('should give up when the provider asks for a longer wait than maxDelay', async () => {
+    const fetchMock = jest.fn().mockResolvedValue(jsonResponse(429, { message: 'Slow down' }, { 'retry-after': '3600' }));
+    global.fetch = fetchMock as any;
+    const { adapter, sleep } = mistral();
+
+    await expect(adapter.generate('Hi', { disableCache: true })).rejects.toMatchObject({ code: 'RATE_LIMIT_ERROR', retryAfterMs: 3600000 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  test('should read rate-limit headers from SDK responses', async () => {
+    const adapter = new AnthropicAdapter();
+    const message = {
+      model: 'claude-3-5-sonnet-20241022',
+      stop_reason: 'end_turn',
+      usage: { input_tokens: 10, output_tokens: 5 },
+      content: [{ type: 'text', text: 'Hi' }]
+    };
+    const request = Object.assign(Promise.resolve(message), {
+      withResponse: async () => ({
+        data: message,
+        response: { headers: new Headers({ 'anthropic-ratelimit-tokens-limit': '80000', 'anthropic-ratelimit-tokens-remaining': '79000' }) }
+      })
+    });
+    (adapter as any).client = { messages: { create: jest.fn().mockReturnValue(request) } };
+
+    const response = await adapter.generate('Hi', { disableCache: true });
+
+    expect(response.metadata?.rateLimit).toEqual({ limitTokens: 80000, remainingTokens: 79000 });
+  });
+
+  test('should let RetryManager honor Retry-After over its backoff', async () => {
+    const manager = RetryManager.getInstance();
+    const sleep = jest.spyOn(manager as any, 'sleep').mockResolvedValue(undefined);
+    const operation = jest.fn()
+      .mockRejectedValueOnce(Object.assign(new Error('429'), { status: 429, headers: { 'retry-after': '4' } }))
+      .mockResolvedValueOnce('ok');
+
+    await expect(manager.withRetry(operation, { maxAttempts: 2 })).resolves.toBe('ok');
+    expect(sleep).toHaveBeenCalledWith(4000, undefined);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Reasoning Tests
+ * Verifies the reasoning option maps onto each provider and LLMResponse.reasoning is filled in
+ * Runs offline - provider responses are stubbed
+ */
+
+import { AnthropicAdapter } from '../anthropic/AnthropicAdapter';
+import { GoogleAdapter } from '../google/GoogleAdapter';
+import { OpenAIAdapter } from '../openai/OpenAIAdapter';
+import { GrokAdapter } from '../grok/GrokAdapter';
+import { PerplexityAdapter } from '../perplexity/PerplexityAdapter';
+import { ThinkTagSplitter } from '../StreamUtils';
+import { Message, Tool } from '../types';
+
+const weatherTool: Tool = {
+  type: 'function',
+  function: {
+    name: 'get_weather',
+    description: 'Get the current weather for a city',
+    parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] }
+  }
+};
+
+describe('Reasoning', () => {
+  const envKeys = ['ANTHROPIC_API_KEY', 'GOOGLE_API_KEY', 'OPENAI_API_KEY', 'XAI_API_KEY', 'PERPLEXITY_API_KEY'];
+  const originalEnv: Record<string, string | undefined> = {};
+
+  beforeAll(() => {
+    for (const key of envKeys) {
+      originalEnv[key] = process.env[key];
+      process.env[key] = process.env[key] || 'test-key';
+    }
+  });
+
+  afterAll(() => {
+    for (const key of envKeys) {
+      if (originalEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = originalEnv[key];
+      }
+    }
+  });
+
+  test('should send Anthropic thinking and return signed thinking blocks', async () => {
+    const adapter = new AnthropicAdapter('claude-sonnet-4-20250514');
+    const create = jest.fn().mockResolvedValue({
+      model: 'claude-sonnet-4-20250514',
+      stop_reason: 'tool_use',
+      usage: { input_tokens: 10, output_tokens: 50 },
+      content: [
+        { type: 'thinking', thinking: 'The user wants the weather.', signature: 'sig-1' },
+        { type: 'redacted_thinking', data: 'encrypted' },
+        { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } }
+      ]
+    });
+    (adapter as any).client = { messages: { create } };
+
+    const response = await adapter.generate('Weather in Paris?', {
+      tools: [weatherTool],
+      temperature: 0.2,
+      reasoning: { effort: 'low' },
+      disableCache: true
+    });
+
+    const params = create.mock.calls[0][0];
+    expect(params.thinking).toEqual({ type: 'enabled', budget_tokens: 2048 });
+    expect(params.max_tokens).toBe(4096 + 2048);
+    expect(params).not.toHaveProperty('temperature');
+    expect(response.reasoning).toEqual({
+      text: 'The user wants the weather.',
+      signatures: [
+        { provider: 'anthropic', signature: 'sig-1', text: 'The user wants the weather.' },
+        { provider: 'anthropic', signature: 'encrypted', redacted: true }
+      ]
+    });
+
+    // Replayed ahead of the tool call in the follow-up turn
+    const conversation: Message[] = [
+      { role: 'user', content: 'Weather in Paris?' },
+      { role: 'assistant', content: '', toolCalls: response.toolCalls!, reasoning: response.reasoning! },
+      { role: 'tool', toolCallId: 'toolu_1', content: '22C' }
+    ];
+    const { messages } = (adapter as any).buildAnthropicMessages(conversation);
+    expect(messages[1].content.map((block: any) => block.type)).toEqual(['thinking', 'redacted_thinking', 'tool_use']);
+  });
+
+  test('should reject a forced tool call while Anthropic thinking is on', async () => {
+    const adapter = new AnthropicAdapter('claude-sonnet-4-20250514');
+    const create = jest.fn();
+    (adapter as any).client = { messages: { create } };
+
+    await expect(adapter.generate('Weather?', {
+      tools: [weatherTool],
+      toolChoice: 'required',
+      reasoning: { budgetTokens: 4000 }
+    })).rejects.toMatchObject({ code: 'UNSUPPORTED_TOOL_CHOICE' });
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  test('should configure Gemini thinking and read thought summaries', async () => {
+    const adapter = new GoogleAdapter('gemini-2.5-flash');
+    const request = (options: any) => (adapter as any).buildRequest('Why?', options).config.thinkingConfig;
+
+    expect(request({ reasoning: { budgetTokens: 1000 } })).toEqual({ includeThoughts: true, thinkingBudget: 1000 });
+    expect(request({ reasoning: {} })).toEqual({ includeThoughts: true });
+    expect(request({ reasoning: { enabled: false } })).toEqual({ thinkingBudget: 0 });
+
+    (adapter as any).client = {
+      models: {
+        generateContent: jest.fn().mockResolvedValue({
+          candidates: [{
+            finishReason: 'STOP',
+            content: { parts: [{ text: 'Considering causes.', thought: true }, { text: 'Because.', thoughtSignature: 'sig' }] }
+          }],
+          usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 2, thoughtsTokenCount: 40, totalTokenCount: 47 }
+        })
+      }
+    };
+
+    const response = await adapter.generate('Why?', { reasoning: {}, disableCache: true });
+    expect(response.text).toBe('Because.');
+    expect(response.reasoning).toEqual({
+      summary: 'Considering causes.',
+      tokens: 40,
+      signatures: [{ provider: 'google', signature: 'sig' }]
+    });
+  });
+
+  test('should request OpenAI reasoning effort and return the summary', async () => {
+    const adapter = new OpenAIAdapter() as any;
+    const options = { model: 'o3', temperature: 0.5, maxTokens: 500, reasoning: { budgetTokens: 30000 } };
+
+    const responsesParams = adapter.buildResponsesParams('Prove it', options);
+    expect(responsesParams.reasoning).toEqual({ effort: 'high', summary: 'auto' });
+    expect(responsesParams).not.toHaveProperty('temperature');
+    expect(adapter.buildChatCompletionParams('Prove it', options)).toMatchObject({
+      reasoning_effort: 'high',
+      max_completion_tokens: 500
+    });
+    expect(adapter.buildResponsesParams('Hi', { model: 'gpt-4o', reasoning: {} })).not.toHaveProperty('reasoning');
+
+    adapter.client = {
+      responses: {
+        create: jest.fn().mockResolvedValue({
+          model: 'o3',
+          status: 'completed',
+          output: [
+            { type: 'reasoning', summary: [{ type: 'summary_text', text: 'Checked both cases.' }] },
+            { type: 'message', content: [{ type: 'output_text', text: 'QED' }] }
+          ],
+          usage: { input_tokens: 10, output_tokens: 90, total_tokens: 100, output_tokens_details: { reasoning_tokens: 80 } }
+        })
+      }
+    };
+
+    const response = await adapter.generate('Prove it', { ...options, disableCache: true });
+    expect(response.text).toBe('QED');
+    expect(response.usage.reasoningTokens).toBe(80);
+    expect(response.reasoning).toEqual({ summary: 'Checked both cases.', tokens: 80 });
+  });
+
+  test('should map effort onto Grok reasoning_effort and return reasoning_content', async () => {
+    const adapter = new GrokAdapter('grok-3-mini') as any;
+    expect(adapter.buildGrokRequest('Hi', { reasoning: { effort: 'medium' } }).reasoning_effort).toBe('high');
+    expect(adapter.buildGrokRequest('Hi', { reasoning: { effort: 'low' } }).reasoning_effort).toBe('low');
+
+    adapter.client = {
+      chat: {
+        completions: {
+          create: jest.fn().mockResolvedValue({
+            model: 'grok-3-mini',
+            choices: [{ message: { content: '4', reasoning_content: '2 + 2 = 4' }, finish_reason: 'stop' }],
+            usage: { prompt_tokens: 5, completion_tokens: 20, total_tokens: 25, completion_tokens_details: { reasoning_tokens: 18 } }
+          })
+        }
+      }
+    };
+
+    const response = await adapter.generate('2 + 2?', { reasoning: { effort: 'low' }, disableCache: true });
+    expect(response.reasoning).toEqual({ text: '2 + 2 = 4', tokens: 18 });
+  });
+
+  test('should split Perplexity <think> reasoning from the answer', () => {
+    const splitter = new ThinkTagSplitter();
+    const events = ['<thi', 'nk>Search first.</th', 'ink>\n\nParis', ' is the capital.'].flatMap(chunk => splitter.push(chunk));
+    events.push(...splitter.flush());
+
+    expect(events).toEqual([
+      { type: 'reasoning-delta', text: 'Search first.' },
+      { type: 'text-delta', text: 'Paris' },
+      { type: 'text-delta', text: ' is the capital.' }
+    ]);
+
+    const response = (new PerplexityAdapter('sonar-reasoning') as any).parseResponse({
+      choices: [{ message: { content: '<think>\nSearch first.\n</think>\nParis.' }, finish_reason: 'stop' }]
+    }, 'sonar-reasoning');
+    expect(response.text).toBe('Paris.');
+    expect(response.reasoning).toEqual({ text: 'Search first.' });
+  });
+});
@@ -11,7 +11,8 @@ describe('Requesty Adapter', () => {
   let adapter: RequestyAdapter;
 
   beforeAll(() => {
-    adapter = new RequestyAdapter();
+    const cassette = BaseAdapterTest.cassette('requesty');
+    adapter = new RequestyAdapter(undefined, cassette.providerConfig());
     adapterTest = new BaseAdapterTest(adapter, 'requesty', 'REQUESTY_API_KEY');
   });
 
@@ -0,0 +1,149 @@
+/**
+ * Router Adapter Tests
+ * Verifies capability, context and price filtering, routing policies and metadata.routing
+ * Runs offline - provider responses are stubbed
+ */
+
+import { RouterAdapter } from '../router/RouterAdapter';
+import { AnthropicAdapter } from '../anthropic/AnthropicAdapter';
+import { OpenAIAdapter } from '../openai/OpenAIAdapter';
+import { AzureOpenAIAdapter } from '../azure/AzureOpenAIAdapter';
+import { OllamaAdapter } from '../ollama/OllamaAdapter';
+import { InvalidRequestError, LLMResponse, StreamEvent } from '../types';
+
+function reply(provider: string, model: string, text = 'Hello'): LLMResponse {
+  return { text, model, provider, finishReason: 'stop' };
+}
+
+async function* events(items: StreamEvent[]): AsyncGenerator<StreamEvent> {
+  for (const item of items) {
+    yield item;
+  }
+}
+
+describe('RouterAdapter', () => {
+  const envKeys = ['ANTHROPIC_API_KEY', 'OPENAI_API_KEY'];
+  const originalEnv: Record<string, string | undefined> = {};
+  const models = ['gpt-4o', 'gpt-4.1-nano', 'o3', 'claude-3-5-haiku-latest'];
+
+  beforeAll(() => {
+    for (const key of envKeys) {
+      originalEnv[key] = process.env[key];
+      process.env[key] = process.env[key] || 'test-key';
+    }
+  });
+
+  afterAll(() => {
+    for (const key of envKeys) {
+      if (originalEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = originalEnv[key];
+      }
+    }
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function router(policy: 'cheapest' | 'fastest' | 'balanced' = 'cheapest') {
+    const openai = new OpenAIAdapter();
+    const anthropic = new AnthropicAdapter();
+    jest.spyOn(openai, 'generate').mockImplementation(async (_prompt, options) => reply('openai', options!.model!));
+    jest.spyOn(anthropic, 'generate').mockImplementation(async (_prompt, options) => reply('anthropic', options!.model!));
+    return { openai, anthropic, adapter: new RouterAdapter({ adapters: [openai, anthropic], models, policy }) };
+  }
+
+  test('should route to the cheapest model with the capabilities the request needs', async () => {
+    const { openai, adapter } = router();
+
+    const response = await adapter.generate('Hi', { maxTokens: 100 });
+
+    expect(openai.generate).toHaveBeenCalledWith('Hi', { maxTokens: 100, model: 'gpt-4.1-nano' });
+    expect(response.metadata?.routing).toMatchObject({
+      provider: 'openai',
+      model: 'gpt-4.1-nano',
+      policy: 'cheapest',
+      requirements: { tools: false, images: false, thinking: false, outputTokens: 100 }
+    });
+
+    const withImage = adapter.route([{
+      role: 'user',
+      content: [{ type: 'text', text: 'What is this?' }, { type: 'image', image: 'https://example.com/cat.png' }]
+    }]);
+    expect(withImage).toMatchObject({ model: 'gpt-4o', requirements: { images: true } });
+    expect(withImage.rejected['without image input']).toBe(3);
+
+    expect(adapter.route('Think it through', { reasoning: { effort: 'high' } }).model).toBe('o3');
+  });
+
+  test('should rule out models over the price limit or context window', () => {
+    const { adapter } = router();
+
+    expect(adapter.route('Hi', { maxTokens: 100, routing: { maxPricePerMillion: 0.5, requires: { tools: true } } }).model)
+      .toBe('gpt-4.1-nano');
+    const longPrompt = 'word '.repeat(110000); // ~143k tokens
+    expect(adapter.route(longPrompt).rejected['over the context window']).toBe(1);
+
+    const error = (() => {
+      try {
+        return adapter.route('Hi', { routing: { maxPricePerMillion: 0.01 } });
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(error).toBeInstanceOf(InvalidRequestError);
+    expect(error).toMatchObject({ code: 'NO_ROUTE', provider: 'router' });
+  });
+
+  test('should route to the current model of adapters without registry models', () => {
+    const azure = new AzureOpenAIAdapter('chat-prod', {
+      apiKey: 'azure-secret',
+      baseUrl: 'https://contoso.openai.azure.com',
+      deployments: { 'chat-prod': 'gpt-4o' }
+    });
+    const ollama = new OllamaAdapter('llama3.2');
+    const adapter = new RouterAdapter({ adapters: [azure, ollama] });
+
+    expect(adapter.route('Hi')).toMatchObject({ provider: 'ollama', model: 'llama3.2', estimatedCost: 0 });
+    expect(adapter.route('Hi', { routing: { models: ['chat-prod'] } })).toMatchObject({ provider: 'azure', model: 'chat-prod' });
+    expect(adapter.route('Hi', { routing: { models: ['chat-prod'] } }).estimatedCost).toBeGreaterThan(0);
+  });
+
+  test('should prefer models with lower observed latency', async () => {
+    const { anthropic, adapter } = router('fastest');
+    (adapter as any).latencies.set('openai:gpt-4.1-nano', 900);
+    (adapter as any).latencies.set('anthropic:claude-3-5-haiku-latest', 300);
+
+    const response = await adapter.generate('Hi');
+
+    expect(anthropic.generate).toHaveBeenCalledWith('Hi', { model: 'claude-3-5-haiku-latest' });
+    expect(response.metadata?.routing).toMatchObject({ policy: 'fastest', latencyMs: 300 });
+    expect(adapter.getLatencies()['anthropic:claude-3-5-haiku-latest']).toBeLessThan(300);
+  });
+
+  test('should not record latency for cached responses', async () => {
+    const { openai, adapter } = router();
+    (adapter as any).latencies.set('openai:gpt-4.1-nano', 900);
+    jest.spyOn(openai, 'generate').mockResolvedValue({ ...reply('openai', 'gpt-4.1-nano'), metadata: { cached: true } });
+
+    await adapter.generate('Hi');
+
+    expect(adapter.getLatencies()['openai:gpt-4.1-nano']).toBe(900);
+  });
+
+  test('should attach the routing decision to the stream finish event', async () => {
+    const { openai, adapter } = router();
+    jest.spyOn(openai, 'stream').mockReturnValue(events([
+      { type: 'text-delta', text: 'Hello' },
+      { type: 'finish', finishReason: 'stop', response: reply('openai', 'gpt-4.1-nano') }
+    ]));
+
+    const response = await adapter.generateStream('Hi');
+
+    expect(response.text).toBe('Hello');
+    expect(response.metadata?.routing).toMatchObject({ provider: 'openai', model: 'gpt-4.1-nano' });
+    expect(adapter.getLatencies()).toHaveProperty(['openai:gpt-4.1-nano']);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Stream Event Tests
+ * Verifies adapters translate provider streams into typed stream events
+ * Runs offline - provider responses are stubbed
+ */
+
+import { MistralAdapter } from '../mistral/MistralAdapter';
+import { AnthropicAdapter } from '../anthropic/AnthropicAdapter';
+import { parseSSE } from '../StreamUtils';
+import { LLMProviderError, StreamEvent } from '../types';
+
+async function* chunks<T>(items: T[]): AsyncGenerator<T> {
+  for (const item of items) {
+    yield item;
+  }
+}
+
+async function collect(events: AsyncIterable<StreamEvent>): Promise<StreamEvent[]> {
+  const collected: StreamEvent[] = [];
+  for await (const event of events) {
+    collected.push(event);
+  }
+  return collected;
+}
+
+describe('Stream events', () => {
+  const envKeys = ['MISTRAL_API_KEY', 'ANTHROPIC_API_KEY'];
+  const originalEnv: Record<string, string | undefined> = {};
+  const originalFetch = global.fetch;
+
+  beforeAll(() => {
+    for (const key of envKeys) {
+      originalEnv[key] = process.env[key];
+      process.env[key] = process.env[key] || 'test-key';
+    }
+  });
+
+  afterAll(() => {
+    for (const key of envKeys) {
+      if (originalEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = originalEnv[key];
+      }
+    }
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('should parse SSE events split across chunk boundaries', async () => {
+    const encoder = new TextEncoder();
+    const messages = [];
+    for await (const message of parseSSE(chunks([
+      encoder.encode('event: ping\ndata: {"a"'),
+      encoder.encode(':1}\n\n: keep-alive\n'),
+      encoder.encode('data: [DONE]\n\n')
+    ]))) {
+      messages.push(message);
+    }
+
+    expect(messages).toEqual([
+      { event: 'ping', data: '{"a":1}' },
+      { data: '[DONE]' }
+    ]);
+  });
+
+  test('should stream text, tool call deltas, usage and finish from chat-completion chunks', async () => {
+    const sse = [
+      { model: 'mistral-large-latest', choices: [{ delta: { content: 'Checking' } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'get_weather', arguments: '{"city":' } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '"Paris"}' } }] } }] },
+      { choices: [{ delta: {}, finish_reason: 'tool_calls' }], usage: { prompt_tokens: 12, completion_tokens: 7, total_tokens: 19 } }
+    ].map(chunk => `data: ${JSON.stringify(chunk)}\n\n`).concat('data: [DONE]\n\n');
+
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, body: chunks(sse) }) as any;
+
+    const adapter = new MistralAdapter();
+    const events = await collect(adapter.stream('Weather in Paris?'));
+
+    expect(events.map(e => e.type)).toEqual([
+      'text-delta', 'tool-call-delta', 'tool-call-delta', 'tool-call', 'usage', 'finish'
+    ]);
+    expect(events[3]).toEqual({
+      type: 'tool-call',
+      toolCall: { id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }
+    });
+
+    const finish = events[5] as Extract<StreamEvent, { type: 'finish' }>;
+    expect(finish.finishReason).toBe('tool_calls');
+    expect(finish.response.text).toBe('Checking');
+    expect(finish.response.usage).toEqual({ promptTokens: 12, completionTokens: 7, totalTokens: 19 });
+  });
+
+  test('should stream Anthropic thinking, text and tool use blocks', async () => {
+    const adapter = new AnthropicAdapter();
+    (adapter as any).client = {
+      messages: {
+        create: jest.fn().mockResolvedValue(chunks([
+          { type: 'message_start', message: { model: 'claude-sonnet-4-20250514', usage: { input_tokens: 20, output_tokens: 1 } } },
+          { type: 'content_block_start', index: 0, content_block: { type: 'thinking' } },
+          { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'Need weather.' } },
+          { type: 'content_block_stop', index: 0 },
+          { type: 'content_block_start', index: 1, content_block: { type: 'text' } },
+          { type: 'content_block_delta', index: 1, delta: { type: 'text_delta', text: 'Let me check.' } },
+          { type: 'content_block_stop', index: 1 },
+          { type: 'content_block_start', index: 2, content_block: { type: 'tool_use', id: 'toolu_1', name: 'get_weather' } },
+          { type: 'content_block_delta', index: 2, delta: { type: 'input_json_delta', partial_json: '{"city":"Paris"}' } },
+          { type: 'content_block_stop', index: 2 },
+          { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 30 } },
+          { type: 'message_stop' }
+        ]))
+      }
+    };
+
+    const events = await collect(adapter.stream('Weather in Paris?'));
+
+    expect(events.map(e => e.type)).toEqual([
+      'reasoning-delta', 'text-delta', 'tool-call-delta', 'tool-call', 'usage', 'finish'
+    ]);
+    const finish = events[5] as Extract<StreamEvent, { type: 'finish' }>;
+    expect(finish.finishReason).toBe('tool_calls');
+    expect(finish.response.usage).toEqual({ promptTokens: 20, completionTokens: 30, totalTokens: 50 });
+    expect(finish.response.toolCalls).toHaveLength(1);
+  });
+
+  test('should yield an error event and reject generateStream with the same error', async () => {
+    const adapter = new AnthropicAdapter();
+    const authError = new LLMProviderError('Invalid API key', 'anthropic', 'AUTHENTICATION_ERROR');
+    (adapter as any).client = { messages: { create: jest.fn().mockRejectedValue(authError) } };
+
+    const events = await collect(adapter.stream('Hello'));
+    expect(events).toEqual([{ type: 'error', error: authError }]);
+
+    const onError = jest.fn();
+    await expect(adapter.generateStream('Hello', { onError })).rejects.toBe(authError);
+    expect(onError).toHaveBeenCalledWith(authError);
+  });
+
+  test('should layer onToken and onComplete callbacks on the event stream', async () => {
+    const sse = ['Hel', 'lo'].map(text => `data: ${JSON.stringify({ choices: [{ delta: { content: text } }] })}\n\n`);
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, body: chunks(sse) }) as any;
+
+    const adapter = new MistralAdapter();
+    const tokens: string[] = [];
+    const onComplete = jest.fn();
+    const response = await adapter.generateStream('Say hello', { onToken: t => tokens.push(t), onComplete });
+
+    expect(tokens).toEqual(['Hel', 'lo']);
+    expect(response.text).toBe('Hello');
+    expect(onComplete).toHaveBeenCalledWith(response);
+  });
+});
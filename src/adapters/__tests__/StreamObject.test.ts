@@ -0,0 +1,132 @@
+/**
+ * Streaming Object Tests
+ * Verifies incremental partial-JSON parsing and streamObject events
+ * Runs offline - provider responses are stubbed
+ */
+
+import { PartialJSONParser } from '../PartialJSON';
+import { MistralAdapter } from '../mistral/MistralAdapter';
+import { s } from '../SchemaBuilder';
+import { ObjectStreamEvent } from '../types';
+
+async function* chunks<T>(items: T[]): AsyncGenerator<T> {
+  for (const item of items) {
+    yield item;
+  }
+}
+
+function sseBody(texts: string[]): AsyncGenerator<string> {
+  return chunks(texts
+    .map(text => `data: ${JSON.stringify({ choices: [{ delta: { content: text } }] })}\n\n`)
+    .concat(`data: ${JSON.stringify({ choices: [{ delta: {}, finish_reason: 'stop' }] })}\n\n`, 'data: [DONE]\n\n'));
+}
+
+describe('PartialJSONParser', () => {
+  test('should expose unfinished strings and numbers as they stream', () => {
+    const parser = new PartialJSONParser();
+    const snapshots = ['{"na', 'me": "Ad', 'a", "age": 3', '6, "tags": ["x', '"]'].map(text => {
+      parser.push(text);
+      return parser.value;
+    });
+
+    expect(snapshots).toEqual([
+      {},
+      { name: 'Ad' },
+      { name: 'Ada', age: 3 },
+      { name: 'Ada', age: 36, tags: ['x'] },
+      { name: 'Ada', age: 36, tags: ['x'] }
+    ]);
+    expect(parser.isComplete).toBe(false);
+    parser.push('}');
+    expect(parser.isComplete).toBe(true);
+  });
+
+  test('should report completed array elements with their path', () => {
+    const parser = new PartialJSONParser();
+    const first = parser.push('{"items": [{"id": 1}, {"id"');
+    const second = parser.push(': 2}], "done": true}');
+
+    expect(first.elements).toEqual([{ path: '/items', index: 0, element: { id: 1 } }]);
+    expect(second.elements).toEqual([{ path: '/items', index: 1, element: { id: 2 } }]);
+  });
+
+  test('should handle escapes, literals and a leading code fence', () => {
+    const parser = new PartialJSONParser();
+    parser.push('```json\n["a\\"b\\u00e9", tr');
+    expect(parser.value).toEqual(['a"bé']);
+    const update = parser.push('ue, null, -1.5e2]\n```');
+
+    expect(parser.value).toEqual(['a"bé', true, null, -150]);
+    expect(update.elements.map(e => e.element)).toEqual([true, null, -150]);
+  });
+});
+
+describe('streamObject', () => {
+  let originalKey: string | undefined;
+  const originalFetch = global.fetch;
+
+  beforeAll(() => {
+    originalKey = process.env.MISTRAL_API_KEY;
+    process.env.MISTRAL_API_KEY = originalKey || 'test-key';
+  });
+
+  afterAll(() => {
+    if (originalKey === undefined) {
+      delete process.env.MISTRAL_API_KEY;
+    } else {
+      process.env.MISTRAL_API_KEY = originalKey;
+    }
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  const cities = s.object({
+    cities: s.array(s.object({ name: s.string(), population: s.integer() }))
+  });
+
+  test('should stream partial objects, array elements and a validated result', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      body: sseBody(['{"cities": [{"name": "Par', 'is", "population": 2100000}, ', '{"name": "Lyon", "population": 520000}]}'])
+    }) as any;
+
+    const adapter = new MistralAdapter();
+    const events: ObjectStreamEvent<{ cities: { name: string; population: number }[] }>[] = [];
+    for await (const event of adapter.streamObject('Two French cities', cities)) {
+      events.push(event);
+    }
+
+    expect(events.filter(e => e.type === 'partial-object').map(e => (e as any).object)).toEqual([
+      { cities: [{ name: 'Par' }] },
+      { cities: [{ name: 'Paris', population: 2100000 }] },
+      { cities: [{ name: 'Paris', population: 2100000 }, { name: 'Lyon', population: 520000 }] }
+    ]);
+    expect(events.filter(e => e.type === 'array-element').map(e => (e as any).index)).toEqual([0, 1]);
+
+    const finish = events[events.length - 1]!;
+    expect(finish.type).toBe('finish');
+    if (finish.type === 'finish') {
+      expect(finish.object.cities[1]!.name).toBe('Lyon');
+      expect(finish.response.object).toBe(finish.object);
+    }
+  });
+
+  test('should end with a validation error when the final object does not match', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      body: sseBody(['{"cities": [{"name": "Paris"}]}'])
+    }) as any;
+
+    const adapter = new MistralAdapter();
+    const events = [];
+    for await (const event of adapter.streamObject('A French city', cities)) {
+      events.push(event);
+    }
+
+    const last = events[events.length - 1]!;
+    expect(last.type).toBe('error');
+    expect((last as any).error.code).toBe('SCHEMA_VALIDATION_ERROR');
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Structured Output Tests
+ * Verifies JSON Schema requests use each provider's native mechanism or prompt emulation
+ * Runs offline - provider responses are stubbed
+ */
+
+import { OpenAIAdapter } from '../openai/OpenAIAdapter';
+import { GoogleAdapter } from '../google/GoogleAdapter';
+import { AnthropicAdapter } from '../anthropic/AnthropicAdapter';
+import { GroqAdapter } from '../groq/GroqAdapter';
+import { OpenRouterAdapter } from '../openrouter/OpenRouterAdapter';
+import { StreamEvent } from '../types';
+
+const personSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    age: { type: ['integer', 'null'] },
+    role: { enum: ['admin', 'user'] }
+  },
+  required: ['name', 'age', 'role'],
+  additionalProperties: false
+};
+
+async function* chunks<T>(items: T[]): AsyncGenerator<T> {
+  for (const item of items) {
+    yield item;
+  }
+}
+
+describe('Structured output', () => {
+  const envKeys = ['OPENAI_API_KEY', 'GOOGLE_API_KEY', 'ANTHROPIC_API_KEY', 'GROQ_API_KEY', 'OPENROUTER_API_KEY'];
+  const originalEnv: Record<string, string | undefined> = {};
+  const originalFetch = global.fetch;
+
+  beforeAll(() => {
+    for (const key of envKeys) {
+      originalEnv[key] = process.env[key];
+      process.env[key] = process.env[key] || 'test-key';
+    }
+  });
+
+  afterAll(() => {
+    for (const key of envKeys) {
+      if (originalEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = originalEnv[key];
+      }
+    }
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('should send OpenAI json_schema formats for both APIs', () => {
+    const adapter = new OpenAIAdapter() as any;
+    const jsonSchema = { name: 'person', schema: personSchema, strict: true };
+
+    expect(adapter.buildResponsesParams('Who?', { jsonSchema }).text).toEqual({
+      format: { type: 'json_schema', name: 'person', schema: personSchema, strict: true }
+    });
+    expect(adapter.buildChatCompletionParams('Who?', { jsonSchema }).response_format).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'person', schema: personSchema, strict: true }
+    });
+    expect(adapter.supportsNativeStructuredOutput('gpt-4o')).toBe(true);
+    expect(adapter.supportsNativeStructuredOutput('gpt-3.5-turbo')).toBe(false);
+  });
+
+  test('should convert the schema to a Gemini responseSchema', () => {
+    const adapter = new GoogleAdapter() as any;
+    const { config } = adapter.buildRequest('Who?', { jsonSchema: { schema: personSchema } });
+
+    expect(config.responseMimeType).toBe('application/json');
+    expect(config.responseSchema).toEqual({
+      type: 'OBJECT',
+      properties: {
+        name: { type: 'STRING' },
+        age: { type: 'INTEGER', nullable: true },
+        role: { type: 'STRING', enum: ['admin', 'user'] }
+      },
+      propertyOrdering: ['name', 'age', 'role'],
+      required: ['name', 'age', 'role']
+    });
+  });
+
+  test('should force an Anthropic tool call and return its input as JSON text', async () => {
+    const adapter = new AnthropicAdapter();
+    const create = jest.fn().mockResolvedValue({
+      model: 'claude-3-5-sonnet-20241022',
+      stop_reason: 'tool_use',
+      usage: { input_tokens: 10, output_tokens: 5 },
+      content: [{ type: 'tool_use', id: 'toolu_1', name: 'structured_output', input: { value: ['a', 'b'] } }]
+    });
+    (adapter as any).client = { messages: { create } };
+
+    const result = await adapter.generateJSON('List two letters', { type: 'array', items: { type: 'string' } }, {
+      disableCache: true
+    });
+
+    expect(result).toEqual(['a', 'b']);
+    const params = create.mock.calls[0][0];
+    expect(params.tool_choice).toEqual({ type: 'tool', name: 'structured_output' });
+    expect(params.tools[0].input_schema).toEqual({
+      type: 'object',
+      properties: { value: { type: 'array', items: { type: 'string' } } },
+      required: ['value']
+    });
+  });
+
+  test('should stream Anthropic structured output as text deltas', async () => {
+    const adapter = new AnthropicAdapter();
+    (adapter as any).client = {
+      messages: {
+        create: jest.fn().mockResolvedValue(chunks([
+          { type: 'message_start', message: { model: 'claude-3-5-sonnet-20241022', usage: { input_tokens: 10 } } },
+          { type: 'content_block_start', index: 0, content_block: { type: 'tool_use', id: 'toolu_1', name: 'person' } },
+          { type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json: '{"name":' } },
+          { type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json: '"Ada"}' } },
+          { type: 'content_block_stop', index: 0 },
+          { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 8 } }
+        ]))
+      }
+    };
+
+    const events: StreamEvent[] = [];
+    for await (const event of adapter.stream('Who?', { jsonSchema: { name: 'person', schema: personSchema } })) {
+      events.push(event);
+    }
+
+    expect(events.map(e => e.type)).toEqual(['text-delta', 'text-delta', 'usage', 'finish']);
+    const finish = events[3] as Extract<StreamEvent, { type: 'finish' }>;
+    expect(finish.finishReason).toBe('stop');
+    expect(finish.response.text).toBe('{"name":"Ada"}');
+    expect(finish.response.toolCalls).toEqual([]);
+  });
+
+  test('should use native json_schema only for Groq models that support it', () => {
+    const adapter = new GroqAdapter() as any;
+    const options = { jsonSchema: { schema: personSchema } };
+
+    expect(adapter.applyStructuredOutput({ ...options, model: 'llama-4-scout-17bx16e' })).toMatchObject(options);
+    const emulated = adapter.applyStructuredOutput({ ...options, model: 'llama-3.1-8b-instant' });
+    expect(emulated.jsonSchema).toBeUndefined();
+    expect(emulated.jsonMode).toBe(true);
+  });
+
+  test('should emulate the schema through the system prompt and parse fenced JSON', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        model: 'anthropic/claude-3.5-sonnet',
+        choices: [{ message: { content: '```json\n{"name":"Ada"}\n```' }, finish_reason: 'stop' }]
+      })
+    });
+    global.fetch = fetchMock as any;
+
+    const adapter = new OpenRouterAdapter();
+    const schema = { type: 'object', properties: { name: { type: 'string' } }, required: ['name'], additionalProperties: false };
+    const result = await adapter.generateJSON('Who wrote the first program?', schema, {
+      systemPrompt: 'Be concise.',
+      disableCache: true
+    });
+
+    expect(result).toEqual({ name: 'Ada' });
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.messages[0].role).toBe('system');
+    expect(body.messages[0].content).toMatch(/^Be concise\.\n\nRespond only with valid JSON/);
+    expect(body.messages[0].content).toContain('"additionalProperties": false');
+    expect(body.response_format).toEqual({ type: 'json_object' });
+  });
+});
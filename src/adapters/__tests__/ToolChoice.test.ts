@@ -0,0 +1,161 @@
+/**
+ * Tool Choice Tests
+ * Verifies toolChoice and parallelToolCalls map onto each provider's request
+ * Runs offline - provider responses are stubbed
+ */
+
+import { OpenAIAdapter } from '../openai/OpenAIAdapter';
+import { AnthropicAdapter } from '../anthropic/AnthropicAdapter';
+import { GoogleAdapter } from '../google/GoogleAdapter';
+import { MistralAdapter } from '../mistral/MistralAdapter';
+import { ExecutableTool, Tool } from '../types';
+
+const weatherTool: Tool = {
+  type: 'function',
+  function: {
+    name: 'get_weather',
+    description: 'Get the current weather for a city',
+    parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] }
+  }
+};
+
+describe('Tool choice', () => {
+  const envKeys = ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'GOOGLE_API_KEY', 'MISTRAL_API_KEY'];
+  const originalEnv: Record<string, string | undefined> = {};
+  const originalFetch = global.fetch;
+
+  beforeAll(() => {
+    for (const key of envKeys) {
+      originalEnv[key] = process.env[key];
+      process.env[key] = process.env[key] || 'test-key';
+    }
+  });
+
+  afterAll(() => {
+    for (const key of envKeys) {
+      if (originalEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = originalEnv[key];
+      }
+    }
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('should send OpenAI tool_choice for both APIs', () => {
+    const adapter = new OpenAIAdapter() as any;
+    const options = { tools: [weatherTool], toolChoice: { name: 'get_weather' }, parallelToolCalls: false };
+
+    expect(adapter.buildResponsesParams('Weather?', options)).toMatchObject({
+      tool_choice: { type: 'function', name: 'get_weather' },
+      parallel_tool_calls: false
+    });
+    expect(adapter.buildChatCompletionParams('Weather?', options)).toMatchObject({
+      tool_choice: { type: 'function', function: { name: 'get_weather' } },
+      parallel_tool_calls: false
+    });
+    expect(adapter.buildChatCompletionParams('Weather?', { tools: [weatherTool], toolChoice: 'required' }).tool_choice)
+      .toBe('required');
+  });
+
+  test('should map toolChoice to Anthropic tool_choice', async () => {
+    const adapter = new AnthropicAdapter();
+    const create = jest.fn().mockResolvedValue({
+      model: 'claude-3-5-sonnet-20241022',
+      stop_reason: 'end_turn',
+      usage: { input_tokens: 10, output_tokens: 5 },
+      content: [{ type: 'text', text: 'Sunny' }]
+    });
+    (adapter as any).client = { messages: { create } };
+
+    await adapter.generate('Weather?', { tools: [weatherTool], toolChoice: 'required', disableCache: true });
+    await adapter.generate('Weather?', {
+      tools: [weatherTool],
+      toolChoice: { name: 'get_weather' },
+      parallelToolCalls: false,
+      disableCache: true
+    });
+
+    expect(create.mock.calls[0][0].tool_choice).toEqual({ type: 'any' });
+    expect(create.mock.calls[1][0].tool_choice).toEqual({
+      type: 'tool',
+      name: 'get_weather',
+      disable_parallel_tool_use: true
+    });
+  });
+
+  test('should set a Gemini functionCallingConfig', () => {
+    const adapter = new GoogleAdapter() as any;
+
+    expect(adapter.buildRequest('Weather?', { tools: [weatherTool], toolChoice: { name: 'get_weather' } }).config.toolConfig)
+      .toEqual({ functionCallingConfig: { mode: 'ANY', allowedFunctionNames: ['get_weather'] } });
+    expect(adapter.buildRequest('Weather?', { tools: [weatherTool], toolChoice: 'none' }).config.toolConfig)
+      .toEqual({ functionCallingConfig: { mode: 'NONE' } });
+  });
+
+  test('should send tool_choice in OpenAI-compatible request bodies', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        model: 'mistral-large-latest',
+        choices: [{ message: { content: 'Sunny' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+      })
+    });
+    global.fetch = fetchMock as any;
+
+    await new MistralAdapter().generate('Weather?', {
+      tools: [weatherTool],
+      toolChoice: 'required',
+      parallelToolCalls: true,
+      disableCache: true
+    });
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.tool_choice).toBe('required');
+    expect(body.parallel_tool_calls).toBe(true);
+  });
+
+  test('should reject invalid or unsupported choices before calling the provider', async () => {
+    const fetchMock = jest.fn();
+    global.fetch = fetchMock as any;
+
+    await expect(new MistralAdapter().generate('Weather?', {
+      tools: [weatherTool],
+      toolChoice: { name: 'get_forecast' }
+    })).rejects.toMatchObject({ code: 'INVALID_TOOL_CHOICE', message: 'toolChoice names an unknown tool: get_forecast' });
+    await expect(new MistralAdapter().generate('Weather?', { toolChoice: 'required' }))
+      .rejects.toMatchObject({ code: 'INVALID_TOOL_CHOICE' });
+    await expect(new GoogleAdapter().generate('Weather?', { tools: [weatherTool], parallelToolCalls: false }))
+      .rejects.toMatchObject({ code: 'UNSUPPORTED_TOOL_CHOICE' });
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  test('should only force a tool on the first step of generateWithTools', async () => {
+    const adapter = new MistralAdapter();
+    const tool: ExecutableTool = {
+      name: 'get_weather',
+      description: 'Get the current weather for a city',
+      parameters: weatherTool.function!.parameters,
+      execute: async () => ({ temperature: '22C' })
+    };
+    const generate = jest.spyOn(adapter, 'generateUncached')
+      .mockResolvedValueOnce({
+        text: '',
+        model: 'mistral-large-latest',
+        provider: 'mistral',
+        finishReason: 'tool_calls',
+        toolCalls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }]
+      })
+      .mockResolvedValueOnce({ text: '22C', model: 'mistral-large-latest', provider: 'mistral', finishReason: 'stop' });
+
+    await adapter.generateWithTools('Weather in Paris?', [tool], { toolChoice: 'required', disableCache: true });
+
+    expect(generate.mock.calls[0]![1]!.toolChoice).toBe('required');
+    expect(generate.mock.calls[1]![1]!.toolChoice).toBe('auto');
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Tool Execution Loop Tests
+ * Verifies generateWithTools runs handlers and feeds results back to the model
+ * Runs offline - the provider call is stubbed
+ */
+
+import { MistralAdapter } from '../mistral/MistralAdapter';
+import { ExecutableTool, LLMResponse, Message } from '../types';
+
+function toolCallResponse(calls: Array<{ id: string; name: string; args: any }>): LLMResponse {
+  return {
+    text: '',
+    model: 'mistral-large-latest',
+    provider: 'mistral',
+    finishReason: 'tool_calls',
+    usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+    toolCalls: calls.map(call => ({
+      id: call.id,
+      type: 'function',
+      function: { name: call.name, arguments: JSON.stringify(call.args) }
+    }))
+  };
+}
+
+function textResponse(text: string): LLMResponse {
+  return {
+    text,
+    model: 'mistral-large-latest',
+    provider: 'mistral',
+    finishReason: 'stop',
+    usage: { promptTokens: 20, completionTokens: 8, totalTokens: 28 },
+    toolCalls: []
+  };
+}
+
+describe('generateWithTools', () => {
+  let adapter: MistralAdapter;
+  let originalKey: string | undefined;
+
+  const weatherTool: ExecutableTool = {
+    name: 'get_weather',
+    description: 'Get the current weather for a city',
+    parameters: {
+      type: 'object',
+      properties: { city: { type: 'string' } },
+      required: ['city']
+    },
+    execute: async ({ city }) => ({ city, temperature: city === 'Paris' ? '22C' : '18C' })
+  };
+
+  beforeAll(() => {
+    originalKey = process.env.MISTRAL_API_KEY;
+    process.env.MISTRAL_API_KEY = originalKey || 'test-key';
+  });
+
+  afterAll(() => {
+    if (originalKey === undefined) {
+      delete process.env.MISTRAL_API_KEY;
+    } else {
+      process.env.MISTRAL_API_KEY = originalKey;
+    }
+  });
+
+  beforeEach(() => {
+    adapter = new MistralAdapter();
+  });
+
+  test('should execute parallel tool calls and return the final answer with a step trace', async () => {
+    const generate = jest.spyOn(adapter, 'generateUncached')
+      .mockResolvedValueOnce(toolCallResponse([
+        { id: 'call_1', name: 'get_weather', args: { city: 'Paris' } },
+        { id: 'call_2', name: 'get_weather', args: { city: 'London' } }
+      ]))
+      .mockResolvedValueOnce(textResponse('Paris is 22C and London is 18C.'));
+
+    const result = await adapter.generateWithTools('Weather in Paris and London?', [weatherTool], {
+      disableCache: true
+    });
+
+    expect(result.text).toBe('Paris is 22C and London is 18C.');
+    expect(result.steps).toHaveLength(2);
+    expect(result.steps[0]!.toolResults.map(r => r.result)).toEqual([
+      { city: 'Paris', temperature: '22C' },
+      { city: 'London', temperature: '18C' }
+    ]);
+    expect(result.usage).toEqual({ promptTokens: 30, completionTokens: 13, totalTokens: 43 });
+
+    const secondCall = generate.mock.calls[1]![0] as Message[];
+    expect(secondCall.map(m => m.role)).toEqual(['user', 'assistant', 'tool', 'tool']);
+    expect(secondCall[2]).toMatchObject({ toolCallId: 'call_1', content: '{"city":"Paris","temperature":"22C"}' });
+    expect(generate.mock.calls[0]![1]!.tools![0]!.function!.name).toBe('get_weather');
+  });
+
+  test('should send handler errors and unknown tools back to the model', async () => {
+    const failingTool: ExecutableTool = {
+      ...weatherTool,
+      execute: () => { throw new Error('Service unavailable'); }
+    };
+    const generate = jest.spyOn(adapter, 'generateUncached')
+      .mockResolvedValueOnce(toolCallResponse([
+        { id: 'call_1', name: 'get_weather', args: { city: 'Paris' } },
+        { id: 'call_2', name: 'get_time', args: {} }
+      ]))
+      .mockResolvedValueOnce(textResponse('Sorry, I could not get the weather.'));
+
+    const result = await adapter.generateWithTools('Weather in Paris?', [failingTool], { disableCache: true });
+
+    expect(result.steps[0]!.toolResults.map(r => r.error)).toEqual(['Service unavailable', 'Unknown tool: get_time']);
+    const toolMessages = (generate.mock.calls[1]![0] as Message[]).filter(m => m.role === 'tool');
+    expect(toolMessages[0]!.content).toBe('{"error":"Service unavailable"}');
+  });
+
+  test('should stop after maxSteps when the model keeps calling tools', async () => {
+    jest.spyOn(adapter, 'generateUncached')
+      .mockResolvedValue(toolCallResponse([{ id: 'call_1', name: 'get_weather', args: { city: 'Paris' } }]));
+    const onStep = jest.fn();
+
+    await expect(adapter.generateWithTools('Weather?', [weatherTool], { maxSteps: 2, onStep, disableCache: true }))
+      .rejects.toMatchObject({ code: 'MAX_STEPS_EXCEEDED' });
+    expect(onStep).toHaveBeenCalledTimes(2);
+  });
+});
@@ -8,76 +8,71 @@ import Anthropic from '@anthropic-ai/sdk';
 import { BaseAdapter } from '../BaseAdapter';
 import { 
   GenerateOptions, 
-  StreamOptions, 
   LLMResponse, 
   ModelInfo, 
   ProviderCapabilities,
-  CostDetails
+  CostDetails,
+  Message,
+  ContentPart,
+  PromptInput,
+  StreamEvent,
+  StructuredOutputSchema,
+  ToolCall,
+  ReasoningOutput,
+  LLMProviderError,
+  InvalidRequestError,
+  ProviderConfig
 } from '../types';
 
 export class AnthropicAdapter extends BaseAdapter {
   readonly name = 'anthropic';
-  readonly baseUrl = 'https://api.anthropic.com';
+  readonly baseUrl: string;
   
   private client: Anthropic;
 
-  constructor(model?: string) {
-    super('ANTHROPIC_API_KEY', model || 'claude-3-5-sonnet-20241022');
+  constructor(model?: string, config?: ProviderConfig) {
+    super('ANTHROPIC_API_KEY', model || 'claude-3-5-sonnet-20241022', config);
+    this.baseUrl = config?.baseUrl || 'https://api.anthropic.com';
     
     this.client = new Anthropic({
       apiKey: this.apiKey,
-      baseURL: this.baseUrl
+      baseURL: this.baseUrl,
+      ...(config?.customHeaders ? { defaultHeaders: config.customHeaders } : {}),
+      ...(config?.timeout ? { timeout: config.timeout } : {}),
+      maxRetries: 0, // Retries and circuit breaking run through withRetry
+      fetch: this.httpFetch
     });
     
     this.initializeCache();
   }
 
-  async generateUncached(prompt: string, options?: GenerateOptions): Promise<LLMResponse> {
-    return this.withRetry(async () => {
-      try {
-        const messages = this.buildMessages(prompt, options?.systemPrompt);
-        
-        const requestParams: any = {
-          model: options?.model || this.currentModel,
-          max_tokens: options?.maxTokens || 4096,
-          messages: messages.filter(msg => msg.role !== 'system'),
-          temperature: options?.temperature,
-          stop_sequences: options?.stopSequences
-        };
-
-        // Add system message if provided
-        const systemMessage = messages.find(msg => msg.role === 'system');
-        if (systemMessage) {
-          requestParams.system = systemMessage.content;
-        }
-
-        // Extended thinking mode for Claude 4 models
-        if (options?.enableThinking && this.supportsThinking(options?.model || this.currentModel)) {
-          requestParams.thinking = 'extended';
-        }
-
-        // Interleaved thinking (beta feature)
-        if (options?.enableInteractiveThinking) {
-          requestParams.beta = process.env.ANTHROPIC_BETA_FEATURES || 'interleaved-thinking-2025-05-14';
-        }
+  protected buildAuthHeaders(apiKey: string): Record<string, string> {
+    return { 'x-api-key': apiKey };
+  }
 
-        // Add tools if provided
-        if (options?.tools && options.tools.length > 0) {
-          requestParams.tools = this.convertTools(options.tools);
-        }
+  async generateUncached(prompt: PromptInput, options?: GenerateOptions): Promise<LLMResponse> {
+    return this.withRetry(async apiKey => {
+      try {
+        const requestParams = this.buildRequestParams(prompt, options);
+        const { data: response, headers } = await this.withResponseHeaders(
+          this.client.messages.create(requestParams, this.buildRequestOptions(options, apiKey))
+        );
 
-        // Special tools
-        if (options?.webSearch) {
-          requestParams.tools = requestParams.tools || [];
-          requestParams.tools.push({
-            type: 'web_search',
-            web_search: { max_results: 10 }
-          });
+        if (options?.jsonSchema) {
+          return this.attachRateLimit({
+            text: this.extractStructuredOutput(response.content, options.jsonSchema),
+            model: response.model,
+            provider: this.name,
+            usage: this.extractUsage(response),
+            finishReason: response.stop_reason === 'max_tokens' ? 'length' : 'stop',
+            toolCalls: [],
+            metadata: {
+              stopSequence: response.stop_sequence
+            }
+          }, headers);
         }
-
-        const response = await this.client.messages.create(requestParams);
         
-        return {
+        const result: LLMResponse = {
           text: this.extractTextFromContent(response.content),
           model: response.model,
           provider: this.name,
@@ -85,75 +80,136 @@ export class AnthropicAdapter extends BaseAdapter {
           finishReason: this.mapStopReason(response.stop_reason),
           toolCalls: this.extractToolCalls(response.content),
           metadata: {
-            thinking: this.extractThinking(response),
             stopSequence: response.stop_sequence
           }
         };
+        const reasoning = this.extractReasoning(response.content);
+        if (reasoning) result.reasoning = reasoning;
+
+        return this.attachRateLimit(result, headers);
       } catch (error) {
         this.handleError(error, 'generation');
       }
-    });
+    }, { model: options?.model, signal: options?.signal });
   }
 
-  async generateStream(prompt: string, options?: StreamOptions): Promise<LLMResponse> {
-    return this.withRetry(async () => {
-      try {
-        const messages = this.buildMessages(prompt, options?.systemPrompt);
-        
-        const requestParams: any = {
-          model: options?.model || this.currentModel,
-          max_tokens: options?.maxTokens || 4096,
-          messages: messages.filter(msg => msg.role !== 'system'),
-          temperature: options?.temperature,
-          stream: true
-        };
+  protected async *streamEvents(prompt: PromptInput, options?: GenerateOptions): AsyncGenerator<StreamEvent> {
+    try {
+      const requestParams = this.buildRequestParams(prompt, options);
+      const stream = await this.withRetry(
+        apiKey => this.client.messages.create({ ...requestParams, stream: true } as any, this.buildRequestOptions(options, apiKey)),
+        { model: options?.model, signal: options?.signal }
+      );
 
-        // Add system message if provided
-        const systemMessage = messages.find(msg => msg.role === 'system');
-        if (systemMessage) {
-          requestParams.system = systemMessage.content;
-        }
+      let fullText = '';
+      let model = '';
+      let stopReason = '';
+      let stopSequence: string | null = null;
+      const rawUsage: any = {};
+      const blocks = new Map<number, { id: string; name: string; arguments: string }>();
+      const thinkingBlocks = new Map<number, any>();
+      const toolCalls: ToolCall[] = [];
+      // Forced structured-output tool: its input is the response text, not a tool call
+      const structuredTool = options?.jsonSchema ? this.getStructuredOutputToolName(options.jsonSchema) : undefined;
+      const streamStructuredText = options?.jsonSchema ? !this.isWrappedSchema(options.jsonSchema.schema) : false;
 
-        const stream = await this.client.messages.create(requestParams as any);
-        
-        let fullText = '';
-        let usage: any = undefined;
-        let model = '';
-        let stopReason = '';
-
-        for await (const chunk of stream as any) {
-          if (chunk.type === 'content_block_delta') {
-            const deltaText = chunk.delta.text || '';
-            if (deltaText) {
-              fullText += deltaText;
-              options?.onToken?.(deltaText);
-            }
-          } else if (chunk.type === 'message_start') {
+      for await (const chunk of stream as any) {
+        switch (chunk.type) {
+          case 'message_start':
             model = chunk.message.model;
-            usage = chunk.message.usage;
-          } else if (chunk.type === 'message_delta') {
-            stopReason = chunk.delta.stop_reason || '';
-            if (chunk.usage) {
-              usage = chunk.usage;
+            Object.assign(rawUsage, chunk.message.usage);
+            break;
+
+          case 'content_block_start':
+            if (chunk.content_block.type === 'tool_use') {
+              blocks.set(chunk.index, { id: chunk.content_block.id, name: chunk.content_block.name, arguments: '' });
+            } else if (chunk.content_block.type === 'thinking' || chunk.content_block.type === 'redacted_thinking') {
+              thinkingBlocks.set(chunk.index, { thinking: '', signature: '', ...chunk.content_block });
+            }
+            break;
+
+          case 'content_block_delta':
+            if (chunk.delta.type === 'text_delta') {
+              fullText += chunk.delta.text;
+              yield { type: 'text-delta', text: chunk.delta.text };
+            } else if (chunk.delta.type === 'thinking_delta') {
+              thinkingBlocks.get(chunk.index).thinking += chunk.delta.thinking;
+              yield { type: 'reasoning-delta', text: chunk.delta.thinking };
+            } else if (chunk.delta.type === 'signature_delta') {
+              thinkingBlocks.get(chunk.index).signature += chunk.delta.signature;
+            } else if (chunk.delta.type === 'input_json_delta') {
+              const block = blocks.get(chunk.index);
+              if (block && block.name === structuredTool) {
+                block.arguments += chunk.delta.partial_json;
+                if (streamStructuredText) {
+                  fullText += chunk.delta.partial_json;
+                  yield { type: 'text-delta', text: chunk.delta.partial_json };
+                }
+              } else if (block) {
+                block.arguments += chunk.delta.partial_json;
+                yield {
+                  type: 'tool-call-delta',
+                  index: toolCalls.length,
+                  toolCallId: block.id,
+                  toolName: block.name,
+                  argumentsDelta: chunk.delta.partial_json
+                };
+              }
+            }
+            break;
+
+          case 'content_block_stop': {
+            const block = blocks.get(chunk.index);
+            if (block && block.name === structuredTool) {
+              if (!streamStructuredText) {
+                // Wrapped schemas are unwrapped once the whole input has arrived
+                const text = this.unwrapStructuredOutput(this.parseToolArguments(block.arguments), options!.jsonSchema!);
+                fullText += text;
+                yield { type: 'text-delta', text };
+              }
+            } else if (block) {
+              const toolCall: ToolCall = {
+                id: block.id,
+                type: 'function',
+                function: { name: block.name, arguments: block.arguments || '{}' }
+              };
+              toolCalls.push(toolCall);
+              yield { type: 'tool-call', toolCall };
             }
+            break;
           }
+
+          case 'message_delta':
+            stopReason = chunk.delta.stop_reason || stopReason;
+            stopSequence = chunk.delta.stop_sequence ?? stopSequence;
+            if (chunk.usage) {
+              Object.assign(rawUsage, chunk.usage);
+              const usage = this.extractUsage({ usage: rawUsage });
+              if (usage) yield { type: 'usage', usage };
+            }
+            break;
         }
+      }
 
-        const response: LLMResponse = {
-          text: fullText,
-          model: model || this.currentModel,
-          provider: this.name,
-          usage: this.extractUsage({ usage }),
-          finishReason: this.mapStopReason(stopReason)
-        };
+      const response: LLMResponse = {
+        text: fullText,
+        model: model || options?.model || this.currentModel,
+        provider: this.name,
+        usage: this.extractUsage({ usage: rawUsage }),
+        finishReason: structuredTool && stopReason === 'tool_use' ? 'stop' : this.mapStopReason(stopReason),
+        toolCalls,
+        metadata: {
+          stopSequence,
+          streamed: true
+        }
+      };
+      const reasoning = this.extractReasoning([...thinkingBlocks.values()]);
+      if (reasoning) response.reasoning = reasoning;
 
-        options?.onComplete?.(response);
-        return response;
-      } catch (error) {
-        options?.onError?.(error as Error);
-        this.handleError(error, 'streaming generation');
-      }
-    });
+      yield { type: 'finish', finishReason: response.finishReason || 'stop', response };
+    } catch (error) {
+      this.handleError(error, 'streaming generation');
+    }
   }
 
   async listModels(): Promise<ModelInfo[]> {
@@ -247,12 +303,180 @@ export class AnthropicAdapter extends BaseAdapter {
     };
   }
 
+  protected supportsNativeStructuredOutput(_model: string): boolean {
+    return true; // Emulated with forced tool use, which the API enforces
+  }
+
   // Private methods
   private supportsThinking(modelId: string): boolean {
-    return [
-      'claude-4-opus-20250124',
-      'claude-4-sonnet-20250124'
-    ].includes(modelId);
+    return /^claude-(3-7-sonnet|sonnet-4|opus-4|haiku-4|4-)/.test(modelId);
+  }
+
+  private isThinkingEnabled(options?: GenerateOptions): boolean {
+    return !!this.getReasoningOptions(options)?.enabled && this.supportsThinking(options?.model || this.currentModel);
+  }
+
+  /**
+   * Extended thinking cannot be combined with a forced tool call, which
+   * also rules out structured output (a forced call to a synthetic tool)
+   */
+  protected assertToolOptionsSupported(options?: GenerateOptions): void {
+    if (this.isThinkingEnabled(options)) {
+      if (options?.toolChoice === 'required' || typeof options?.toolChoice === 'object') {
+        throw new InvalidRequestError(
+          'Anthropic extended thinking only supports toolChoice "auto" or "none"',
+          this.name,
+          { code: 'UNSUPPORTED_TOOL_CHOICE' }
+        );
+      }
+      if (options?.jsonSchema) {
+        throw new InvalidRequestError(
+          'Anthropic extended thinking cannot be combined with jsonSchema, which forces a tool call',
+          this.name,
+          { code: 'UNSUPPORTED_TOOL_CHOICE' }
+        );
+      }
+    }
+    super.assertToolOptionsSupported(options);
+  }
+
+  /**
+   * Convert neutral messages to Anthropic's messages + system format.
+   * Tool results travel as user turns, and adjacent turns with the same
+   * role are merged because the API expects alternating roles.
+   */
+  private buildAnthropicMessages(prompt: PromptInput, systemPrompt?: string): { system?: string; messages: any[] } {
+    const { system, messages } = this.splitSystemMessages(this.normalizeMessages(prompt, systemPrompt));
+    const converted: any[] = [];
+
+    for (const message of messages) {
+      const role = message.role === 'assistant' ? 'assistant' : 'user';
+      const blocks = this.toContentBlocks(message);
+      const previous = converted[converted.length - 1];
+
+      if (previous && previous.role === role) {
+        previous.content.push(...blocks);
+      } else {
+        converted.push({ role, content: blocks });
+      }
+    }
+
+    return system ? { system, messages: converted } : { messages: converted };
+  }
+
+  private toContentBlocks(message: Message): any[] {
+    if (message.role === 'tool') {
+      return [{
+        type: 'tool_result',
+        tool_use_id: message.toolCallId,
+        content: this.getTextContent(message.content)
+      }];
+    }
+
+    const blocks: any[] = typeof message.content === 'string'
+      ? (message.content ? [{ type: 'text', text: message.content }] : [])
+      : message.content.map(part => this.toAnthropicBlock(part));
+
+    // Thinking blocks from a tool-use turn must be replayed ahead of its content
+    if (message.role === 'assistant') {
+      blocks.unshift(...this.getReasoningSignatures(message).map(signature => signature.redacted
+        ? { type: 'redacted_thinking', data: signature.signature }
+        : { type: 'thinking', thinking: signature.text || '', signature: signature.signature }));
+    }
+
+    if (message.role === 'assistant' && message.toolCalls) {
+      for (const toolCall of message.toolCalls) {
+        blocks.push({
+          type: 'tool_use',
+          id: toolCall.id,
+          name: toolCall.function?.name,
+          input: this.parseToolArguments(toolCall.function?.arguments)
+        });
+      }
+    }
+
+    return blocks;
+  }
+
+  private toAnthropicBlock(part: ContentPart): any {
+    if (part.type === 'text') {
+      return { type: 'text', text: part.text };
+    }
+
+    if (part.type === 'image') {
+      const media = this.resolveMedia(part.image, part.mimeType, 'image/png');
+      return {
+        type: 'image',
+        source: media.type === 'url'
+          ? { type: 'url', url: media.url }
+          : { type: 'base64', media_type: media.mimeType, data: media.data }
+      };
+    }
+
+    const media = this.resolveMedia(part.data, part.mimeType, 'application/pdf');
+    let source: any;
+    if (media.type === 'url') {
+      source = { type: 'url', url: media.url };
+    } else if (media.mimeType === 'text/plain') {
+      source = { type: 'text', media_type: 'text/plain', data: Buffer.from(media.data, 'base64').toString('utf8') };
+    } else {
+      source = { type: 'base64', media_type: media.mimeType, data: media.data };
+    }
+
+    return part.name ? { type: 'document', source, title: part.name } : { type: 'document', source };
+  }
+
+  private buildRequestParams(prompt: PromptInput, options?: GenerateOptions): any {
+    const { system, messages } = this.buildAnthropicMessages(prompt, options?.systemPrompt);
+    const model = options?.model || this.currentModel;
+    
+    const requestParams: any = {
+      model,
+      max_tokens: options?.maxTokens || 4096,
+      messages,
+      temperature: options?.temperature,
+      stop_sequences: options?.stopSequences
+    };
+
+    // Add system prompt if provided
+    if (system) {
+      requestParams.system = system;
+    }
+
+    // Extended thinking: the budget counts against max_tokens, so it is added
+    // on top to keep maxTokens for the answer. Temperature must be left unset.
+    const reasoning = this.getReasoningOptions(options);
+    if (reasoning?.enabled && this.supportsThinking(model)) {
+      const budget = Math.max(1024, this.getReasoningBudget(reasoning));
+      requestParams.thinking = { type: 'enabled', budget_tokens: budget };
+      requestParams.max_tokens = (options?.maxTokens || 4096) + budget;
+      delete requestParams.temperature;
+    }
+
+    // Add tools if provided
+    if (options?.tools && options.tools.length > 0) {
+      requestParams.tools = this.convertTools(options.tools);
+      const toolChoice = this.convertToolChoice(options);
+      if (toolChoice) requestParams.tool_choice = toolChoice;
+    }
+
+    // Structured output via forced tool use
+    if (options?.jsonSchema) {
+      requestParams.tools = requestParams.tools || [];
+      requestParams.tools.push(this.buildStructuredOutputTool(options.jsonSchema));
+      requestParams.tool_choice = { type: 'tool', name: this.getStructuredOutputToolName(options.jsonSchema) };
+    }
+
+    // Special tools
+    if (options?.webSearch) {
+      requestParams.tools = requestParams.tools || [];
+      requestParams.tools.push({
+        type: 'web_search',
+        web_search: { max_results: 10 }
+      });
+    }
+
+    return requestParams;
   }
 
   private convertTools(tools: any[]): any[] {
@@ -268,6 +492,60 @@ export class AnthropicAdapter extends BaseAdapter {
     });
   }
 
+  /**
+   * Anthropic has no JSON response format, so structured output is a forced
+   * call to a synthetic tool whose input schema is the requested schema.
+   * Tool inputs must be objects; other schemas are wrapped in a `value` property.
+   */
+  private buildStructuredOutputTool(jsonSchema: StructuredOutputSchema): any {
+    return {
+      name: this.getStructuredOutputToolName(jsonSchema),
+      description: jsonSchema.description || 'Respond with structured output matching the input schema',
+      input_schema: this.isWrappedSchema(jsonSchema.schema)
+        ? { type: 'object', properties: { value: jsonSchema.schema }, required: ['value'] }
+        : jsonSchema.schema
+    };
+  }
+
+  private getStructuredOutputToolName(jsonSchema: StructuredOutputSchema): string {
+    return jsonSchema.name || 'structured_output';
+  }
+
+  private isWrappedSchema(schema: Record<string, any>): boolean {
+    return schema.type !== 'object';
+  }
+
+  private unwrapStructuredOutput(input: any, jsonSchema: StructuredOutputSchema): string {
+    return JSON.stringify(this.isWrappedSchema(jsonSchema.schema) ? input?.value : input);
+  }
+
+  private extractStructuredOutput(content: any[], jsonSchema: StructuredOutputSchema): string {
+    const name = this.getStructuredOutputToolName(jsonSchema);
+    const block = content.find(block => block.type === 'tool_use' && block.name === name);
+    // Fall back to any text if the model answered without calling the tool
+    return block ? this.unwrapStructuredOutput(block.input, jsonSchema) : this.extractTextFromContent(content);
+  }
+
+  /**
+   * Map toolChoice to Anthropic's tool_choice: 'required' is 'any' and
+   * parallel calls are disabled per request with disable_parallel_tool_use
+   */
+  private convertToolChoice(options: GenerateOptions): any {
+    const choice = options.toolChoice;
+    if (!choice && options.parallelToolCalls === undefined) return undefined;
+    if (choice === 'none') return { type: 'none' };
+
+    const toolChoice: any = choice === 'required'
+      ? { type: 'any' }
+      : typeof choice === 'object'
+        ? { type: 'tool', name: choice.name }
+        : { type: 'auto' };
+    if (options.parallelToolCalls === false) {
+      toolChoice.disable_parallel_tool_use = true;
+    }
+    return toolChoice;
+  }
+
   private extractTextFromContent(content: any[]): string {
     return content
       .filter(block => block.type === 'text')
@@ -288,12 +566,32 @@ export class AnthropicAdapter extends BaseAdapter {
       }));
   }
 
-  private extractThinking(response: any): string | undefined {
-    // Extract thinking process from response if available
-    if (response.thinking) {
-      return typeof response.thinking === 'string' ? response.thinking : JSON.stringify(response.thinking);
+  /**
+   * Thinking blocks become the reasoning text; their signatures (and any
+   * redacted blocks) are kept so the blocks can be replayed in follow-up turns
+   */
+  private extractReasoning(content: any[]): ReasoningOutput | undefined {
+    const blocks = content.filter(block => block.type === 'thinking' || block.type === 'redacted_thinking');
+    return this.buildReasoningOutput({
+      text: blocks.filter(block => block.type === 'thinking').map(block => block.thinking).join('\n\n'),
+      signatures: blocks.filter(block => block.signature || block.data).map(block => block.type === 'thinking'
+        ? { provider: this.name, signature: block.signature, text: block.thinking }
+        : { provider: this.name, signature: block.data, redacted: true })
+    });
+  }
+
+  /**
+   * Per-request SDK options; interleaved thinking is a beta enabled by header
+   */
+  private buildRequestOptions(options: GenerateOptions | undefined, apiKey: string): any {
+    const requestOptions = this.buildSdkRequestOptions(options, apiKey);
+    if (options?.enableInteractiveThinking) {
+      requestOptions.headers = {
+        'anthropic-beta': process.env.ANTHROPIC_BETA_FEATURES || 'interleaved-thinking-2025-05-14',
+        ...requestOptions.headers
+      };
     }
-    return undefined;
+    return requestOptions;
   }
 
   private mapStopReason(reason: string | null): 'stop' | 'length' | 'tool_calls' | 'content_filter' {
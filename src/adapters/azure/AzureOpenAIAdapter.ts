@@ -0,0 +1,231 @@
+/**
+ * Azure OpenAI Adapter
+ * Chat completions through Azure OpenAI deployments, with api-key or
+ * Microsoft Entra ID auth and Azure content filter results
+ */
+
+import { OpenAICompatibleAdapter } from '../compatible/OpenAICompatibleAdapter';
+import {
+  AuthenticationError,
+  ContentFilterError,
+  CostDetails,
+  InvalidRequestError,
+  LLMProviderError,
+  ModelInfo,
+  ProviderConfig,
+  StreamEvent
+} from '../types';
+import { ModelRegistry } from '../ModelRegistry';
+import { ModelSpec } from '../modelTypes';
+
+export interface AzureOpenAIOptions extends ProviderConfig {
+  /**
+   * Returns a Microsoft Entra ID access token (scope
+   * https://cognitiveservices.azure.com/.default), e.g. from @azure/identity's
+   * getBearerTokenProvider. Called before every request; used instead of the api-key.
+   */
+  azureADTokenProvider?: () => string | Promise<string>;
+}
+
+const DEFAULT_API_VERSION = '2024-10-21';
+
+export class AzureOpenAIAdapter extends OpenAICompatibleAdapter {
+  protected apiVersion: string;
+  protected deployments: Record<string, string>;
+  private tokenProvider: (() => string | Promise<string>) | undefined;
+
+  /**
+   * @param deployment Deployment name; requests go to this deployment and
+   * options.model selects another one
+   */
+  constructor(deployment?: string, config?: AzureOpenAIOptions) {
+    const deployments = config?.deployments || {};
+    const endpoint = config?.baseUrl || process.env.AZURE_OPENAI_ENDPOINT || '';
+    if (!endpoint) {
+      throw new InvalidRequestError(
+        'Azure OpenAI endpoint not configured. Set AZURE_OPENAI_ENDPOINT or pass baseUrl.',
+        'azure',
+        { code: 'MISSING_ENDPOINT' }
+      );
+    }
+    super({
+      ...config,
+      name: 'azure',
+      baseUrl: `${endpoint.replace(/\/+$/, '')}/openai`,
+      ...(config?.azureADTokenProvider ? {} : { apiKeyEnvVar: 'AZURE_OPENAI_API_KEY' }),
+      auth: config?.azureADTokenProvider ? 'none' : 'api-key',
+      model: deployment || process.env.AZURE_OPENAI_DEPLOYMENT || Object.keys(deployments)[0] || 'gpt-4o',
+      responseFormat: 'json_schema', // Structured outputs since api-version 2024-08-01-preview
+      streamUsage: true,
+      capabilities: {
+        supportsImages: true,
+        maxContextWindow: 128000,
+        supportedFeatures: [
+          'chat_completions',
+          'streaming',
+          'function_calling',
+          'json_mode',
+          'structured_output',
+          'vision',
+          'content_filtering'
+        ]
+      }
+    });
+    this.apiVersion = config?.apiVersion || process.env.AZURE_OPENAI_API_VERSION || DEFAULT_API_VERSION;
+    this.deployments = deployments;
+    this.tokenProvider = config?.azureADTokenProvider;
+  }
+
+  /**
+   * Azure has no data-plane call that lists deployments, so this returns the
+   * configured ones (or the default deployment) with their model's details
+   */
+  async listModels(): Promise<ModelInfo[]> {
+    const deployments = Object.keys(this.deployments).length > 0
+      ? Object.keys(this.deployments)
+      : [this.currentModel];
+
+    return deployments.map(deployment => {
+      const spec = this.findModelSpec(deployment);
+      if (!spec) {
+        return {
+          id: deployment,
+          name: deployment,
+          contextWindow: this.capabilities.maxContextWindow,
+          supportsJSON: this.capabilities.supportsJSON,
+          supportsImages: this.capabilities.supportsImages,
+          supportsFunctions: this.capabilities.supportsFunctions,
+          supportsStreaming: true,
+          supportsThinking: false,
+          pricing: { inputPerMillion: 0, outputPerMillion: 0, currency: 'USD', lastUpdated: new Date().toISOString() }
+        };
+      }
+      return { ...ModelRegistry.toModelInfo(spec), id: deployment, name: `${deployment} (${spec.name})` };
+    });
+  }
+
+  /**
+   * A deployment, or the model id Azure reports in responses, priced with the
+   * OpenAI rates for the underlying model
+   */
+  async getModelPricing(modelId: string): Promise<CostDetails | null> {
+    const configured = await super.getModelPricing(modelId);
+    if (configured) return configured;
+
+    const spec = this.findModelSpec(modelId);
+    if (!spec) return null;
+
+    return {
+      inputCost: 0,
+      outputCost: 0,
+      totalCost: 0,
+      currency: 'USD',
+      rateInputPerMillion: spec.inputCostPerMillion,
+      rateOutputPerMillion: spec.outputCostPerMillion
+    };
+  }
+
+  /**
+   * The model behind a deployment, from the deployments map (default: the
+   * deployment name itself, for deployments named after their model)
+   */
+  getDeploymentModel(deployment: string): string {
+    return this.deployments[deployment] || deployment;
+  }
+
+  protected chatCompletionsUrl(deployment: string): string {
+    return `${this.baseUrl}/deployments/${encodeURIComponent(deployment)}/chat/completions?api-version=${encodeURIComponent(this.apiVersion)}`;
+  }
+
+  protected async buildRequestHeaders(
+    additionalHeaders?: Record<string, string>,
+    apiKey: string = this.apiKey
+  ): Promise<Record<string, string>> {
+    const headers = await super.buildRequestHeaders(additionalHeaders, apiKey);
+    if (!this.tokenProvider) return headers;
+
+    try {
+      return { ...headers, 'Authorization': `Bearer ${await this.tokenProvider()}` };
+    } catch (error) {
+      throw new AuthenticationError(
+        `Failed to get a Microsoft Entra ID token: ${(error as Error).message}`,
+        this.name,
+        { originalError: error as Error }
+      );
+    }
+  }
+
+  protected buildResponseMetadata(data: any): Record<string, any> {
+    return this.buildFilterMetadata(data.prompt_filter_results, data.choices?.[0]?.content_filter_results);
+  }
+
+  /**
+   * Azure sends prompt filter results in their own chunk and content filter
+   * results alongside the deltas; both end up in the finish response's metadata
+   */
+  protected async *streamChatCompletionChunks(
+    chunks: AsyncIterable<any>,
+    model: string,
+    metadata: Record<string, any> = {}
+  ): AsyncGenerator<StreamEvent> {
+    const streamMetadata = { ...metadata };
+    yield* super.streamChatCompletionChunks(this.collectFilterResults(chunks, streamMetadata), model, streamMetadata);
+  }
+
+  /**
+   * Azure reports blocked prompts as 400s with code content_filter, or an
+   * innererror of ResponsibleAIPolicyViolation, and the per-category verdicts
+   */
+  protected classifyError(error: any, operation: string, messages: Record<number, string> = {}): LLMProviderError {
+    const classified = super.classifyError(error, operation, messages);
+    const body = error?.error?.error ?? error?.response?.data?.error;
+    const innerError = body?.innererror;
+    if (!(classified instanceof ContentFilterError) && innerError?.code !== 'ResponsibleAIPolicyViolation') {
+      return classified;
+    }
+
+    const filterResults = innerError?.content_filter_result ?? body?.content_filter_result;
+    return new ContentFilterError(classified.message, this.name, {
+      originalError: error,
+      ...(classified.status !== undefined ? { status: classified.status } : {}),
+      ...(filterResults ? { filterResults } : {})
+    });
+  }
+
+  /**
+   * Passes chunks through, keeping the filter results seen so far in metadata
+   */
+  private async *collectFilterResults(chunks: AsyncIterable<any>, metadata: Record<string, any>): AsyncGenerator<any> {
+    let promptFilterResults: any[] = [];
+    let contentFilterResults: Record<string, any> = {};
+
+    for await (const chunk of chunks) {
+      if (Array.isArray(chunk.prompt_filter_results)) {
+        promptFilterResults = [...promptFilterResults, ...chunk.prompt_filter_results];
+      }
+      const results = chunk.choices?.[0]?.content_filter_results;
+      if (results) {
+        contentFilterResults = { ...contentFilterResults, ...results };
+      }
+      Object.assign(metadata, this.buildFilterMetadata(promptFilterResults, contentFilterResults));
+      yield chunk;
+    }
+  }
+
+  private buildFilterMetadata(promptFilterResults?: any[], contentFilterResults?: Record<string, any>): Record<string, any> {
+    return {
+      ...(promptFilterResults?.length ? { promptFilterResults } : {}),
+      ...(contentFilterResults && Object.keys(contentFilterResults).length > 0 ? { contentFilterResults } : {})
+    };
+  }
+
+  /**
+   * OpenAI registry entry for a deployment's model, or for the model id Azure
+   * reports in responses, ignoring the version date it appends (gpt-4o-2024-08-06)
+   */
+  findModelSpec(deployment: string): ModelSpec | undefined {
+    const modelId = this.getDeploymentModel(deployment);
+    return ModelRegistry.findModel('openai', modelId)
+      ?? ModelRegistry.findModel('openai', modelId.replace(/-\d{4}-\d{2}-\d{2}$/, ''));
+  }
+}
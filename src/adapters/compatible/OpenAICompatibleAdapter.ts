@@ -0,0 +1,370 @@
+/**
+ * OpenAI-Compatible Adapter
+ * Configurable adapter for any server that speaks the OpenAI chat-completions
+ * API - vLLM, llama.cpp server, LM Studio, internal gateways - and the base
+ * for the hosted providers that do (Mistral, OpenRouter, Requesty)
+ */
+
+import { BaseAdapter } from '../BaseAdapter';
+import {
+  GenerateOptions,
+  LLMResponse,
+  ModelInfo,
+  ProviderCapabilities,
+  CostDetails,
+  PromptInput,
+  StreamEvent,
+  ToolCall,
+  ProviderConfig
+} from '../types';
+import { parseSSEJson } from '../StreamUtils';
+import { ModelRegistry } from '../ModelRegistry';
+
+/**
+ * How the API key is sent: Authorization: Bearer (default), an api-key or
+ * x-api-key header, a custom header with an optional prefix, or not at all
+ */
+export type OpenAICompatibleAuth = 'bearer' | 'api-key' | 'x-api-key' | 'none' | { header: string; prefix?: string };
+
+export interface OpenAICompatiblePricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  currency?: string; // Default: USD
+}
+
+export interface OpenAICompatibleModel {
+  id: string;
+  name?: string; // Default: the id
+  contextWindow?: number; // Default: the adapter's maxContextWindow
+  maxOutputTokens?: number;
+  pricing?: OpenAICompatiblePricing; // Overrides the adapter's pricing table
+  supportsJSON?: boolean; // Each flag defaults to the adapter's capability
+  supportsImages?: boolean;
+  supportsFunctions?: boolean;
+  supportsThinking?: boolean;
+}
+
+export interface OpenAICompatibleAdapterOptions extends ProviderConfig {
+  name: string; // Provider name reported in responses and used for caches, circuits and ModelRegistry lookups
+  baseUrl: string; // Up to and including the API version, e.g. http://localhost:8000/v1
+  model?: string; // Default model (default: the first entry in models)
+  apiKeyEnvVar?: string; // Environment variable holding the key; without one the key is optional
+  auth?: OpenAICompatibleAuth; // Default: bearer
+  models?: Array<string | OpenAICompatibleModel>; // Listed instead of asking the server's /models
+  pricing?: Record<string, OpenAICompatiblePricing>; // By model id; '*' applies to every other model
+  capabilities?: Partial<ProviderCapabilities>;
+  /**
+   * How jsonSchema is sent: json_schema response_format (default), json_object
+   * with the schema in the system prompt, or the system prompt alone for
+   * servers without response_format
+   */
+  responseFormat?: 'json_schema' | 'json_object' | 'none';
+  streamUsage?: boolean; // Ask for usage in the last stream chunk via stream_options (default: false)
+}
+
+const DEFAULT_CAPABILITIES: ProviderCapabilities = {
+  supportsStreaming: true,
+  supportsJSON: true,
+  supportsImages: false,
+  supportsFunctions: true,
+  supportsThinking: false,
+  supportsImageGeneration: false,
+  maxContextWindow: 128000,
+  supportedFeatures: ['chat_completions', 'streaming', 'function_calling', 'json_mode']
+};
+
+export class OpenAICompatibleAdapter extends BaseAdapter {
+  readonly name: string;
+  readonly baseUrl: string;
+
+  protected auth: OpenAICompatibleAuth;
+  protected models: OpenAICompatibleModel[] | undefined;
+  protected pricing: Record<string, OpenAICompatiblePricing>;
+  protected capabilities: ProviderCapabilities;
+  protected responseFormat: 'json_schema' | 'json_object' | 'none';
+  protected streamUsage: boolean;
+
+  constructor(options: OpenAICompatibleAdapterOptions) {
+    const models = options.models?.map(model => typeof model === 'string' ? { id: model } : model);
+    super(options.apiKeyEnvVar || '', options.model || models?.[0]?.id || '', options);
+    this.name = options.name;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.auth = options.auth || 'bearer';
+    this.models = models;
+    this.pricing = options.pricing || {};
+    this.capabilities = { ...DEFAULT_CAPABILITIES, ...options.capabilities };
+    this.responseFormat = options.responseFormat || 'json_schema';
+    this.streamUsage = options.streamUsage ?? false;
+    this.initializeCache();
+  }
+
+  async generateUncached(prompt: PromptInput, options?: GenerateOptions): Promise<LLMResponse> {
+    const model = options?.model || this.currentModel;
+
+    return this.withRetry(async apiKey => {
+      try {
+        const response = await this.postChatCompletion(this.buildRequestBody(prompt, options, false), options, apiKey);
+        const data = await response.json() as any;
+        return this.attachRateLimit(await this.parseResponse(data, model), response.headers);
+      } catch (error) {
+        this.handleError(error, 'generation');
+      }
+    }, { model, signal: options?.signal });
+  }
+
+  protected async *streamEvents(prompt: PromptInput, options?: GenerateOptions): AsyncGenerator<StreamEvent> {
+    const model = options?.model || this.currentModel;
+
+    try {
+      const response = await this.withRetry(async apiKey => {
+        const response = await this.postChatCompletion(this.buildRequestBody(prompt, options, true), options, apiKey);
+        if (!response.body) throw new Error('No response body');
+        return response;
+      }, { model, signal: options?.signal });
+
+      yield* this.streamChatCompletionChunks(
+        parseSSEJson(response.body as AsyncIterable<Uint8Array>),
+        model
+      );
+    } catch (error) {
+      this.handleError(error, 'streaming generation');
+    }
+  }
+
+  /**
+   * The configured models, or the server's /models list. When the server
+   * cannot be reached, falls back to ModelRegistry entries for this provider.
+   */
+  async listModels(): Promise<ModelInfo[]> {
+    if (this.models) {
+      return this.models.map(model => this.toConfiguredModelInfo(model));
+    }
+
+    try {
+      const response = await this.fetchWithTimeout(`${this.baseUrl}/models`, {
+        headers: await this.buildRequestHeaders()
+      });
+
+      if (!response.ok) {
+        throw await this.createResponseError(response);
+      }
+
+      const data = await response.json() as any;
+      if (!Array.isArray(data.data)) {
+        return this.getRegistryModels();
+      }
+      return data.data.map((model: any) => this.toModelInfo(model));
+    } catch (error) {
+      const registryModels = this.getRegistryModels();
+      if (registryModels.length > 0) {
+        return registryModels;
+      }
+      this.handleError(error, 'listing models');
+    }
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return { ...this.capabilities, supportedFeatures: [...this.capabilities.supportedFeatures] };
+  }
+
+  /**
+   * Rates from the pricing table, a model entry or ModelRegistry, in that order
+   */
+  async getModelPricing(modelId: string): Promise<CostDetails | null> {
+    const pricing = this.findPricing(modelId);
+    if (pricing) {
+      return {
+        inputCost: 0,
+        outputCost: 0,
+        totalCost: 0,
+        currency: pricing.currency || 'USD',
+        rateInputPerMillion: pricing.inputPerMillion,
+        rateOutputPerMillion: pricing.outputPerMillion
+      };
+    }
+
+    const modelSpec = ModelRegistry.findModel(this.name, modelId);
+    if (modelSpec) {
+      return {
+        inputCost: 0,
+        outputCost: 0,
+        totalCost: 0,
+        currency: 'USD',
+        rateInputPerMillion: modelSpec.inputCostPerMillion,
+        rateOutputPerMillion: modelSpec.outputCostPerMillion
+      };
+    }
+
+    return null;
+  }
+
+  protected buildHeaders(additionalHeaders?: Record<string, string>): Record<string, string> {
+    return {
+      ...super.buildHeaders(additionalHeaders),
+      ...this.buildAuthHeaders(this.apiKey)
+    };
+  }
+
+  /**
+   * Headers for a request sent with apiKey (the key withRetry picked).
+   * Subclasses whose credentials are fetched per request (short-lived
+   * tokens) override this.
+   */
+  protected async buildRequestHeaders(
+    additionalHeaders?: Record<string, string>,
+    apiKey: string = this.apiKey
+  ): Promise<Record<string, string>> {
+    return { ...this.buildHeaders(additionalHeaders), ...this.buildAuthHeaders(apiKey) };
+  }
+
+  protected buildAuthHeaders(apiKey: string): Record<string, string> {
+    if (!apiKey || this.auth === 'none') return {};
+
+    switch (this.auth) {
+      case 'bearer':
+        return { 'Authorization': `Bearer ${apiKey}` };
+      case 'api-key':
+        return { 'api-key': apiKey };
+      case 'x-api-key':
+        return { 'x-api-key': apiKey };
+      default:
+        return { [this.auth.header]: this.auth.prefix ? `${this.auth.prefix} ${apiKey}` : apiKey };
+    }
+  }
+
+  protected supportsNativeStructuredOutput(_model: string): boolean {
+    return this.responseFormat === 'json_schema';
+  }
+
+  protected buildResponseFormat(options?: GenerateOptions): Record<string, any> | undefined {
+    return this.responseFormat === 'none' ? undefined : super.buildResponseFormat(options);
+  }
+
+  /**
+   * Chat-completions request body. Subclasses add provider-specific fields.
+   */
+  protected buildRequestBody(prompt: PromptInput, options: GenerateOptions | undefined, stream: boolean): Record<string, any> {
+    return {
+      model: options?.model || this.currentModel,
+      messages: this.buildMessages(prompt, options?.systemPrompt),
+      temperature: options?.temperature,
+      max_tokens: options?.maxTokens,
+      top_p: options?.topP,
+      frequency_penalty: options?.frequencyPenalty,
+      presence_penalty: options?.presencePenalty,
+      response_format: this.buildResponseFormat(options),
+      stop: options?.stopSequences,
+      tools: options?.tools,
+      tool_choice: this.buildToolChoice(options?.toolChoice),
+      parallel_tool_calls: options?.parallelToolCalls,
+      ...(stream ? { stream: true } : {}),
+      ...(stream && this.streamUsage ? { stream_options: { include_usage: true } } : {})
+    };
+  }
+
+  /**
+   * Chat-completions endpoint for a model
+   */
+  protected chatCompletionsUrl(_model: string): string {
+    return `${this.baseUrl}/chat/completions`;
+  }
+
+  /**
+   * Provider-specific fields of a non-streaming response for LLMResponse.metadata
+   */
+  protected buildResponseMetadata(_data: any): Record<string, any> {
+    return {};
+  }
+
+  /**
+   * ModelInfo for an entry in the server's /models list
+   */
+  protected toModelInfo(model: any): ModelInfo {
+    return this.toConfiguredModelInfo({ id: model.id, ...(model.name ? { name: model.name } : {}) });
+  }
+
+  protected getRegistryModels(): ModelInfo[] {
+    return ModelRegistry.getProviderModels(this.name).map(model => ModelRegistry.toModelInfo(model));
+  }
+
+  private async parseResponse(data: any, model: string): Promise<LLMResponse> {
+    const choice = data.choices?.[0];
+    if (!choice) {
+      throw new Error(`No response choice received from ${this.name}`);
+    }
+
+    const message = choice.message || {};
+    const toolCalls: ToolCall[] = (message.tool_calls || []).map((call: any, index: number) => ({
+      id: call.id || `call_${index}`,
+      type: 'function',
+      function: {
+        name: call.function?.name || '',
+        arguments: typeof call.function?.arguments === 'string'
+          ? call.function.arguments
+          : JSON.stringify(call.function?.arguments ?? {})
+      }
+    }));
+    const usage = this.extractUsage(data);
+
+    const response = await this.buildLLMResponse(
+      message.content || '',
+      data.model || model,
+      usage,
+      this.buildResponseMetadata(data),
+      toolCalls.length > 0 ? 'tool_calls' : this.normalizeFinishReason(choice.finish_reason),
+      toolCalls
+    );
+    const reasoning = this.buildReasoningOutput({
+      text: message.reasoning_content ?? message.reasoning,
+      tokens: usage?.reasoningTokens
+    });
+    if (reasoning) response.reasoning = reasoning;
+
+    return response;
+  }
+
+  private toConfiguredModelInfo(model: OpenAICompatibleModel): ModelInfo {
+    const pricing = model.pricing || this.findPricing(model.id);
+    return {
+      id: model.id,
+      name: model.name || model.id,
+      contextWindow: model.contextWindow || this.capabilities.maxContextWindow,
+      ...(model.maxOutputTokens ? { maxOutputTokens: model.maxOutputTokens } : {}),
+      supportsJSON: model.supportsJSON ?? this.capabilities.supportsJSON,
+      supportsImages: model.supportsImages ?? this.capabilities.supportsImages,
+      supportsFunctions: model.supportsFunctions ?? this.capabilities.supportsFunctions,
+      supportsStreaming: this.capabilities.supportsStreaming,
+      supportsThinking: model.supportsThinking ?? this.capabilities.supportsThinking,
+      pricing: {
+        inputPerMillion: pricing?.inputPerMillion ?? 0,
+        outputPerMillion: pricing?.outputPerMillion ?? 0,
+        currency: pricing?.currency || 'USD',
+        lastUpdated: new Date().toISOString()
+      }
+    };
+  }
+
+  private findPricing(modelId: string): OpenAICompatiblePricing | undefined {
+    return this.pricing[modelId]
+      ?? this.models?.find(model => model.id === modelId)?.pricing
+      ?? this.pricing['*'];
+  }
+
+  private async postChatCompletion(
+    body: Record<string, any>,
+    options: GenerateOptions | undefined,
+    apiKey: string
+  ): Promise<Response> {
+    const response = await this.fetchWithTimeout(this.chatCompletionsUrl(options?.model || this.currentModel), {
+      method: 'POST',
+      signal: options?.signal ?? null,
+      headers: await this.buildRequestHeaders(options?.headers, apiKey),
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      throw await this.createResponseError(response);
+    }
+    return response;
+  }
+}
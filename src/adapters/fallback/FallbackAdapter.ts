@@ -0,0 +1,269 @@
+/**
+ * Fallback Adapter
+ * Composite adapter that fails over across an ordered list of providers
+ */
+
+import { BaseAdapter } from '../BaseAdapter';
+import {
+  GenerateOptions,
+  LLMResponse,
+  ModelInfo,
+  ProviderCapabilities,
+  CostDetails,
+  PromptInput,
+  StreamEvent,
+  LLMProviderError,
+  RateLimitError,
+  ProviderOverloadedError,
+  TimeoutError,
+  InvalidRequestError
+} from '../types';
+import { ModelRegistry } from '../ModelRegistry';
+import { createLogger } from '../../utils/Logger';
+
+const logger = createLogger('FallbackAdapter');
+
+export interface FallbackEntry {
+  adapter: BaseAdapter;
+  model?: string; // Model to use when options.model is not set (defaults to the adapter's current model)
+  models?: Record<string, string>; // Maps the model requested in options.model to this provider's model; unmapped names pass through only if the provider has them
+}
+
+export interface FallbackAttempt {
+  provider: string;
+  model: string;
+  error: LLMProviderError;
+}
+
+export interface FallbackAdapterOptions {
+  /**
+   * Whether an error should move on to the next entry. Defaults to rate limits,
+   * overloaded providers, timeouts, network errors and open circuits.
+   */
+  shouldFallback?: (error: LLMProviderError) => boolean;
+  onFallback?: (attempt: FallbackAttempt, next: { provider: string; model: string }) => void;
+}
+
+/**
+ * Tries each entry in order and returns the first successful response.
+ * Errors that would fail the same way everywhere (invalid requests, content
+ * filters, cancellation) are thrown right away; when every entry fails the
+ * last error is thrown. The serving provider and the failed attempts are
+ * recorded on metadata.fallback.
+ */
+export class FallbackAdapter extends BaseAdapter {
+  readonly name = 'fallback';
+  readonly baseUrl = '';
+
+  private entries: FallbackEntry[];
+  private shouldFallback: (error: LLMProviderError) => boolean;
+  private onFallback: FallbackAdapterOptions['onFallback'];
+
+  constructor(entries: Array<BaseAdapter | FallbackEntry>, options: FallbackAdapterOptions = {}) {
+    const normalized = entries.map(entry => entry instanceof BaseAdapter ? { adapter: entry } : entry);
+    const first = normalized[0];
+    super('', first ? first.model || first.adapter.getCurrentModel() : '');
+
+    if (!first) {
+      throw new InvalidRequestError('FallbackAdapter needs at least one adapter', 'fallback');
+    }
+
+    this.entries = normalized;
+    this.shouldFallback = options.shouldFallback || (error => this.isFallbackError(error));
+    this.onFallback = options.onFallback;
+    this.initializeCache();
+  }
+
+  /**
+   * Each entry's adapter applies its own validation, structured output and caching
+   */
+  async generate(prompt: PromptInput, options?: GenerateOptions): Promise<LLMResponse> {
+    const attempts: FallbackAttempt[] = [];
+
+    for (let index = 0; index < this.entries.length; index++) {
+      const entry = this.entries[index]!;
+      const model = this.resolveModel(entry, options?.model);
+
+      try {
+        const response = await entry.adapter.generate(prompt, { ...options, model });
+        return this.withFallbackMetadata(response, entry, model, attempts);
+      } catch (error) {
+        this.recordFailure(error, entry, model, index, attempts, options);
+      }
+    }
+
+    throw attempts[attempts.length - 1]!.error;
+  }
+
+  async generateUncached(prompt: PromptInput, options?: GenerateOptions): Promise<LLMResponse> {
+    return this.generate(prompt, { ...options, disableCache: true });
+  }
+
+  /**
+   * Streams from the first entry that starts producing output. Once an event
+   * other than an error has been passed on, a later failure ends the stream
+   * instead of switching providers mid-response.
+   */
+  async *stream(prompt: PromptInput, options?: GenerateOptions): AsyncGenerator<StreamEvent> {
+    const attempts: FallbackAttempt[] = [];
+
+    for (let index = 0; index < this.entries.length; index++) {
+      const entry = this.entries[index]!;
+      const model = this.resolveModel(entry, options?.model);
+      let started = false;
+
+      for await (const event of entry.adapter.stream(prompt, { ...options, model })) {
+        if (event.type === 'error' && !started) {
+          try {
+            this.recordFailure(event.error, entry, model, index, attempts, options);
+          } catch (error) {
+            yield { type: 'error', error: error as LLMProviderError };
+            return;
+          }
+          break;
+        }
+
+        started = true;
+        if (event.type === 'finish') {
+          yield { ...event, response: this.withFallbackMetadata(event.response, entry, model, attempts) };
+        } else {
+          yield event;
+        }
+      }
+
+      if (started) return;
+    }
+
+    yield { type: 'error', error: attempts[attempts.length - 1]!.error };
+  }
+
+  protected async *streamEvents(prompt: PromptInput, options?: GenerateOptions): AsyncGenerator<StreamEvent> {
+    yield* this.stream(prompt, options);
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    const models = await Promise.all(this.entries.map(entry => entry.adapter.listModels().catch(() => [])));
+    return models.flat();
+  }
+
+  /**
+   * Only what every entry supports
+   */
+  getCapabilities(): ProviderCapabilities {
+    const capabilities = this.entries.map(entry => entry.adapter.getCapabilities());
+    const every = (key: keyof ProviderCapabilities) => capabilities.every(c => c[key] === true);
+
+    return {
+      supportsStreaming: every('supportsStreaming'),
+      supportsJSON: every('supportsJSON'),
+      supportsImages: every('supportsImages'),
+      supportsFunctions: every('supportsFunctions'),
+      supportsThinking: every('supportsThinking'),
+      supportsImageGeneration: every('supportsImageGeneration'),
+      maxContextWindow: Math.min(...capabilities.map(c => c.maxContextWindow)),
+      supportedFeatures: capabilities[0]!.supportedFeatures.filter(feature =>
+        capabilities.every(c => c.supportedFeatures.includes(feature))
+      )
+    };
+  }
+
+  async getModelPricing(modelId: string): Promise<CostDetails | null> {
+    for (const entry of this.entries) {
+      const pricing = await entry.adapter.getModelPricing(modelId);
+      if (pricing) return pricing;
+    }
+    return null;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    const available = await Promise.all(this.entries.map(entry => entry.adapter.isAvailable()));
+    return available.some(Boolean);
+  }
+
+  /**
+   * The entries, in the order they are tried
+   */
+  getEntries(): FallbackEntry[] {
+    return [...this.entries];
+  }
+
+  // The entries' adapters hold the keys
+  protected validateConfiguration(): void {}
+
+  /**
+   * The entry's mapping for the requested model, the requested model itself
+   * when the entry's provider knows it, otherwise the entry's own model
+   */
+  private resolveModel(entry: FallbackEntry, requested?: string): string {
+    const mapped = requested ? entry.models?.[requested] : undefined;
+    if (mapped) return mapped;
+    if (requested && ModelRegistry.findModel(entry.adapter.name, requested)) return requested;
+    return entry.model || entry.adapter.getCurrentModel();
+  }
+
+  /**
+   * Record a failed attempt, or rethrow when the error should not fall back
+   */
+  private recordFailure(
+    error: unknown,
+    entry: FallbackEntry,
+    model: string,
+    index: number,
+    attempts: FallbackAttempt[],
+    options?: GenerateOptions
+  ): void {
+    const providerError = error instanceof LLMProviderError
+      ? error
+      : new LLMProviderError(`generation failed: ${(error as Error)?.message ?? String(error)}`, entry.adapter.name, 'UNKNOWN_ERROR', error as Error);
+
+    if (options?.signal?.aborted || providerError.code === 'ABORTED' || !this.shouldFallback(providerError)) {
+      throw providerError;
+    }
+
+    const attempt = { provider: entry.adapter.name, model, error: providerError };
+    attempts.push(attempt);
+
+    const next = this.entries[index + 1];
+    if (next) {
+      const nextModel = this.resolveModel(next, options?.model);
+      logger.warn(`${entry.adapter.name} (${model}) failed with ${providerError.code}, falling back to ${next.adapter.name}`, {
+        provider: entry.adapter.name,
+        model,
+        code: providerError.code,
+        next: { provider: next.adapter.name, model: nextModel }
+      });
+      this.onFallback?.(attempt, { provider: next.adapter.name, model: nextModel });
+    }
+  }
+
+  private isFallbackError(error: LLMProviderError): boolean {
+    return error instanceof RateLimitError ||
+      error instanceof ProviderOverloadedError ||
+      error instanceof TimeoutError ||
+      ['CIRCUIT_OPEN', 'NETWORK_ERROR'].includes(error.code || '');
+  }
+
+  private withFallbackMetadata(
+    response: LLMResponse,
+    entry: FallbackEntry,
+    model: string,
+    attempts: FallbackAttempt[]
+  ): LLMResponse {
+    return {
+      ...response,
+      metadata: {
+        ...response.metadata,
+        fallback: {
+          provider: entry.adapter.name,
+          model,
+          attempts: attempts.map(({ provider, model, error }) => ({
+            provider,
+            model,
+            code: error.code,
+            message: error.message
+          }))
+        }
+      }
+    };
+  }
+}
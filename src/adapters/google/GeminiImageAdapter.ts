@@ -14,12 +14,14 @@ import {
   ProviderCapabilities,
   ModelInfo,
   CostDetails,
-  LLMProviderError
+  LLMProviderError,
+  StreamEvent
 } from '../types';
+import { HttpTransport } from '../../utils/HttpTransport';
 
 export class GeminiImageAdapter extends BaseAdapter {
   readonly name = 'gemini-image';
-  readonly baseUrl = 'https://generativelanguage.googleapis.com/v1beta';
+  readonly baseUrl: string;
   
   private client: GoogleGenAI;
   private readonly imageModels = {
@@ -28,10 +30,30 @@ export class GeminiImageAdapter extends BaseAdapter {
   };
 
   constructor(config?: ProviderConfig) {
-    super('GOOGLE_API_KEY', 'imagen-4.0-generate-preview-06-06');
+    super('GOOGLE_API_KEY', 'imagen-4.0-generate-preview-06-06', config);
+    this.baseUrl = config?.baseUrl || 'https://generativelanguage.googleapis.com/v1beta';
     
-    this.client = new GoogleGenAI({
-      apiKey: config?.apiKey || this.apiKey
+    this.client = this.createClient(this.apiKey);
+  }
+
+  protected buildAuthHeaders(apiKey: string): Record<string, string> {
+    return { 'x-goog-api-key': apiKey };
+  }
+
+  /**
+   * Imagen client with the configured base URL, headers and timeout. The SDK
+   * takes no fetch option, so of the transport settings only headers apply.
+   */
+  private createClient(apiKey: string): GoogleGenAI {
+    const { baseUrl, customHeaders, timeout, transport } = this.config;
+    const headers = { ...HttpTransport.getDefaults().headers, ...transport?.headers, ...customHeaders };
+    return new GoogleGenAI({
+      apiKey,
+      httpOptions: {
+        ...(baseUrl ? { baseUrl } : {}),
+        ...(Object.keys(headers).length > 0 ? { headers } : {}),
+        ...(timeout ? { timeout } : {})
+      }
     });
   }
 
@@ -44,7 +66,7 @@ export class GeminiImageAdapter extends BaseAdapter {
       
       const modelName = options.model || 'imagen-4.0-generate-preview-06-06';
       
-      const response = await this.withRetry(async () => {
+      const response = await this.withRetry(async apiKey => {
         // Use the correct API structure
         const generateConfig: any = {
           numberOfImages: options.n || 1,
@@ -58,13 +80,18 @@ export class GeminiImageAdapter extends BaseAdapter {
         
         // Add includeRaiReason for better error handling
         generateConfig.includeRaiReason = true;
+
+        if (options.signal) {
+          generateConfig.abortSignal = options.signal;
+        }
+        generateConfig.httpOptions = { headers: this.buildAuthHeaders(apiKey) };
         
         return await this.client.models.generateImages({
           model: modelName,
           prompt: options.prompt,
           config: generateConfig
         });
-      }, options.maxRetries || 3);
+      }, { maxRetries: options.maxRetries || 3, model: modelName, signal: options.signal });
 
       return this.buildImageResponse(response, options);
     } catch (error) {
@@ -284,6 +311,7 @@ export class GeminiImageAdapter extends BaseAdapter {
 
   private mapErrorType(code?: string): ImageGenerationError['type'] {
     const errorTypeMap: Record<string, ImageGenerationError['type']> = {
+      'ABORTED': 'aborted',
       'AUTHENTICATION_ERROR': 'authentication',
       'RATE_LIMIT_ERROR': 'rate_limit',
       'CONTENT_FILTER_ERROR': 'content_filter',
@@ -303,7 +331,7 @@ export class GeminiImageAdapter extends BaseAdapter {
     throw new Error('Use generateImage() for image generation');
   }
 
-  async generateStream(): Promise<any> {
+  protected async *streamEvents(): AsyncGenerator<StreamEvent> {
     throw new Error('Streaming not supported for image generation');
   }
 
@@ -9,160 +9,167 @@ import { GoogleGenAI } from '@google/genai';
 import { BaseAdapter } from '../BaseAdapter';
 import { 
   GenerateOptions, 
-  StreamOptions, 
   LLMResponse, 
   ModelInfo, 
   ProviderCapabilities,
-  CostDetails
+  CostDetails,
+  Message,
+  ContentPart,
+  PromptInput,
+  ToolCall,
+  ToolChoice,
+  TokenUsage,
+  StreamEvent,
+  ReasoningOutput,
+  LLMProviderError,
+  InvalidRequestError,
+  ProviderConfig
 } from '../types';
 import { ModelRegistry } from '../ModelRegistry';
+import { HttpTransport } from '../../utils/HttpTransport';
 
 export class GoogleAdapter extends BaseAdapter {
   readonly name = 'google';
-  readonly baseUrl = 'https://generativelanguage.googleapis.com/v1beta';
+  readonly baseUrl: string;
   
   private client: GoogleGenAI;
 
-  constructor(model?: string) {
-    super('GOOGLE_API_KEY', model || 'gemini-2.5-flash');
+  constructor(model?: string, config?: ProviderConfig) {
+    super('GOOGLE_API_KEY', model || 'gemini-2.5-flash', config);
+    this.baseUrl = config?.baseUrl || 'https://generativelanguage.googleapis.com/v1beta';
     
-    this.client = new GoogleGenAI({
-      apiKey: this.apiKey
-    });
+    this.client = this.createClient(this.apiKey);
     this.initializeCache();
   }
 
-  async generateUncached(prompt: string, options?: GenerateOptions): Promise<LLMResponse> {
-    return this.withRetry(async () => {
-      try {
-        // Use the new ai.models.generateContent() pattern from the latest SDK
-        const config: any = {
-          temperature: options?.temperature,
-          maxOutputTokens: options?.maxTokens,
-          topK: 40,
-          topP: 0.95
-        };
-
-        // Add system instruction if provided
-        if (options?.systemPrompt) {
-          config.systemInstruction = options.systemPrompt;
-        }
-
-        // Add tools if provided
-        if (options?.tools && options.tools.length > 0) {
-          config.tools = this.convertTools(options.tools);
-        }
+  protected buildAuthHeaders(apiKey: string): Record<string, string> {
+    return { 'x-goog-api-key': apiKey };
+  }
 
-        // Enable thinking mode for supported models
-        if (options?.enableThinking && this.supportsThinking(options?.model || this.currentModel)) {
-          config.thinkingConfig = {
-            includeThoughts: true
-          };
-        }
+  /**
+   * Gemini client with the configured base URL, headers and timeout. The SDK
+   * takes no fetch option, so of the transport settings only headers apply.
+   */
+  private createClient(apiKey: string): GoogleGenAI {
+    const { baseUrl, customHeaders, timeout, transport } = this.config;
+    const headers = { ...HttpTransport.getDefaults().headers, ...transport?.headers, ...customHeaders };
+    return new GoogleGenAI({
+      apiKey,
+      httpOptions: {
+        ...(baseUrl ? { baseUrl } : {}),
+        ...(Object.keys(headers).length > 0 ? { headers } : {}),
+        ...(timeout ? { timeout } : {})
+      }
+    });
+  }
 
-        const response = await this.client.models.generateContent({
-          model: options?.model || this.currentModel,
-          contents: prompt,
-          config
-        });
+  async generateUncached(prompt: PromptInput, options?: GenerateOptions): Promise<LLMResponse> {
+    return this.withRetry(async apiKey => {
+      try {
+        // Use the new ai.models.generateContent() pattern from the latest SDK
+        const response = await this.client.models.generateContent(this.buildRequest(prompt, options, apiKey));
         
-        // Extract text from response
+        // Extract text and function calls from response
         let responseText = '';
-        if (response.candidates && response.candidates.length > 0) {
-          const candidate = response.candidates[0];
-          if (candidate.content && candidate.content.parts) {
-            for (const part of candidate.content.parts) {
-              if (part.text) {
-                responseText += part.text;
-              }
-            }
+        const parts = response.candidates?.[0]?.content?.parts || [];
+        for (const part of parts) {
+          if (part.text && !part.thought) {
+            responseText += part.text;
           }
         }
+        const toolCalls = this.extractToolCalls(parts);
+        const usage = this.extractGeminiUsage(response);
         
-        return {
+        const result: LLMResponse = {
           text: responseText,
           model: options?.model || this.currentModel,
           provider: this.name,
-          usage: this.extractGeminiUsage(response),
-          finishReason: this.mapFinishReason(response.candidates?.[0]?.finishReason),
-          metadata: {
-            thinking: options?.enableThinking ? response.candidates?.[0]?.content?.parts?.find((p: any) => p.thought !== undefined) : undefined
-          }
+          usage,
+          finishReason: toolCalls.length > 0
+            ? 'tool_calls'
+            : this.mapFinishReason(response.candidates?.[0]?.finishReason),
+          toolCalls
         };
+        const reasoning = this.extractReasoning(parts, usage);
+        if (reasoning) result.reasoning = reasoning;
+
+        return result;
       } catch (error) {
         this.handleError(error, 'generation');
       }
-    });
+    }, { model: options?.model, signal: options?.signal });
   }
 
-  async generateStream(prompt: string, options?: StreamOptions): Promise<LLMResponse> {
-    return this.withRetry(async () => {
-      try {
-        // Use the new ai.models.generateContentStream() pattern
-        const config: any = {
-          temperature: options?.temperature,
-          maxOutputTokens: options?.maxTokens,
-          topK: 40,
-          topP: 0.95
-        };
-
-        // Add system instruction if provided
-        if (options?.systemPrompt) {
-          config.systemInstruction = options.systemPrompt;
-        }
+  protected async *streamEvents(prompt: PromptInput, options?: GenerateOptions): AsyncGenerator<StreamEvent> {
+    try {
+      // Use the new ai.models.generateContentStream() pattern
+      const streamingResponse = await this.withRetry(
+        apiKey => this.client.models.generateContentStream(this.buildRequest(prompt, options, apiKey)),
+        { model: options?.model, signal: options?.signal }
+      );
+      
+      let fullText = '';
+      let usage: TokenUsage | undefined;
+      let finishReason: any;
+      const toolCalls: ToolCall[] = [];
+      const parts: any[] = [];
 
-        // Add tools if provided
-        if (options?.tools && options.tools.length > 0) {
-          config.tools = this.convertTools(options.tools);
-        }
+      for await (const chunk of streamingResponse) {
+        const candidate = chunk.candidates?.[0];
 
-        const streamingResponse = await this.client.models.generateContentStream({
-          model: options?.model || this.currentModel,
-          contents: prompt,
-          config
-        });
-        
-        let fullText = '';
-        let usage: any = undefined;
-
-        for await (const chunk of streamingResponse) {
-          // Extract text from streaming chunk
-          let chunkText = '';
-          if (chunk.candidates && chunk.candidates.length > 0) {
-            const candidate = chunk.candidates[0];
-            if (candidate.content && candidate.content.parts) {
-              for (const part of candidate.content.parts) {
-                if (part.text) {
-                  chunkText += part.text;
-                }
-              }
-            }
-          }
-          
-          if (chunkText) {
-            fullText += chunkText;
-            options?.onToken?.(chunkText);
+        for (const part of candidate?.content?.parts || []) {
+          parts.push(part);
+          if (part.text && part.thought) {
+            yield { type: 'reasoning-delta', text: part.text };
+          } else if (part.text) {
+            fullText += part.text;
+            yield { type: 'text-delta', text: part.text };
+          } else if (part.functionCall) {
+            // Gemini delivers each function call whole rather than in fragments
+            const [toolCall] = this.extractToolCalls([part]);
+            const index = toolCalls.length;
+            toolCall!.id = part.functionCall.id || `call_${index}_${part.functionCall.name}`;
+            toolCalls.push(toolCall!);
+            yield {
+              type: 'tool-call-delta',
+              index,
+              toolCallId: toolCall!.id,
+              toolName: toolCall!.function!.name,
+              argumentsDelta: toolCall!.function!.arguments
+            };
+            yield { type: 'tool-call', toolCall: toolCall! };
           }
         }
 
-        // Extract usage from final response
-        usage = this.extractGeminiUsage(streamingResponse);
+        if (candidate?.finishReason) {
+          finishReason = candidate.finishReason;
+        }
 
-        const response: LLMResponse = {
-          text: fullText,
-          model: options?.model || this.currentModel,
-          provider: this.name,
-          usage,
-          finishReason: 'stop'
-        };
+        const chunkUsage = this.extractGeminiUsage(chunk);
+        if (chunkUsage) {
+          usage = chunkUsage;
+          yield { type: 'usage', usage: chunkUsage };
+        }
+      }
 
-        options?.onComplete?.(response);
-        return response;
-      } catch (error) {
-        options?.onError?.(error as Error);
-        this.handleError(error, 'streaming generation');
+      const response: LLMResponse = {
+        text: fullText,
+        model: options?.model || this.currentModel,
+        provider: this.name,
+        finishReason: toolCalls.length > 0 ? 'tool_calls' : this.mapFinishReason(finishReason),
+        toolCalls,
+        metadata: { streamed: true }
+      };
+      if (usage) {
+        response.usage = usage;
       }
-    });
+      const reasoning = this.extractReasoning(parts, usage);
+      if (reasoning) response.reasoning = reasoning;
+
+      yield { type: 'finish', finishReason: response.finishReason || 'stop', response };
+    } catch (error) {
+      this.handleError(error, 'streaming generation');
+    }
   }
 
   async listModels(): Promise<ModelInfo[]> {
@@ -199,12 +206,87 @@ export class GoogleAdapter extends BaseAdapter {
 
   // Private methods
   private supportsThinking(modelId: string): boolean {
-    return [
-      'gemini-2.5-pro-exp-03-25',
-      'gemini-2.5-pro',
-      'gemini-2.5-flash',
-      'gemini-2.0-flash-001'
-    ].includes(modelId);
+    return /^gemini-(2\.5|[3-9])/.test(modelId) || modelId.includes('thinking');
+  }
+
+  /**
+   * Convert neutral messages to Gemini contents.
+   * Assistant turns map to the 'model' role and tool results are sent back
+   * as functionResponse parts, matched to their call by function name.
+   */
+  private buildGeminiContents(messages: Message[]): any[] {
+    const toolNames = new Map<string, string>();
+    const contents: any[] = [];
+
+    for (const message of messages) {
+      const role = message.role === 'assistant' ? 'model' : 'user';
+      const parts: any[] = [];
+
+      if (message.role === 'tool') {
+        parts.push({
+          functionResponse: {
+            name: message.name || toolNames.get(message.toolCallId || '') || message.toolCallId,
+            response: this.toFunctionResponse(this.getTextContent(message.content))
+          }
+        });
+      } else {
+        if (typeof message.content !== 'string') {
+          parts.push(...message.content.map(part => this.toGeminiPart(part)));
+        } else if (message.content) {
+          parts.push({ text: message.content });
+        }
+
+        // A thinking model's thought signature rides on its first function call
+        const [signature] = this.getReasoningSignatures(message);
+        for (const toolCall of message.toolCalls || []) {
+          if (!toolCall.function) continue;
+          toolNames.set(toolCall.id, toolCall.function.name);
+          const isFirstCall = !parts.some(part => part.functionCall);
+          parts.push({
+            functionCall: {
+              name: toolCall.function.name,
+              args: this.parseToolArguments(toolCall.function.arguments)
+            },
+            ...(signature && isFirstCall ? { thoughtSignature: signature.signature } : {})
+          });
+        }
+      }
+
+      const previous = contents[contents.length - 1];
+      if (previous && previous.role === role) {
+        previous.parts.push(...parts);
+      } else {
+        contents.push({ role, parts });
+      }
+    }
+
+    return contents;
+  }
+
+  private toGeminiPart(part: ContentPart): any {
+    if (part.type === 'text') {
+      return { text: part.text };
+    }
+
+    const media = part.type === 'image'
+      ? this.resolveMedia(part.image, part.mimeType, 'image/png')
+      : this.resolveMedia(part.data, part.mimeType, 'application/pdf');
+
+    return media.type === 'url'
+      ? { fileData: { mimeType: media.mimeType, fileUri: media.url } }
+      : { inlineData: { mimeType: media.mimeType, data: media.data } };
+  }
+
+  private toFunctionResponse(content: string): Record<string, any> {
+    try {
+      const parsed = JSON.parse(content);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed;
+      }
+      return { result: parsed };
+    } catch {
+      return { result: content };
+    }
   }
 
   private convertTools(tools: any[]): any[] {
@@ -222,6 +304,158 @@ export class GoogleAdapter extends BaseAdapter {
     });
   }
 
+  /**
+   * Gemini function calling modes: AUTO, NONE, or ANY (optionally limited to named functions)
+   */
+  private convertToolChoice(choice: ToolChoice): any {
+    if (typeof choice === 'object') {
+      return { mode: 'ANY', allowedFunctionNames: [choice.name] };
+    }
+    return { mode: choice === 'required' ? 'ANY' : choice.toUpperCase() };
+  }
+
+  /**
+   * Convert a JSON Schema to Gemini's OpenAPI-style Schema: upper-case types,
+   * nullable instead of null unions, string-only enums and no unsupported keywords
+   */
+  private toGeminiSchema(schema: any): any {
+    if (!schema || typeof schema !== 'object') {
+      return {};
+    }
+
+    const result: any = {};
+    let types: string[] = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+    if (types.includes('null')) {
+      result.nullable = true;
+      types = types.filter(type => type !== 'null');
+    }
+
+    const variants: any[] | undefined = schema.anyOf || schema.oneOf;
+    if (variants) {
+      const nonNull = variants.filter(variant => variant?.type !== 'null');
+      if (nonNull.length < variants.length) result.nullable = true;
+      if (nonNull.length === 1) {
+        Object.assign(result, this.toGeminiSchema(nonNull[0]));
+      } else {
+        result.anyOf = nonNull.map(variant => this.toGeminiSchema(variant));
+      }
+    }
+
+    if (types.length === 1) {
+      result.type = types[0]!.toUpperCase();
+    } else if (types.length > 1) {
+      result.anyOf = types.map(type => ({ type: type.toUpperCase() }));
+    }
+
+    const enumValues: any[] | undefined = schema.const !== undefined ? [schema.const] : schema.enum;
+    if (enumValues) {
+      if (enumValues.includes(null)) result.nullable = true;
+      const values = enumValues.filter(value => value !== null);
+      if (values.every(value => typeof value === 'string')) {
+        result.type = 'STRING';
+        result.enum = values;
+      }
+    }
+
+    if (schema.properties) {
+      result.properties = {};
+      for (const [key, value] of Object.entries(schema.properties)) {
+        result.properties[key] = this.toGeminiSchema(value);
+      }
+      result.propertyOrdering = Object.keys(schema.properties);
+      if (!result.type) result.type = 'OBJECT';
+    }
+    if (schema.items && !Array.isArray(schema.items)) {
+      result.items = this.toGeminiSchema(schema.items);
+    }
+
+    for (const key of ['description', 'title', 'format', 'pattern', 'required', 'minimum', 'maximum']) {
+      if (schema[key] !== undefined) result[key] = schema[key];
+    }
+    // Gemini takes count limits as int64 strings
+    for (const key of ['minItems', 'maxItems', 'minLength', 'maxLength', 'minProperties', 'maxProperties']) {
+      if (schema[key] !== undefined) result[key] = String(schema[key]);
+    }
+
+    return result;
+  }
+
+  private buildRequest(prompt: PromptInput, options: GenerateOptions | undefined, apiKey: string): any {
+    const config: any = {
+      temperature: options?.temperature,
+      maxOutputTokens: options?.maxTokens,
+      topK: 40,
+      topP: 0.95
+    };
+
+    const { system, messages } = this.splitSystemMessages(
+      this.normalizeMessages(prompt, options?.systemPrompt)
+    );
+
+    // Add system instruction if provided
+    if (system) {
+      config.systemInstruction = system;
+    }
+
+    // Add tools if provided
+    if (options?.tools && options.tools.length > 0) {
+      config.tools = this.convertTools(options.tools);
+      if (options.toolChoice) {
+        config.toolConfig = { functionCallingConfig: this.convertToolChoice(options.toolChoice) };
+      }
+    }
+
+    // Structured output: JSON responses, constrained to the schema when given
+    if (options?.jsonSchema) {
+      config.responseMimeType = 'application/json';
+      config.responseSchema = this.toGeminiSchema(options.jsonSchema.schema);
+    } else if (options?.jsonMode) {
+      config.responseMimeType = 'application/json';
+    }
+
+    // Thinking: a budget of 0 turns it off, no budget lets the model decide
+    const reasoning = this.getReasoningOptions(options);
+    if (reasoning && this.supportsThinking(options?.model || this.currentModel)) {
+      config.thinkingConfig = reasoning.enabled
+        ? {
+            includeThoughts: true,
+            ...(reasoning.budgetTokens !== undefined || reasoning.effort
+              ? { thinkingBudget: this.getReasoningBudget(reasoning) }
+              : {})
+          }
+        : { thinkingBudget: 0 };
+    }
+
+    if (options?.signal) {
+      config.abortSignal = options.signal;
+    }
+    // The SDK only adds its own key header when the request has none
+    config.httpOptions = { headers: { ...this.buildAuthHeaders(apiKey), ...options?.headers } };
+
+    return {
+      model: options?.model || this.currentModel,
+      contents: this.buildGeminiContents(messages),
+      config
+    };
+  }
+
+  /**
+   * Gemini function calls may omit an id; synthesize one so tool results
+   * can be matched back to the call
+   */
+  private extractToolCalls(parts: any[]): ToolCall[] {
+    return parts
+      .filter(part => part.functionCall)
+      .map((part, index) => ({
+        id: part.functionCall.id || `call_${index}_${part.functionCall.name}`,
+        type: 'function',
+        function: {
+          name: part.functionCall.name,
+          arguments: JSON.stringify(part.functionCall.args || {})
+        }
+      }));
+  }
+
   private extractGeminiUsage(response: any): any {
     // Handle both old and new response formats
     const usage = response.usageMetadata || response.response?.usageMetadata;
@@ -229,14 +463,33 @@ export class GoogleAdapter extends BaseAdapter {
       return {
         promptTokens: usage.promptTokenCount || 0,
         completionTokens: usage.candidatesTokenCount || 0,
-        totalTokens: usage.totalTokenCount || 0
+        totalTokens: usage.totalTokenCount || 0,
+        ...(usage.thoughtsTokenCount ? { reasoningTokens: usage.thoughtsTokenCount } : {})
       };
     }
     return undefined;
   }
 
+  /**
+   * Thought parts carry a summary of the model's thinking; thought signatures
+   * must be returned with the function calls they accompany
+   */
+  private extractReasoning(parts: any[], usage?: TokenUsage): ReasoningOutput | undefined {
+    return this.buildReasoningOutput({
+      summary: parts.filter(part => part.thought && part.text).map(part => part.text).join(''),
+      tokens: usage?.reasoningTokens,
+      signatures: parts
+        .filter(part => part.thoughtSignature)
+        .map(part => ({ provider: this.name, signature: part.thoughtSignature }))
+    });
+  }
+
   private mapFinishReason(reason: any): 'stop' | 'length' | 'tool_calls' | 'content_filter' {
     const reasonMap: Record<string, 'stop' | 'length' | 'tool_calls' | 'content_filter'> = {
+      'STOP': 'stop',
+      'MAX_TOKENS': 'length',
+      'SAFETY': 'content_filter',
+      'RECITATION': 'content_filter',
       'FINISH_REASON_STOP': 'stop',
       'FINISH_REASON_MAX_TOKENS': 'length',
       'FINISH_REASON_SAFETY': 'content_filter',
@@ -245,6 +498,21 @@ export class GoogleAdapter extends BaseAdapter {
     return reasonMap[reason] || 'stop';
   }
 
+  protected supportsNativeStructuredOutput(_model: string): boolean {
+    return true;
+  }
+
+  protected assertToolOptionsSupported(options?: GenerateOptions): void {
+    if (options?.parallelToolCalls === false) {
+      throw new InvalidRequestError(
+        'Gemini does not support disabling parallel tool calls',
+        this.name,
+        { code: 'UNSUPPORTED_TOOL_CHOICE' }
+      );
+    }
+    super.assertToolOptionsSupported(options);
+  }
+
   async getModelPricing(modelId: string): Promise<CostDetails | null> {
     // Use centralized model registry for pricing
     const modelSpec = ModelRegistry.findModel('google', modelId);
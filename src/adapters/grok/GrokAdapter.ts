@@ -15,15 +15,20 @@ import OpenAI from 'openai';
 import { BaseAdapter } from '../BaseAdapter';
 import { 
   GenerateOptions, 
-  StreamOptions, 
   LLMResponse, 
   ModelInfo, 
   ProviderCapabilities,
   CostDetails,
   TokenUsage,
-  LLMProviderError
+  LLMProviderError,
+  PromptInput,
+  ContentPart,
+  StreamEvent,
+  InvalidRequestError,
+  ProviderConfig
 } from '../types';
 import { ModelRegistry } from '../ModelRegistry';
+import { ChatCompletionStreamAccumulator } from '../StreamUtils';
 import { GROK_MODELS, GROK_DEFAULT_MODEL, GrokModelConstraints, getGrokModelConstraints, hasNativeReasoning, supportsCachingDiscount, getCachingDiscountRate, LIVE_SEARCH_COST_PER_SOURCE } from './GrokModels';
 
 /**
@@ -39,10 +44,7 @@ interface GrokGenerateOptions extends GenerateOptions {
  */
 interface GrokRequestParams {
   model: string;
-  messages: Array<{
-    role: 'system' | 'user' | 'assistant';
-    content: string;
-  }>;
+  messages: any[]; // OpenAI chat format, see BaseAdapter.buildMessages
   max_completion_tokens?: number; // Grok 4 specific
   max_tokens?: number; // Grok 3/3 Mini
   temperature?: number;
@@ -51,7 +53,8 @@ interface GrokRequestParams {
   stream_options?: { include_usage: boolean }; // For streaming
   response_format?: { type: 'json_object' };
   tools?: any[];
-  tool_choice?: string;
+  tool_choice?: string | { type: 'function'; function: { name: string } };
+  parallel_tool_calls?: boolean;
   reasoning_effort?: 'low' | 'high'; // Grok 3/3 Mini only
   live_search?: boolean;
 }
@@ -94,8 +97,13 @@ class GrokRateLimiter {
   private readonly RATE_LIMIT = 60; // requests per minute
   private readonly WINDOW_MS = 60000; // 1 minute
 
-  async waitForSlot(): Promise<void> {
+  async waitForSlot(signal?: AbortSignal): Promise<void> {
     return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(this.createAbortError());
+        return;
+      }
+
       const now = Date.now();
       
       // Clean up expired requests
@@ -113,15 +121,28 @@ class GrokRateLimiter {
         const oldestRequest = this.requestQueue[0];
         const delay = this.WINDOW_MS - (now - oldestRequest.timestamp);
         
-        setTimeout(() => {
+        // Give up the wait (without taking a slot) if the caller cancels
+        const onAbort = () => {
+          clearTimeout(timer);
+          reject(this.createAbortError());
+        };
+        const timer = setTimeout(() => {
+          signal?.removeEventListener('abort', onAbort);
           this.cleanupExpiredRequests();
           this.requestQueue.push({ timestamp: Date.now(), resolve, reject });
           resolve();
         }, Math.max(delay, 0));
+        signal?.addEventListener('abort', onAbort, { once: true });
       }
     });
   }
 
+  private createAbortError(): Error {
+    const error = new Error('Rate limit wait was aborted');
+    error.name = 'AbortError';
+    return error;
+  }
+
   private cleanupExpiredRequests(): void {
     const now = Date.now();
     this.requestQueue = this.requestQueue.filter(
@@ -170,21 +191,24 @@ class LiveSearchTracker {
 
 export class GrokAdapter extends BaseAdapter {
   readonly name = 'grok';
-  readonly baseUrl = 'https://api.x.ai/v1';
+  readonly baseUrl: string;
   
   private client: OpenAI;
   private rateLimiter: GrokRateLimiter;
   private liveSearchTracker: LiveSearchTracker;
 
-  constructor(model?: string) {
-    super('XAI_API_KEY', model || GROK_DEFAULT_MODEL);
+  constructor(model?: string, config?: ProviderConfig) {
+    super('XAI_API_KEY', model || GROK_DEFAULT_MODEL, config);
+    this.baseUrl = config?.baseUrl || 'https://api.x.ai/v1';
     
     // Initialize OpenAI client with xAI base URL
     this.client = new OpenAI({
       apiKey: this.apiKey,
       baseURL: this.baseUrl,
-      timeout: 120000, // 2 minutes for complex reasoning
-      maxRetries: 0 // Custom retry logic with rate limiting
+      ...(config?.customHeaders ? { defaultHeaders: config.customHeaders } : {}),
+      timeout: config?.timeout || 120000, // 2 minutes for complex reasoning
+      maxRetries: 0, // Custom retry logic with rate limiting
+      fetch: this.httpFetch
     });
     
     // Initialize components
@@ -197,11 +221,15 @@ export class GrokAdapter extends BaseAdapter {
     });
   }
 
-  async generateUncached(prompt: string, options?: GenerateOptions): Promise<LLMResponse> {
+  async generateUncached(prompt: PromptInput, options?: GenerateOptions): Promise<LLMResponse> {
     // Apply rate limiting
-    await this.rateLimiter.waitForSlot();
+    try {
+      await this.rateLimiter.waitForSlot(options?.signal);
+    } catch (error) {
+      return this.handleGrokError(error, 'generation');
+    }
     
-    return this.withRetry(async () => {
+    return this.withRetry(async apiKey => {
       try {
         const model = options?.model || this.currentModel;
         this.validateGrokModel(model);
@@ -215,7 +243,9 @@ export class GrokAdapter extends BaseAdapter {
         // Record start time for performance metrics
         const startTime = Date.now();
         
-        const response = await this.client.chat.completions.create(finalParams);
+        const { data: response, headers } = await this.withResponseHeaders(
+          this.client.chat.completions.create(finalParams, this.buildSdkRequestOptions(options, apiKey))
+        );
         
         const endTime = Date.now();
         const totalTime = endTime - startTime;
@@ -255,110 +285,94 @@ export class GrokAdapter extends BaseAdapter {
           this.mapFinishReason(choice.finish_reason),
           choice.message?.tool_calls
         );
+        const reasoning = this.buildReasoningOutput({
+          text: (choice.message as any)?.reasoning_content,
+          tokens: usage.reasoningTokens
+        });
+        if (reasoning) llmResponse.reasoning = reasoning;
 
-        return llmResponse;
+        return this.attachRateLimit(llmResponse, headers);
       } catch (error) {
         return this.handleGrokError(error, 'generation');
       }
-    });
+    }, { model: options?.model, signal: options?.signal });
   }
 
-  async generateStream(prompt: string, options?: StreamOptions): Promise<LLMResponse> {
-    // Apply rate limiting
-    await this.rateLimiter.waitForSlot();
-    
-    return this.withRetry(async () => {
-      try {
-        const model = options?.model || this.currentModel;
-        this.validateGrokModel(model);
-
-        // Build streaming request parameters
-        const requestParams = this.buildGrokRequest(prompt, options);
-        const finalParams = this.applyGrok4Constraints({
-          ...requestParams,
-          stream: true,
-          stream_options: { include_usage: true }
-        }, model);
-
-        const startTime = Date.now();
-        const stream = await this.client.chat.completions.create(finalParams);
-
-        let fullText = '';
-        let usage: GrokTokenUsage | undefined;
-        let finishReason: string | null = null;
-        let toolCalls: any[] = [];
-        let responseModel = model;
-
-        for await (const chunk of stream as any) {
-          // Handle content deltas
-          const delta = chunk.choices?.[0]?.delta;
-          if (delta?.content) {
-            fullText += delta.content;
-            options?.onToken?.(delta.content);
-          }
-
-          // Handle tool calls
-          if (delta?.tool_calls) {
-            toolCalls = delta.tool_calls;
-          }
+  protected async *streamEvents(prompt: PromptInput, options?: GenerateOptions): AsyncGenerator<StreamEvent> {
+    try {
+      // Apply rate limiting
+      await this.rateLimiter.waitForSlot(options?.signal);
+
+      const model = options?.model || this.currentModel;
+      this.validateGrokModel(model);
+
+      // Build streaming request parameters
+      const requestParams = this.buildGrokRequest(prompt, options);
+      const finalParams = this.applyGrok4Constraints({
+        ...requestParams,
+        stream: true,
+        stream_options: { include_usage: true }
+      }, model);
+
+      const startTime = Date.now();
+      const stream = await this.withRetry(
+        apiKey => this.client.chat.completions.create(finalParams, this.buildSdkRequestOptions(options, apiKey)),
+        { model: options?.model, signal: options?.signal }
+      );
 
-          // Handle finish reason
-          if (chunk.choices?.[0]?.finish_reason) {
-            finishReason = chunk.choices[0].finish_reason;
-          }
+      const state = new ChatCompletionStreamAccumulator();
+      let usage: GrokTokenUsage | undefined;
 
-          // Handle usage metrics (typically in the last chunk)
-          if (chunk.usage) {
-            usage = this.extractGrokUsage({ usage: chunk.usage });
-          }
+      for await (const chunk of stream as any) {
+        yield* state.push(chunk);
 
-          // Handle model info
-          if (chunk.model) {
-            responseModel = chunk.model;
-          }
+        // Handle usage metrics (typically in the last chunk)
+        if (chunk.usage) {
+          usage = this.extractGrokUsage({ usage: chunk.usage });
+          yield { type: 'usage', usage };
         }
+      }
+      yield* state.flushToolCalls();
 
-        const endTime = Date.now();
-        const totalTime = endTime - startTime;
-
-        // Ensure we have usage metrics
-        if (!usage) {
-          usage = {
-            promptTokens: 0,
-            completionTokens: Math.ceil(fullText.length / 4), // Rough estimate
-            totalTokens: Math.ceil(fullText.length / 4)
-          };
-        }
+      const totalTime = Date.now() - startTime;
 
-        // Track Live Search usage if applicable
-        if (finalParams.live_search && usage.liveSearchSources) {
-          this.liveSearchTracker.trackLiveSearchUsage(
-            `stream-${Date.now()}`,
-            usage.liveSearchSources
-          );
-        }
+      // Ensure we have usage metrics
+      if (!usage) {
+        usage = {
+          promptTokens: 0,
+          completionTokens: Math.ceil(state.text.length / 4), // Rough estimate
+          totalTokens: Math.ceil(state.text.length / 4)
+        };
+      }
 
-        const response = await this.buildGrokResponse(
-          fullText,
-          responseModel,
-          usage,
-          {
-            requestTime: totalTime,
-            streaming: true,
-            liveSearchUsed: !!finalParams.live_search,
-            reasoningMode: this.getReasoningMode(model, finalParams)
-          },
-          this.mapFinishReason(finishReason),
-          toolCalls
+      // Track Live Search usage if applicable
+      if (finalParams.live_search && usage.liveSearchSources) {
+        this.liveSearchTracker.trackLiveSearchUsage(
+          `stream-${Date.now()}`,
+          usage.liveSearchSources
         );
-
-        options?.onComplete?.(response);
-        return response;
-      } catch (error) {
-        options?.onError?.(error as Error);
-        return this.handleGrokError(error, 'streaming generation');
       }
-    });
+
+      const response = await this.buildGrokResponse(
+        state.text,
+        state.model || model,
+        usage,
+        {
+          requestTime: totalTime,
+          streaming: true,
+          liveSearchUsed: !!finalParams.live_search,
+          reasoningMode: this.getReasoningMode(model, finalParams)
+        },
+        this.mapFinishReason(state.finishReason),
+        state.toolCalls
+      );
+      const reasoning = this.buildReasoningOutput({ text: state.reasoning, tokens: usage.reasoningTokens });
+      if (reasoning) response.reasoning = reasoning;
+
+      yield { type: 'finish', finishReason: response.finishReason || 'stop', response };
+    } catch (error) {
+      this.handleGrokError(error, 'streaming generation');
+    }
   }
 
   async listModels(): Promise<ModelInfo[]> {
@@ -428,7 +442,7 @@ export class GrokAdapter extends BaseAdapter {
    * Generate with Live Search enabled
    */
   async generateWithLiveSearch(
-    prompt: string, 
+    prompt: PromptInput, 
     options?: GrokGenerateOptions & { liveSearchSources?: number }
   ): Promise<LLMResponse> {
     const enhancedOptions = {
@@ -443,7 +457,7 @@ export class GrokAdapter extends BaseAdapter {
    * Generate with reasoning mode (handles model differences automatically)
    */
   async generateWithReasoning(
-    prompt: string,
+    prompt: PromptInput,
     effort: 'low' | 'high' = 'high',
     options?: GrokGenerateOptions
   ): Promise<LLMResponse> {
@@ -493,7 +507,7 @@ export class GrokAdapter extends BaseAdapter {
   /**
    * Build Grok-specific request parameters
    */
-  private buildGrokRequest(prompt: string, options?: GenerateOptions): GrokRequestParams {
+  private buildGrokRequest(prompt: PromptInput, options?: GenerateOptions): GrokRequestParams {
     const model = options?.model || this.currentModel;
     const baseParams: GrokRequestParams = {
       model,
@@ -526,7 +540,8 @@ export class GrokAdapter extends BaseAdapter {
     // Function calling support
     if (options?.tools && options.tools.length > 0) {
       baseParams.tools = this.convertTools(options.tools);
-      baseParams.tool_choice = 'auto';
+      baseParams.tool_choice = this.buildToolChoice(options.toolChoice) ?? 'auto';
+      if (options.parallelToolCalls !== undefined) baseParams.parallel_tool_calls = options.parallelToolCalls;
     }
 
     // Live Search support
@@ -534,8 +549,10 @@ export class GrokAdapter extends BaseAdapter {
       baseParams.live_search = true;
     }
 
-    // Reasoning effort (for Grok 3/3 Mini)
-    const reasoningEffort = (options as GrokGenerateOptions)?.reasoningEffort;
+    // Reasoning effort (for Grok 3/3 Mini); Grok only has low and high
+    const reasoning = this.getReasoningOptions(options);
+    const reasoningEffort = (options as GrokGenerateOptions)?.reasoningEffort
+      ?? (reasoning?.enabled ? (this.getReasoningEffort(reasoning) === 'low' ? 'low' : 'high') : undefined);
     if (reasoningEffort && !hasNativeReasoning(model)) {
       baseParams.reasoning_effort = reasoningEffort;
     }
@@ -604,7 +621,8 @@ export class GrokAdapter extends BaseAdapter {
       const usage = response.usage;
       
       // Reasoning tokens (for models with thinking)
-      if (usage.reasoning_tokens) grokUsage.reasoningTokens = usage.reasoning_tokens;
+      const reasoningTokens = usage.reasoning_tokens ?? baseUsage?.reasoningTokens;
+      if (reasoningTokens) grokUsage.reasoningTokens = reasoningTokens;
       
       // Cached tokens (for Grok 4 caching discount)
       if (usage.cached_tokens) grokUsage.cachedTokens = usage.cached_tokens;
@@ -677,6 +695,17 @@ export class GrokAdapter extends BaseAdapter {
   /**
    * Map Grok finish reasons to standard format
    */
+  protected toChatContentPart(part: ContentPart): any {
+    if (part.type === 'document') {
+      throw new InvalidRequestError(
+        'Grok does not accept document attachments; extract the text and send it as a text part',
+        this.name,
+        { code: 'UNSUPPORTED_CONTENT' }
+      );
+    }
+    return super.toChatContentPart(part);
+  }
+
   private mapFinishReason(reason: string | null): 'stop' | 'length' | 'tool_calls' | 'content_filter' {
     if (!reason) return 'stop';
     
@@ -711,47 +740,17 @@ export class GrokAdapter extends BaseAdapter {
       throw error;
     }
 
-    // Handle OpenAI SDK errors (since we use OpenAI client)
-    if (error.status) {
-      const status = error.status;
-      let errorCode = 'HTTP_ERROR';
-      let message = error.message || 'Unknown error';
-
-      // Grok-specific error mapping
-      switch (status) {
-        case 400:
-          errorCode = 'INVALID_REQUEST';
-          if (message.includes('model')) {
-            errorCode = 'UNSUPPORTED_MODEL';
-            message = `Invalid model specified. Available Grok models: ${GROK_MODELS.map(m => m.apiName).join(', ')}`;
-          }
-          break;
-        case 401:
-          errorCode = 'AUTHENTICATION_ERROR';
-          message = 'Invalid xAI API key. Please check your XAI_API_KEY environment variable.';
-          break;
-        case 429:
-          errorCode = 'RATE_LIMIT_ERROR';
-          message = 'Grok rate limit exceeded (60 requests/minute). Please wait before retrying.';
-          break;
-        case 503:
-          errorCode = 'SERVICE_UNAVAILABLE';
-          message = 'Grok service temporarily unavailable. Please try again.';
-          break;
-        default:
-          if (status >= 500) {
-            errorCode = 'SERVER_ERROR';
-            message = `Grok server error: ${message}`;
-          }
-          break;
-      }
+    if (this.isAbortError(error)) {
+      throw this.createAbortError(error);
+    }
 
-      throw new LLMProviderError(
-        `${operation} failed: ${message}`,
-        this.name,
-        errorCode,
-        error
-      );
+    // Typed classification is shared; only the messages are Grok-specific
+    if (typeof (error?.status ?? error?.response?.status) === 'number') {
+      throw this.classifyError(error, operation, {
+        401: 'Invalid xAI API key. Please check your XAI_API_KEY environment variable.',
+        429: 'Grok rate limit exceeded (60 requests/minute). Please wait before retrying.',
+        503: 'Grok service temporarily unavailable. Please try again.'
+      });
     }
 
     // Handle network errors
@@ -764,12 +763,6 @@ export class GrokAdapter extends BaseAdapter {
       );
     }
 
-    // Generic error fallback
-    throw new LLMProviderError(
-      `${operation} failed: ${error.message}`,
-      this.name,
-      'UNKNOWN_ERROR',
-      error
-    );
+    throw this.classifyError(error, operation);
   }
 }
\ No newline at end of file
@@ -15,17 +15,20 @@ import Groq from 'groq-sdk';
 import { BaseAdapter } from '../BaseAdapter';
 import { 
   GenerateOptions, 
-  StreamOptions, 
   LLMResponse, 
   ModelInfo, 
   ProviderCapabilities,
   CostDetails,
   TokenUsage,
-  LLMProviderError
+  LLMProviderError,
+  PromptInput,
+  StreamEvent,
+  ProviderConfig
 } from '../types';
 import { ModelRegistry } from '../ModelRegistry';
+import { ChatCompletionStreamAccumulator } from '../StreamUtils';
 import { ModelSpec } from '../modelTypes';
-import { GROQ_MODELS, GROQ_DEFAULT_MODEL } from './GroqModels';
+import { GROQ_MODELS, GROQ_DEFAULT_MODEL, GROQ_MODEL_CATEGORIES } from './GroqModels';
 
 /**
  * Extended usage metrics specific to Groq
@@ -39,18 +42,22 @@ interface GroqUsage extends TokenUsage {
 
 export class GroqAdapter extends BaseAdapter {
   readonly name = 'groq';
-  readonly baseUrl = 'https://api.groq.com/openai/v1';
+  readonly baseUrl: string;
   
   private client: Groq;
 
-  constructor(model?: string) {
-    super('GROQ_API_KEY', model || GROQ_DEFAULT_MODEL);
+  constructor(model?: string, config?: ProviderConfig) {
+    super('GROQ_API_KEY', model || GROQ_DEFAULT_MODEL, config);
+    this.baseUrl = config?.baseUrl || 'https://api.groq.com/openai/v1';
     
     // Initialize Groq client with official SDK
     this.client = new Groq({
       apiKey: this.apiKey,
-      timeout: 120000, // 2 minutes for complex requests
-      maxRetries: 3
+      ...(config?.baseUrl ? { baseURL: config.baseUrl } : {}),
+      ...(config?.customHeaders ? { defaultHeaders: config.customHeaders } : {}),
+      timeout: config?.timeout || 120000, // 2 minutes for complex requests
+      maxRetries: 0, // Retries and circuit breaking run through withRetry
+      fetch: this.httpFetch
     });
     
     this.initializeCache({
@@ -59,8 +66,8 @@ export class GroqAdapter extends BaseAdapter {
     });
   }
 
-  async generateUncached(prompt: string, options?: GenerateOptions): Promise<LLMResponse> {
-    return this.withRetry(async () => {
+  async generateUncached(prompt: PromptInput, options?: GenerateOptions): Promise<LLMResponse> {
+    return this.withRetry(async apiKey => {
       try {
         const model = options?.model || this.currentModel;
         this.validateModel(model);
@@ -81,21 +88,23 @@ export class GroqAdapter extends BaseAdapter {
         if (options?.presencePenalty !== undefined) requestParams.presence_penalty = options.presencePenalty;
         if (options?.stopSequences) requestParams.stop = options.stopSequences;
 
-        // JSON mode support
-        if (options?.jsonMode) {
-          requestParams.response_format = { type: 'json_object' };
-        }
+        // JSON mode / structured output support
+        const responseFormat = this.buildResponseFormat(options);
+        if (responseFormat) requestParams.response_format = responseFormat;
 
         // Function calling support
         if (options?.tools && options.tools.length > 0) {
           requestParams.tools = this.convertTools(options.tools);
-          requestParams.tool_choice = 'auto';
+          requestParams.tool_choice = this.buildToolChoice(options.toolChoice) ?? 'auto';
+          if (options.parallelToolCalls !== undefined) requestParams.parallel_tool_calls = options.parallelToolCalls;
         }
 
         // Record start time for performance metrics
         const startTime = Date.now();
         
-        const response = await this.client.chat.completions.create(requestParams);
+        const { data: response, headers } = await this.withResponseHeaders(
+          this.client.chat.completions.create(requestParams, this.buildSdkRequestOptions(options, apiKey))
+        );
         
         const endTime = Date.now();
         const totalTime = endTime - startTime;
@@ -134,127 +143,103 @@ export class GroqAdapter extends BaseAdapter {
           choice.message?.tool_calls
         );
 
-        return llmResponse;
+        return this.attachRateLimit(llmResponse, headers);
       } catch (error) {
         return this.handleGroqError(error, 'generation');
       }
-    });
+    }, { model: options?.model, signal: options?.signal });
   }
 
-  async generateStream(prompt: string, options?: StreamOptions): Promise<LLMResponse> {
-    return this.withRetry(async () => {
-      try {
-        const model = options?.model || this.currentModel;
-        this.validateModel(model);
-
-        const messages = this.buildMessages(prompt, options?.systemPrompt);
-        
-        const streamParams: any = {
-          model,
-          messages,
-          temperature: options?.temperature ?? 0.7,
-          max_tokens: options?.maxTokens ?? 8192,
-          stream: true,
-          stream_options: { include_usage: true } // Get usage metrics in stream
-        };
-
-        // Add optional parameters
-        if (options?.topP !== undefined) streamParams.top_p = options.topP;
-        if (options?.frequencyPenalty !== undefined) streamParams.frequency_penalty = options.frequencyPenalty;
-        if (options?.presencePenalty !== undefined) streamParams.presence_penalty = options.presencePenalty;
-        if (options?.stopSequences) streamParams.stop = options.stopSequences;
-
-        // JSON mode support
-        if (options?.jsonMode) {
-          streamParams.response_format = { type: 'json_object' };
-        }
-
-        // Function calling support
-        if (options?.tools && options.tools.length > 0) {
-          streamParams.tools = this.convertTools(options.tools);
-          streamParams.tool_choice = 'auto';
-        }
+  protected async *streamEvents(prompt: PromptInput, options?: GenerateOptions): AsyncGenerator<StreamEvent> {
+    try {
+      const model = options?.model || this.currentModel;
+      this.validateModel(model);
 
-        const startTime = Date.now();
-        const stream = await this.client.chat.completions.create(streamParams);
-
-        let fullText = '';
-        let usage: GroqUsage | undefined;
-        let finishReason: string | null = null;
-        let toolCalls: any[] = [];
-        let responseModel = model;
-
-        for await (const chunk of stream as any) {
-          // Handle content deltas
-          const delta = chunk.choices?.[0]?.delta;
-          if (delta?.content) {
-            fullText += delta.content;
-            options?.onToken?.(delta.content);
-          }
+      const messages = this.buildMessages(prompt, options?.systemPrompt);
+      
+      const streamParams: any = {
+        model,
+        messages,
+        temperature: options?.temperature ?? 0.7,
+        max_tokens: options?.maxTokens ?? 8192,
+        stream: true,
+        stream_options: { include_usage: true } // Get usage metrics in stream
+      };
+
+      // Add optional parameters
+      if (options?.topP !== undefined) streamParams.top_p = options.topP;
+      if (options?.frequencyPenalty !== undefined) streamParams.frequency_penalty = options.frequencyPenalty;
+      if (options?.presencePenalty !== undefined) streamParams.presence_penalty = options.presencePenalty;
+      if (options?.stopSequences) streamParams.stop = options.stopSequences;
+
+      // JSON mode / structured output support
+      const responseFormat = this.buildResponseFormat(options);
+      if (responseFormat) streamParams.response_format = responseFormat;
+
+      // Function calling support
+      if (options?.tools && options.tools.length > 0) {
+        streamParams.tools = this.convertTools(options.tools);
+        streamParams.tool_choice = this.buildToolChoice(options.toolChoice) ?? 'auto';
+        if (options.parallelToolCalls !== undefined) streamParams.parallel_tool_calls = options.parallelToolCalls;
+      }
 
-          // Handle tool calls
-          if (delta?.tool_calls) {
-            toolCalls = delta.tool_calls;
-          }
+      const startTime = Date.now();
+      const stream = await this.withRetry(
+        apiKey => this.client.chat.completions.create(streamParams, this.buildSdkRequestOptions(options, apiKey)),
+        { model: options?.model, signal: options?.signal }
+      );
 
-          // Handle finish reason
-          if (chunk.choices?.[0]?.finish_reason) {
-            finishReason = chunk.choices[0].finish_reason;
-          }
+      const state = new ChatCompletionStreamAccumulator();
+      let usage: GroqUsage | undefined;
 
-          // Handle usage metrics (typically in the last chunk)
-          if (chunk.usage) {
-            const endTime = Date.now();
-            const totalTime = endTime - startTime;
-            usage = this.extractGroqUsage({ usage: chunk.usage }, totalTime);
-          }
+      for await (const chunk of stream as any) {
+        yield* state.push(chunk);
 
-          // Handle model info
-          if (chunk.model) {
-            responseModel = chunk.model;
-          }
+        // Handle usage metrics (typically in the last chunk, under x_groq for Groq streams)
+        const chunkUsage = chunk.usage || chunk.x_groq?.usage;
+        if (chunkUsage) {
+          usage = this.extractGroqUsage({ usage: chunkUsage }, Date.now() - startTime);
+          yield { type: 'usage', usage };
         }
+      }
+      yield* state.flushToolCalls();
 
-        const endTime = Date.now();
-        const totalTime = endTime - startTime;
+      const totalTime = Date.now() - startTime;
 
-        // Ensure we have usage metrics
-        if (!usage) {
-          usage = {
-            promptTokens: 0,
-            completionTokens: fullText.length / 4, // Rough estimate
-            totalTokens: fullText.length / 4,
-            totalTime
-          };
-        }
+      // Ensure we have usage metrics
+      if (!usage) {
+        usage = {
+          promptTokens: 0,
+          completionTokens: state.text.length / 4, // Rough estimate
+          totalTokens: state.text.length / 4,
+          totalTime
+        };
+      }
 
-        const response = await this.buildLLMResponse(
-          fullText,
-          responseModel,
-          usage,
-          {
-            groqMetrics: {
-              totalTime,
-              queueTime: usage.queueTime,
-              promptTime: usage.promptTime,
-              completionTime: usage.completionTime,
-              tokensPerSecond: usage.completionTokens && usage.completionTime 
-                ? Math.round((usage.completionTokens / usage.completionTime) * 1000)
-                : undefined
-            },
-            streaming: true
+      const response = await this.buildLLMResponse(
+        state.text,
+        state.model || model,
+        usage,
+        {
+          groqMetrics: {
+            totalTime,
+            queueTime: usage.queueTime,
+            promptTime: usage.promptTime,
+            completionTime: usage.completionTime,
+            tokensPerSecond: usage.completionTokens && usage.completionTime 
+              ? Math.round((usage.completionTokens / usage.completionTime) * 1000)
+              : undefined
           },
-          this.mapFinishReason(finishReason),
-          toolCalls
-        );
+          streaming: true
+        },
+        this.mapFinishReason(state.finishReason),
+        state.toolCalls
+      );
 
-        options?.onComplete?.(response);
-        return response;
-      } catch (error) {
-        options?.onError?.(error as Error);
-        return this.handleGroqError(error, 'streaming generation');
-      }
-    });
+      yield { type: 'finish', finishReason: response.finishReason || 'stop', response };
+    } catch (error) {
+      this.handleGroqError(error, 'streaming generation');
+    }
   }
 
   async listModels(): Promise<ModelInfo[]> {
@@ -305,6 +290,10 @@ export class GroqAdapter extends BaseAdapter {
     };
   }
 
+  protected supportsNativeStructuredOutput(model: string): boolean {
+    return GROQ_MODEL_CATEGORIES.STRUCTURED_OUTPUT.includes(model);
+  }
+
   // Private helper methods
 
   /**
@@ -393,46 +382,17 @@ export class GroqAdapter extends BaseAdapter {
       throw error;
     }
 
-    // Handle Groq SDK error responses
-    if (error instanceof Groq.APIError) {
-      const status = error.status;
-      let errorCode = 'HTTP_ERROR';
-      let message = error.message;
-
-      // Groq-specific error codes
-      switch (status) {
-        case 400:
-          errorCode = 'INVALID_REQUEST';
-          if (message.includes('model')) {
-            errorCode = 'UNSUPPORTED_MODEL';
-          }
-          break;
-        case 401:
-          errorCode = 'AUTHENTICATION_ERROR';
-          message = 'Invalid Groq API key. Please check your GROQ_API_KEY environment variable.';
-          break;
-        case 429:
-          errorCode = 'RATE_LIMIT_ERROR';
-          message = 'Groq rate limit exceeded. Please try again later.';
-          break;
-        case 503:
-          errorCode = 'SERVICE_UNAVAILABLE';
-          message = 'Groq service temporarily unavailable. Please try again.';
-          break;
-        default:
-          if (status >= 500) {
-            errorCode = 'SERVER_ERROR';
-            message = `Groq server error: ${message}`;
-          }
-          break;
-      }
+    if (this.isAbortError(error)) {
+      throw this.createAbortError(error);
+    }
 
-      throw new LLMProviderError(
-        `${operation} failed: ${message}`,
-        this.name,
-        errorCode,
-        error
-      );
+    // Typed classification is shared; only the messages are Groq-specific
+    if (typeof (error?.status ?? error?.response?.status) === 'number') {
+      throw this.classifyError(error, operation, {
+        401: 'Invalid Groq API key. Please check your GROQ_API_KEY environment variable.',
+        429: 'Groq rate limit exceeded. Please try again later.',
+        503: 'Groq service temporarily unavailable. Please try again.'
+      });
     }
 
     // Handle network errors
@@ -445,13 +405,7 @@ export class GroqAdapter extends BaseAdapter {
       );
     }
 
-    // Generic error fallback
-    throw new LLMProviderError(
-      `${operation} failed: ${error.message}`,
-      this.name,
-      'UNKNOWN_ERROR',
-      error
-    );
+    throw this.classifyError(error, operation);
   }
 
   /**
@@ -193,6 +193,12 @@ export const GROQ_MODEL_CATEGORIES = {
     'llama-4-maverick-17bx128e'
   ],
   
+  // Native structured outputs (response_format json_schema)
+  STRUCTURED_OUTPUT: [
+    'llama-4-scout-17bx16e',
+    'llama-4-maverick-17bx128e'
+  ],
+  
   // Reasoning-optimized
   REASONING: [
     'deepseek-r1-distill-llama-70b'
@@ -16,7 +16,43 @@ export { RequestyAdapter } from './requesty/RequestyAdapter';
 export { GroqAdapter } from './groq/GroqAdapter';
 export { GrokAdapter } from './grok/GrokAdapter';
 export { PerplexityAdapter } from './perplexity/PerplexityAdapter';
-// export { OllamaAdapter } from './OllamaAdapter';  // Not implemented yet
+export { OllamaAdapter } from './ollama/OllamaAdapter';
+export type { OllamaOptions, OllamaStreamOptions, OllamaPullOptions, OllamaPullProgress, OllamaRunningModel } from './ollama/OllamaAdapter';
+export { OpenAICompatibleAdapter } from './compatible/OpenAICompatibleAdapter';
+export type {
+  OpenAICompatibleAdapterOptions,
+  OpenAICompatibleAuth,
+  OpenAICompatibleModel,
+  OpenAICompatiblePricing
+} from './compatible/OpenAICompatibleAdapter';
+export { AzureOpenAIAdapter } from './azure/AzureOpenAIAdapter';
+export type { AzureOpenAIOptions } from './azure/AzureOpenAIAdapter';
+
+// Composite adapters
+export { FallbackAdapter } from './fallback/FallbackAdapter';
+export type { FallbackEntry, FallbackAttempt, FallbackAdapterOptions } from './fallback/FallbackAdapter';
+export { RouterAdapter, RoutingPolicies } from './router/RouterAdapter';
+export type {
+  RouterAdapterOptions,
+  RouterGenerateOptions,
+  RoutingConstraints,
+  RoutingDecision,
+  RoutingPolicy,
+  RoutingRequirements,
+  RouteCandidate
+} from './router/RouterAdapter';
+
+// Testing
+export { MockAdapter } from './mock/MockAdapter';
+export type {
+  MockAdapterOptions,
+  MockResponse,
+  MockToolCall,
+  MockRequest,
+  MockResponder,
+  MockReply,
+  MockScriptEntry
+} from './mock/MockAdapter';
 
 // Image generation adapters
 export { OpenAIImageAdapter } from './openai/OpenAIImageAdapter';
@@ -27,6 +63,10 @@ export * from './modelTypes';
 export * from './ModelRegistry';
 export * from './CostCalculator';
 
+// Schema builder for generateObject and partial JSON parsing for streamObject
+export * from './SchemaBuilder';
+export * from './PartialJSON';
+
 import { BaseAdapter } from './BaseAdapter';
 import { OpenAIAdapter } from './openai/OpenAIAdapter';
 import { GoogleAdapter } from './google/GoogleAdapter';
@@ -37,44 +77,126 @@ import { RequestyAdapter } from './requesty/RequestyAdapter';
 import { GroqAdapter } from './groq/GroqAdapter';
 import { GrokAdapter } from './grok/GrokAdapter';
 import { PerplexityAdapter } from './perplexity/PerplexityAdapter';
-// import { OllamaAdapter } from './OllamaAdapter';  // Not implemented yet
+import { OllamaAdapter } from './ollama/OllamaAdapter';
+import { OpenAICompatibleAdapter, OpenAICompatibleAdapterOptions } from './compatible/OpenAICompatibleAdapter';
+import { AzureOpenAIAdapter } from './azure/AzureOpenAIAdapter';
 import { OpenAIImageAdapter } from './openai/OpenAIImageAdapter';
 import { GeminiImageAdapter } from './google/GeminiImageAdapter';
 import { SupportedProvider, LLMProviderError, ProviderConfig } from './types';
+import { ConfigManager } from '../utils/ConfigManager';
+
+const PROVIDER_ALIASES: Record<string, string> = {
+  gemini: 'google',
+  claude: 'anthropic',
+  'azure-openai': 'azure'
+};
+
+// OpenAI-compatible servers registered by name with registerOpenAICompatibleProvider
+const COMPATIBLE_PROVIDERS = new Map<string, Omit<OpenAICompatibleAdapterOptions, 'name'>>();
+
+/**
+ * Make an OpenAI-compatible server (vLLM, llama.cpp, LM Studio, a gateway)
+ * available to createAdapter under a name of your choice. Registering a name
+ * again replaces its settings; built-in provider names cannot be used.
+ */
+export function registerOpenAICompatibleProvider(name: string, options: Omit<OpenAICompatibleAdapterOptions, 'name'>): void {
+  const key = name.toLowerCase();
+  if ((getAvailableProviders() as string[]).includes(key) || PROVIDER_ALIASES[key]) {
+    throw new LLMProviderError(
+      `Provider name ${name} is taken by a built-in adapter`,
+      'factory',
+      'PROVIDER_NAME_TAKEN'
+    );
+  }
+  COMPATIBLE_PROVIDERS.set(key, options);
+}
+
+export function unregisterOpenAICompatibleProvider(name: string): boolean {
+  return COMPATIBLE_PROVIDERS.delete(name.toLowerCase());
+}
+
+/**
+ * Names registered with registerOpenAICompatibleProvider
+ */
+export function getRegisteredProviders(): string[] {
+  return [...COMPATIBLE_PROVIDERS.keys()];
+}
+
+/**
+ * Settings for a provider from ConfigManager, overridden by an explicit config
+ */
+function resolveProviderConfig(provider: string, config?: ProviderConfig): ProviderConfig {
+  let configured: ProviderConfig = {};
+  try {
+    configured = ConfigManager.getInstance().getProviderConfig(PROVIDER_ALIASES[provider] || provider);
+  } catch {
+    // An invalid config file should not stop adapters that are configured explicitly
+  }
+
+  return {
+    ...configured,
+    ...config,
+    ...(configured.customHeaders || config?.customHeaders
+      ? { customHeaders: { ...configured.customHeaders, ...config?.customHeaders } }
+      : {})
+  };
+}
 
 /**
  * Factory function to create adapter instances
+ * Connection settings come from ConfigManager unless given in config.
+ * Also accepts names registered with registerOpenAICompatibleProvider.
  */
-export function createAdapter(provider: SupportedProvider, model?: string): BaseAdapter {
-  switch (provider.toLowerCase()) {
+export function createAdapter(provider: SupportedProvider | string, model?: string, config?: ProviderConfig): BaseAdapter {
+  const name = provider.toLowerCase();
+  const providerConfig = resolveProviderConfig(name, config);
+
+  switch (name) {
     case 'openai':
-      return new OpenAIAdapter();
+      return new OpenAIAdapter(model, providerConfig);
     case 'google':
     case 'gemini':
-      return new GoogleAdapter(model);
+      return new GoogleAdapter(model, providerConfig);
     case 'anthropic':
     case 'claude':
-      return new AnthropicAdapter(model);
+      return new AnthropicAdapter(model, providerConfig);
     case 'mistral':
-      return new MistralAdapter(model);
+      return new MistralAdapter(model, providerConfig);
     case 'openrouter':
-      return new OpenRouterAdapter(model);
+      return new OpenRouterAdapter(model, providerConfig);
     case 'requesty':
-      return new RequestyAdapter(model);
+      return new RequestyAdapter(model, providerConfig);
     case 'groq':
-      return new GroqAdapter(model);
+      return new GroqAdapter(model, providerConfig);
     case 'grok':
-      return new GrokAdapter(model);
+      return new GrokAdapter(model, providerConfig);
     case 'perplexity':
-      return new PerplexityAdapter(model);
-    // case 'ollama':
-    //   return new OllamaAdapter(model);
-    default:
+      return new PerplexityAdapter(model, providerConfig);
+    case 'ollama':
+      return new OllamaAdapter(model, providerConfig);
+    case 'azure':
+    case 'azure-openai':
+      return new AzureOpenAIAdapter(model, providerConfig);
+    default: {
+      const registered = COMPATIBLE_PROVIDERS.get(name);
+      if (registered) {
+        return new OpenAICompatibleAdapter({
+          ...registered,
+          ...providerConfig,
+          name,
+          baseUrl: providerConfig.baseUrl || registered.baseUrl,
+          ...(model ? { model } : {}),
+          ...(registered.customHeaders || providerConfig.customHeaders
+            ? { customHeaders: { ...registered.customHeaders, ...providerConfig.customHeaders } }
+            : {})
+        });
+      }
       throw new LLMProviderError(
         `Unsupported provider: ${provider}`,
         'factory',
         'UNSUPPORTED_PROVIDER'
       );
+    }
   }
 }
 
@@ -82,12 +204,15 @@ export function createAdapter(provider: SupportedProvider, model?: string): Base
  * Factory function to create image generation adapters
  */
 export function createImageAdapter(provider: 'openai' | 'google' | 'gemini', config?: ProviderConfig): OpenAIImageAdapter | GeminiImageAdapter {
-  switch (provider.toLowerCase()) {
+  const name = provider.toLowerCase();
+  const providerConfig = resolveProviderConfig(name, config);
+
+  switch (name) {
     case 'openai':
-      return new OpenAIImageAdapter(config);
+      return new OpenAIImageAdapter(providerConfig);
     case 'google':
     case 'gemini':
-      return new GeminiImageAdapter(config);
+      return new GeminiImageAdapter(providerConfig);
     default:
       throw new LLMProviderError(
         `Unsupported image generation provider: ${provider}`,
@@ -108,7 +233,7 @@ export function getAvailableImageProviders(): ('openai' | 'google')[] {
  * Get all available providers
  */
 export function getAvailableProviders(): SupportedProvider[] {
-  return ['openai', 'google', 'anthropic', 'mistral', 'openrouter', 'requesty', 'groq', 'grok', 'perplexity'];
+  return ['openai', 'google', 'anthropic', 'mistral', 'openrouter', 'requesty', 'groq', 'grok', 'perplexity', 'ollama', 'azure'];
 }
 
 /**
@@ -145,6 +270,7 @@ export async function getAvailableProvidersWithKeys(): Promise<Array<{
 
 /**
  * Auto-select best available provider based on criteria
+ * Uses fixed per-provider scores; RouterAdapter picks a model per request instead
  */
 export async function selectBestProvider(criteria?: {
   requiresThinking?: boolean;
@@ -178,6 +304,7 @@ export async function selectBestProvider(criteria?: {
       'google': 5,    // Gemini 2.5 Flash - best performance/cost
       'anthropic': 4, // Claude 4 - best reasoning
       'openai': 3,    // GPT-4 Turbo - reliable
+      'azure': 3,     // OpenAI models with Azure SLAs
       'mistral': 2,   // Good specialized models
       'openrouter': 1, // Good for variety
       'requesty': 1   // Good for cost optimization
@@ -188,6 +315,7 @@ export async function selectBestProvider(criteria?: {
     if (criteria?.prefersCost) {
       // Adjust for cost (lower cost = higher score)
       const costScores: Record<string, number> = {
+        'ollama': 4,    // Free local inference
         'groq': 3,      // Very competitive pricing
         'google': 3,    // Gemini Flash - best value
         'mistral': 2,   // Good pricing
@@ -195,7 +323,8 @@ export async function selectBestProvider(criteria?: {
         'openrouter': 1,
         'grok': 0,      // Premium pricing ($3/$15 per million)
         'anthropic': 0, // More expensive
-        'openai': 0     // More expensive
+        'openai': 0,    // More expensive
+        'azure': 0      // OpenAI rates
       };
       score += costScores[provider] || 0;
     }
@@ -207,6 +336,7 @@ export async function selectBestProvider(criteria?: {
         'grok': 4,      // Fast reasoning models
         'google': 3,    // Gemini Flash
         'openai': 2,    // GPT-4 Turbo
+        'azure': 2,
         'openrouter': 2,
         'requesty': 2,
         'anthropic': 1, // Slower but higher quality
@@ -0,0 +1,381 @@
+/**
+ * Mock Adapter
+ * Scripted adapter for unit tests: no API key, no network, and a record of
+ * every request it received
+ */
+
+import { AssertionError } from 'assert';
+import { BaseAdapter } from '../BaseAdapter';
+import { TokenCounter } from '../CostCalculator';
+import {
+  GenerateOptions,
+  LLMResponse,
+  ModelInfo,
+  ProviderCapabilities,
+  CostDetails,
+  PromptInput,
+  Message,
+  StreamEvent,
+  TokenUsage,
+  ToolCall,
+  LLMProviderError
+} from '../types';
+
+export interface MockToolCall {
+  id?: string; // Default: call_<n>
+  name: string;
+  arguments: Record<string, any> | string;
+}
+
+export interface MockResponse {
+  text?: string;
+  json?: any; // Serialized into the text, for generateJSON and structured output
+  reasoning?: string;
+  toolCalls?: MockToolCall[];
+  finishReason?: 'stop' | 'length' | 'tool_calls' | 'content_filter'; // Default: tool_calls when there are calls, otherwise stop
+  usage?: Partial<TokenUsage>; // Missing counts are estimated from the prompt and the text
+  model?: string;
+  metadata?: Record<string, any>;
+  error?: Error; // Thrown instead of responding
+  delayMs?: number; // Wait before responding, or before the first streamed chunk
+  chunks?: string[]; // How the text is streamed (default: word by word)
+  tokenDelayMs?: number; // Wait between streamed chunks
+}
+
+export interface MockRequest {
+  index: number; // Position among all requests, from 0
+  prompt: PromptInput;
+  messages: Message[]; // The prompt as a conversation, system prompt first
+  options: GenerateOptions;
+  model: string;
+  stream: boolean;
+}
+
+/**
+ * Builds a response from the request. Return a string for a plain text reply,
+ * or an Error to fail the request.
+ */
+export type MockResponder = (request: MockRequest) => MockReply | Promise<MockReply>;
+
+export type MockReply = MockResponse | string | Error;
+
+export type MockScriptEntry = MockReply | MockResponder;
+
+export interface MockAdapterOptions {
+  responses?: MockScriptEntry[]; // Used once each, in order
+  respond?: MockResponder; // Answers once the scripted responses run out
+  model?: string; // Default: mock-model
+  pricing?: { inputPerMillion: number; outputPerMillion: number }; // Default: free
+  capabilities?: Partial<ProviderCapabilities>;
+  tokenDelayMs?: number; // Default wait between streamed chunks
+}
+
+/**
+ * Plays back scripted responses through the full BaseAdapter contract, so
+ * streaming, JSON, structured output and tool loops behave as with a real
+ * provider. Responses are never cached: every call consumes the next entry.
+ * Without a script entry or responder the request fails with MOCK_EXHAUSTED.
+ */
+export class MockAdapter extends BaseAdapter {
+  readonly name = 'mock';
+  readonly baseUrl = '';
+
+  private script: MockScriptEntry[];
+  private responder: MockResponder | undefined;
+  private pricing: { inputPerMillion: number; outputPerMillion: number };
+  private capabilities: Partial<ProviderCapabilities>;
+  private tokenDelayMs: number;
+  private received: MockRequest[] = [];
+  private toolCallCount = 0;
+
+  constructor(options: MockAdapterOptions = {}) {
+    super('', options.model || 'mock-model');
+    this.script = [...(options.responses || [])];
+    this.responder = options.respond;
+    this.pricing = options.pricing || { inputPerMillion: 0, outputPerMillion: 0 };
+    this.capabilities = options.capabilities || {};
+    this.tokenDelayMs = options.tokenDelayMs || 0;
+    this.initializeCache();
+  }
+
+  protected validateConfiguration(): void {
+    // No key needed
+  }
+
+  /**
+   * Requests keep their jsonSchema so tests can inspect it
+   */
+  protected supportsNativeStructuredOutput(_model: string): boolean {
+    return true;
+  }
+
+  /**
+   * Add responses to the end of the script
+   */
+  enqueue(...entries: MockScriptEntry[]): this {
+    this.script.push(...entries);
+    return this;
+  }
+
+  /**
+   * Answer every request left after the script with this responder
+   */
+  setResponder(responder: MockResponder | undefined): this {
+    this.responder = responder;
+    return this;
+  }
+
+  /**
+   * Forget the recorded requests and the remaining script
+   */
+  reset(): void {
+    this.script = [];
+    this.received = [];
+    this.toolCallCount = 0;
+  }
+
+  get requests(): MockRequest[] {
+    return [...this.received];
+  }
+
+  get callCount(): number {
+    return this.received.length;
+  }
+
+  get pendingResponses(): number {
+    return this.script.length;
+  }
+
+  lastRequest(): MockRequest | undefined {
+    return this.received[this.received.length - 1];
+  }
+
+  /**
+   * Text of a request's last user message, or '' when it has none
+   */
+  static lastUserText(request: MockRequest): string {
+    const message = [...request.messages].reverse().find(m => m.role === 'user');
+    if (!message) return '';
+    return typeof message.content === 'string'
+      ? message.content
+      : message.content.map(part => part.type === 'text' ? part.text : '').join('');
+  }
+
+  assertCallCount(expected: number): void {
+    if (this.received.length !== expected) {
+      throw new AssertionError({
+        message: `Expected ${expected} request(s) to the mock adapter, received ${this.received.length}`,
+        actual: this.received.length,
+        expected
+      });
+    }
+  }
+
+  /**
+   * Fail unless some request matches. A string matches requests whose last
+   * user message contains it.
+   */
+  assertRequested(match: string | ((request: MockRequest) => boolean)): MockRequest {
+    const matches = typeof match === 'string'
+      ? (request: MockRequest) => MockAdapter.lastUserText(request).includes(match)
+      : match;
+    const request = this.received.find(matches);
+    if (!request) {
+      const seen = this.received.map(r => `  #${r.index}: ${JSON.stringify(MockAdapter.lastUserText(r))}`).join('\n');
+      throw new AssertionError({
+        message: `No request to the mock adapter matched${typeof match === 'string' ? ` "${match}"` : ''}.\n` +
+          `Received ${this.received.length}:${seen ? '\n' + seen : ' none'}`
+      });
+    }
+    return request;
+  }
+
+  assertAllResponsesUsed(): void {
+    if (this.script.length > 0) {
+      throw new AssertionError({ message: `${this.script.length} scripted response(s) were never requested` });
+    }
+  }
+
+  async generate(prompt: PromptInput, options?: GenerateOptions): Promise<LLMResponse> {
+    return super.generate(prompt, { ...options, disableCache: true });
+  }
+
+  async generateUncached(prompt: PromptInput, options?: GenerateOptions): Promise<LLMResponse> {
+    try {
+      const { request, reply } = await this.nextReply(prompt, options, false);
+      await this.wait(reply.delayMs || 0, options?.signal);
+      return await this.toResponse(request, reply);
+    } catch (error) {
+      throw this.handleError(error, 'generation');
+    }
+  }
+
+  protected async *streamEvents(prompt: PromptInput, options?: GenerateOptions): AsyncGenerator<StreamEvent> {
+    const { request, reply } = await this.nextReply(prompt, options, true);
+    const response = await this.toResponse(request, reply);
+    const tokenDelayMs = reply.tokenDelayMs ?? this.tokenDelayMs;
+    await this.wait(reply.delayMs || 0, options?.signal);
+
+    if (response.reasoning?.text) {
+      yield { type: 'reasoning-delta', text: response.reasoning.text };
+    }
+
+    const chunks = reply.chunks || response.text.match(/\S+\s*|\s+/g) || [];
+    for (let i = 0; i < chunks.length; i++) {
+      if (i > 0) await this.wait(tokenDelayMs, options?.signal);
+      yield { type: 'text-delta', text: chunks[i]! };
+    }
+
+    for (const [index, toolCall] of (response.toolCalls || []).entries()) {
+      yield {
+        type: 'tool-call-delta',
+        index,
+        toolCallId: toolCall.id,
+        toolName: toolCall.function!.name,
+        argumentsDelta: toolCall.function!.arguments
+      };
+      yield { type: 'tool-call', toolCall };
+    }
+
+    yield { type: 'usage', usage: response.usage! };
+    yield { type: 'finish', finishReason: response.finishReason!, response };
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    const capabilities = this.getCapabilities();
+    return [{
+      id: this.currentModel,
+      name: this.currentModel,
+      contextWindow: capabilities.maxContextWindow,
+      supportsJSON: capabilities.supportsJSON,
+      supportsImages: capabilities.supportsImages,
+      supportsFunctions: capabilities.supportsFunctions,
+      supportsStreaming: capabilities.supportsStreaming,
+      supportsThinking: capabilities.supportsThinking,
+      pricing: {
+        inputPerMillion: this.pricing.inputPerMillion,
+        outputPerMillion: this.pricing.outputPerMillion,
+        currency: 'USD',
+        lastUpdated: new Date(0).toISOString()
+      }
+    }];
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return {
+      supportsStreaming: true,
+      supportsJSON: true,
+      supportsImages: true,
+      supportsFunctions: true,
+      supportsThinking: true,
+      supportsImageGeneration: false,
+      maxContextWindow: 128000,
+      supportedFeatures: ['streaming', 'json_mode', 'function_calling', 'vision', 'thinking'],
+      ...this.capabilities
+    };
+  }
+
+  async getModelPricing(_modelId: string): Promise<CostDetails | null> {
+    return {
+      inputCost: 0,
+      outputCost: 0,
+      totalCost: 0,
+      currency: 'USD',
+      rateInputPerMillion: this.pricing.inputPerMillion,
+      rateOutputPerMillion: this.pricing.outputPerMillion
+    };
+  }
+
+  /**
+   * Record the request and take the reply for it, throwing scripted errors
+   */
+  private async nextReply(
+    prompt: PromptInput,
+    options: GenerateOptions | undefined,
+    stream: boolean
+  ): Promise<{ request: MockRequest; reply: MockResponse }> {
+    this.throwIfAborted(options?.signal);
+
+    const request: MockRequest = {
+      index: this.received.length,
+      prompt,
+      messages: this.normalizeMessages(prompt, options?.systemPrompt),
+      options: { ...options },
+      model: options?.model || this.currentModel,
+      stream
+    };
+    this.received.push(request);
+
+    const entry = this.script.length > 0 ? this.script.shift()! : this.responder;
+    if (!entry) {
+      throw new LLMProviderError(
+        `MockAdapter has no response for request #${request.index}; script one with enqueue() or set a responder`,
+        this.name,
+        'MOCK_EXHAUSTED'
+      );
+    }
+
+    const result = typeof entry === 'function' ? await entry(request) : entry;
+    const reply: MockResponse = typeof result === 'string'
+      ? { text: result }
+      : result instanceof Error ? { error: result } : result;
+
+    if (reply.error) {
+      await this.wait(reply.delayMs || 0, options?.signal);
+      throw reply.error;
+    }
+    return { request, reply };
+  }
+
+  private async toResponse(request: MockRequest, reply: MockResponse): Promise<LLMResponse> {
+    const text = reply.text ?? (reply.json !== undefined ? JSON.stringify(reply.json) : '');
+    const toolCalls: ToolCall[] = (reply.toolCalls || []).map(call => ({
+      id: call.id || `call_${++this.toolCallCount}`,
+      type: 'function',
+      function: {
+        name: call.name,
+        arguments: typeof call.arguments === 'string' ? call.arguments : JSON.stringify(call.arguments)
+      }
+    }));
+
+    const promptTokens = reply.usage?.promptTokens ??
+      TokenCounter.fallbackTokenCount(request.messages.map(message => JSON.stringify(message.content)).join('\n'));
+    const completionTokens = reply.usage?.completionTokens ?? TokenCounter.fallbackTokenCount(text);
+    const usage: TokenUsage = {
+      promptTokens,
+      completionTokens,
+      totalTokens: reply.usage?.totalTokens ?? promptTokens + completionTokens,
+      ...(reply.usage?.reasoningTokens !== undefined ? { reasoningTokens: reply.usage.reasoningTokens } : {})
+    };
+
+    const response = await this.buildLLMResponse(
+      text,
+      reply.model || request.model,
+      usage,
+      { ...reply.metadata, mockRequestIndex: request.index },
+      reply.finishReason || (toolCalls.length > 0 ? 'tool_calls' : 'stop'),
+      toolCalls
+    );
+    if (reply.reasoning) {
+      response.reasoning = { text: reply.reasoning };
+    }
+    return response;
+  }
+
+  private wait(ms: number, signal?: AbortSignal): Promise<void> {
+    this.throwIfAborted(signal);
+    if (ms <= 0) return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(this.createAbortError(signal!.reason));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
@@ -0,0 +1,594 @@
+/**
+ * Ollama Adapter
+ * Runs local models through Ollama's native /api/chat and /api/generate
+ * endpoints, with NDJSON streaming, JSON format, tool calls and model management
+ */
+
+import { BaseAdapter } from '../BaseAdapter';
+import {
+  GenerateOptions,
+  StreamOptions,
+  LLMResponse,
+  ModelInfo,
+  ProviderCapabilities,
+  CostDetails,
+  TokenUsage,
+  PromptInput,
+  Message,
+  ContentPart,
+  StreamEvent,
+  ToolCall,
+  LLMProviderError,
+  InvalidRequestError,
+  ProviderConfig
+} from '../types';
+import { parseNDJSON, ThinkTagSplitter, splitThinkTags } from '../StreamUtils';
+import { createHash } from 'crypto';
+
+export interface OllamaOptions extends GenerateOptions {
+  keepAlive?: string | number; // How long the model stays loaded after the request, e.g. '10m' or seconds (0 unloads)
+  suffix?: string; // Text after the completion, for fill-in-the-middle; sends the request to /api/generate
+  raw?: boolean; // Skip the model's prompt template; sends the request to /api/generate
+  numCtx?: number; // Context window to load the model with
+  modelOptions?: Record<string, any>; // Extra Modelfile parameters (seed, top_k, repeat_penalty, ...)
+}
+
+export interface OllamaStreamOptions extends StreamOptions, OllamaOptions {}
+
+export interface OllamaPullProgress {
+  status: string; // e.g. 'pulling manifest', 'pulling <digest>', 'verifying sha256 digest', 'success'
+  digest?: string;
+  total?: number; // Bytes in the layer being downloaded
+  completed?: number;
+  percent?: number; // completed / total, 0-100
+}
+
+export interface OllamaPullOptions {
+  onProgress?: (progress: OllamaPullProgress) => void;
+  insecure?: boolean; // Allow registries without TLS
+  signal?: AbortSignal;
+}
+
+export interface OllamaRunningModel {
+  name: string;
+  size: number; // Bytes in memory
+  sizeVram: number; // Bytes in GPU memory
+  expiresAt: string; // When keep-alive unloads it
+}
+
+// Used when the server does not report a model's context length
+const DEFAULT_CONTEXT_WINDOW = 128000;
+
+// Model families with a vision encoder
+const VISION_FAMILIES = ['clip', 'mllama'];
+
+export class OllamaAdapter extends BaseAdapter {
+  readonly name = 'ollama';
+  readonly baseUrl: string;
+
+  constructor(model?: string, config?: ProviderConfig) {
+    // No API key: a local server accepts any request. config.apiKey is sent as a
+    // bearer token for servers behind an authenticating proxy.
+    super('', model || 'llama3.2', config);
+    this.baseUrl = OllamaAdapter.normalizeHost(config?.baseUrl || process.env.OLLAMA_HOST || 'http://localhost:11434');
+    this.initializeCache();
+  }
+
+  /**
+   * OLLAMA_HOST may be a bare host:port
+   */
+  private static normalizeHost(host: string): string {
+    const url = /^https?:\/\//i.test(host) ? host : `http://${host}`;
+    return url.replace(/\/+$/, '');
+  }
+
+  async generateUncached(prompt: PromptInput, options?: OllamaOptions): Promise<LLMResponse> {
+    const model = options?.model || this.currentModel;
+    const { path, body } = this.buildRequest(prompt, { ...options, stream: false });
+
+    return this.withRetry(async apiKey => {
+      try {
+        const response = await this.post(path, body, options, apiKey);
+        const data = await response.json() as any;
+        return this.parseResponse(data, model);
+      } catch (error) {
+        this.handleError(error, 'generation');
+      }
+    }, { model, signal: options?.signal });
+  }
+
+  async generate(prompt: PromptInput, options?: OllamaOptions): Promise<LLMResponse> {
+    return super.generate(prompt, options);
+  }
+
+  async *stream(prompt: PromptInput, options?: OllamaOptions): AsyncGenerator<StreamEvent> {
+    yield* super.stream(prompt, options);
+  }
+
+  async generateStream(prompt: PromptInput, options?: OllamaStreamOptions): Promise<LLMResponse> {
+    return super.generateStream(prompt, options);
+  }
+
+  protected async *streamEvents(prompt: PromptInput, options?: OllamaOptions): AsyncGenerator<StreamEvent> {
+    const model = options?.model || this.currentModel;
+
+    try {
+      const { path, body } = this.buildRequest(prompt, { ...options, stream: true });
+      const response = await this.withRetry(async apiKey => {
+        const response = await this.post(path, body, options, apiKey);
+        if (!response.body) throw new Error('No response body');
+        return response;
+      }, { model, signal: options?.signal });
+
+      const content = new ThinkTagSplitter();
+      const toolCalls: ToolCall[] = [];
+      let thinking = '';
+      let final: any;
+
+      for await (const chunk of parseNDJSON(response.body as AsyncIterable<Uint8Array>)) {
+        if (chunk.error) {
+          throw new Error(chunk.error);
+        }
+
+        const message = chunk.message;
+        const reasoningDelta = message ? message.thinking : chunk.thinking;
+        if (reasoningDelta) {
+          thinking += reasoningDelta;
+          yield { type: 'reasoning-delta', text: reasoningDelta };
+        }
+
+        const textDelta = message ? message.content : chunk.response;
+        if (textDelta) {
+          yield* content.push(textDelta);
+        }
+
+        // Ollama sends each tool call whole, in a single chunk
+        for (const call of message?.tool_calls || []) {
+          const toolCall = this.toToolCall(call, toolCalls.length);
+          toolCalls.push(toolCall);
+          yield {
+            type: 'tool-call-delta',
+            index: toolCalls.length - 1,
+            toolCallId: toolCall.id,
+            toolName: toolCall.function!.name,
+            argumentsDelta: toolCall.function!.arguments
+          };
+          yield { type: 'tool-call', toolCall };
+        }
+
+        if (chunk.done) {
+          final = chunk;
+        }
+      }
+      yield* content.flush();
+
+      const usage = final ? this.extractUsage(final) : undefined;
+      if (usage) yield { type: 'usage', usage };
+
+      const result = await this.buildLLMResponse(
+        content.text,
+        final?.model || model,
+        usage,
+        { ...this.buildMetadata(final || {}), streamed: true },
+        toolCalls.length > 0 ? 'tool_calls' : this.normalizeFinishReason(final?.done_reason),
+        toolCalls
+      );
+      const reasoning = this.buildReasoningOutput({ text: (thinking || content.reasoning).trim() });
+      if (reasoning) result.reasoning = reasoning;
+
+      yield { type: 'finish', finishReason: result.finishReason || 'stop', response: result };
+    } catch (error) {
+      this.handleError(error, 'streaming generation');
+    }
+  }
+
+  /**
+   * Models installed on the server, from /api/tags
+   */
+  async listModels(): Promise<ModelInfo[]> {
+    try {
+      const response = await this.request('/api/tags', { method: 'GET' });
+      const data = await response.json() as any;
+
+      return (data.models || []).map((model: any): ModelInfo => {
+        const families: string[] = model.details?.families || [];
+        return {
+          id: model.name,
+          name: [model.name, model.details?.parameter_size, model.details?.quantization_level].filter(Boolean).join(' '),
+          contextWindow: DEFAULT_CONTEXT_WINDOW,
+          supportsJSON: true,
+          supportsImages: families.some(family => VISION_FAMILIES.includes(family)),
+          supportsFunctions: true,
+          supportsStreaming: true,
+          supportsThinking: false,
+          pricing: {
+            inputPerMillion: 0,
+            outputPerMillion: 0,
+            currency: 'USD',
+            lastUpdated: model.modified_at || new Date().toISOString()
+          }
+        };
+      });
+    } catch (error) {
+      this.handleError(error, 'listing models');
+    }
+  }
+
+  /**
+   * Whether a model is installed. Names without a tag match ':latest'.
+   */
+  async hasModel(model: string): Promise<boolean> {
+    const name = model.includes(':') ? model : `${model}:latest`;
+    const models = await this.listModels();
+    return models.some(installed => installed.id === model || installed.id === name);
+  }
+
+  /**
+   * Download a model from the registry, reporting progress as layers arrive.
+   * Resolves once the server reports success.
+   */
+  async pullModel(model: string, options: OllamaPullOptions = {}): Promise<void> {
+    try {
+      const response = await this.request('/api/pull', {
+        method: 'POST',
+        signal: options.signal ?? null,
+        body: JSON.stringify({ model, stream: true, ...(options.insecure ? { insecure: true } : {}) })
+      });
+      if (!response.body) throw new Error('No response body');
+
+      let succeeded = false;
+      for await (const chunk of parseNDJSON(response.body as AsyncIterable<Uint8Array>)) {
+        if (chunk.error) {
+          throw new LLMProviderError(`Pulling ${model} failed: ${chunk.error}`, this.name, 'PULL_FAILED');
+        }
+
+        const progress: OllamaPullProgress = { status: chunk.status };
+        if (chunk.digest) progress.digest = chunk.digest;
+        if (chunk.total) {
+          const completed = chunk.completed || 0;
+          progress.total = chunk.total;
+          progress.completed = completed;
+          progress.percent = Math.round((completed / chunk.total) * 1000) / 10;
+        }
+        options.onProgress?.(progress);
+
+        if (chunk.status === 'success') succeeded = true;
+      }
+
+      if (!succeeded) {
+        throw new LLMProviderError(`Pulling ${model} ended before it completed`, this.name, 'PULL_FAILED');
+      }
+    } catch (error) {
+      this.handleError(error, 'pulling model');
+    }
+  }
+
+  /**
+   * Load a model into memory ahead of the first request
+   */
+  async loadModel(model: string = this.currentModel, keepAlive?: string | number): Promise<void> {
+    await this.setKeepAlive(model, keepAlive, 'loading model');
+  }
+
+  /**
+   * Unload a model from memory now instead of when its keep-alive expires
+   */
+  async unloadModel(model: string = this.currentModel): Promise<void> {
+    await this.setKeepAlive(model, 0, 'unloading model');
+  }
+
+  /**
+   * Models currently loaded in memory, from /api/ps
+   */
+  async listRunningModels(): Promise<OllamaRunningModel[]> {
+    try {
+      const response = await this.request('/api/ps', { method: 'GET' });
+      const data = await response.json() as any;
+
+      return (data.models || []).map((model: any) => ({
+        name: model.name,
+        size: model.size || 0,
+        sizeVram: model.size_vram || 0,
+        expiresAt: model.expires_at
+      }));
+    } catch (error) {
+      this.handleError(error, 'listing running models');
+    }
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return {
+      supportsStreaming: true,
+      supportsJSON: true,
+      supportsImages: true, // Vision models such as llava and llama3.2-vision
+      supportsFunctions: true,
+      supportsThinking: true, // Models such as qwen3 and deepseek-r1
+      supportsImageGeneration: false,
+      maxContextWindow: DEFAULT_CONTEXT_WINDOW,
+      supportedFeatures: [
+        'chat',
+        'streaming',
+        'json_mode',
+        'structured_output',
+        'function_calling',
+        'vision',
+        'thinking',
+        'fill_in_the_middle',
+        'local_models',
+        'model_management'
+      ]
+    };
+  }
+
+  /**
+   * Local models cost nothing per token
+   */
+  async getModelPricing(_modelId: string): Promise<CostDetails | null> {
+    return {
+      inputCost: 0,
+      outputCost: 0,
+      totalCost: 0,
+      currency: 'USD',
+      rateInputPerMillion: 0,
+      rateOutputPerMillion: 0
+    };
+  }
+
+  /**
+   * The Ollama options are part of the key too, so a fill-in-the-middle, raw
+   * or differently configured request never gets another one's cached response
+   */
+  protected generateCacheKey(prompt: PromptInput, options?: OllamaOptions): string {
+    const ollamaOptions = {
+      suffix: options?.suffix,
+      raw: options?.raw,
+      numCtx: options?.numCtx,
+      modelOptions: options?.modelOptions,
+      keepAlive: options?.keepAlive
+    };
+    return createHash('sha256')
+      .update(JSON.stringify([super.generateCacheKey(prompt, options), ollamaOptions]))
+      .digest('hex');
+  }
+
+  protected buildHeaders(additionalHeaders?: Record<string, string>): Record<string, string> {
+    return super.buildHeaders({
+      ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+      ...additionalHeaders
+    });
+  }
+
+  protected supportsNativeStructuredOutput(_model: string): boolean {
+    return true; // format takes a JSON Schema
+  }
+
+  protected assertToolOptionsSupported(options?: GenerateOptions): void {
+    const choice = options?.toolChoice;
+    if (choice === 'required' || typeof choice === 'object') {
+      throw new InvalidRequestError(
+        'Ollama cannot force a tool call; use toolChoice "auto" or "none"',
+        this.name,
+        { code: 'UNSUPPORTED_TOOL_CHOICE' }
+      );
+    }
+    super.assertToolOptionsSupported(options);
+  }
+
+  protected extractUsage(response: any): TokenUsage | undefined {
+    if (response.prompt_eval_count === undefined && response.eval_count === undefined) {
+      return undefined;
+    }
+    const promptTokens = response.prompt_eval_count || 0;
+    const completionTokens = response.eval_count || 0;
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+
+  // Private methods
+
+  /**
+   * suffix and raw only exist on /api/generate, which takes a single prompt;
+   * everything else goes to /api/chat
+   */
+  private buildRequest(prompt: PromptInput, options: OllamaOptions): { path: string; body: Record<string, any> } {
+    const body: Record<string, any> = {
+      model: options.model || this.currentModel,
+      stream: options.stream ?? false
+    };
+
+    if (options.jsonSchema) {
+      body.format = options.jsonSchema.schema;
+    } else if (options.jsonMode) {
+      body.format = 'json';
+    }
+
+    const modelOptions: Record<string, any> = {
+      ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+      ...(options.topP !== undefined ? { top_p: options.topP } : {}),
+      ...(options.maxTokens !== undefined ? { num_predict: options.maxTokens } : {}),
+      ...(options.stopSequences ? { stop: options.stopSequences } : {}),
+      ...(options.frequencyPenalty !== undefined ? { frequency_penalty: options.frequencyPenalty } : {}),
+      ...(options.presencePenalty !== undefined ? { presence_penalty: options.presencePenalty } : {}),
+      ...(options.numCtx !== undefined ? { num_ctx: options.numCtx } : {}),
+      ...options.modelOptions
+    };
+    if (Object.keys(modelOptions).length > 0) body.options = modelOptions;
+
+    if (options.keepAlive !== undefined) body.keep_alive = options.keepAlive;
+
+    const reasoning = this.getReasoningOptions(options);
+    if (reasoning) body.think = reasoning.enabled;
+
+    if (options.suffix !== undefined || options.raw) {
+      if (typeof prompt !== 'string') {
+        throw new InvalidRequestError(
+          'suffix and raw take a single string prompt, not a conversation',
+          this.name,
+          { code: 'INVALID_MESSAGES' }
+        );
+      }
+      body.prompt = prompt;
+      if (options.systemPrompt) body.system = options.systemPrompt;
+      if (options.suffix !== undefined) body.suffix = options.suffix;
+      if (options.raw) body.raw = true;
+      return { path: '/api/generate', body };
+    }
+
+    body.messages = this.buildOllamaMessages(prompt, options.systemPrompt);
+    if (options.tools?.length && options.toolChoice !== 'none') {
+      body.tools = options.tools;
+    }
+    return { path: '/api/chat', body };
+  }
+
+  /**
+   * Ollama messages carry images as base64 strings beside the text, tool
+   * calls with object arguments, and tool results by tool name
+   */
+  private buildOllamaMessages(prompt: PromptInput, systemPrompt?: string): any[] {
+    const messages = this.normalizeMessages(prompt, systemPrompt);
+
+    return messages.map(message => {
+      if (message.role === 'tool') {
+        const toolName = message.name || this.findToolName(messages, message.toolCallId);
+        return {
+          role: 'tool',
+          content: this.getTextContent(message.content),
+          ...(toolName ? { tool_name: toolName } : {})
+        };
+      }
+
+      const result: Record<string, any> = {
+        role: message.role,
+        content: this.getTextContent(message.content)
+      };
+
+      if (Array.isArray(message.content)) {
+        const images = message.content
+          .filter(part => part.type !== 'text')
+          .map(part => this.toOllamaImage(part));
+        if (images.length > 0) result.images = images;
+      }
+
+      if (message.role === 'assistant' && message.toolCalls?.length) {
+        result.tool_calls = message.toolCalls.map(toolCall => ({
+          function: {
+            name: toolCall.function?.name,
+            arguments: this.parseToolArguments(toolCall.function?.arguments)
+          }
+        }));
+      }
+
+      if (message.role === 'assistant' && message.reasoning?.text) {
+        result.thinking = message.reasoning.text;
+      }
+
+      return result;
+    });
+  }
+
+  private toOllamaImage(part: ContentPart): string {
+    if (part.type === 'image') {
+      const media = this.resolveMedia(part.image, part.mimeType, 'image/png');
+      if (media.type === 'base64') return media.data;
+    }
+    throw new InvalidRequestError(
+      part.type === 'image'
+        ? 'Ollama needs images as bytes or base64, not URLs'
+        : 'Ollama does not support document input',
+      this.name,
+      { code: 'UNSUPPORTED_CONTENT' }
+    );
+  }
+
+  private findToolName(messages: Message[], toolCallId?: string): string | undefined {
+    for (const message of messages) {
+      const call = message.toolCalls?.find(toolCall => toolCall.id === toolCallId);
+      if (call) return call.function?.name;
+    }
+    return undefined;
+  }
+
+  /**
+   * Ollama returns arguments as an object and ids only on newer servers
+   */
+  private toToolCall(call: any, index: number): ToolCall {
+    const name = call.function?.name || '';
+    const args = call.function?.arguments;
+    return {
+      id: call.id || `call_${index}_${name}`,
+      type: 'function',
+      function: {
+        name,
+        arguments: typeof args === 'string' ? args : JSON.stringify(args ?? {})
+      }
+    };
+  }
+
+  private async parseResponse(data: any, model: string): Promise<LLMResponse> {
+    const message = data.message;
+    const split = splitThinkTags(message ? message.content || '' : data.response || '');
+    const thinking = message ? message.thinking : data.thinking;
+    const toolCalls = (message?.tool_calls || []).map((call: any, index: number) => this.toToolCall(call, index));
+
+    const response = await this.buildLLMResponse(
+      split.text,
+      data.model || model,
+      this.extractUsage(data),
+      this.buildMetadata(data),
+      toolCalls.length > 0 ? 'tool_calls' : this.normalizeFinishReason(data.done_reason),
+      toolCalls
+    );
+    const reasoning = this.buildReasoningOutput({ text: thinking || split.reasoning });
+    if (reasoning) response.reasoning = reasoning;
+
+    return response;
+  }
+
+  /**
+   * Durations arrive in nanoseconds
+   */
+  private buildMetadata(data: any): Record<string, any> {
+    const metadata: Record<string, any> = {};
+    if (data.created_at) metadata.createdAt = data.created_at;
+    if (data.done_reason) metadata.doneReason = data.done_reason;
+    if (data.total_duration) metadata.totalDurationMs = data.total_duration / 1e6;
+    if (data.load_duration) metadata.loadDurationMs = data.load_duration / 1e6;
+    if (data.eval_count && data.eval_duration) {
+      metadata.tokensPerSecond = Math.round((data.eval_count / (data.eval_duration / 1e9)) * 10) / 10;
+    }
+    return metadata;
+  }
+
+  private async setKeepAlive(model: string, keepAlive: string | number | undefined, operation: string): Promise<void> {
+    try {
+      const response = await this.request('/api/generate', {
+        method: 'POST',
+        body: JSON.stringify({ model, stream: false, ...(keepAlive !== undefined ? { keep_alive: keepAlive } : {}) })
+      });
+      await response.json();
+    } catch (error) {
+      this.handleError(error, operation);
+    }
+  }
+
+  private post(path: string, body: Record<string, any>, options: GenerateOptions | undefined, apiKey: string): Promise<Response> {
+    return this.request(path, {
+      method: 'POST',
+      signal: options?.signal ?? null,
+      headers: this.buildHeaders({ ...(apiKey ? this.buildAuthHeaders(apiKey) : {}), ...options?.headers }),
+      body: JSON.stringify(body)
+    });
+  }
+
+  private async request(path: string, init: RequestInit): Promise<Response> {
+    const response = await this.fetchWithTimeout(`${this.baseUrl}${path}`, {
+      headers: this.buildHeaders(),
+      ...init
+    });
+
+    if (!response.ok) {
+      throw await this.createResponseError(response);
+    }
+    return response;
+  }
+}
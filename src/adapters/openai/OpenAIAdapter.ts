@@ -8,109 +8,92 @@ import OpenAI from 'openai';
 import { BaseAdapter } from '../BaseAdapter';
 import { 
   GenerateOptions, 
-  StreamOptions, 
   LLMResponse, 
   ModelInfo, 
   ProviderCapabilities,
-  CostDetails 
+  CostDetails,
+  ContentPart,
+  PromptInput,
+  Tool,
+  ToolCall,
+  StreamEvent,
+  ProviderConfig
 } from '../types';
 import { ModelRegistry } from '../ModelRegistry';
 
 export class OpenAIAdapter extends BaseAdapter {
   readonly name = 'openai';
-  readonly baseUrl = 'https://api.openai.com/v1';
+  readonly baseUrl: string;
   
   private client: OpenAI;
 
-  constructor() {
-    super('OPENAI_API_KEY', 'gpt-4o');
+  constructor(model?: string, config?: ProviderConfig) {
+    super('OPENAI_API_KEY', model || 'gpt-4o', config);
+    this.baseUrl = config?.baseUrl || 'https://api.openai.com/v1';
     
     this.client = new OpenAI({
       apiKey: this.apiKey,
-      organization: process.env.OPENAI_ORG_ID,
-      project: process.env.OPENAI_PROJECT_ID
+      baseURL: this.baseUrl,
+      organization: config?.organizationId || process.env.OPENAI_ORG_ID,
+      project: config?.projectId || process.env.OPENAI_PROJECT_ID,
+      ...(config?.customHeaders ? { defaultHeaders: config.customHeaders } : {}),
+      ...(config?.timeout ? { timeout: config.timeout } : {}),
+      maxRetries: 0, // Retries and circuit breaking run through withRetry
+      fetch: this.httpFetch
     });
+
+    this.initializeCache();
   }
 
-  async generateUncached(prompt: string, options?: GenerateOptions): Promise<LLMResponse> {
+  async generateUncached(prompt: PromptInput, options?: GenerateOptions): Promise<LLMResponse> {
+    const retryOptions = { model: options?.model || this.currentModel, signal: options?.signal };
+
     try {
       // Try Responses API first, fallback to Chat Completions
       try {
-        const result = await this.generateWithResponsesAPI(prompt, options);
-        return result;
+        return await this.withRetry(apiKey => this.generateWithResponsesAPI(prompt, options, apiKey), retryOptions);
       } catch (responsesError) {
-        console.warn('Responses API failed, falling back to Chat Completions:', responsesError);
-        const result = await this.generateWithChatCompletions(prompt, options);
-        return result;
+        if (!this.canFallBackToChatCompletions(responsesError)) throw responsesError;
+        return await this.withRetry(apiKey => this.generateWithChatCompletions(prompt, options, apiKey), retryOptions);
       }
     } catch (error) {
       throw this.handleError(error, 'generation');
     }
   }
 
-  async generateStream(prompt: string, options?: StreamOptions): Promise<LLMResponse> {
+  protected async *streamEvents(prompt: PromptInput, options?: GenerateOptions): AsyncGenerator<StreamEvent> {
+    const model = options?.model || this.currentModel;
+    const retryOptions = { model, signal: options?.signal };
+
     try {
       // Try Responses API streaming first, fallback to Chat Completions
+      let stream: AsyncIterable<any>;
       try {
-        const result = await this.generateWithResponsesAPIStream(prompt, options);
-        return result;
+        stream = await this.withRetry(
+          apiKey => (this.client as any).responses.create({
+            ...this.buildResponsesParams(prompt, options),
+            stream: true
+          }, this.buildSdkRequestOptions(options, apiKey)),
+          retryOptions
+        );
       } catch (responsesError) {
-        console.warn('Responses API streaming failed, falling back to Chat Completions:', responsesError);
-        
-        const streamParams: any = {
-          model: options?.model || this.currentModel,
-          messages: this.buildMessages(prompt, options?.systemPrompt),
-          stream: true
-        };
-
-        if (options?.temperature !== undefined) streamParams.temperature = options.temperature;
-        if (options?.maxTokens !== undefined) streamParams.max_tokens = options.maxTokens;
-        if (options?.jsonMode) streamParams.response_format = { type: 'json_object' };
-        if (options?.stopSequences) streamParams.stop = options.stopSequences;
-        if (options?.tools) streamParams.tools = options.tools;
-
-        const stream = await this.client.chat.completions.create(streamParams);
-
-        let fullText = '';
-        let usage: any = undefined;
-        let finishReason: 'stop' | 'length' | 'tool_calls' | 'content_filter' = 'stop';
-
-        for await (const chunk of stream as any) {
-          const delta = chunk.choices[0]?.delta?.content || '';
-          if (delta) {
-            fullText += delta;
-            options?.onToken?.(delta);
-          }
-          
-          if (chunk.usage) {
-            usage = chunk.usage;
-          }
-
-          if (chunk.choices[0]?.finish_reason) {
-            const reason = chunk.choices[0].finish_reason;
-            if (reason === 'stop' || reason === 'length' || reason === 'tool_calls' || reason === 'content_filter') {
-              finishReason = reason;
-            }
-          }
-        }
-
-        const extractedUsage = this.extractUsage({ usage });
-        const response = await this.buildLLMResponse(
-          fullText,
-          this.currentModel,
-          extractedUsage,
-          undefined,
-          finishReason
+        if (!this.canFallBackToChatCompletions(responsesError)) throw responsesError;
+
+        const chunks = await this.withRetry(
+          apiKey => this.client.chat.completions.create({
+            ...this.buildChatCompletionParams(prompt, options),
+            stream: true,
+            stream_options: { include_usage: true }
+          }, this.buildSdkRequestOptions(options, apiKey)) as any,
+          retryOptions
         );
-
-        if (options?.onComplete) {
-          options.onComplete(response);
-        }
-        return response;
+        yield* this.streamChatCompletionChunks(chunks as AsyncIterable<any>, model);
+        return;
       }
+
+      yield* this.streamResponsesAPIEvents(stream, model);
     } catch (error) {
-      options?.onError?.(error as Error);
-      throw this.handleError(error, 'streaming generation');
+      this.handleError(error, 'streaming generation');
     }
   }
 
@@ -126,123 +109,249 @@ export class OpenAIAdapter extends BaseAdapter {
   }
 
   // Private methods
-  private async generateWithResponsesAPI(prompt: string, options?: GenerateOptions): Promise<LLMResponse> {
-    const responseParams: any = {
-      model: options?.model || this.currentModel,
-      input: this.buildInputForResponsesAPI(prompt, options?.systemPrompt),
-      // Include usage information in response
-      include: ['usage']
-    };
+  /**
+   * Whether a failed Responses API call means the endpoint itself is missing
+   * (a 404/405 or an unsupported-endpoint error), so Chat Completions is worth
+   * trying. Anything else is rethrown as it is.
+   */
+  private canFallBackToChatCompletions(error: any): boolean {
+    const status = error?.status ?? error?.response?.status;
+    if (status === 404 || status === 405) return true;
+    if (status !== 400) return false;
+    const message = String(error?.error?.message ?? error?.message ?? '');
+    return /invalid url|unrecognized request url|(endpoint|route).*not (supported|found)|unsupported (endpoint|route)/i.test(message);
+  }
 
-    // Add response-specific parameters
-    if (options?.temperature !== undefined) responseParams.temperature = options.temperature;
-    if (options?.maxTokens !== undefined) responseParams.max_output_tokens = options.maxTokens;
-    if (options?.stopSequences) responseParams.stop = options.stopSequences;
-    if (options?.tools) responseParams.tools = options.tools;
-    
-    // Response format for structured outputs
-    if (options?.jsonMode) {
-      responseParams.response_format = { type: 'json_object' };
-    }
+  private async generateWithResponsesAPI(prompt: PromptInput, options: GenerateOptions | undefined, apiKey: string): Promise<LLMResponse> {
+    const responseParams = this.buildResponsesParams(prompt, options);
 
     // Use the new Responses API endpoint
-    const response = await (this.client as any).responses.create(responseParams);
+    const { data: response, headers } = await this.withResponseHeaders<any>(
+      (this.client as any).responses.create(responseParams, this.buildSdkRequestOptions(options, apiKey))
+    );
 
     const extractedUsage = this.extractUsage(response);
     
-    // Extract text from output items in Responses API
+    // Extract text, reasoning summaries and function calls from output items in Responses API
     let responseText = '';
-    if (response.output && response.output.length > 0) {
-      for (const item of response.output) {
-        if (item.type === 'message' && item.content) {
-          for (const content of item.content) {
-            if (content.type === 'text') {
-              responseText += content.text;
-            }
+    const summaries: string[] = [];
+    const toolCalls: any[] = [];
+    for (const item of response.output || []) {
+      if (item.type === 'message' && item.content) {
+        for (const content of item.content) {
+          if (content.type === 'output_text') {
+            responseText += content.text;
           }
         }
+      } else if (item.type === 'reasoning') {
+        summaries.push(this.extractReasoningSummary(item));
+      } else if (item.type === 'function_call') {
+        toolCalls.push({
+          id: item.call_id,
+          type: 'function',
+          function: { name: item.name, arguments: item.arguments }
+        });
       }
     }
     
-    const finishReason = response.status === 'completed' ? 'stop' : 'length';
+    let finishReason: 'stop' | 'length' | 'tool_calls' = 'stop';
+    if (toolCalls.length > 0) {
+      finishReason = 'tool_calls';
+    } else if (response.status === 'incomplete') {
+      finishReason = 'length';
+    }
     
-    return await this.buildLLMResponse(
+    const llmResponse = await this.buildLLMResponse(
       responseText,
       response.model,
       extractedUsage,
       undefined,
-      finishReason
+      finishReason,
+      toolCalls
     );
+    const reasoning = this.buildReasoningOutput({
+      summary: summaries.filter(Boolean).join('\n\n'),
+      tokens: extractedUsage?.reasoningTokens
+    });
+    if (reasoning) llmResponse.reasoning = reasoning;
+
+    return this.attachRateLimit(llmResponse, headers);
   }
 
-  private async generateWithResponsesAPIStream(prompt: string, options?: StreamOptions): Promise<LLMResponse> {
-    const streamParams: any = {
-      model: options?.model || this.currentModel,
-      input: this.buildInputForResponsesAPI(prompt, options?.systemPrompt),
-      stream: true
+  private buildResponsesParams(prompt: PromptInput, options?: GenerateOptions): any {
+    const model = options?.model || this.currentModel;
+    const responseParams: any = {
+      model,
+      ...this.buildInputForResponsesAPI(prompt, options?.systemPrompt)
     };
 
-    if (options?.temperature !== undefined) streamParams.temperature = options.temperature;
-    if (options?.maxTokens !== undefined) streamParams.max_output_tokens = options.maxTokens;
-    if (options?.jsonMode) streamParams.response_format = { type: 'json_object' };
-    if (options?.stopSequences) streamParams.stop = options.stopSequences;
-    if (options?.tools) streamParams.tools = options.tools;
+    // Add response-specific parameters (reasoning models reject temperature)
+    if (options?.temperature !== undefined && !this.isReasoningModel(model)) responseParams.temperature = options.temperature;
+    if (options?.maxTokens !== undefined) responseParams.max_output_tokens = options.maxTokens;
+    if (options?.tools) responseParams.tools = this.convertToolsForResponsesAPI(options.tools);
+    if (options?.toolChoice) {
+      responseParams.tool_choice = typeof options.toolChoice === 'string'
+        ? options.toolChoice
+        : { type: 'function', name: options.toolChoice.name };
+    }
+    if (options?.parallelToolCalls !== undefined) responseParams.parallel_tool_calls = options.parallelToolCalls;
 
-    // Use the new Responses API with streaming
-    const stream = await (this.client as any).responses.create(streamParams);
+    const reasoning = this.getReasoningOptions(options);
+    if (reasoning?.enabled && this.isReasoningModel(model)) {
+      responseParams.reasoning = { effort: this.getReasoningEffort(reasoning), summary: 'auto' };
+    }
+    
+    // Response format for structured outputs
+    if (options?.jsonSchema) {
+      responseParams.text = {
+        format: {
+          type: 'json_schema',
+          name: options.jsonSchema.name || 'response',
+          ...(options.jsonSchema.description ? { description: options.jsonSchema.description } : {}),
+          schema: options.jsonSchema.schema,
+          strict: options.jsonSchema.strict ?? false
+        }
+      };
+    } else if (options?.jsonMode) {
+      responseParams.text = { format: { type: 'json_object' } };
+    }
 
-    let fullText = '';
-    let usage: any = undefined;
-    let finishReason: 'stop' | 'length' | 'tool_calls' | 'content_filter' = 'stop';
-
-    for await (const chunk of stream as any) {
-      const delta = chunk.choices[0]?.delta?.content || '';
-      if (delta) {
-        fullText += delta;
-        options?.onToken?.(delta);
-      }
-      
-      if (chunk.usage) {
-        usage = chunk.usage;
-      }
+    return responseParams;
+  }
 
-      if (chunk.choices[0]?.finish_reason) {
-        const reason = chunk.choices[0].finish_reason;
-        if (reason === 'stop' || reason === 'length' || reason === 'tool_calls' || reason === 'content_filter') {
-          finishReason = reason;
+  /**
+   * Translate Responses API stream events into stream events
+   */
+  private async *streamResponsesAPIEvents(stream: AsyncIterable<any>, model: string): AsyncGenerator<StreamEvent> {
+    let fullText = '';
+    let finalResponse: any;
+    const summaries: string[] = [];
+    const pendingCalls = new Map<number, { id: string; name: string; index: number }>();
+    const toolCalls: ToolCall[] = [];
+
+    for await (const event of stream) {
+      switch (event.type) {
+        case 'response.output_text.delta':
+          fullText += event.delta;
+          yield { type: 'text-delta', text: event.delta };
+          break;
+
+        case 'response.reasoning_summary_text.delta':
+          yield { type: 'reasoning-delta', text: event.delta };
+          break;
+
+        case 'response.output_item.added':
+          if (event.item?.type === 'function_call') {
+            pendingCalls.set(event.output_index, {
+              id: event.item.call_id,
+              name: event.item.name,
+              index: pendingCalls.size
+            });
+          }
+          break;
+
+        case 'response.function_call_arguments.delta': {
+          const call = pendingCalls.get(event.output_index);
+          if (call) {
+            yield {
+              type: 'tool-call-delta',
+              index: call.index,
+              toolCallId: call.id,
+              toolName: call.name,
+              argumentsDelta: event.delta
+            };
+          }
+          break;
         }
+
+        case 'response.output_item.done':
+          if (event.item?.type === 'reasoning') {
+            summaries.push(this.extractReasoningSummary(event.item));
+          } else if (event.item?.type === 'function_call') {
+            const toolCall: ToolCall = {
+              id: event.item.call_id,
+              type: 'function',
+              function: { name: event.item.name, arguments: event.item.arguments }
+            };
+            toolCalls.push(toolCall);
+            yield { type: 'tool-call', toolCall };
+          }
+          break;
+
+        case 'response.completed':
+        case 'response.incomplete':
+          finalResponse = event.response;
+          break;
+
+        case 'response.failed':
+          throw new Error(event.response?.error?.message || 'Response failed');
+
+        case 'error':
+          throw new Error(event.message || 'Stream error');
       }
     }
 
-    const extractedUsage = this.extractUsage({ usage });
+    const usage = finalResponse ? this.extractUsage(finalResponse) : undefined;
+    if (usage) {
+      yield { type: 'usage', usage };
+    }
+
+    let finishReason: 'stop' | 'length' | 'tool_calls' = 'stop';
+    if (toolCalls.length > 0) {
+      finishReason = 'tool_calls';
+    } else if (finalResponse?.status === 'incomplete') {
+      finishReason = 'length';
+    }
+
     const response = await this.buildLLMResponse(
       fullText,
-      this.currentModel,
-      extractedUsage,
-      undefined,
-      finishReason
+      finalResponse?.model || model,
+      usage,
+      { streamed: true },
+      finishReason,
+      toolCalls
     );
+    const reasoning = this.buildReasoningOutput({
+      summary: summaries.filter(Boolean).join('\n\n'),
+      tokens: usage?.reasoningTokens
+    });
+    if (reasoning) response.reasoning = reasoning;
 
-    if (options?.onComplete) {
-      options.onComplete(response);
-    }
-    return response;
+    yield { type: 'finish', finishReason, response };
   }
 
-  // Fallback to Chat Completions API if Responses API is not available
-  private async generateWithChatCompletions(prompt: string, options?: GenerateOptions): Promise<LLMResponse> {
+  private buildChatCompletionParams(prompt: PromptInput, options?: GenerateOptions): any {
+    const model = options?.model || this.currentModel;
     const completionParams: any = {
-      model: options?.model || this.currentModel,
+      model,
       messages: this.buildMessages(prompt, options?.systemPrompt)
     };
 
-    if (options?.temperature !== undefined) completionParams.temperature = options.temperature;
-    if (options?.maxTokens !== undefined) completionParams.max_tokens = options.maxTokens;
-    if (options?.jsonMode) completionParams.response_format = { type: 'json_object' };
+    // Reasoning models take max_completion_tokens and reject temperature
+    const reasoningModel = this.isReasoningModel(model);
+    if (options?.temperature !== undefined && !reasoningModel) completionParams.temperature = options.temperature;
+    if (options?.maxTokens !== undefined) {
+      completionParams[reasoningModel ? 'max_completion_tokens' : 'max_tokens'] = options.maxTokens;
+    }
+    const reasoning = this.getReasoningOptions(options);
+    if (reasoning?.enabled && reasoningModel) completionParams.reasoning_effort = this.getReasoningEffort(reasoning);
+    const responseFormat = this.buildResponseFormat(options);
+    if (responseFormat) completionParams.response_format = responseFormat;
     if (options?.stopSequences) completionParams.stop = options.stopSequences;
     if (options?.tools) completionParams.tools = options.tools;
+    if (options?.toolChoice) completionParams.tool_choice = this.buildToolChoice(options.toolChoice);
+    if (options?.parallelToolCalls !== undefined) completionParams.parallel_tool_calls = options.parallelToolCalls;
+
+    return completionParams;
+  }
 
-    const response = await this.client.chat.completions.create(completionParams);
+  // Fallback to Chat Completions API if Responses API is not available
+  private async generateWithChatCompletions(prompt: PromptInput, options: GenerateOptions | undefined, apiKey: string): Promise<LLMResponse> {
+    const completionParams = this.buildChatCompletionParams(prompt, options);
+
+    const { data: response, headers } = await this.withResponseHeaders(
+      this.client.chat.completions.create(completionParams, this.buildSdkRequestOptions(options, apiKey))
+    );
 
     const extractedUsage = this.extractUsage(response);
     const choice = response.choices?.[0];
@@ -256,7 +365,7 @@ export class OpenAIAdapter extends BaseAdapter {
         ? finishReason 
         : 'stop';
     
-    return await this.buildLLMResponse(
+    const llmResponse = await this.buildLLMResponse(
       choice.message?.content || '',
       response.model,
       extractedUsage,
@@ -264,9 +373,33 @@ export class OpenAIAdapter extends BaseAdapter {
       mappedFinishReason,
       choice.message?.tool_calls
     );
+    // Chat Completions keeps the reasoning hidden; only its token count is reported
+    const reasoning = this.buildReasoningOutput({ tokens: extractedUsage?.reasoningTokens });
+    if (reasoning) llmResponse.reasoning = reasoning;
+
+    return this.attachRateLimit(llmResponse, headers);
+  }
+
+
+
+  /**
+   * o-series and GPT-5 models reason before answering and take reasoning effort
+   */
+  private isReasoningModel(model: string): boolean {
+    return /^(o\d|gpt-5)/.test(model);
   }
 
+  private extractReasoningSummary(item: any): string {
+    return (item.summary || [])
+      .filter((part: any) => part.type === 'summary_text')
+      .map((part: any) => part.text)
+      .join('\n\n');
+  }
 
+  protected supportsNativeStructuredOutput(model: string): boolean {
+    // json_schema arrived with gpt-4o; older chat models only have JSON mode
+    return !/^gpt-(3\.5|4)(-|$)/.test(model);
+  }
 
   async getModelPricing(modelId: string): Promise<CostDetails | null> {
     // Use centralized model registry for pricing
@@ -298,6 +431,7 @@ export class OpenAIAdapter extends BaseAdapter {
         'chat',
         'streaming',
         'json_mode',
+        'structured_output',
         'function_calling',
         'vision',
         'reasoning',
@@ -306,24 +440,83 @@ export class OpenAIAdapter extends BaseAdapter {
     };
   }
 
-  private buildInputForResponsesAPI(prompt: string, systemPrompt?: string): any {
-    const contents = [];
-    
-    // Add system instruction if provided
-    if (systemPrompt) {
-      contents.push({
-        type: 'input_text',
-        text: systemPrompt
-      });
+  /**
+   * Build Responses API input items from the conversation.
+   * System messages become instructions; tool calls and their results are
+   * sent as function_call / function_call_output items.
+   */
+  private buildInputForResponsesAPI(prompt: PromptInput, systemPrompt?: string): { instructions?: string; input: any[] } {
+    const { system, messages } = this.splitSystemMessages(this.normalizeMessages(prompt, systemPrompt));
+    const input: any[] = [];
+
+    for (const message of messages) {
+      if (message.role === 'tool') {
+        input.push({
+          type: 'function_call_output',
+          call_id: message.toolCallId,
+          output: this.getTextContent(message.content)
+        });
+        continue;
+      }
+
+      if (message.role === 'user' && typeof message.content !== 'string') {
+        input.push({
+          role: 'user',
+          content: message.content.map(part => this.toResponsesContentPart(part))
+        });
+      } else if (message.content.length > 0) {
+        input.push({ role: message.role, content: this.getTextContent(message.content) });
+      }
+
+      if (message.role === 'assistant' && message.toolCalls) {
+        for (const toolCall of message.toolCalls) {
+          input.push({
+            type: 'function_call',
+            call_id: toolCall.id,
+            name: toolCall.function?.name,
+            arguments: toolCall.function?.arguments || '{}'
+          });
+        }
+      }
     }
-    
-    // Add user prompt
-    contents.push({
-      type: 'input_text', 
-      text: prompt
+
+    return system ? { instructions: system, input } : { input };
+  }
+
+  /**
+   * Responses API takes function tools flattened: { type, name, description, parameters }
+   */
+  private convertToolsForResponsesAPI(tools: Tool[]): any[] {
+    return tools.map(tool => {
+      if (tool.type === 'function' && tool.function) {
+        return {
+          type: 'function',
+          name: tool.function.name,
+          description: tool.function.description,
+          parameters: tool.function.parameters
+        };
+      }
+      if (tool.type === 'web_search') {
+        return { type: 'web_search_preview' };
+      }
+      return { type: tool.type };
     });
-    
-    return contents;
+  }
+
+  private toResponsesContentPart(part: ContentPart): any {
+    if (part.type === 'text') {
+      return { type: 'input_text', text: part.text };
+    }
+
+    if (part.type === 'image') {
+      const media = this.resolveMedia(part.image, part.mimeType, 'image/png');
+      return { type: 'input_image', image_url: this.toMediaUrl(media) };
+    }
+
+    const media = this.resolveMedia(part.data, part.mimeType, 'application/pdf');
+    return media.type === 'url'
+      ? { type: 'input_file', file_url: media.url }
+      : { type: 'input_file', filename: part.name || 'document.pdf', file_data: this.toMediaUrl(media) };
   }
 
 }
\ No newline at end of file
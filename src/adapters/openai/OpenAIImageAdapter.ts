@@ -14,24 +14,30 @@ import {
   ProviderCapabilities,
   ModelInfo,
   CostDetails,
-  LLMProviderError
+  LLMProviderError,
+  StreamEvent
 } from '../types';
 
 export class OpenAIImageAdapter extends BaseAdapter {
   readonly name = 'openai-image';
-  readonly baseUrl = 'https://api.openai.com/v1';
+  readonly baseUrl: string;
   
   private client: OpenAI;
   private readonly imageModel = 'gpt-image-1';
 
   constructor(config?: ProviderConfig) {
-    super('OPENAI_API_KEY', 'gpt-image-1');
+    super('OPENAI_API_KEY', 'gpt-image-1', config);
+    this.baseUrl = config?.baseUrl || 'https://api.openai.com/v1';
     
     this.client = new OpenAI({
-      apiKey: config?.apiKey || this.apiKey,
-      organization: process.env.OPENAI_ORG_ID,
-      project: process.env.OPENAI_PROJECT_ID,
-      baseURL: config?.baseUrl || this.baseUrl
+      apiKey: this.apiKey,
+      organization: config?.organizationId || process.env.OPENAI_ORG_ID,
+      project: config?.projectId || process.env.OPENAI_PROJECT_ID,
+      baseURL: this.baseUrl,
+      ...(config?.customHeaders ? { defaultHeaders: config.customHeaders } : {}),
+      ...(config?.timeout ? { timeout: config.timeout } : {}),
+      maxRetries: 0, // Retries and circuit breaking run through withRetry
+      fetch: this.httpFetch
     });
   }
 
@@ -42,7 +48,7 @@ export class OpenAIImageAdapter extends BaseAdapter {
     try {
       this.validateImageOptions(options);
       
-      const response = await this.withRetry(async () => {
+      const response = await this.withRetry(async apiKey => {
         // Use the Responses API for gpt-image-1
         const params: any = {
           prompt: options.prompt,
@@ -67,8 +73,8 @@ export class OpenAIImageAdapter extends BaseAdapter {
           params.moderation = options.moderation;
         }
 
-        return await this.client.images.generate(params);
-      }, options.maxRetries || 3);
+        return await this.client.images.generate(params, { signal: options.signal, headers: this.buildAuthHeaders(apiKey) });
+      }, { maxRetries: options.maxRetries || 3, signal: options.signal });
 
       return this.buildImageResponse(response, options);
     } catch (error) {
@@ -292,6 +298,7 @@ export class OpenAIImageAdapter extends BaseAdapter {
 
   private mapErrorType(code?: string): ImageGenerationError['type'] {
     const errorTypeMap: Record<string, ImageGenerationError['type']> = {
+      'ABORTED': 'aborted',
       'AUTHENTICATION_ERROR': 'authentication',
       'RATE_LIMIT_ERROR': 'rate_limit',
       'CONTENT_FILTER_ERROR': 'content_filter',
@@ -310,7 +317,7 @@ export class OpenAIImageAdapter extends BaseAdapter {
     throw new Error('Use generateImage() for image generation');
   }
 
-  async generateStream(): Promise<any> {
+  protected async *streamEvents(): AsyncGenerator<StreamEvent> {
     throw new Error('Streaming not supported for image generation');
   }
 
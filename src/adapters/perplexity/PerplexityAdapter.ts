@@ -4,7 +4,8 @@
  * Based on 2025 Perplexity API specifications
  */
 
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosError, AxiosInstance, AxiosRequestConfig, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { Readable } from 'stream';
 import { BaseAdapter } from '../BaseAdapter';
 import { 
   GenerateOptions, 
@@ -13,8 +14,14 @@ import {
   ModelInfo, 
   ProviderCapabilities,
   CostDetails,
-  TokenUsage
+  TokenUsage,
+  PromptInput,
+  StreamEvent,
+  LLMProviderError,
+  InvalidRequestError,
+  ProviderConfig
 } from '../types';
+import { parseSSEJson, ThinkTagSplitter, splitThinkTags } from '../StreamUtils';
 import { PERPLEXITY_MODELS, PERPLEXITY_DEFAULT_MODEL } from './PerplexityModels';
 
 export interface PerplexityOptions extends GenerateOptions {
@@ -47,52 +54,114 @@ export interface PerplexityResponse extends LLMResponse {
 
 export class PerplexityAdapter extends BaseAdapter {
   readonly name = 'perplexity';
-  readonly baseUrl = 'https://api.perplexity.ai';
+  readonly baseUrl: string;
   
   private client: AxiosInstance;
 
-  constructor(model?: string) {
-    super('PERPLEXITY_API_KEY', model || PERPLEXITY_DEFAULT_MODEL);
+  constructor(model?: string, config?: ProviderConfig) {
+    super('PERPLEXITY_API_KEY', model || PERPLEXITY_DEFAULT_MODEL, config);
+    this.baseUrl = config?.baseUrl || 'https://api.perplexity.ai';
     
     this.client = axios.create({
       baseURL: this.baseUrl,
       headers: this.buildHeaders({
         'Authorization': `Bearer ${this.apiKey}`
       }),
-      timeout: 120000 // 2 minutes for search operations
+      timeout: config?.timeout || 120000, // 2 minutes for search operations
+      adapter: requestConfig => this.sendThroughTransport(requestConfig)
     });
 
     this.initializeCache();
   }
 
-  async generateUncached(prompt: string, options?: PerplexityOptions): Promise<PerplexityResponse> {
+  async generateUncached(prompt: PromptInput, options?: PerplexityOptions): Promise<PerplexityResponse> {
     try {
       const requestData = this.buildRequestData(prompt, options);
       
-      const response = await this.withRetry(async () => {
-        return await this.client.post('/chat/completions', requestData);
-      });
+      const response = await this.withRetry(async apiKey => {
+        return await this.client.post('/chat/completions', requestData, this.buildRequestConfig(options, apiKey));
+      }, { model: options?.model, signal: options?.signal });
 
-      return this.parseResponse(response.data, options?.model || this.currentModel);
+      return this.attachRateLimit(this.parseResponse(response.data, options?.model || this.currentModel), response.headers);
     } catch (error) {
       throw this.handleError(error, 'generation');
     }
   }
 
-  async generateStream(prompt: string, options?: PerplexityStreamOptions): Promise<PerplexityResponse> {
+  async generateStream(prompt: PromptInput, options?: PerplexityStreamOptions): Promise<PerplexityResponse> {
+    return super.generateStream(prompt, options) as Promise<PerplexityResponse>;
+  }
+
+  protected async *streamEvents(prompt: PromptInput, options?: PerplexityOptions): AsyncGenerator<StreamEvent> {
     try {
       const requestData = this.buildRequestData(prompt, { ...options, stream: true });
       
-      const response = await this.withRetry(async () => {
+      const response = await this.withRetry(async apiKey => {
         return await this.client.post('/chat/completions', requestData, {
+          ...this.buildRequestConfig(options, apiKey),
           responseType: 'stream'
         });
-      });
+      }, { model: options?.model, signal: options?.signal });
+
+      const content = new ThinkTagSplitter();
+      let citations: PerplexityCitation[] = [];
+      let relatedQuestions: string[] = [];
+      let usage: TokenUsage | undefined;
+      let finishReason: 'stop' | 'length' | 'tool_calls' | 'content_filter' = 'stop';
+      let responseId = '';
+      let created = 0;
+
+      for await (const parsed of parseSSEJson(response.data)) {
+        // Extract response metadata
+        if (parsed.id) responseId = parsed.id;
+        if (parsed.created) created = parsed.created;
+        if (parsed.related_questions) relatedQuestions = parsed.related_questions;
+        if (parsed.usage) {
+          usage = this.extractUsage(parsed);
+          if (usage) yield { type: 'usage', usage };
+        }
+
+        const choice = parsed.choices?.[0];
+        if (choice) {
+          // sonar-reasoning models stream their reasoning inside <think> tags first
+          const delta = choice.delta?.content || '';
+          if (delta) {
+            yield* content.push(delta);
+          }
+
+          if (choice.message?.citations) {
+            citations = choice.message.citations;
+          }
+
+          if (choice.finish_reason) {
+            finishReason = this.mapFinishReason(choice.finish_reason);
+          }
+        }
+      }
+      yield* content.flush();
+
+      const finalResponse: PerplexityResponse = {
+        text: content.text,
+        model: options?.model || this.currentModel,
+        provider: this.name,
+        usage: usage || { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+        citations,
+        relatedQuestions,
+        finishReason,
+        metadata: {
+          id: responseId,
+          created,
+          citationCount: citations.length,
+          relatedQuestionCount: relatedQuestions.length,
+          streamed: true
+        }
+      };
+      const reasoning = this.buildReasoningOutput({ text: content.reasoning.trim() });
+      if (reasoning) finalResponse.reasoning = reasoning;
 
-      return await this.handleStreamResponse(response, options);
+      yield { type: 'finish', finishReason, response: finalResponse };
     } catch (error) {
-      options?.onError?.(error as Error);
-      throw this.handleError(error, 'streaming generation');
+      this.handleError(error, 'streaming generation');
     }
   }
 
@@ -153,8 +222,23 @@ export class PerplexityAdapter extends BaseAdapter {
     return null;
   }
 
+  protected supportsNativeStructuredOutput(_model: string): boolean {
+    return true;
+  }
+
+  protected assertToolOptionsSupported(options?: GenerateOptions): void {
+    const choice = options?.toolChoice;
+    if (choice === 'required' || typeof choice === 'object') {
+      throw new InvalidRequestError(
+        'Perplexity does not support tool calling',
+        this.name,
+        { code: 'UNSUPPORTED_TOOL_CHOICE' }
+      );
+    }
+  }
+
   // Private methods
-  private buildRequestData(prompt: string, options?: PerplexityOptions): any {
+  private buildRequestData(prompt: PromptInput, options?: PerplexityOptions): any {
     const model = options?.model || this.currentModel;
     const messages = this.buildMessages(prompt, options?.systemPrompt);
 
@@ -170,11 +254,19 @@ export class PerplexityAdapter extends BaseAdapter {
     if (options?.topP !== undefined) requestData.top_p = options.topP;
     if (options?.stopSequences) requestData.stop = options.stopSequences;
 
-    // JSON mode
-    if (options?.jsonMode) {
+    // JSON mode / structured output (Perplexity takes the schema without a name)
+    if (options?.jsonSchema) {
+      requestData.response_format = { type: 'json_schema', json_schema: { schema: options.jsonSchema.schema } };
+    } else if (options?.jsonMode) {
       requestData.response_format = { type: 'json_object' };
     }
 
+    // sonar-reasoning models always reason; only deep research takes an effort level
+    const reasoning = this.getReasoningOptions(options);
+    if (reasoning?.enabled && model === 'sonar-deep-research') {
+      requestData.reasoning_effort = this.getReasoningEffort(reasoning);
+    }
+
     // Perplexity-specific search parameters
     if (options?.searchDomainFilter) {
       requestData.search_domain_filter = options.searchDomainFilter;
@@ -195,13 +287,83 @@ export class PerplexityAdapter extends BaseAdapter {
     return requestData;
   }
 
+  private buildRequestConfig(options: PerplexityOptions | undefined, apiKey: string): AxiosRequestConfig {
+    const config: AxiosRequestConfig = {
+      headers: { ...this.buildAuthHeaders(apiKey), ...options?.headers }
+    };
+    if (options?.signal) {
+      config.signal = options.signal;
+    }
+    return config;
+  }
+
+  /**
+   * axios adapter that sends requests through the HTTP transport. The timeout
+   * covers the wait for the response headers, as in fetchWithTimeout.
+   */
+  private async sendThroughTransport(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+    const controller = new AbortController();
+    const signal = config.signal as AbortSignal | undefined;
+    if (signal?.aborted) {
+      controller.abort(signal.reason);
+    } else {
+      signal?.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+    }
+
+    let timedOut = false;
+    const timer = config.timeout
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, config.timeout)
+      : undefined;
+
+    try {
+      const response = await this.httpFetch(axios.getUri(config), {
+        method: (config.method || 'get').toUpperCase(),
+        headers: config.headers.toJSON() as Record<string, string>,
+        ...(config.data !== undefined ? { body: config.data } : {}),
+        signal: controller.signal
+      });
+
+      const result: AxiosResponse = {
+        data: config.responseType === 'stream' && response.body
+          ? Readable.fromWeb(response.body as any)
+          : await response.text(),
+        status: response.status,
+        statusText: response.statusText,
+        headers: Object.fromEntries(response.headers),
+        config,
+        request: null
+      };
+
+      if (config.validateStatus && !config.validateStatus(response.status)) {
+        throw new AxiosError(
+          `Request failed with status code ${response.status}`,
+          response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+          config,
+          null,
+          result
+        );
+      }
+      return result;
+    } catch (error) {
+      if (timedOut) {
+        throw new AxiosError(`timeout of ${config.timeout}ms exceeded`, AxiosError.ECONNABORTED, config);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
   private parseResponse(responseData: any, model: string): PerplexityResponse {
     const choice = responseData.choices?.[0];
     if (!choice) {
       throw new Error('No response choice received from Perplexity');
     }
 
-    const content = choice.message?.content || '';
+    const { text, reasoning } = splitThinkTags(choice.message?.content || '');
     const citations = choice.message?.citations || [];
     const relatedQuestions = responseData.related_questions || [];
     
@@ -209,7 +371,7 @@ export class PerplexityAdapter extends BaseAdapter {
     const finishReason = this.mapFinishReason(choice.finish_reason);
 
     const response: PerplexityResponse = {
-      text: content,
+      text,
       model: responseData.model || model,
       provider: this.name,
       usage: usage || { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
@@ -223,114 +385,12 @@ export class PerplexityAdapter extends BaseAdapter {
         relatedQuestionCount: relatedQuestions.length
       }
     };
+    const reasoningOutput = this.buildReasoningOutput({ text: reasoning });
+    if (reasoningOutput) response.reasoning = reasoningOutput;
 
     return response;
   }
 
-  private async handleStreamResponse(
-    response: any, 
-    options?: PerplexityStreamOptions
-  ): Promise<PerplexityResponse> {
-    let fullText = '';
-    let citations: PerplexityCitation[] = [];
-    let relatedQuestions: string[] = [];
-    let usage: TokenUsage | undefined;
-    let finishReason: 'stop' | 'length' | 'tool_calls' | 'content_filter' = 'stop';
-    let responseId = '';
-    let created = 0;
-
-    return new Promise((resolve, reject) => {
-      response.data.on('data', (chunk: Buffer) => {
-        const lines = chunk.toString().split('\n');
-        
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') {
-              const finalResponse: PerplexityResponse = {
-                text: fullText,
-                model: options?.model || this.currentModel,
-                provider: this.name,
-                usage: usage || { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
-                citations,
-                relatedQuestions,
-                finishReason,
-                metadata: {
-                  id: responseId,
-                  created,
-                  citationCount: citations.length,
-                  relatedQuestionCount: relatedQuestions.length,
-                  streamed: true
-                }
-              };
-              
-              options?.onComplete?.(finalResponse);
-              resolve(finalResponse);
-              return;
-            }
-
-            try {
-              const parsed = JSON.parse(data);
-              
-              // Extract response metadata
-              if (parsed.id) responseId = parsed.id;
-              if (parsed.created) created = parsed.created;
-              if (parsed.usage) usage = this.extractUsage(parsed);
-              if (parsed.related_questions) relatedQuestions = parsed.related_questions;
-
-              const choice = parsed.choices?.[0];
-              if (choice) {
-                const delta = choice.delta?.content || '';
-                if (delta) {
-                  fullText += delta;
-                  options?.onToken?.(delta);
-                }
-
-                if (choice.message?.citations) {
-                  citations = choice.message.citations;
-                }
-
-                if (choice.finish_reason) {
-                  finishReason = this.mapFinishReason(choice.finish_reason);
-                }
-              }
-            } catch (parseError) {
-              // Ignore parse errors for partial chunks
-            }
-          }
-        }
-      });
-
-      response.data.on('error', (error: Error) => {
-        options?.onError?.(error);
-        reject(error);
-      });
-
-      response.data.on('end', () => {
-        // Fallback if [DONE] wasn't received
-        const finalResponse: PerplexityResponse = {
-          text: fullText,
-          model: options?.model || this.currentModel,
-          provider: this.name,
-          usage: usage || { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
-          citations,
-          relatedQuestions,
-          finishReason,
-          metadata: {
-            id: responseId,
-            created,
-            citationCount: citations.length,
-            relatedQuestionCount: relatedQuestions.length,
-            streamed: true
-          }
-        };
-        
-        options?.onComplete?.(finalResponse);
-        resolve(finalResponse);
-      });
-    });
-  }
-
   private mapFinishReason(reason: string): 'stop' | 'length' | 'tool_calls' | 'content_filter' {
     switch (reason) {
       case 'stop':
@@ -359,7 +419,7 @@ export class PerplexityAdapter extends BaseAdapter {
 
   // Utility methods for search features
   async searchWithDomainFilter(
-    prompt: string, 
+    prompt: PromptInput, 
     domains: string[], 
     options?: PerplexityOptions
   ): Promise<PerplexityResponse> {
@@ -370,7 +430,7 @@ export class PerplexityAdapter extends BaseAdapter {
   }
 
   async searchRecent(
-    prompt: string, 
+    prompt: PromptInput, 
     recency: 'month' | 'week' | 'day' | 'hour',
     options?: PerplexityOptions
   ): Promise<PerplexityResponse> {
@@ -381,7 +441,7 @@ export class PerplexityAdapter extends BaseAdapter {
   }
 
   async searchWithRelatedQuestions(
-    prompt: string,
+    prompt: PromptInput,
     options?: PerplexityOptions
   ): Promise<PerplexityResponse> {
     return this.generateUncached(prompt, {
@@ -0,0 +1,419 @@
+/**
+ * Router Adapter
+ * Composite adapter that picks a provider and model per request from the model registry
+ */
+
+import { BaseAdapter } from '../BaseAdapter';
+import { ModelRegistry } from '../ModelRegistry';
+import { ModelSpec } from '../modelTypes';
+import { TokenCounter } from '../CostCalculator';
+import {
+  GenerateOptions,
+  LLMResponse,
+  ModelInfo,
+  ProviderCapabilities,
+  CostDetails,
+  PromptInput,
+  StreamEvent,
+  InvalidRequestError
+} from '../types';
+
+// Rough prompt cost of an image or document part, in tokens
+const MEDIA_TOKEN_ESTIMATE = 1000;
+
+// Output tokens assumed for cost estimates when maxTokens is not set
+const DEFAULT_OUTPUT_TOKENS = 1000;
+
+// Weight of the newest sample in the latency moving average
+const LATENCY_SMOOTHING = 0.3;
+
+/**
+ * What a request needs from a model, derived from the prompt and options
+ */
+export interface RoutingRequirements {
+  tools: boolean;
+  images: boolean;
+  json: boolean;
+  thinking: boolean;
+  promptTokens: number; // Estimated from the prompt text
+  outputTokens: number; // options.maxTokens, or the default used for cost estimates
+}
+
+export interface RouteCandidate {
+  adapter: BaseAdapter;
+  model: ModelSpec;
+  estimatedCost: number; // USD for the estimated prompt and output tokens
+  latencyMs?: number; // Observed average latency, when the model has served a request
+}
+
+/**
+ * Orders the candidates best first
+ */
+export interface RoutingPolicy {
+  name: string;
+  rank(candidates: RouteCandidate[], requirements: RoutingRequirements): RouteCandidate[];
+}
+
+export interface RoutingConstraints {
+  policy?: RoutingPolicy | 'cheapest' | 'fastest' | 'balanced';
+  maxPricePerMillion?: number; // Highest input price per million tokens
+  maxOutputPricePerMillion?: number; // Highest output price per million tokens
+  models?: string[]; // Only route to these API model names
+  requires?: Partial<Pick<RoutingRequirements, 'tools' | 'images' | 'json' | 'thinking'>>; // Added to what the request implies
+}
+
+export interface RouterAdapterOptions extends RoutingConstraints {
+  adapters: BaseAdapter[];
+}
+
+export interface RouterGenerateOptions extends GenerateOptions {
+  routing?: RoutingConstraints; // Per-request overrides of the router's constraints
+}
+
+export interface RoutingDecision {
+  provider: string;
+  model: string;
+  policy: string;
+  reason: string;
+  requirements: RoutingRequirements;
+  estimatedCost: number;
+  latencyMs?: number;
+  alternatives: Array<{ provider: string; model: string; estimatedCost: number; latencyMs?: number }>;
+  rejected: Record<string, number>; // Number of models ruled out, by reason
+}
+
+/**
+ * Built-in routing policies
+ */
+export const RoutingPolicies: Record<'cheapest' | 'fastest' | 'balanced', RoutingPolicy> = {
+  cheapest: {
+    name: 'cheapest',
+    rank: candidates => [...candidates].sort((a, b) => a.estimatedCost - b.estimatedCost)
+  },
+
+  // Models without observed latency go last, cheapest first
+  fastest: {
+    name: 'fastest',
+    rank: candidates => [...candidates].sort((a, b) =>
+      (a.latencyMs ?? Infinity) - (b.latencyMs ?? Infinity) || a.estimatedCost - b.estimatedCost
+    )
+  },
+
+  // Sums each candidate's position in the cost and latency orders
+  balanced: {
+    name: 'balanced',
+    rank: (candidates, requirements) => {
+      const byCost = RoutingPolicies.cheapest.rank(candidates, requirements);
+      const byLatency = RoutingPolicies.fastest.rank(candidates, requirements);
+      const score = (candidate: RouteCandidate) => byCost.indexOf(candidate) + byLatency.indexOf(candidate);
+      return [...byCost].sort((a, b) => score(a) - score(b));
+    }
+  }
+};
+
+/**
+ * Routes each request to the registry model that fits it best. Models are
+ * ruled out when they lack a capability the request needs (tools, images,
+ * JSON, thinking), when the estimated prompt plus maxTokens exceeds their
+ * context window, or when they cost more than the price limits; the policy
+ * then ranks what is left. The decision is recorded on metadata.routing.
+ */
+export class RouterAdapter extends BaseAdapter {
+  readonly name = 'router';
+  readonly baseUrl = '';
+
+  private adapters: BaseAdapter[];
+  private constraints: RoutingConstraints;
+  private latencies = new Map<string, number>();
+
+  constructor(options: RouterAdapterOptions) {
+    const { adapters, ...constraints } = options;
+    super('', adapters[0]?.getCurrentModel() ?? '');
+
+    if (adapters.length === 0) {
+      throw new InvalidRequestError('RouterAdapter needs at least one adapter', 'router');
+    }
+
+    this.adapters = adapters;
+    this.constraints = constraints;
+    this.initializeCache();
+  }
+
+  /**
+   * The chosen adapter applies its own validation, structured output and caching
+   */
+  async generate(prompt: PromptInput, options?: RouterGenerateOptions): Promise<LLMResponse> {
+    const { routing, ...generateOptions } = options ?? {};
+    const { candidate, decision } = this.select(prompt, generateOptions, routing);
+    const started = Date.now();
+
+    const response = await candidate.adapter.generate(prompt, { ...generateOptions, model: candidate.model.apiName });
+    // Cache hits say nothing about how fast the provider is
+    if (response.metadata?.cached !== true) {
+      this.recordLatency(candidate, Date.now() - started);
+    }
+
+    return this.withRoutingMetadata(response, decision);
+  }
+
+  async generateUncached(prompt: PromptInput, options?: RouterGenerateOptions): Promise<LLMResponse> {
+    return this.generate(prompt, { ...options, disableCache: true });
+  }
+
+  /**
+   * Latency for streams is measured to the first event
+   */
+  async *stream(prompt: PromptInput, options?: RouterGenerateOptions): AsyncGenerator<StreamEvent> {
+    const { routing, ...generateOptions } = options ?? {};
+    let selected: ReturnType<RouterAdapter['select']>;
+    try {
+      selected = this.select(prompt, generateOptions, routing);
+    } catch (error) {
+      yield { type: 'error', error: error as InvalidRequestError };
+      return;
+    }
+
+    const { candidate, decision } = selected;
+    const started = Date.now();
+    let first = true;
+
+    for await (const event of candidate.adapter.stream(prompt, { ...generateOptions, model: candidate.model.apiName })) {
+      if (first && event.type !== 'error') {
+        this.recordLatency(candidate, Date.now() - started);
+      }
+      first = false;
+
+      yield event.type === 'finish'
+        ? { ...event, response: this.withRoutingMetadata(event.response, decision) }
+        : event;
+    }
+  }
+
+  protected async *streamEvents(prompt: PromptInput, options?: GenerateOptions): AsyncGenerator<StreamEvent> {
+    yield* this.stream(prompt, options);
+  }
+
+  /**
+   * Explain where a request would be routed without sending it
+   */
+  route(prompt: PromptInput, options?: RouterGenerateOptions): RoutingDecision {
+    const { routing, ...generateOptions } = options ?? {};
+    return this.select(prompt, generateOptions, routing).decision;
+  }
+
+  /**
+   * Observed average latency per provider:model, in milliseconds
+   */
+  getLatencies(): Record<string, number> {
+    return Object.fromEntries(this.latencies);
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    return this.adapters.flatMap(adapter => this.getAdapterModels(adapter).map(spec => ModelRegistry.toModelInfo(spec)));
+  }
+
+  /**
+   * What at least one adapter supports, since requests are routed to a capable model
+   */
+  getCapabilities(): ProviderCapabilities {
+    const capabilities = this.adapters.map(adapter => adapter.getCapabilities());
+    const some = (key: keyof ProviderCapabilities) => capabilities.some(c => c[key] === true);
+
+    return {
+      supportsStreaming: some('supportsStreaming'),
+      supportsJSON: some('supportsJSON'),
+      supportsImages: some('supportsImages'),
+      supportsFunctions: some('supportsFunctions'),
+      supportsThinking: some('supportsThinking'),
+      supportsImageGeneration: some('supportsImageGeneration'),
+      maxContextWindow: Math.max(...capabilities.map(c => c.maxContextWindow)),
+      supportedFeatures: [...new Set(capabilities.flatMap(c => c.supportedFeatures))]
+    };
+  }
+
+  async getModelPricing(modelId: string): Promise<CostDetails | null> {
+    for (const adapter of this.adapters) {
+      const pricing = await adapter.getModelPricing(modelId);
+      if (pricing) return pricing;
+    }
+    return null;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    const available = await Promise.all(this.adapters.map(adapter => adapter.isAvailable()));
+    return available.some(Boolean);
+  }
+
+  // The routed adapters hold the keys
+  protected validateConfiguration(): void {}
+
+  private select(
+    prompt: PromptInput,
+    options: GenerateOptions,
+    overrides?: RoutingConstraints
+  ): { candidate: RouteCandidate; decision: RoutingDecision } {
+    const constraints = { ...this.constraints, ...overrides };
+    const policy = this.resolvePolicy(constraints.policy);
+    const requirements = this.getRequirements(prompt, options, constraints);
+    const candidates: RouteCandidate[] = [];
+    const rejected: Record<string, number> = {};
+
+    for (const adapter of this.adapters) {
+      for (const model of this.getAdapterModels(adapter)) {
+        const reason = this.rejectReason(model, requirements, constraints);
+        if (reason) {
+          rejected[reason] = (rejected[reason] ?? 0) + 1;
+          continue;
+        }
+
+        const latencyMs = this.latencies.get(this.latencyKey(adapter.name, model.apiName));
+        candidates.push({
+          adapter,
+          model,
+          estimatedCost: (requirements.promptTokens * model.inputCostPerMillion +
+            requirements.outputTokens * model.outputCostPerMillion) / 1_000_000,
+          ...(latencyMs !== undefined ? { latencyMs } : {})
+        });
+      }
+    }
+
+    const ranked = policy.rank(candidates, requirements);
+    const candidate = ranked[0];
+    const rejections = Object.entries(rejected).map(([reason, count]) => `${count} ${reason}`).join(', ');
+
+    if (!candidate) {
+      throw new InvalidRequestError(
+        `No model satisfies the request${rejections ? ` (rejected: ${rejections})` : ''}`,
+        this.name,
+        { code: 'NO_ROUTE' }
+      );
+    }
+
+    const describe = ({ adapter, model, estimatedCost, latencyMs }: RouteCandidate) => ({
+      provider: adapter.name,
+      model: model.apiName,
+      estimatedCost,
+      ...(latencyMs !== undefined ? { latencyMs } : {})
+    });
+
+    return {
+      candidate,
+      decision: {
+        ...describe(candidate),
+        policy: policy.name,
+        reason: `Ranked first of ${ranked.length} candidates by the ${policy.name} policy` +
+          (rejections ? `; rejected ${rejections}` : ''),
+        requirements,
+        alternatives: ranked.slice(1, 4).map(describe),
+        rejected
+      }
+    };
+  }
+
+  /**
+   * The provider's registry models. An adapter without any (Azure deployments,
+   * Ollama, other OpenAI-compatible servers) offers its current model, described
+   * by the adapter's own spec or, failing that, its capabilities at no known cost.
+   */
+  private getAdapterModels(adapter: BaseAdapter): ModelSpec[] {
+    const registered = ModelRegistry.getProviderModels(adapter.name);
+    if (registered.length > 0) return registered;
+
+    const model = adapter.getCurrentModel();
+    const spec = adapter.findModelSpec(model);
+    if (spec) return [{ ...spec, provider: adapter.name, apiName: model }];
+
+    const capabilities = adapter.getCapabilities();
+    return [{
+      provider: adapter.name,
+      name: model,
+      apiName: model,
+      contextWindow: capabilities.maxContextWindow,
+      maxTokens: capabilities.maxContextWindow,
+      inputCostPerMillion: 0,
+      outputCostPerMillion: 0,
+      capabilities: {
+        supportsJSON: capabilities.supportsJSON,
+        supportsImages: capabilities.supportsImages,
+        supportsFunctions: capabilities.supportsFunctions,
+        supportsStreaming: capabilities.supportsStreaming,
+        supportsThinking: capabilities.supportsThinking
+      }
+    }];
+  }
+
+  private resolvePolicy(policy: RoutingConstraints['policy'] = 'balanced'): RoutingPolicy {
+    return typeof policy === 'string' ? RoutingPolicies[policy] : policy;
+  }
+
+  private getRequirements(prompt: PromptInput, options: GenerateOptions, constraints: RoutingConstraints): RoutingRequirements {
+    const messages = this.normalizeMessages(prompt, options.systemPrompt);
+    let text = '';
+    let media = 0;
+
+    for (const message of messages) {
+      if (typeof message.content === 'string') {
+        text += `${message.content}\n`;
+        continue;
+      }
+      for (const part of message.content) {
+        if (part.type === 'text') {
+          text += `${part.text}\n`;
+        } else {
+          media++;
+        }
+      }
+    }
+
+    const reasoning = this.getReasoningOptions(options);
+    const requires = constraints.requires ?? {};
+
+    return {
+      tools: requires.tools ?? Boolean(options.tools?.length),
+      images: requires.images ?? media > 0,
+      json: requires.json ?? Boolean(options.jsonMode || options.jsonSchema),
+      thinking: requires.thinking ?? Boolean(reasoning?.enabled),
+      promptTokens: TokenCounter.fallbackTokenCount(text) + media * MEDIA_TOKEN_ESTIMATE,
+      outputTokens: options.maxTokens ?? DEFAULT_OUTPUT_TOKENS
+    };
+  }
+
+  private rejectReason(model: ModelSpec, requirements: RoutingRequirements, constraints: RoutingConstraints): string | undefined {
+    const { capabilities } = model;
+
+    if (constraints.models && !constraints.models.includes(model.apiName)) return 'not in the model list';
+    if (requirements.tools && !capabilities.supportsFunctions) return 'without tool support';
+    if (requirements.images && !capabilities.supportsImages) return 'without image input';
+    if (requirements.json && !capabilities.supportsJSON) return 'without JSON output';
+    if (requirements.thinking && !capabilities.supportsThinking) return 'without thinking';
+    if (requirements.promptTokens + requirements.outputTokens > model.contextWindow) return 'over the context window';
+    if (requirements.outputTokens > model.maxTokens) return 'over the output limit';
+    if (constraints.maxPricePerMillion !== undefined && model.inputCostPerMillion > constraints.maxPricePerMillion) {
+      return 'over the input price';
+    }
+    if (constraints.maxOutputPricePerMillion !== undefined && model.outputCostPerMillion > constraints.maxOutputPricePerMillion) {
+      return 'over the output price';
+    }
+    return undefined;
+  }
+
+  private recordLatency(candidate: RouteCandidate, ms: number): void {
+    const key = this.latencyKey(candidate.adapter.name, candidate.model.apiName);
+    const previous = this.latencies.get(key);
+    this.latencies.set(key, previous === undefined ? ms : previous + LATENCY_SMOOTHING * (ms - previous));
+  }
+
+  private latencyKey(provider: string, model: string): string {
+    return `${provider}:${model}`;
+  }
+
+  private withRoutingMetadata(response: LLMResponse, decision: RoutingDecision): LLMResponse {
+    return {
+      ...response,
+      metadata: {
+        ...response.metadata,
+        routing: decision
+      }
+    };
+  }
+}
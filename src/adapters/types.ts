@@ -3,17 +3,24 @@
  * Based on patterns from services/llm/
  */
 
+import type { HttpTransportOptions } from '../utils/HttpTransport';
+
 export interface GenerateOptions {
   model?: string;
   temperature?: number;
   maxTokens?: number;
   systemPrompt?: string;
   jsonMode?: boolean;
+  jsonSchema?: StructuredOutputSchema; // Constrain the response to a JSON Schema
   stream?: boolean;
   stopSequences?: string[];
+  reasoning?: ReasoningOptions; // Extended reasoning ("thinking") for models that support it
+  /** @deprecated Use `reasoning: { enabled: true }` */
   enableThinking?: boolean;
-  enableInteractiveThinking?: boolean;
+  enableInteractiveThinking?: boolean; // Anthropic interleaved thinking beta
   tools?: Tool[];
+  toolChoice?: ToolChoice; // Whether and which tool the model must call (default: 'auto')
+  parallelToolCalls?: boolean; // Allow several tool calls in one turn (provider default when omitted)
   webSearch?: boolean;
   fileSearch?: boolean;
   // Cache options
@@ -22,14 +29,207 @@ export interface GenerateOptions {
   topP?: number;
   frequencyPenalty?: number;
   presencePenalty?: number;
+  signal?: AbortSignal; // Cancels the request, retries and any pending waits
+  headers?: Record<string, string>; // Extra HTTP headers for this request only
+}
+
+/**
+ * JSON Schema the response must conform to.
+ * Enforced natively where the provider supports it, otherwise via the system prompt.
+ */
+export interface StructuredOutputSchema {
+  schema: Record<string, any>;
+  name?: string; // Identifier sent to providers that require one (default: 'response')
+  description?: string;
+  strict?: boolean; // Request strict schema adherence where supported (OpenAI)
+}
+
+export type ReasoningEffort = 'low' | 'medium' | 'high';
+
+/**
+ * Extended reasoning request. Providers take either a token budget (Anthropic,
+ * Gemini) or an effort level (OpenAI, Grok); the one not given is derived from
+ * the other. Ignored by models without reasoning support.
+ */
+export interface ReasoningOptions {
+  enabled?: boolean; // Default: true. false turns reasoning off where the model allows it
+  budgetTokens?: number; // Tokens the model may spend reasoning
+  effort?: ReasoningEffort;
+}
+
+/**
+ * Reasoning returned alongside a response
+ */
+export interface ReasoningOutput {
+  text?: string; // Full reasoning text (Anthropic, Grok, Perplexity)
+  summary?: string; // Provider-written summary of hidden reasoning (OpenAI, Gemini)
+  tokens?: number; // Reasoning tokens, when the provider reports them
+  signatures?: ReasoningSignature[]; // Must be sent back with tool results in multi-turn tool use
+}
+
+/**
+ * Opaque proof of reasoning that some providers require in follow-up turns
+ */
+export interface ReasoningSignature {
+  provider: string; // Adapter that produced it; other adapters ignore it
+  signature: string;
+  text?: string; // Reasoning text the signature covers (Anthropic thinking blocks)
+  redacted?: boolean; // The signature is encrypted reasoning (Anthropic redacted_thinking)
 }
 
+export interface JSONGenerateOptions extends GenerateOptions {
+  maxRepairAttempts?: number; // Re-prompt with the parse/validation errors this many times (default: 0)
+}
+
+export interface ObjectResponse<T> extends LLMResponse {
+  object: T; // Parsed and schema-validated result
+}
+
+export type MessageRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface TextPart {
+  type: 'text';
+  text: string;
+}
+
+export interface ImagePart {
+  type: 'image';
+  image: string | Uint8Array; // URL, data URL, base64 string or raw bytes (e.g. Buffer)
+  mimeType?: string; // Detected from the data when omitted
+}
+
+export interface DocumentPart {
+  type: 'document';
+  data: string | Uint8Array; // URL, data URL, base64 string or raw bytes (e.g. Buffer)
+  mimeType?: string; // Defaults to application/pdf
+  name?: string;
+}
+
+export type ContentPart = TextPart | ImagePart | DocumentPart;
+
+export type MessageContent = string | ContentPart[];
+
+/**
+ * Image or document data resolved to either a remote URL or inline base64
+ */
+export type ResolvedMedia =
+  | { type: 'url'; url: string; mimeType: string }
+  | { type: 'base64'; data: string; mimeType: string };
+
+/**
+ * Provider-neutral conversation message
+ * Adapters translate these into their native request format
+ */
+export interface Message {
+  role: MessageRole;
+  content: MessageContent;
+  name?: string; // Tool name for tool result messages
+  toolCalls?: ToolCall[]; // Tool invocations made by an assistant turn
+  toolCallId?: string; // ID of the tool call a tool message answers
+  reasoning?: ReasoningOutput; // Reasoning from an assistant turn, replayed where the provider requires it
+}
+
+/**
+ * Input accepted by generate methods: a single user prompt or a full conversation
+ */
+export type PromptInput = string | Message[];
+
 export interface StreamOptions extends GenerateOptions {
   onToken?: (token: string) => void;
   onComplete?: (response: LLMResponse) => void;
   onError?: (error: Error) => void;
 }
 
+/**
+ * Events yielded by BaseAdapter.stream()
+ * Every successful stream ends with a finish event carrying the full response
+ */
+export interface TextDeltaEvent {
+  type: 'text-delta';
+  text: string;
+}
+
+export interface ReasoningDeltaEvent {
+  type: 'reasoning-delta';
+  text: string;
+}
+
+export interface ToolCallDeltaEvent {
+  type: 'tool-call-delta';
+  index: number; // Position of the call within the turn
+  toolCallId: string;
+  toolName: string;
+  argumentsDelta: string; // Partial JSON arguments
+}
+
+export interface ToolCallEvent {
+  type: 'tool-call';
+  toolCall: ToolCall; // Complete call with the final arguments
+}
+
+export interface UsageEvent {
+  type: 'usage';
+  usage: TokenUsage;
+}
+
+export interface FinishEvent {
+  type: 'finish';
+  finishReason: 'stop' | 'length' | 'tool_calls' | 'content_filter';
+  response: LLMResponse;
+}
+
+export interface StreamErrorEvent {
+  type: 'error';
+  error: Error;
+}
+
+export type StreamEvent =
+  | TextDeltaEvent
+  | ReasoningDeltaEvent
+  | ToolCallDeltaEvent
+  | ToolCallEvent
+  | UsageEvent
+  | FinishEvent
+  | StreamErrorEvent;
+
+/**
+ * Recursively optional version of T, used for objects that are still streaming
+ */
+export type DeepPartial<T> = T extends (infer U)[]
+  ? DeepPartial<U>[]
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+/**
+ * Events yielded by BaseAdapter.streamObject()
+ */
+export interface PartialObjectEvent<T> {
+  type: 'partial-object';
+  object: DeepPartial<T>; // Everything parsed so far, including unfinished strings and numbers
+}
+
+export interface ArrayElementEvent {
+  type: 'array-element';
+  path: string; // JSON pointer to the array ('' when the result itself is an array)
+  index: number;
+  element: unknown; // The completed element
+}
+
+export interface ObjectFinishEvent<T> {
+  type: 'finish';
+  object: T; // Parsed and schema-validated result
+  response: ObjectResponse<T>;
+}
+
+export type ObjectStreamEvent<T> =
+  | TextDeltaEvent
+  | PartialObjectEvent<T>
+  | ArrayElementEvent
+  | UsageEvent
+  | ObjectFinishEvent<T>
+  | StreamErrorEvent;
+
 export interface LLMResponse {
   text: string;
   model: string;
@@ -39,6 +239,7 @@ export interface LLMResponse {
   metadata?: Record<string, any>;
   finishReason?: 'stop' | 'length' | 'tool_calls' | 'content_filter';
   toolCalls?: ToolCall[];
+  reasoning?: ReasoningOutput;
 }
 
 export interface TokenUsage {
@@ -90,6 +291,12 @@ export interface Tool {
   };
 }
 
+/**
+ * Provider-neutral tool selection: let the model decide, forbid tool calls,
+ * require at least one call, or require a call to the named function
+ */
+export type ToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
 export interface ToolCall {
   id: string;
   type: string;
@@ -99,12 +306,67 @@ export interface ToolCall {
   };
 }
 
+/**
+ * Tool definition paired with the function that executes it
+ * Used by generateWithTools to run the call → execute → respond loop
+ */
+export interface ExecutableTool {
+  name: string;
+  description: string;
+  parameters: Record<string, any>; // JSON Schema for the arguments
+  execute: (args: any, context: ToolExecutionContext) => unknown | Promise<unknown>;
+}
+
+export interface ToolExecutionContext {
+  toolCallId: string;
+  step: number;
+  messages: Message[]; // Conversation so far, including the assistant turn that made the call
+  signal?: AbortSignal; // The signal passed to generateWithTools, if any
+}
+
+export interface ToolExecutionResult {
+  toolCallId: string;
+  toolName: string;
+  arguments: any;
+  result?: unknown;
+  error?: string; // Set when the handler threw or the tool is unknown; sent back to the model
+  durationMs: number;
+}
+
+export interface ToolStep {
+  step: number; // 1-based
+  response: LLMResponse;
+  toolResults: ToolExecutionResult[];
+}
+
+/**
+ * A forcing toolChoice ('required' or { name }) applies to the first step
+ * only; later steps use 'auto' so the model can give its final answer
+ */
+export interface ToolLoopOptions extends Omit<GenerateOptions, 'tools'> {
+  maxSteps?: number; // Maximum model calls before giving up (default: 5)
+  onStep?: (step: ToolStep) => void | Promise<void>;
+}
+
+export interface ToolLoopResponse extends LLMResponse {
+  steps: ToolStep[];
+  messages: Message[]; // Full conversation including the final assistant turn
+}
+
+/**
+ * Connection settings passed to an adapter constructor. Anything left out
+ * falls back to the environment and the provider's defaults.
+ */
 export interface ProviderConfig {
-  apiKey: string;
-  baseUrl?: string;
-  organizationId?: string;
-  projectId?: string;
-  customHeaders?: Record<string, string>;
+  apiKey?: string | undefined;
+  baseUrl?: string | undefined;
+  organizationId?: string | undefined; // OpenAI organization
+  projectId?: string | undefined; // OpenAI project
+  apiVersion?: string | undefined; // Azure OpenAI api-version
+  deployments?: Record<string, string> | undefined; // Azure OpenAI deployment name -> model id
+  customHeaders?: Record<string, string> | undefined; // Sent with every request
+  timeout?: number | undefined; // Milliseconds to wait for a response
+  transport?: HttpTransportOptions | undefined; // Custom fetch, proxy or agent for every request
 }
 
 export interface ProviderCapabilities {
@@ -135,6 +397,7 @@ export interface ImageGenerationOptions {
   moderation?: 'low' | 'auto';
   timeout?: number;
   maxRetries?: number;
+  signal?: AbortSignal;
 }
 
 export interface ImageGenerationResponse {
@@ -160,7 +423,7 @@ export interface ImageGenerationResponse {
 export interface ImageGenerationError {
   code: string;
   message: string;
-  type: 'rate_limit' | 'invalid_request' | 'authentication' | 'server_error' | 'content_filter';
+  type: 'rate_limit' | 'invalid_request' | 'authentication' | 'server_error' | 'content_filter' | 'aborted';
   provider: string;
 }
 
@@ -169,13 +432,114 @@ export class LLMProviderError extends Error {
     message: string,
     public provider: string,
     public code?: string,
-    public originalError?: Error
+    public originalError?: Error,
+    public status?: number // HTTP status when the error came from a provider response
   ) {
     super(message);
     this.name = 'LLMProviderError';
   }
 }
 
+/**
+ * Options for the typed errors below. Each class has a default code that
+ * matches the string adapters have always used, so checks on `code` keep working.
+ */
+export interface ProviderErrorDetails {
+  code?: string; // Overrides the default code
+  status?: number;
+  originalError?: Error;
+}
+
+/**
+ * 429 / quota responses
+ */
+export class RateLimitError extends LLMProviderError {
+  readonly retryAfterMs: number | undefined; // How long the provider asked us to wait, when it said
+
+  constructor(message: string, provider: string, details: ProviderErrorDetails & { retryAfterMs?: number } = {}) {
+    super(message, provider, details.code ?? 'RATE_LIMIT_ERROR', details.originalError, details.status);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+/**
+ * Missing, invalid or insufficiently privileged API keys (codes AUTHENTICATION_ERROR,
+ * PERMISSION_ERROR, MISSING_API_KEY)
+ */
+export class AuthenticationError extends LLMProviderError {
+  constructor(message: string, provider: string, details: ProviderErrorDetails = {}) {
+    super(message, provider, details.code ?? 'AUTHENTICATION_ERROR', details.originalError, details.status);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * The prompt plus requested output does not fit the model's context window
+ */
+export class ContextLengthExceededError extends LLMProviderError {
+  readonly maxTokens: number | undefined; // The model's limit, when the provider reported it
+  readonly requestedTokens: number | undefined; // Tokens the request needed, when reported
+
+  constructor(
+    message: string,
+    provider: string,
+    details: ProviderErrorDetails & { maxTokens?: number; requestedTokens?: number } = {}
+  ) {
+    super(message, provider, details.code ?? 'CONTEXT_LENGTH_EXCEEDED', details.originalError, details.status);
+    this.name = 'ContextLengthExceededError';
+    this.maxTokens = details.maxTokens;
+    this.requestedTokens = details.requestedTokens;
+  }
+}
+
+/**
+ * The prompt or response was blocked by the provider's safety filters
+ */
+export class ContentFilterError extends LLMProviderError {
+  readonly filterResults: Record<string, any> | undefined; // Per-category verdicts, when the provider reports them
+
+  constructor(message: string, provider: string, details: ProviderErrorDetails & { filterResults?: Record<string, any> } = {}) {
+    super(message, provider, details.code ?? 'CONTENT_FILTER_ERROR', details.originalError, details.status);
+    this.name = 'ContentFilterError';
+    this.filterResults = details.filterResults;
+  }
+}
+
+/**
+ * The request was rejected as malformed or unsupported; retrying will not help
+ */
+export class InvalidRequestError extends LLMProviderError {
+  constructor(message: string, provider: string, details: ProviderErrorDetails = {}) {
+    super(message, provider, details.code ?? 'INVALID_REQUEST', details.originalError, details.status);
+    this.name = 'InvalidRequestError';
+  }
+}
+
+/**
+ * 5xx responses: the provider is failing or overloaded (codes SERVER_ERROR,
+ * SERVICE_UNAVAILABLE)
+ */
+export class ProviderOverloadedError extends LLMProviderError {
+  readonly retryAfterMs: number | undefined;
+
+  constructor(message: string, provider: string, details: ProviderErrorDetails & { retryAfterMs?: number } = {}) {
+    super(message, provider, details.code ?? 'SERVER_ERROR', details.originalError, details.status);
+    this.name = 'ProviderOverloadedError';
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+/**
+ * The request or connection timed out
+ */
+export class TimeoutError extends LLMProviderError {
+  constructor(message: string, provider: string, details: ProviderErrorDetails = {}) {
+    super(message, provider, details.code ?? 'TIMEOUT', details.originalError, details.status);
+    this.name = 'TimeoutError';
+  }
+}
+
 export type SupportedProvider =
   | 'openai'
   | 'google'
@@ -186,7 +550,8 @@ export type SupportedProvider =
   | 'groq'
   | 'grok'
   | 'perplexity'
-  | 'ollama';
+  | 'ollama'
+  | 'azure';
 
 export type SupportedModel = 
   // OpenAI
@@ -11,6 +11,45 @@ export { GoogleAdapter } from './adapters/google/GoogleAdapter';
 export { MistralAdapter } from './adapters/mistral/MistralAdapter';
 export { OpenRouterAdapter } from './adapters/openrouter/OpenRouterAdapter';
 export { RequestyAdapter } from './adapters/requesty/RequestyAdapter';
+export { OllamaAdapter } from './adapters/ollama/OllamaAdapter';
+export type {
+  OllamaOptions,
+  OllamaStreamOptions,
+  OllamaPullOptions,
+  OllamaPullProgress,
+  OllamaRunningModel
+} from './adapters/ollama/OllamaAdapter';
+export { OpenAICompatibleAdapter } from './adapters/compatible/OpenAICompatibleAdapter';
+export type {
+  OpenAICompatibleAdapterOptions,
+  OpenAICompatibleAuth,
+  OpenAICompatibleModel,
+  OpenAICompatiblePricing
+} from './adapters/compatible/OpenAICompatibleAdapter';
+export { AzureOpenAIAdapter } from './adapters/azure/AzureOpenAIAdapter';
+export type { AzureOpenAIOptions } from './adapters/azure/AzureOpenAIAdapter';
+export { FallbackAdapter } from './adapters/fallback/FallbackAdapter';
+export type { FallbackEntry, FallbackAttempt, FallbackAdapterOptions } from './adapters/fallback/FallbackAdapter';
+export { RouterAdapter, RoutingPolicies } from './adapters/router/RouterAdapter';
+export type {
+  RouterAdapterOptions,
+  RouterGenerateOptions,
+  RoutingConstraints,
+  RoutingDecision,
+  RoutingPolicy,
+  RoutingRequirements,
+  RouteCandidate
+} from './adapters/router/RouterAdapter';
+export { MockAdapter } from './adapters/mock/MockAdapter';
+export type {
+  MockAdapterOptions,
+  MockResponse,
+  MockToolCall,
+  MockRequest,
+  MockResponder,
+  MockReply,
+  MockScriptEntry
+} from './adapters/mock/MockAdapter';
 
 // Types
 export * from './adapters/types';
@@ -25,14 +64,30 @@ export { MISTRAL_MODELS } from './adapters/mistral/MistralModels';
 export { OPENROUTER_MODELS } from './adapters/openrouter/OpenRouterModels';
 export { REQUESTY_MODELS } from './adapters/requesty/RequestyModels';
 
+// Schema builder for generateObject
+export { s, SchemaType } from './adapters/SchemaBuilder';
+export type { Infer, InferShape, AnySchemaType, JsonSchema } from './adapters/SchemaBuilder';
+export { PartialJSONParser } from './adapters/PartialJSON';
+export type { ArrayElement, PartialJSONUpdate } from './adapters/PartialJSON';
+
 // Cost calculation
 export { CostCalculator, TokenCounter, CostAnalyzer } from './adapters/CostCalculator';
 
 // Utilities
 export { Logger } from './utils/Logger';
-export { RetryManager } from './utils/RetryManager';
+export { RetryManager, CircuitOpenError } from './utils/RetryManager';
+export type { RetryConfig, CircuitBreakerConfig, CircuitState, CircuitStats } from './utils/RetryManager';
+export { RateLimitUtils } from './utils/RateLimitUtils';
+export type { RateLimitInfo } from './utils/RateLimitUtils';
+export { ApiKeyPool } from './utils/ApiKeyPool';
+export type { ApiKeyPoolOptions, ApiKeyStats, KeySelectionStrategy } from './utils/ApiKeyPool';
+export { HttpTransport } from './utils/HttpTransport';
+export type { HttpTransportOptions, FetchFunction } from './utils/HttpTransport';
 export { ValidationUtils } from './utils/ValidationUtils';
+export { JsonSchemaValidator } from './utils/JsonSchemaValidator';
+export type { JsonSchemaError, JsonSchemaValidationResult, JsonSchemaValidatorOptions } from './utils/JsonSchemaValidator';
 export { ConfigManager } from './utils/ConfigManager';
+export type { RetryDefaults } from './utils/ConfigManager';
 export { BaseCache, CacheManager, LRUCache, FileCache } from './utils/CacheManager';
 
 // Re-export commonly used types for convenience
@@ -0,0 +1,294 @@
+/**
+ * Cassette
+ * Records adapter HTTP traffic to a fixture file and replays it, so adapter
+ * suites can run offline and deterministically
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { FetchFunction } from '../utils/HttpTransport';
+import { ProviderConfig } from '../adapters/types';
+
+/**
+ * replay: never touch the network; unmatched requests fail
+ * once: replay when the file exists, otherwise record it
+ * record: always call the provider and rewrite the file
+ * off: pass requests through without reading or writing the file
+ */
+export type CassetteMode = 'replay' | 'once' | 'record' | 'off';
+
+export interface CassetteOptions {
+  mode?: CassetteMode; // Default: LLM_CASSETTE_MODE, else replay
+  fetch?: FetchFunction; // Used while recording (default: global fetch)
+  secrets?: string[]; // Extra values to scrub; *_API_KEY(S) environment values and keys given to providerConfig() are always scrubbed
+  matchBody?: boolean; // Whether replay compares request bodies (default: true)
+}
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+  json?: any;
+}
+
+export interface RecordedResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body?: string;
+  json?: any;
+  chunks?: string[]; // Streamed bodies (SSE, NDJSON), in the chunks they arrived in
+}
+
+export interface CassetteInteraction {
+  request: RecordedRequest;
+  response: RecordedResponse;
+}
+
+interface CassetteFile {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+const REDACTED = 'REDACTED';
+
+// Replaced with REDACTED wherever they appear in recorded headers
+const SECRET_HEADERS = new Set([
+  'authorization',
+  'proxy-authorization',
+  'x-api-key',
+  'api-key',
+  'x-goog-api-key',
+  'cookie',
+  'set-cookie',
+  'openai-organization',
+  'openai-project'
+]);
+
+// Transfer headers: stored bodies are already decoded, so these are not replayed
+const DROPPED_RESPONSE_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding']);
+
+const SECRET_QUERY_PARAMS = ['key', 'api_key', 'apikey'];
+
+const STREAMING_CONTENT_TYPE = /text\/event-stream|application\/(x-)?ndjson/;
+
+export class Cassette {
+  readonly file: string;
+  readonly mode: CassetteMode;
+
+  private interactions: CassetteInteraction[] = [];
+  private used = new Set<number>();
+  private recording: boolean;
+  private realFetch: FetchFunction;
+  private secrets: string[] = [];
+  private matchBody: boolean;
+
+  constructor(file: string, options: CassetteOptions = {}) {
+    this.file = file;
+    this.mode = options.mode || (process.env.LLM_CASSETTE_MODE as CassetteMode | undefined) || 'replay';
+    this.realFetch = options.fetch || ((input, init) => globalThis.fetch(input, init));
+    this.matchBody = options.matchBody ?? true;
+    this.addSecrets([...Cassette.envSecrets(), ...(options.secrets || [])]);
+
+    const exists = fs.existsSync(file);
+    this.recording = this.mode === 'record' || (this.mode === 'once' && !exists);
+    if (exists && (this.mode === 'once' || this.mode === 'replay')) {
+      const contents = JSON.parse(fs.readFileSync(file, 'utf8')) as CassetteFile;
+      this.interactions = contents.interactions || [];
+    }
+  }
+
+  /**
+   * Values of every *_API_KEY and *_API_KEYS environment variable
+   */
+  static envSecrets(): string[] {
+    return Object.entries(process.env)
+      .filter(([name, value]) => /_API_KEYS?$/.test(name) && value)
+      .flatMap(([, value]) => value!.split(','))
+      .map(value => value.trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * Whether requests are answered from the file rather than the network
+   */
+  get isReplaying(): boolean {
+    return this.mode !== 'off' && !this.recording;
+  }
+
+  /**
+   * Interactions recorded or loaded so far
+   */
+  getInteractions(): CassetteInteraction[] {
+    return [...this.interactions];
+  }
+
+  /**
+   * fetch-compatible function that records or replays; pass it as transport.fetch
+   */
+  readonly fetch: FetchFunction = (input, init) => this.handle(input, init);
+
+  /**
+   * Adapter config routing traffic through the cassette. Its key is scrubbed
+   * wherever it appears; while replaying a placeholder key is supplied, so
+   * suites run without credentials.
+   */
+  providerConfig(config: ProviderConfig = {}): ProviderConfig {
+    if (config.apiKey) this.addSecrets([config.apiKey]);
+    return {
+      ...config,
+      ...(this.isReplaying && !config.apiKey ? { apiKey: REDACTED } : {}),
+      transport: { ...config.transport, fetch: this.fetch }
+    };
+  }
+
+  private async handle(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+    if (this.mode === 'off') {
+      return this.realFetch(input, init);
+    }
+
+    const request = await this.describeRequest(input, init);
+    if (!this.recording) {
+      return this.replay(request);
+    }
+
+    const response = await this.realFetch(input, init);
+    const recorded = await this.describeResponse(response);
+    this.interactions.push({ request, response: recorded });
+    this.used.add(this.interactions.length - 1);
+    this.save();
+    return this.toResponse(recorded);
+  }
+
+  private replay(request: RecordedRequest): Response {
+    const index = this.interactions.findIndex((interaction, i) => !this.used.has(i) && this.matches(interaction.request, request));
+    if (index === -1) {
+      throw new Error(
+        `No recorded interaction in ${path.basename(this.file)} matches ${request.method} ${request.url}. ` +
+        'Re-record it with LLM_CASSETTE_MODE=record and an API key.'
+      );
+    }
+
+    this.used.add(index);
+    return this.toResponse(this.interactions[index]!.response);
+  }
+
+  private matches(recorded: RecordedRequest, request: RecordedRequest): boolean {
+    if (recorded.method !== request.method || recorded.url !== request.url) return false;
+    if (!this.matchBody) return true;
+    return recorded.json !== undefined
+      ? JSON.stringify(recorded.json) === JSON.stringify(request.json)
+      : recorded.body === request.body;
+  }
+
+  private async describeRequest(input: string | URL | Request, init?: RequestInit): Promise<RecordedRequest> {
+    const request = input instanceof Request ? input.clone() : undefined;
+    const url = new URL(request ? request.url : String(input));
+    for (const param of SECRET_QUERY_PARAMS) {
+      if (url.searchParams.has(param)) url.searchParams.set(param, REDACTED);
+    }
+
+    const text = init?.body !== undefined && init.body !== null
+      ? await new Response(init.body).text()
+      : request ? await request.text() : '';
+
+    return {
+      method: (init?.method || request?.method || 'GET').toUpperCase(),
+      url: this.scrub(url.toString()),
+      headers: this.scrubHeaders(new Headers(init?.headers ?? request?.headers)),
+      ...this.describeBody(text)
+    };
+  }
+
+  private async describeResponse(response: Response): Promise<RecordedResponse> {
+    const described: RecordedResponse = {
+      status: response.status,
+      statusText: response.statusText,
+      headers: this.scrubHeaders(response.headers, DROPPED_RESPONSE_HEADERS)
+    };
+
+    if (!response.body) return described;
+
+    if (STREAMING_CONTENT_TYPE.test(response.headers.get('content-type') || '')) {
+      const decoder = new TextDecoder();
+      const chunks: string[] = [];
+      for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+        chunks.push(this.scrub(decoder.decode(chunk, { stream: true })));
+      }
+      const rest = decoder.decode();
+      if (rest) chunks.push(this.scrub(rest));
+      return { ...described, chunks };
+    }
+
+    return { ...described, ...this.describeBody(await response.text()) };
+  }
+
+  private describeBody(text: string): { body?: string; json?: any } {
+    if (!text) return {};
+    const scrubbed = this.scrub(text);
+    try {
+      return { json: JSON.parse(scrubbed) };
+    } catch {
+      return { body: scrubbed };
+    }
+  }
+
+  private toResponse(recorded: RecordedResponse): Response {
+    const encoder = new TextEncoder();
+    let body: ReadableStream<Uint8Array> | string | null = null;
+
+    if (recorded.chunks) {
+      const chunks = recorded.chunks;
+      body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (const chunk of chunks) {
+            controller.enqueue(encoder.encode(chunk));
+          }
+          controller.close();
+        }
+      });
+    } else if (recorded.json !== undefined) {
+      body = JSON.stringify(recorded.json);
+    } else if (recorded.body !== undefined) {
+      body = recorded.body;
+    }
+
+    const nullBody = [101, 204, 205, 304].includes(recorded.status);
+    return new Response(nullBody ? null : body, {
+      status: recorded.status,
+      statusText: recorded.statusText,
+      headers: recorded.headers
+    });
+  }
+
+  private scrubHeaders(headers: Headers, dropped: Set<string> = new Set()): Record<string, string> {
+    const result: Record<string, string> = {};
+    headers.forEach((value, key) => {
+      if (dropped.has(key)) return;
+      result[key] = SECRET_HEADERS.has(key) ? REDACTED : this.scrub(value);
+    });
+    return result;
+  }
+
+  /**
+   * Secrets as sent and URL-encoded (as they appear in query strings),
+   * longest first so a key is never left half-scrubbed by one it contains
+   */
+  private addSecrets(secrets: string[]): void {
+    const added = secrets
+      .filter(secret => secret.length >= 8)
+      .flatMap(secret => [secret, encodeURIComponent(secret)]);
+    this.secrets = [...new Set([...this.secrets, ...added])].sort((a, b) => b.length - a.length);
+  }
+
+  private scrub(text: string): string {
+    return this.secrets.reduce((result, secret) => result.split(secret).join(REDACTED), text);
+  }
+
+  private save(): void {
+    const contents: CassetteFile = { version: 1, interactions: this.interactions };
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(this.file, JSON.stringify(contents, null, 2) + '\n');
+  }
+}
@@ -0,0 +1,821 @@
+/**
+ * Stub Server
+ * In-process HTTP server that answers like the providers do - OpenAI chat
+ * completions and Responses, Anthropic messages, Gemini generateContent and
+ * Ollama chat and generate -
+ * so adapters' real request and response code can be tested without a network
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { TokenCounter } from '../adapters/CostCalculator';
+
+export type StubProtocol = 'openai-chat' | 'openai-responses' | 'anthropic' | 'gemini' | 'ollama-chat' | 'ollama-generate';
+
+export interface StubToolCall {
+  id?: string; // Default: call_<n>
+  name: string;
+  arguments: Record<string, any> | string;
+}
+
+export interface StubResponse {
+  text?: string;
+  toolCalls?: StubToolCall[];
+  finishReason?: 'stop' | 'length' | 'tool_calls'; // Default: tool_calls when there are calls, otherwise stop
+  usage?: { promptTokens?: number; completionTokens?: number }; // Missing counts are estimated
+  chunks?: string[]; // How the text is streamed (default: word by word)
+  headers?: Record<string, string>;
+  delayMs?: number; // Wait before responding
+
+  // Error injection
+  status?: number; // Fail with this HTTP status and the protocol's error body
+  message?: string; // Error message (default: the status text)
+  retryAfter?: number; // Seconds, sent as Retry-After
+  malformed?: boolean; // Streams: send an event that is not valid JSON after the first text chunk
+}
+
+export interface StubMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  text: string;
+}
+
+export interface StubRequest {
+  index: number; // Position among all requests, from 0
+  protocol: StubProtocol;
+  method: string;
+  path: string; // Including the query string
+  headers: http.IncomingHttpHeaders;
+  body: any;
+  model: string;
+  stream: boolean;
+  messages: StubMessage[]; // The conversation as plain text, system prompt first
+  tools: string[]; // Names of the tools offered
+}
+
+/**
+ * Builds a response from the request. Return a string for a plain text reply.
+ */
+export type StubResponder = (request: StubRequest) => StubReply | Promise<StubReply>;
+
+export type StubReply = StubResponse | string;
+
+export type StubScriptEntry = StubReply | StubResponder;
+
+export interface StubServerOptions {
+  responses?: StubScriptEntry[]; // Used once each, in order
+  respond?: StubResponder; // Answers once the scripted responses run out
+  models?: string[]; // Listed by GET .../models and /api/tags (default: stub-model)
+}
+
+interface StubResult {
+  id: string;
+  model: string;
+  text: string;
+  chunks: string[];
+  toolCalls: Array<{ id: string; name: string; arguments: string }>;
+  finishReason: 'stop' | 'length' | 'tool_calls';
+  promptTokens: number;
+  completionTokens: number;
+}
+
+interface SSEFrame {
+  event?: string;
+  data: string;
+}
+
+// Error types and statuses the providers report, by HTTP status
+const OPENAI_ERROR_TYPES: Record<number, string> = {
+  400: 'invalid_request_error',
+  401: 'authentication_error',
+  403: 'permission_error',
+  404: 'not_found_error',
+  429: 'rate_limit_exceeded'
+};
+
+const ANTHROPIC_ERROR_TYPES: Record<number, string> = {
+  400: 'invalid_request_error',
+  401: 'authentication_error',
+  403: 'permission_error',
+  404: 'not_found_error',
+  413: 'request_too_large',
+  429: 'rate_limit_error',
+  529: 'overloaded_error'
+};
+
+const GEMINI_ERROR_STATUSES: Record<number, string> = {
+  400: 'INVALID_ARGUMENT',
+  401: 'UNAUTHENTICATED',
+  403: 'PERMISSION_DENIED',
+  404: 'NOT_FOUND',
+  429: 'RESOURCE_EXHAUSTED',
+  503: 'UNAVAILABLE',
+  504: 'DEADLINE_EXCEEDED'
+};
+
+/**
+ * Routes by path suffix, so any base URL works: point an adapter's baseUrl at
+ * url (Anthropic, Gemini, Perplexity, Groq, Ollama) or `${url}/v1` (OpenAI-style
+ * clients). Requests with no script entry or responder fail with a 500.
+ */
+export class StubServer {
+  private server: http.Server | undefined;
+  private baseUrl = '';
+  private script: StubScriptEntry[];
+  private responder: StubResponder | undefined;
+  private models: string[];
+  private received: StubRequest[] = [];
+  private toolCallCount = 0;
+
+  constructor(options: StubServerOptions = {}) {
+    this.script = [...(options.responses || [])];
+    this.responder = options.respond;
+    this.models = options.models || ['stub-model'];
+  }
+
+  /**
+   * Listen on a free local port and return the server's URL
+   */
+  async start(): Promise<string> {
+    if (this.server) return this.baseUrl;
+
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        if (!res.headersSent) {
+          res.writeHead(500, { 'content-type': 'application/json' });
+        }
+        res.end(JSON.stringify({ error: { message: `StubServer failed: ${error.message}` } }));
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(0, '127.0.0.1', () => resolve());
+    });
+
+    this.server = server;
+    this.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = undefined;
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  get url(): string {
+    if (!this.server) {
+      throw new Error('StubServer is not running; await start() first');
+    }
+    return this.baseUrl;
+  }
+
+  /**
+   * Add responses to the end of the script
+   */
+  enqueue(...entries: StubScriptEntry[]): this {
+    this.script.push(...entries);
+    return this;
+  }
+
+  /**
+   * Answer every request left after the script with this responder
+   */
+  setResponder(responder: StubResponder | undefined): this {
+    this.responder = responder;
+    return this;
+  }
+
+  /**
+   * Forget the recorded requests and the remaining script
+   */
+  reset(): void {
+    this.script = [];
+    this.received = [];
+    this.toolCallCount = 0;
+  }
+
+  get requests(): StubRequest[] {
+    return [...this.received];
+  }
+
+  lastRequest(): StubRequest | undefined {
+    return this.received[this.received.length - 1];
+  }
+
+  /**
+   * Text of a request's last user message, or '' when it has none
+   */
+  static lastUserText(request: StubRequest): string {
+    return [...request.messages].reverse().find(message => message.role === 'user')?.text || '';
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const raw = await this.readBody(req);
+    const method = req.method || 'GET';
+    const url = new URL(req.url || '/', this.baseUrl);
+
+    if (method === 'GET' && url.pathname.endsWith('/models')) {
+      this.sendJson(res, 200, {
+        object: 'list',
+        data: this.models.map(id => ({ id, object: 'model', created: 0, owned_by: 'stub' }))
+      });
+      return;
+    }
+
+    if (method === 'GET' && url.pathname.endsWith('/api/tags')) {
+      this.sendJson(res, 200, {
+        models: this.models.map(name => ({
+          name,
+          model: name,
+          modified_at: new Date(0).toISOString(),
+          size: 0,
+          digest: '',
+          details: { format: 'gguf', family: 'stub', families: ['stub'], parameter_size: '', quantization_level: '' }
+        }))
+      });
+      return;
+    }
+
+    const protocol = method === 'POST' ? this.route(url.pathname) : undefined;
+    if (!protocol) {
+      this.sendJson(res, 404, {
+        error: { message: `StubServer has no route for ${method} ${url.pathname}`, type: 'invalid_request_error' }
+      });
+      return;
+    }
+
+    let body: any = {};
+    try {
+      body = raw ? JSON.parse(raw) : {};
+    } catch {
+      this.sendError(res, protocol, { status: 400, message: 'Request body is not valid JSON' });
+      return;
+    }
+
+    const request = this.describeRequest(protocol, method, url, req.headers, body);
+    this.received.push(request);
+
+    const reply = await this.nextReply(request);
+    if (!reply) {
+      this.sendError(res, protocol, {
+        status: 500,
+        message: `StubServer has no response for request #${request.index}; script one with enqueue() or set a responder`
+      });
+      return;
+    }
+
+    if (reply.delayMs) {
+      await new Promise(resolve => setTimeout(resolve, reply.delayMs));
+    }
+    if (reply.status && reply.status >= 400) {
+      this.sendError(res, protocol, reply);
+      return;
+    }
+
+    const result = this.buildResult(request, reply);
+    if (request.stream) {
+      this.sendStream(res, protocol, this.streamFrames(protocol, result, reply.malformed), reply.headers);
+    } else {
+      this.sendJson(res, 200, this.responseBody(protocol, result), reply.headers);
+    }
+  }
+
+  private route(pathname: string): StubProtocol | undefined {
+    if (pathname.endsWith('/chat/completions')) return 'openai-chat';
+    if (pathname.endsWith('/responses')) return 'openai-responses';
+    if (pathname.endsWith('/messages')) return 'anthropic';
+    if (/:(stream)?generateContent$/i.test(pathname)) return 'gemini';
+    if (pathname.endsWith('/api/chat')) return 'ollama-chat';
+    if (pathname.endsWith('/api/generate')) return 'ollama-generate';
+    return undefined;
+  }
+
+  private async nextReply(request: StubRequest): Promise<StubResponse | undefined> {
+    const entry = this.script.length > 0 ? this.script.shift()! : this.responder;
+    if (!entry) return undefined;
+
+    const result = typeof entry === 'function' ? await entry(request) : entry;
+    return typeof result === 'string' ? { text: result } : result;
+  }
+
+  private describeRequest(
+    protocol: StubProtocol,
+    method: string,
+    url: URL,
+    headers: http.IncomingHttpHeaders,
+    body: any
+  ): StubRequest {
+    const request = {
+      index: this.received.length,
+      protocol,
+      method,
+      path: url.pathname + url.search,
+      headers,
+      body
+    };
+
+    if (protocol === 'gemini') {
+      const model = decodeURIComponent(url.pathname.match(/models\/([^/:]+):/)?.[1] || '');
+      return {
+        ...request,
+        model,
+        stream: /:streamGenerateContent$/i.test(url.pathname),
+        messages: this.geminiMessages(body),
+        tools: (body.tools || []).flatMap((tool: any) => (tool.functionDeclarations || []).map((fn: any) => fn.name))
+      };
+    }
+
+    const messages = protocol === 'anthropic'
+      ? this.anthropicMessages(body)
+      : protocol === 'openai-responses' ? this.responsesMessages(body)
+      : protocol === 'ollama-generate' ? this.generateMessages(body) : this.chatMessages(body);
+    const ollama = protocol === 'ollama-chat' || protocol === 'ollama-generate';
+    return {
+      ...request,
+      model: body.model || '',
+      stream: ollama ? body.stream !== false : body.stream === true, // Ollama streams unless told not to
+      messages,
+      tools: (body.tools || []).map((tool: any) => tool.function?.name ?? tool.name).filter(Boolean)
+    };
+  }
+
+  private chatMessages(body: any): StubMessage[] {
+    return (body.messages || []).map((message: any) => ({
+      role: message.role === 'developer' ? 'system' : message.role,
+      text: this.textOf(message.content)
+    }));
+  }
+
+  private responsesMessages(body: any): StubMessage[] {
+    const messages: StubMessage[] = body.instructions ? [{ role: 'system', text: body.instructions }] : [];
+    if (typeof body.input === 'string') {
+      return [...messages, { role: 'user', text: body.input }];
+    }
+
+    for (const item of body.input || []) {
+      if (item.type === 'function_call_output') {
+        messages.push({ role: 'tool', text: String(item.output) });
+      } else if (item.type === 'function_call') {
+        messages.push({ role: 'assistant', text: '' });
+      } else if (item.role) {
+        messages.push({ role: item.role === 'developer' ? 'system' : item.role, text: this.textOf(item.content) });
+      }
+    }
+    return messages;
+  }
+
+  private anthropicMessages(body: any): StubMessage[] {
+    const messages: StubMessage[] = body.system ? [{ role: 'system', text: this.textOf(body.system) }] : [];
+
+    for (const message of body.messages || []) {
+      const blocks = typeof message.content === 'string' ? [{ type: 'text', text: message.content }] : message.content || [];
+      for (const result of blocks.filter((block: any) => block.type === 'tool_result')) {
+        messages.push({ role: 'tool', text: this.textOf(result.content) });
+      }
+      const text = this.textOf(blocks.filter((block: any) => block.type === 'text'));
+      if (text || message.role === 'assistant') {
+        messages.push({ role: message.role, text });
+      }
+    }
+    return messages;
+  }
+
+  private geminiMessages(body: any): StubMessage[] {
+    const system = body.systemInstruction ?? body.system_instruction;
+    const messages: StubMessage[] = system ? [{ role: 'system', text: this.textOf(system.parts || system) }] : [];
+
+    for (const content of body.contents || []) {
+      const parts = content.parts || [];
+      for (const part of parts.filter((part: any) => part.functionResponse)) {
+        messages.push({ role: 'tool', text: JSON.stringify(part.functionResponse.response ?? {}) });
+      }
+      const text = this.textOf(parts.filter((part: any) => part.text !== undefined));
+      if (text || content.role === 'model') {
+        messages.push({ role: content.role === 'model' ? 'assistant' : 'user', text });
+      }
+    }
+    return messages;
+  }
+
+  private generateMessages(body: any): StubMessage[] {
+    const messages: StubMessage[] = body.system ? [{ role: 'system', text: body.system }] : [];
+    return body.prompt !== undefined ? [...messages, { role: 'user', text: String(body.prompt) }] : messages;
+  }
+
+  private textOf(content: any): string {
+    if (typeof content === 'string') return content;
+    if (Array.isArray(content)) {
+      return content.map(part => typeof part === 'string' ? part : part?.text ?? '').join('');
+    }
+    return content?.text ?? '';
+  }
+
+  private buildResult(request: StubRequest, reply: StubResponse): StubResult {
+    const text = reply.text ?? '';
+    const toolCalls = (reply.toolCalls || []).map(call => ({
+      id: call.id || `call_${++this.toolCallCount}`,
+      name: call.name,
+      arguments: typeof call.arguments === 'string' ? call.arguments : JSON.stringify(call.arguments)
+    }));
+
+    return {
+      id: `stub-${request.index}`,
+      model: request.model || this.models[0]!,
+      text,
+      chunks: reply.chunks || text.match(/\S+\s*|\s+/g) || [],
+      toolCalls,
+      finishReason: reply.finishReason || (toolCalls.length > 0 ? 'tool_calls' : 'stop'),
+      promptTokens: reply.usage?.promptTokens ??
+        TokenCounter.fallbackTokenCount(request.messages.map(message => message.text).join('\n')),
+      completionTokens: reply.usage?.completionTokens ??
+        TokenCounter.fallbackTokenCount(text + toolCalls.map(call => call.arguments).join(''))
+    };
+  }
+
+  private responseBody(protocol: StubProtocol, result: StubResult): any {
+    switch (protocol) {
+      case 'openai-chat':
+        return {
+          id: result.id,
+          object: 'chat.completion',
+          created: Math.floor(Date.now() / 1000),
+          model: result.model,
+          choices: [{
+            index: 0,
+            message: {
+              role: 'assistant',
+              content: result.text || (result.toolCalls.length > 0 ? null : ''),
+              ...(result.toolCalls.length > 0 ? { tool_calls: result.toolCalls.map(call => this.chatToolCall(call)) } : {})
+            },
+            finish_reason: result.finishReason
+          }],
+          usage: this.openAIUsage(result)
+        };
+
+      case 'openai-responses':
+        return this.responsesBody(result, result.finishReason === 'length' ? 'incomplete' : 'completed');
+
+      case 'anthropic':
+        return {
+          id: result.id,
+          type: 'message',
+          role: 'assistant',
+          model: result.model,
+          content: [
+            ...(result.text ? [{ type: 'text', text: result.text }] : []),
+            ...result.toolCalls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: JSON.parse(call.arguments) }))
+          ],
+          stop_reason: this.anthropicStopReason(result),
+          stop_sequence: null,
+          usage: { input_tokens: result.promptTokens, output_tokens: result.completionTokens }
+        };
+
+      case 'gemini':
+        return {
+          candidates: [{
+            index: 0,
+            content: {
+              role: 'model',
+              parts: [
+                ...(result.text ? [{ text: result.text }] : []),
+                ...result.toolCalls.map(call => this.geminiFunctionCall(call))
+              ]
+            },
+            finishReason: result.finishReason === 'length' ? 'MAX_TOKENS' : 'STOP'
+          }],
+          usageMetadata: this.geminiUsage(result),
+          modelVersion: result.model,
+          responseId: result.id
+        };
+
+      case 'ollama-chat':
+      case 'ollama-generate':
+        return this.ollamaChunk(protocol, result, {
+          text: result.text,
+          toolCalls: result.toolCalls,
+          done: true
+        });
+    }
+  }
+
+  private streamFrames(protocol: StubProtocol, result: StubResult, malformed?: boolean): SSEFrame[] {
+    let frames: SSEFrame[];
+    switch (protocol) {
+      case 'openai-chat':
+        frames = this.chatFrames(result);
+        break;
+      case 'openai-responses':
+        frames = this.responsesFrames(result);
+        break;
+      case 'anthropic':
+        frames = this.anthropicFrames(result);
+        break;
+      case 'gemini':
+        frames = this.geminiFrames(result);
+        break;
+      case 'ollama-chat':
+      case 'ollama-generate':
+        frames = this.ollamaFrames(protocol, result);
+        break;
+    }
+
+    if (malformed) {
+      // Cut off after the first frame carrying text, or the first frame when there is none
+      const first = frames.findIndex(frame => result.chunks.length > 0 && frame.data.includes(JSON.stringify(result.chunks[0]!)));
+      const index = first === -1 ? 0 : first;
+      frames.splice(index + 1, 0, { ...frames[index]!, data: frames[index]!.data.slice(0, -10) });
+    }
+    return frames;
+  }
+
+  private chatFrames(result: StubResult): SSEFrame[] {
+    const chunk = (delta: any, finishReason: string | null = null) => ({
+      data: JSON.stringify({
+        id: result.id,
+        object: 'chat.completion.chunk',
+        created: Math.floor(Date.now() / 1000),
+        model: result.model,
+        choices: [{ index: 0, delta, finish_reason: finishReason }]
+      })
+    });
+
+    const frames = [chunk({ role: 'assistant', content: '' })];
+    for (const text of result.chunks) {
+      frames.push(chunk({ content: text }));
+    }
+    result.toolCalls.forEach((call, index) => {
+      frames.push(chunk({ tool_calls: [{ index, id: call.id, type: 'function', function: { name: call.name, arguments: '' } }] }));
+      frames.push(chunk({ tool_calls: [{ index, function: { arguments: call.arguments } }] }));
+    });
+    frames.push(chunk({}, result.finishReason));
+    frames.push({
+      data: JSON.stringify({
+        id: result.id,
+        object: 'chat.completion.chunk',
+        created: Math.floor(Date.now() / 1000),
+        model: result.model,
+        choices: [],
+        usage: this.openAIUsage(result)
+      })
+    });
+    frames.push({ data: '[DONE]' });
+    return frames;
+  }
+
+  private responsesFrames(result: StubResult): SSEFrame[] {
+    const event = (type: string, payload: any): SSEFrame => ({ event: type, data: JSON.stringify({ type, ...payload }) });
+    const output = this.responsesOutput(result);
+    const frames = [event('response.created', { response: this.responsesBody(result, 'in_progress', []) })];
+
+    output.forEach((item, outputIndex) => {
+      if (item.type === 'message') {
+        frames.push(event('response.output_item.added', { output_index: outputIndex, item: { ...item, status: 'in_progress', content: [] } }));
+        for (const text of result.chunks) {
+          frames.push(event('response.output_text.delta', { output_index: outputIndex, content_index: 0, item_id: item.id, delta: text }));
+        }
+      } else {
+        frames.push(event('response.output_item.added', { output_index: outputIndex, item: { ...item, status: 'in_progress', arguments: '' } }));
+        frames.push(event('response.function_call_arguments.delta', { output_index: outputIndex, item_id: item.id, delta: item.arguments }));
+      }
+      frames.push(event('response.output_item.done', { output_index: outputIndex, item }));
+    });
+
+    const status = result.finishReason === 'length' ? 'incomplete' : 'completed';
+    frames.push(event(`response.${status}`, { response: this.responsesBody(result, status) }));
+    return frames;
+  }
+
+  private anthropicFrames(result: StubResult): SSEFrame[] {
+    const event = (type: string, payload: any = {}): SSEFrame => ({ event: type, data: JSON.stringify({ type, ...payload }) });
+    const frames = [event('message_start', {
+      message: {
+        id: result.id,
+        type: 'message',
+        role: 'assistant',
+        model: result.model,
+        content: [],
+        stop_reason: null,
+        stop_sequence: null,
+        usage: { input_tokens: result.promptTokens, output_tokens: 1 }
+      }
+    })];
+
+    let index = 0;
+    if (result.chunks.length > 0) {
+      frames.push(event('content_block_start', { index, content_block: { type: 'text', text: '' } }));
+      for (const text of result.chunks) {
+        frames.push(event('content_block_delta', { index, delta: { type: 'text_delta', text } }));
+      }
+      frames.push(event('content_block_stop', { index: index++ }));
+    }
+    for (const call of result.toolCalls) {
+      frames.push(event('content_block_start', { index, content_block: { type: 'tool_use', id: call.id, name: call.name, input: {} } }));
+      frames.push(event('content_block_delta', { index, delta: { type: 'input_json_delta', partial_json: call.arguments } }));
+      frames.push(event('content_block_stop', { index: index++ }));
+    }
+
+    frames.push(event('message_delta', {
+      delta: { stop_reason: this.anthropicStopReason(result), stop_sequence: null },
+      usage: { output_tokens: result.completionTokens }
+    }));
+    frames.push(event('message_stop'));
+    return frames;
+  }
+
+  private geminiFrames(result: StubResult): SSEFrame[] {
+    const parts: any[] = [
+      ...result.chunks.map(text => ({ text })),
+      ...result.toolCalls.map(call => this.geminiFunctionCall(call))
+    ];
+    if (parts.length === 0) parts.push({ text: '' });
+
+    return parts.map((part, i) => {
+      const last = i === parts.length - 1;
+      return {
+        data: JSON.stringify({
+          candidates: [{
+            index: 0,
+            content: { role: 'model', parts: [part] },
+            ...(last ? { finishReason: result.finishReason === 'length' ? 'MAX_TOKENS' : 'STOP' } : {})
+          }],
+          ...(last ? { usageMetadata: this.geminiUsage(result) } : {}),
+          modelVersion: result.model,
+          responseId: result.id
+        })
+      };
+    });
+  }
+
+  private ollamaFrames(protocol: StubProtocol, result: StubResult): SSEFrame[] {
+    const frames = result.chunks.map(text => ({
+      data: JSON.stringify(this.ollamaChunk(protocol, result, { text, toolCalls: [], done: false }))
+    }));
+    if (result.toolCalls.length > 0) {
+      frames.push({ data: JSON.stringify(this.ollamaChunk(protocol, result, { text: '', toolCalls: result.toolCalls, done: false })) });
+    }
+    frames.push({ data: JSON.stringify(this.ollamaChunk(protocol, result, { text: '', toolCalls: [], done: true })) });
+    return frames;
+  }
+
+  /**
+   * Ollama chat and generate objects share their final statistics; durations are in nanoseconds
+   */
+  private ollamaChunk(
+    protocol: StubProtocol,
+    result: StubResult,
+    part: { text: string; toolCalls: StubResult['toolCalls']; done: boolean }
+  ): any {
+    const content = protocol === 'ollama-generate'
+      ? { response: part.text }
+      : {
+          message: {
+            role: 'assistant',
+            content: part.text,
+            ...(part.toolCalls.length > 0 ? {
+              tool_calls: part.toolCalls.map(call => ({ function: { name: call.name, arguments: JSON.parse(call.arguments) } }))
+            } : {})
+          }
+        };
+
+    return {
+      model: result.model,
+      created_at: new Date().toISOString(),
+      ...content,
+      done: part.done,
+      ...(part.done ? {
+        done_reason: result.finishReason === 'length' ? 'length' : 'stop',
+        total_duration: 1_000_000,
+        prompt_eval_count: result.promptTokens,
+        eval_count: result.completionTokens,
+        eval_duration: 1_000_000
+      } : {})
+    };
+  }
+
+  private responsesBody(result: StubResult, status: string, output = this.responsesOutput(result)): any {
+    return {
+      id: result.id,
+      object: 'response',
+      created_at: Math.floor(Date.now() / 1000),
+      model: result.model,
+      status,
+      output,
+      ...(status === 'in_progress' ? {} : {
+        usage: {
+          input_tokens: result.promptTokens,
+          output_tokens: result.completionTokens,
+          total_tokens: result.promptTokens + result.completionTokens
+        }
+      })
+    };
+  }
+
+  private responsesOutput(result: StubResult): any[] {
+    return [
+      ...(result.text ? [{
+        type: 'message',
+        id: `msg_${result.id}`,
+        role: 'assistant',
+        status: 'completed',
+        content: [{ type: 'output_text', text: result.text, annotations: [] }]
+      }] : []),
+      ...result.toolCalls.map(call => ({
+        type: 'function_call',
+        id: `fc_${call.id}`,
+        call_id: call.id,
+        name: call.name,
+        arguments: call.arguments,
+        status: 'completed'
+      }))
+    ];
+  }
+
+  private chatToolCall(call: StubResult['toolCalls'][number]): any {
+    return { id: call.id, type: 'function', function: { name: call.name, arguments: call.arguments } };
+  }
+
+  private geminiFunctionCall(call: StubResult['toolCalls'][number]): any {
+    return { functionCall: { name: call.name, args: JSON.parse(call.arguments) } };
+  }
+
+  private openAIUsage(result: StubResult): any {
+    return {
+      prompt_tokens: result.promptTokens,
+      completion_tokens: result.completionTokens,
+      total_tokens: result.promptTokens + result.completionTokens
+    };
+  }
+
+  private geminiUsage(result: StubResult): any {
+    return {
+      promptTokenCount: result.promptTokens,
+      candidatesTokenCount: result.completionTokens,
+      totalTokenCount: result.promptTokens + result.completionTokens
+    };
+  }
+
+  private anthropicStopReason(result: StubResult): string {
+    if (result.finishReason === 'tool_calls') return 'tool_use';
+    return result.finishReason === 'length' ? 'max_tokens' : 'end_turn';
+  }
+
+  /**
+   * Error in the shape the protocol's provider returns it
+   */
+  private sendError(res: http.ServerResponse, protocol: StubProtocol, reply: StubResponse): void {
+    const status = reply.status!;
+    const message = reply.message || http.STATUS_CODES[status] || 'Error';
+    const headers = {
+      ...reply.headers,
+      ...(reply.retryAfter !== undefined ? { 'retry-after': String(reply.retryAfter) } : {})
+    };
+
+    let body: any;
+    if (protocol === 'anthropic') {
+      body = { type: 'error', error: { type: ANTHROPIC_ERROR_TYPES[status] || (status >= 500 ? 'api_error' : 'invalid_request_error'), message } };
+    } else if (protocol === 'gemini') {
+      body = { error: { code: status, message, status: GEMINI_ERROR_STATUSES[status] || (status >= 500 ? 'INTERNAL' : 'INVALID_ARGUMENT') } };
+    } else if (protocol === 'ollama-chat' || protocol === 'ollama-generate') {
+      body = { error: message };
+    } else {
+      body = { error: { message, type: OPENAI_ERROR_TYPES[status] || (status >= 500 ? 'server_error' : 'invalid_request_error'), code: null } };
+    }
+    this.sendJson(res, status, body, headers);
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: any, headers: Record<string, string> = {}): void {
+    res.writeHead(status, { ...headers, 'content-type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  /**
+   * SSE, or newline-delimited JSON for Ollama
+   */
+  private sendStream(res: http.ServerResponse, protocol: StubProtocol, frames: SSEFrame[], headers: Record<string, string> = {}): void {
+    if (protocol === 'ollama-chat' || protocol === 'ollama-generate') {
+      res.writeHead(200, { ...headers, 'content-type': 'application/x-ndjson' });
+      for (const frame of frames) {
+        res.write(`${frame.data}\n`);
+      }
+      res.end();
+      return;
+    }
+
+    res.writeHead(200, { ...headers, 'content-type': 'text/event-stream', 'cache-control': 'no-cache' });
+    for (const frame of frames) {
+      res.write(`${frame.event ? `event: ${frame.event}\n` : ''}data: ${frame.data}\n\n`);
+    }
+    res.end();
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      req.on('error', reject);
+    });
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Testing module exports
+ * Offline test support for code built on the adapters
+ */
+
+export {
+  Cassette,
+  type CassetteMode,
+  type CassetteOptions,
+  type CassetteInteraction,
+  type RecordedRequest,
+  type RecordedResponse
+} from './Cassette';
+
+export {
+  StubServer,
+  type StubProtocol,
+  type StubServerOptions,
+  type StubResponse,
+  type StubToolCall,
+  type StubRequest,
+  type StubMessage,
+  type StubResponder,
+  type StubReply,
+  type StubScriptEntry
+} from './StubServer';
@@ -0,0 +1,186 @@
+/**
+ * API Key Pool
+ * Spreads requests over several keys for one provider and rests keys that hit rate limits
+ */
+
+import { RateLimitUtils } from './RateLimitUtils';
+
+export type KeySelectionStrategy = 'round-robin' | 'least-recently-rate-limited';
+
+export interface ApiKeyPoolOptions {
+  strategy?: KeySelectionStrategy; // Default: round-robin
+  cooldownMs?: number; // How long a rate-limited key rests when the provider gives no Retry-After (default: 60000)
+}
+
+export interface ApiKeyStats {
+  key: string; // Masked
+  requests: number;
+  successes: number;
+  failures: number;
+  rateLimits: number;
+  lastRateLimitedAt?: number;
+  coolingDownUntil?: number;
+}
+
+interface PooledKey {
+  value: string;
+  requests: number;
+  successes: number;
+  failures: number;
+  rateLimits: number;
+  lastRateLimitedAt: number; // 0 when never rate limited
+  coolingDownUntil: number;
+}
+
+export class ApiKeyPool {
+  private keys: PooledKey[];
+  private strategy: KeySelectionStrategy;
+  private cooldownMs: number;
+  private next = 0;
+
+  constructor(keys: string[], options: ApiKeyPoolOptions = {}) {
+    const unique = [...new Set(keys.map(key => key.trim()).filter(Boolean))];
+    if (unique.length === 0) {
+      throw new Error('ApiKeyPool needs at least one key');
+    }
+
+    this.keys = unique.map(value => ({
+      value,
+      requests: 0,
+      successes: 0,
+      failures: 0,
+      rateLimits: 0,
+      lastRateLimitedAt: 0,
+      coolingDownUntil: 0
+    }));
+    this.strategy = options.strategy || 'round-robin';
+    this.cooldownMs = options.cooldownMs ?? 60000;
+  }
+
+  /**
+   * Keys from `${envKeyName}` followed by the comma-separated `${envKeyName}S`,
+   * without duplicates
+   */
+  static readEnvKeys(envKeyName: string): string[] {
+    if (!envKeyName) return [];
+
+    const keys = [
+      process.env[envKeyName] || '',
+      ...(process.env[`${envKeyName}S`] || '').split(',')
+    ].map(key => key.trim()).filter(Boolean);
+
+    return [...new Set(keys)];
+  }
+
+  /**
+   * Build a pool from the environment, or null unless it holds more than one key
+   */
+  static fromEnv(envKeyName: string, options?: ApiKeyPoolOptions): ApiKeyPool | null {
+    const keys = this.readEnvKeys(envKeyName);
+    return keys.length > 1 ? new ApiKeyPool(keys, options) : null;
+  }
+
+  /**
+   * Show only the last four characters of a key
+   */
+  static mask(key: string): string {
+    return key ? '***' + key.slice(-4) : 'NOT_SET';
+  }
+
+  get size(): number {
+    return this.keys.length;
+  }
+
+  /**
+   * Pick the key for the next request. Keys cooling down are skipped; when
+   * every key is cooling down, the one that is ready soonest is used.
+   */
+  acquire(): string {
+    const now = Date.now();
+    const ready = this.keys.filter(key => key.coolingDownUntil <= now);
+    let chosen: PooledKey;
+
+    if (ready.length === 0) {
+      chosen = this.keys.reduce((a, b) => b.coolingDownUntil < a.coolingDownUntil ? b : a);
+    } else if (this.strategy === 'least-recently-rate-limited') {
+      chosen = ready.reduce((a, b) => b.lastRateLimitedAt < a.lastRateLimitedAt ? b : a);
+    } else {
+      chosen = this.takeNextReady(now);
+    }
+
+    chosen.requests++;
+    return chosen.value;
+  }
+
+  /**
+   * Whether a key is ready to take a request right now
+   */
+  hasAvailableKey(): boolean {
+    const now = Date.now();
+    return this.keys.some(key => key.coolingDownUntil <= now);
+  }
+
+  reportSuccess(key: string): void {
+    const pooled = this.find(key);
+    if (pooled) pooled.successes++;
+  }
+
+  /**
+   * Count a failure; rate limits rest the key for Retry-After or the default cooldown
+   */
+  reportFailure(key: string, error: any): void {
+    const pooled = this.find(key);
+    if (!pooled) return;
+
+    pooled.failures++;
+    if (ApiKeyPool.isRateLimitError(error)) {
+      const now = Date.now();
+      pooled.rateLimits++;
+      pooled.lastRateLimitedAt = now;
+      pooled.coolingDownUntil = now + (RateLimitUtils.getRetryAfterMs(error) ?? this.cooldownMs);
+    }
+  }
+
+  static isRateLimitError(error: any): boolean {
+    return error?.code === 'RATE_LIMIT_ERROR' || (error?.status ?? error?.response?.status) === 429;
+  }
+
+  getStats(): ApiKeyStats[] {
+    const now = Date.now();
+    return this.keys.map(key => ({
+      key: ApiKeyPool.mask(key.value),
+      requests: key.requests,
+      successes: key.successes,
+      failures: key.failures,
+      rateLimits: key.rateLimits,
+      ...(key.lastRateLimitedAt ? { lastRateLimitedAt: key.lastRateLimitedAt } : {}),
+      ...(key.coolingDownUntil > now ? { coolingDownUntil: key.coolingDownUntil } : {})
+    }));
+  }
+
+  /**
+   * Replace every key of the pool that appears in text with its masked form
+   */
+  redact(text: string): string {
+    return this.keys.reduce((result, key) => result.split(key.value).join(ApiKeyPool.mask(key.value)), text);
+  }
+
+  getMaskedKeys(): string[] {
+    return this.keys.map(key => ApiKeyPool.mask(key.value));
+  }
+
+  private takeNextReady(now: number): PooledKey {
+    for (let i = 0; i < this.keys.length; i++) {
+      const key = this.keys[(this.next + i) % this.keys.length]!;
+      if (key.coolingDownUntil <= now) {
+        this.next = (this.next + i + 1) % this.keys.length;
+        return key;
+      }
+    }
+    return this.keys[0]!;
+  }
+
+  private find(key: string): PooledKey | undefined {
+    return this.keys.find(pooled => pooled.value === key);
+  }
+}
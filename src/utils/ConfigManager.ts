@@ -6,37 +6,74 @@
 
 import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
+import type { ProviderConfig } from '../adapters/types';
+
+export interface RetryDefaults {
+  maxRetries: number;
+  baseDelay: number;
+  maxDelay: number; // Longest backoff, and the longest Retry-After worth waiting for
+  jitter: boolean;
+  circuitBreaker: {
+    enabled: boolean;
+    failureThreshold: number; // Failures within monitoringPeriod that open the circuit
+    resetTimeout: number; // How long the circuit stays open before a trial request
+    monitoringPeriod: number;
+  };
+}
+
+export const DEFAULT_RETRY_CONFIG: RetryDefaults = {
+  maxRetries: 3,
+  baseDelay: 1000,
+  maxDelay: 60000,
+  jitter: true,
+  circuitBreaker: {
+    enabled: true,
+    failureThreshold: 5,
+    resetTimeout: 60000,
+    monitoringPeriod: 120000
+  }
+};
+
+/**
+ * Connection settings every provider entry accepts
+ */
+export interface ProviderSettings {
+  apiKey?: string;
+  baseUrl?: string;
+  customHeaders?: Record<string, string>;
+  timeout?: number; // Milliseconds to wait for a response
+}
 
 export interface LabKitConfig {
   // Provider configurations
   providers: {
-    openai: {
-      apiKey?: string;
-      baseUrl?: string;
+    openai: ProviderSettings & {
       organization?: string;
       project?: string;
     };
-    google: {
-      apiKey?: string;
+    google: ProviderSettings & {
       projectId?: string;
       location?: string;
     };
-    anthropic: {
-      apiKey?: string;
+    anthropic: ProviderSettings & {
       version?: string;
     };
-    mistral: {
-      apiKey?: string;
+    mistral: ProviderSettings & {
       endpoint?: string;
     };
-    openrouter: {
-      apiKey?: string;
+    openrouter: ProviderSettings & {
       httpReferer?: string;
       xTitle?: string;
     };
-    requesty: {
-      apiKey?: string;
-      baseUrl?: string;
+    requesty: ProviderSettings;
+    groq: ProviderSettings;
+    grok: ProviderSettings;
+    perplexity: ProviderSettings;
+    ollama: ProviderSettings;
+    azure: ProviderSettings & {
+      endpoint?: string; // https://<resource>.openai.azure.com
+      apiVersion?: string;
+      deployments?: Record<string, string>; // Deployment name -> model id, for pricing
     };
   };
 
@@ -72,7 +109,7 @@ export interface LabKitConfig {
   // Default test settings
   defaults: {
     timeout: number;
-    retries: number;
+    retries: RetryDefaults;
     concurrency: number;
     batchSize: number;
   };
@@ -146,6 +183,40 @@ export class ConfigManager {
     return this.config.providers[name];
   }
 
+  /**
+   * Provider settings in the form adapter constructors take
+   */
+  getProviderConfig(name: string): ProviderConfig {
+    const settings: (ProviderSettings & {
+      endpoint?: string;
+      organization?: string;
+      project?: string;
+      httpReferer?: string;
+      xTitle?: string;
+      apiVersion?: string;
+      deployments?: Record<string, string>;
+    }) | undefined = this.config.providers[name as keyof LabKitConfig['providers']];
+    if (!settings) return {};
+
+    const baseUrl = settings.baseUrl || settings.endpoint;
+    const customHeaders = {
+      ...(settings.httpReferer ? { 'HTTP-Referer': settings.httpReferer } : {}),
+      ...(settings.xTitle ? { 'X-Title': settings.xTitle } : {}),
+      ...settings.customHeaders
+    };
+
+    return {
+      ...(settings.apiKey ? { apiKey: settings.apiKey } : {}),
+      ...(baseUrl ? { baseUrl } : {}),
+      ...(settings.organization ? { organizationId: settings.organization } : {}),
+      ...(settings.project ? { projectId: settings.project } : {}),
+      ...(settings.apiVersion ? { apiVersion: settings.apiVersion } : {}),
+      ...(settings.deployments ? { deployments: { ...settings.deployments } } : {}),
+      ...(Object.keys(customHeaders).length > 0 ? { customHeaders } : {}),
+      ...(settings.timeout ? { timeout: settings.timeout } : {})
+    };
+  }
+
   /**
    * Get database configuration
    */
@@ -210,6 +281,13 @@ export class ConfigManager {
     return !!(provider.apiKey);
   }
 
+  /**
+   * Get retry and circuit breaker defaults for adapter requests
+   */
+  getRetryConfig(): RetryDefaults {
+    return this.config.defaults.retries;
+  }
+
   /**
    * Get cache configuration
    */
@@ -277,7 +355,12 @@ export class ConfigManager {
           endpoint: 'https://api.mistral.ai/v1'
         },
         openrouter: {},
-        requesty: {}
+        requesty: {},
+        groq: {},
+        grok: {},
+        perplexity: {},
+        ollama: {},
+        azure: {}
       },
       database: {
         supabase: {}
@@ -293,7 +376,10 @@ export class ConfigManager {
       },
       defaults: {
         timeout: 30000,
-        retries: 3,
+        retries: {
+          ...DEFAULT_RETRY_CONFIG,
+          circuitBreaker: { ...DEFAULT_RETRY_CONFIG.circuitBreaker }
+        },
         concurrency: 5,
         batchSize: 10
       },
@@ -348,6 +434,15 @@ export class ConfigManager {
     this.setIfExists('providers.requesty.apiKey', process.env.REQUESTY_API_KEY);
     this.setIfExists('providers.requesty.baseUrl', process.env.REQUESTY_BASE_URL);
 
+    this.setIfExists('providers.groq.apiKey', process.env.GROQ_API_KEY);
+    this.setIfExists('providers.grok.apiKey', process.env.XAI_API_KEY);
+    this.setIfExists('providers.perplexity.apiKey', process.env.PERPLEXITY_API_KEY);
+    this.setIfExists('providers.ollama.baseUrl', process.env.OLLAMA_HOST);
+
+    this.setIfExists('providers.azure.apiKey', process.env.AZURE_OPENAI_API_KEY);
+    this.setIfExists('providers.azure.endpoint', process.env.AZURE_OPENAI_ENDPOINT);
+    this.setIfExists('providers.azure.apiVersion', process.env.AZURE_OPENAI_API_VERSION);
+
     // Database
     this.setIfExists('database.supabase.url', process.env.SUPABASE_URL);
     this.setIfExists('database.supabase.anonKey', process.env.SUPABASE_ANON_KEY);
@@ -365,7 +460,7 @@ export class ConfigManager {
       this.config.defaults.timeout = parseInt(process.env.LAB_KIT_TIMEOUT);
     }
     if (process.env.LAB_KIT_RETRIES) {
-      this.config.defaults.retries = parseInt(process.env.LAB_KIT_RETRIES);
+      this.config.defaults.retries.maxRetries = parseInt(process.env.LAB_KIT_RETRIES);
     }
     if (process.env.LAB_KIT_CONCURRENCY) {
       this.config.defaults.concurrency = parseInt(process.env.LAB_KIT_CONCURRENCY);
@@ -450,6 +545,10 @@ export class ConfigManager {
             fileConfig = JSON.parse(content);
           }
 
+          if (typeof fileConfig.defaults?.retries === 'number') {
+            // Older config files give only the retry count
+            fileConfig.defaults.retries = { maxRetries: fileConfig.defaults.retries };
+          }
           this.config = this.mergeConfigs(this.config, fileConfig);
           console.log(`📁 Loaded configuration from ${path}`);
           break;
@@ -513,10 +612,15 @@ export class ConfigManager {
       errors.push('Timeout must be at least 1000ms');
     }
 
-    if (this.config.defaults.retries < 0 || this.config.defaults.retries > 10) {
+    const retries = this.config.defaults.retries;
+    if (retries.maxRetries < 0 || retries.maxRetries > 10) {
       errors.push('Retries must be between 0 and 10');
     }
 
+    if (retries.circuitBreaker.failureThreshold < 1) {
+      errors.push('Circuit breaker failure threshold must be at least 1');
+    }
+
     if (this.config.defaults.concurrency < 1 || this.config.defaults.concurrency > 50) {
       errors.push('Concurrency must be between 1 and 50');
     }
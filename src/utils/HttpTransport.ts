@@ -0,0 +1,278 @@
+/**
+ * HTTP Transport
+ * The fetch every adapter sends its requests through: an injected fetch,
+ * proxies from HTTPS_PROXY/HTTP_PROXY/NO_PROXY, custom agents and extra headers
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import * as tls from 'tls';
+import * as zlib from 'zlib';
+import { Readable, pipeline } from 'stream';
+
+export type FetchFunction = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+export interface HttpTransportOptions {
+  fetch?: FetchFunction | undefined; // Replaces the built-in fetch; proxy and agent settings are then up to it
+  proxy?: string | false | undefined; // Proxy URL; defaults to HTTPS_PROXY/HTTP_PROXY, false ignores the environment
+  noProxy?: string | undefined; // Hosts to reach directly; defaults to NO_PROXY
+  agent?: http.Agent | ((url: URL) => http.Agent | undefined) | undefined; // Used instead of a proxy
+  headers?: Record<string, string> | undefined; // Sent with every request; request headers win
+}
+
+interface Route {
+  agent?: http.Agent;
+  proxy?: URL; // Plain-HTTP targets are sent to the proxy with the absolute URL
+}
+
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+export class HttpTransport {
+  private static defaults: HttpTransportOptions = {};
+  private static tunnelAgents = new Map<string, http.Agent>();
+
+  private options: HttpTransportOptions;
+
+  /**
+   * Options given here are merged over the process-wide defaults
+   */
+  constructor(options: HttpTransportOptions = {}) {
+    const defaults = HttpTransport.defaults;
+    this.options = {
+      ...defaults,
+      ...options,
+      headers: { ...defaults.headers, ...options.headers }
+    };
+  }
+
+  /**
+   * Transport options for every adapter created afterwards
+   */
+  static setDefaults(options: HttpTransportOptions): void {
+    this.defaults = { ...options };
+  }
+
+  static getDefaults(): HttpTransportOptions {
+    return { ...this.defaults };
+  }
+
+  /**
+   * fetch-compatible function bound to this transport, for SDK clients and adapters
+   */
+  readonly fetch: FetchFunction = (input, init) => this.request(input, init);
+
+  /**
+   * Proxy URL from the environment for a protocol ('https:' or 'http:')
+   */
+  static getEnvProxy(protocol: string): string | undefined {
+    const env = process.env;
+    const proxy = protocol === 'https:'
+      ? env.HTTPS_PROXY || env.https_proxy
+      : env.HTTP_PROXY || env.http_proxy;
+    return proxy || undefined;
+  }
+
+  /**
+   * Whether a URL matches a NO_PROXY list: comma- or space-separated hosts,
+   * optionally with a port. 'example.com' and '.example.com' also cover
+   * subdomains; '*' matches everything.
+   */
+  static shouldBypassProxy(url: URL, noProxy: string): boolean {
+    const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+
+    return noProxy.split(/[\s,]+/).filter(Boolean).some(entry => {
+      if (entry === '*') return true;
+
+      const match = entry.toLowerCase().match(/^(.*?)(?::(\d+))?$/)!;
+      const host = match[1]!.replace(/^\*?\./, '').replace(/^\[|\]$/g, '');
+      if (match[2] && match[2] !== port) return false;
+      return hostname === host || hostname.endsWith('.' + host);
+    });
+  }
+
+  private async request(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+    if (Object.keys(this.options.headers!).length > 0) {
+      const headers = new Headers(this.options.headers);
+      const requestHeaders = new Headers(init?.headers ?? (input instanceof Request ? input.headers : undefined));
+      requestHeaders.forEach((value, key) => headers.set(key, value));
+      init = { ...init, headers };
+    }
+
+    if (this.options.fetch) {
+      return this.options.fetch(input, init);
+    }
+
+    const route = this.route(new URL(input instanceof Request ? input.url : String(input)));
+    return route ? this.nodeFetch(input, init, route) : globalThis.fetch(input, init);
+  }
+
+  private route(url: URL): Route | null {
+    const { agent } = this.options;
+    if (agent) {
+      const resolved = typeof agent === 'function' ? agent(url) : agent;
+      if (resolved) return { agent: resolved };
+    }
+
+    const proxy = this.options.proxy === false
+      ? undefined
+      : this.options.proxy || HttpTransport.getEnvProxy(url.protocol);
+    if (!proxy) return null;
+
+    const noProxy = this.options.noProxy ?? (process.env.NO_PROXY || process.env.no_proxy || '');
+    if (HttpTransport.shouldBypassProxy(url, noProxy)) return null;
+
+    const proxyUrl = new URL(proxy);
+    return url.protocol === 'https:'
+      ? { agent: HttpTransport.getTunnelAgent(proxyUrl) }
+      : { proxy: proxyUrl };
+  }
+
+  private static getTunnelAgent(proxy: URL): http.Agent {
+    let agent = this.tunnelAgents.get(proxy.href);
+    if (!agent) {
+      agent = new TunnelAgent(proxy);
+      this.tunnelAgents.set(proxy.href, agent);
+    }
+    return agent;
+  }
+
+  /**
+   * fetch on top of node:http, for requests that need an agent or a proxy
+   */
+  private async nodeFetch(input: string | URL | Request, init: RequestInit | undefined, route: Route): Promise<Response> {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+    const signal = init?.signal ?? undefined;
+    const body = request.body ? Buffer.from(await request.arrayBuffer()) : undefined;
+
+    const headers: Record<string, string> = {};
+    request.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+    headers['accept-encoding'] ??= 'gzip, deflate, br';
+    if (body) headers['content-length'] = String(body.length);
+
+    const target = route.proxy ?? url;
+    const options: http.RequestOptions = {
+      method: request.method,
+      hostname: target.hostname.replace(/^\[|\]$/g, ''),
+      port: target.port || (target.protocol === 'https:' ? 443 : 80),
+      path: route.proxy ? url.href : url.pathname + url.search,
+      headers: route.proxy
+        ? { ...headers, host: url.host, ...proxyAuthorization(route.proxy) }
+        : headers,
+      ...(route.agent ? { agent: route.agent } : {})
+    };
+
+    return new Promise<Response>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+
+      const client = target.protocol === 'https:' ? https : http;
+      const req = client.request(options, res => {
+        const status = res.statusCode ?? 0;
+        const responseHeaders = new Headers();
+        for (const [key, value] of Object.entries(res.headers)) {
+          for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+            responseHeaders.append(key, item);
+          }
+        }
+
+        const stream = decompress(res);
+        if (stream !== res) {
+          responseHeaders.delete('content-encoding');
+          responseHeaders.delete('content-length');
+        }
+
+        const hasBody = !NULL_BODY_STATUSES.has(status) && request.method !== 'HEAD';
+        resolve(new Response(hasBody ? Readable.toWeb(stream) as ReadableStream : null, {
+          status,
+          statusText: res.statusMessage || '',
+          headers: responseHeaders
+        }));
+      });
+
+      // The signal also cancels the body after the response has arrived
+      const onAbort = () => req.destroy(abortError());
+      const cleanup = () => signal?.removeEventListener('abort', onAbort);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      req.on('response', res => res.on('close', cleanup));
+      req.on('error', error => {
+        cleanup();
+        reject(error);
+      });
+      req.end(body);
+    });
+  }
+}
+
+/**
+ * Agent that reaches HTTPS targets through an HTTP CONNECT tunnel
+ */
+class TunnelAgent extends https.Agent {
+  constructor(private proxy: URL) {
+    super({ keepAlive: true });
+  }
+
+  createConnection(options: any, callback: (error: Error | null, socket?: net.Socket) => void): undefined {
+    openTunnel(this.proxy, options.host, options.port).then(
+      socket => callback(null, tls.connect({ ...options, socket, servername: options.servername || options.host })),
+      error => callback(error)
+    );
+    return undefined;
+  }
+}
+
+function openTunnel(proxy: URL, host: string, port: number): Promise<net.Socket> {
+  const client = proxy.protocol === 'https:' ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const req = client.request({
+      method: 'CONNECT',
+      hostname: proxy.hostname.replace(/^\[|\]$/g, ''),
+      port: proxy.port || (proxy.protocol === 'https:' ? 443 : 80),
+      path: `${host}:${port}`,
+      headers: { host: `${host}:${port}`, ...proxyAuthorization(proxy) },
+      agent: false
+    });
+
+    req.once('connect', (res, socket) => {
+      if (res.statusCode === 200) {
+        resolve(socket);
+      } else {
+        socket.destroy();
+        reject(new Error(`Proxy ${proxy.host} refused the tunnel to ${host}:${port} (${res.statusCode})`));
+      }
+    });
+    req.once('error', reject);
+    req.end();
+  });
+}
+
+function proxyAuthorization(proxy: URL): Record<string, string> {
+  if (!proxy.username) return {};
+  const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+  return { 'proxy-authorization': `Basic ${Buffer.from(credentials).toString('base64')}` };
+}
+
+function decompress(res: http.IncomingMessage): Readable {
+  const decoders: Record<string, () => zlib.Gunzip | zlib.Inflate | zlib.BrotliDecompress> = {
+    'gzip': zlib.createGunzip,
+    'x-gzip': zlib.createGunzip,
+    'deflate': zlib.createInflate,
+    'br': zlib.createBrotliDecompress
+  };
+  const decoder = decoders[res.headers['content-encoding'] || ''];
+  // pipeline passes an aborted response on to the decoder, so the body errors instead of hanging
+  return decoder ? pipeline(res, decoder(), () => {}) : res;
+}
+
+function abortError(): Error {
+  const error = new Error('This operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
@@ -0,0 +1,587 @@
+/**
+ * JSON Schema Validator
+ * Draft 2020-12 compatible validation with JSON-pointer error paths
+ * Used to check structured LLM output before it is returned to callers
+ */
+
+export interface JsonSchemaError {
+  path: string; // JSON pointer to the failing value ('' is the root)
+  schemaPath: string; // JSON pointer to the failing keyword in the schema
+  keyword: string;
+  message: string;
+}
+
+export interface JsonSchemaValidationResult {
+  valid: boolean;
+  errors: JsonSchemaError[];
+}
+
+export interface JsonSchemaValidatorOptions {
+  validateFormats?: boolean; // Treat `format` as an assertion (default: true)
+  maxErrors?: number; // Stop collecting after this many errors (default: 100)
+}
+
+type Schema = Record<string, any> | boolean;
+
+/**
+ * Properties and items evaluated by a schema, used by the unevaluated* keywords
+ */
+interface Evaluation {
+  valid: boolean;
+  properties: Set<string>;
+  items: Set<number>;
+}
+
+interface ValidationContext {
+  resources: Map<string, Record<string, any>>; // $id → schema resource
+  anchors: Map<string, Record<string, any>>; // '<resource>#<anchor>' → schema
+  validateFormats: boolean;
+  maxErrors: number;
+  depth: number;
+}
+
+const MAX_REF_DEPTH = 100;
+
+const FORMAT_CHECKS: Record<string, (value: string) => boolean> = {
+  'date-time': value => /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/.test(value) && !isNaN(Date.parse(value)),
+  date: value => /^\d{4}-\d{2}-\d{2}$/.test(value) && isValidDate(value),
+  time: value => /^\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/.test(value),
+  duration: value => /^P(?!$)(\d+W|(\d+Y)?(\d+M)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+S)?)?)$/.test(value),
+  email: value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  hostname: value => /^(?=.{1,253}$)([a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/.test(value),
+  ipv4: value => /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/.test(value),
+  ipv6: value => isValidIPv6(value),
+  uri: value => /^[a-zA-Z][a-zA-Z0-9+.-]*:[^\s]*$/.test(value),
+  'uri-reference': value => !/\s/.test(value),
+  uuid: value => /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/.test(value),
+  'json-pointer': value => /^(\/([^~/]|~[01])*)*$/.test(value),
+  regex: value => {
+    try {
+      new RegExp(value, 'u');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+};
+
+export class JsonSchemaValidator {
+  /**
+   * Validate data against a JSON Schema (draft 2020-12).
+   * Supports boolean schemas, $ref/$defs/$anchor, applicators (allOf, anyOf,
+   * oneOf, not, if/then/else, dependentSchemas), array and object keywords
+   * including unevaluatedItems/unevaluatedProperties, and common formats.
+   */
+  static validate(data: any, schema: Schema, options: JsonSchemaValidatorOptions = {}): JsonSchemaValidationResult {
+    const context: ValidationContext = {
+      resources: new Map(),
+      anchors: new Map(),
+      validateFormats: options.validateFormats ?? true,
+      maxErrors: options.maxErrors ?? 100,
+      depth: 0
+    };
+    this.indexResources(schema, '', context);
+
+    const errors: JsonSchemaError[] = [];
+    this.validateNode(data, schema, '', '', typeof schema === 'object' ? schema : {}, context, errors);
+    const limited = errors.slice(0, context.maxErrors);
+    return { valid: limited.length === 0, errors: limited };
+  }
+
+  /**
+   * Format errors as one line each, e.g. "/items/0/age: must be integer"
+   */
+  static formatErrors(errors: JsonSchemaError[]): string {
+    return errors.map(error => `${error.path || '/'}: ${error.message}`).join('\n');
+  }
+
+  private static validateNode(
+    data: any,
+    schema: Schema,
+    path: string,
+    schemaPath: string,
+    resource: Record<string, any>,
+    context: ValidationContext,
+    errors: JsonSchemaError[]
+  ): Evaluation {
+    const evaluation: Evaluation = { valid: true, properties: new Set(), items: new Set() };
+    const fail = (keyword: string, message: string, at = path) => {
+      evaluation.valid = false;
+      if (errors.length < context.maxErrors) {
+        errors.push({ path: at, schemaPath: `${schemaPath}/${keyword}`, keyword, message });
+      }
+    };
+
+    if (schema === true) return evaluation;
+    if (schema === false) {
+      fail('false', 'is not allowed');
+      return evaluation;
+    }
+    if (!schema || typeof schema !== 'object') return evaluation;
+
+    if (typeof schema.$id === 'string') {
+      resource = schema;
+    }
+
+    const merge = (sub: Evaluation) => {
+      sub.properties.forEach(key => evaluation.properties.add(key));
+      sub.items.forEach(index => evaluation.items.add(index));
+    };
+
+    // Runs a subschema; errors are collected only when `into` is given
+    const apply = (subschema: Schema, keywordPath: string, into: JsonSchemaError[] | null, at = path, value = data) =>
+      this.validateNode(value, subschema, at, `${schemaPath}/${keywordPath}`, resource, context, into ?? []);
+
+    // References
+    for (const keyword of ['$ref', '$dynamicRef'] as const) {
+      if (typeof schema[keyword] !== 'string') continue;
+      const target = this.resolveRef(schema[keyword], resource, context);
+      if (!target) {
+        fail(keyword, `can't resolve reference ${schema[keyword]}`);
+        continue;
+      }
+      if (context.depth >= MAX_REF_DEPTH) {
+        fail(keyword, 'exceeds maximum reference depth');
+        continue;
+      }
+      context.depth++;
+      const result = this.validateNode(data, target.schema, path, `${schemaPath}/${keyword}`, target.resource, context, errors);
+      context.depth--;
+      if (!result.valid) evaluation.valid = false;
+      merge(result);
+    }
+
+    // Type and value
+    if (schema.type !== undefined) {
+      const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some(type => this.matchesType(data, type))) {
+        fail('type', `must be ${types.join(' or ')}`);
+      }
+    }
+    if (Array.isArray(schema.enum) && !schema.enum.some((value: any) => deepEqual(value, data))) {
+      fail('enum', `must be one of ${schema.enum.map((value: any) => JSON.stringify(value)).join(', ')}`);
+    }
+    if ('const' in schema && !deepEqual(schema.const, data)) {
+      fail('const', `must be ${JSON.stringify(schema.const)}`);
+    }
+
+    // Numbers
+    if (typeof data === 'number') {
+      if (typeof schema.multipleOf === 'number') {
+        const quotient = data / schema.multipleOf;
+        if (!Number.isFinite(quotient) || Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+          fail('multipleOf', `must be a multiple of ${schema.multipleOf}`);
+        }
+      }
+      if (typeof schema.maximum === 'number' && data > schema.maximum) {
+        fail('maximum', `must be <= ${schema.maximum}`);
+      }
+      if (typeof schema.exclusiveMaximum === 'number' && data >= schema.exclusiveMaximum) {
+        fail('exclusiveMaximum', `must be < ${schema.exclusiveMaximum}`);
+      }
+      if (typeof schema.minimum === 'number' && data < schema.minimum) {
+        fail('minimum', `must be >= ${schema.minimum}`);
+      }
+      if (typeof schema.exclusiveMinimum === 'number' && data <= schema.exclusiveMinimum) {
+        fail('exclusiveMinimum', `must be > ${schema.exclusiveMinimum}`);
+      }
+    }
+
+    // Strings (lengths count code points, not UTF-16 units)
+    if (typeof data === 'string') {
+      const length = [...data].length;
+      if (typeof schema.maxLength === 'number' && length > schema.maxLength) {
+        fail('maxLength', `must NOT have more than ${schema.maxLength} characters`);
+      }
+      if (typeof schema.minLength === 'number' && length < schema.minLength) {
+        fail('minLength', `must NOT have fewer than ${schema.minLength} characters`);
+      }
+      if (typeof schema.pattern === 'string' && !this.toRegExp(schema.pattern).test(data)) {
+        fail('pattern', `must match pattern "${schema.pattern}"`);
+      }
+      if (context.validateFormats && typeof schema.format === 'string') {
+        const check = FORMAT_CHECKS[schema.format];
+        if (check && !check(data)) {
+          fail('format', `must match format "${schema.format}"`);
+        }
+      }
+    }
+
+    // Applicators
+    if (Array.isArray(schema.allOf)) {
+      schema.allOf.forEach((subschema: Schema, index: number) => {
+        const result = apply(subschema, `allOf/${index}`, errors);
+        if (result.valid) merge(result);
+        else evaluation.valid = false;
+      });
+    }
+
+    if (Array.isArray(schema.anyOf)) {
+      const branchErrors: JsonSchemaError[] = [];
+      let matched = false;
+      schema.anyOf.forEach((subschema: Schema, index: number) => {
+        const result = apply(subschema, `anyOf/${index}`, branchErrors);
+        if (result.valid) {
+          matched = true;
+          merge(result);
+        }
+      });
+      if (!matched) {
+        fail('anyOf', 'must match at least one schema in anyOf');
+        this.pushAll(errors, branchErrors, context);
+      }
+    }
+
+    if (Array.isArray(schema.oneOf)) {
+      const branchErrors: JsonSchemaError[] = [];
+      const passing: number[] = [];
+      let passed: Evaluation | undefined;
+      schema.oneOf.forEach((subschema: Schema, index: number) => {
+        const result = apply(subschema, `oneOf/${index}`, branchErrors);
+        if (result.valid) {
+          passing.push(index);
+          passed = result;
+        }
+      });
+      if (passing.length === 1 && passed) {
+        merge(passed);
+      } else if (passing.length === 0) {
+        fail('oneOf', 'must match exactly one schema in oneOf');
+        this.pushAll(errors, branchErrors, context);
+      } else {
+        fail('oneOf', `must match exactly one schema in oneOf (matched ${passing.join(', ')})`);
+      }
+    }
+
+    if (schema.not !== undefined && apply(schema.not, 'not', null).valid) {
+      fail('not', 'must NOT be valid against the "not" schema');
+    }
+
+    if (schema.if !== undefined) {
+      const condition = apply(schema.if, 'if', null);
+      if (condition.valid) {
+        merge(condition);
+        if (schema.then !== undefined) {
+          const result = apply(schema.then, 'then', errors);
+          if (result.valid) merge(result);
+          else evaluation.valid = false;
+        }
+      } else if (schema.else !== undefined) {
+        const result = apply(schema.else, 'else', errors);
+        if (result.valid) merge(result);
+        else evaluation.valid = false;
+      }
+    }
+
+    // Arrays
+    if (Array.isArray(data)) {
+      let prefixLength = 0;
+      if (Array.isArray(schema.prefixItems)) {
+        prefixLength = schema.prefixItems.length;
+        schema.prefixItems.forEach((subschema: Schema, index: number) => {
+          if (index >= data.length) return;
+          evaluation.items.add(index);
+          if (!apply(subschema, `prefixItems/${index}`, errors, `${path}/${index}`, data[index]).valid) {
+            evaluation.valid = false;
+          }
+        });
+      }
+
+      if (schema.items !== undefined && !Array.isArray(schema.items)) {
+        for (let index = prefixLength; index < data.length; index++) {
+          evaluation.items.add(index);
+          if (!apply(schema.items, 'items', errors, `${path}/${index}`, data[index]).valid) {
+            evaluation.valid = false;
+          }
+        }
+      }
+
+      if (schema.contains !== undefined) {
+        let matches = 0;
+        data.forEach((item, index) => {
+          if (apply(schema.contains, 'contains', null, `${path}/${index}`, item).valid) {
+            matches++;
+            evaluation.items.add(index);
+          }
+        });
+        const minContains = typeof schema.minContains === 'number' ? schema.minContains : 1;
+        if (matches < minContains) {
+          fail('contains', minContains === 1
+            ? 'must contain at least 1 valid item'
+            : `must contain at least ${minContains} valid items`);
+        }
+        if (typeof schema.maxContains === 'number' && matches > schema.maxContains) {
+          fail('maxContains', `must contain at most ${schema.maxContains} valid items`);
+        }
+      }
+
+      if (typeof schema.maxItems === 'number' && data.length > schema.maxItems) {
+        fail('maxItems', `must NOT have more than ${schema.maxItems} items`);
+      }
+      if (typeof schema.minItems === 'number' && data.length < schema.minItems) {
+        fail('minItems', `must NOT have fewer than ${schema.minItems} items`);
+      }
+      if (schema.uniqueItems === true) {
+        for (let i = 0; i < data.length; i++) {
+          const duplicate = data.findIndex((item, j) => j > i && deepEqual(item, data[i]));
+          if (duplicate !== -1) {
+            fail('uniqueItems', `must NOT have duplicate items (items ${i} and ${duplicate} are identical)`);
+            break;
+          }
+        }
+      }
+
+      if (schema.unevaluatedItems !== undefined) {
+        data.forEach((item, index) => {
+          if (evaluation.items.has(index)) return;
+          if (!apply(schema.unevaluatedItems, 'unevaluatedItems', errors, `${path}/${index}`, item).valid) {
+            evaluation.valid = false;
+          }
+        });
+        data.forEach((_, index) => evaluation.items.add(index));
+      }
+    }
+
+    // Objects
+    if (isPlainObject(data)) {
+      const keys = Object.keys(data);
+
+      if (Array.isArray(schema.required)) {
+        for (const key of schema.required) {
+          if (!(key in data)) {
+            fail('required', `must have required property '${key}'`);
+          }
+        }
+      }
+
+      if (isPlainObject(schema.dependentRequired)) {
+        for (const [key, dependencies] of Object.entries<string[]>(schema.dependentRequired)) {
+          if (!(key in data)) continue;
+          for (const dependency of dependencies) {
+            if (!(dependency in data)) {
+              fail('dependentRequired', `must have property '${dependency}' when property '${key}' is present`);
+            }
+          }
+        }
+      }
+
+      if (typeof schema.maxProperties === 'number' && keys.length > schema.maxProperties) {
+        fail('maxProperties', `must NOT have more than ${schema.maxProperties} properties`);
+      }
+      if (typeof schema.minProperties === 'number' && keys.length < schema.minProperties) {
+        fail('minProperties', `must NOT have fewer than ${schema.minProperties} properties`);
+      }
+
+      const matchedByKeyword = new Set<string>();
+
+      if (isPlainObject(schema.properties)) {
+        for (const [key, subschema] of Object.entries<Schema>(schema.properties)) {
+          if (!(key in data)) continue;
+          matchedByKeyword.add(key);
+          evaluation.properties.add(key);
+          if (!apply(subschema, `properties/${escapePointer(key)}`, errors, `${path}/${escapePointer(key)}`, data[key]).valid) {
+            evaluation.valid = false;
+          }
+        }
+      }
+
+      if (isPlainObject(schema.patternProperties)) {
+        for (const [pattern, subschema] of Object.entries<Schema>(schema.patternProperties)) {
+          const regex = this.toRegExp(pattern);
+          for (const key of keys) {
+            if (!regex.test(key)) continue;
+            matchedByKeyword.add(key);
+            evaluation.properties.add(key);
+            if (!apply(subschema, `patternProperties/${escapePointer(pattern)}`, errors, `${path}/${escapePointer(key)}`, data[key]).valid) {
+              evaluation.valid = false;
+            }
+          }
+        }
+      }
+
+      if (schema.additionalProperties !== undefined) {
+        for (const key of keys) {
+          if (matchedByKeyword.has(key)) continue;
+          evaluation.properties.add(key);
+          if (schema.additionalProperties === false) {
+            fail('additionalProperties', `must NOT have additional property '${key}'`, `${path}/${escapePointer(key)}`);
+          } else if (!apply(schema.additionalProperties, 'additionalProperties', errors, `${path}/${escapePointer(key)}`, data[key]).valid) {
+            evaluation.valid = false;
+          }
+        }
+      }
+
+      if (schema.propertyNames !== undefined) {
+        for (const key of keys) {
+          if (!apply(schema.propertyNames, 'propertyNames', null, `${path}/${escapePointer(key)}`, key).valid) {
+            fail('propertyNames', `property name '${key}' is invalid`, `${path}/${escapePointer(key)}`);
+          }
+        }
+      }
+
+      if (isPlainObject(schema.dependentSchemas)) {
+        for (const [key, subschema] of Object.entries<Schema>(schema.dependentSchemas)) {
+          if (!(key in data)) continue;
+          const result = apply(subschema, `dependentSchemas/${escapePointer(key)}`, errors);
+          if (result.valid) merge(result);
+          else evaluation.valid = false;
+        }
+      }
+
+      if (schema.unevaluatedProperties !== undefined) {
+        for (const key of keys) {
+          if (evaluation.properties.has(key)) continue;
+          if (schema.unevaluatedProperties === false) {
+            fail('unevaluatedProperties', `must NOT have unevaluated property '${key}'`, `${path}/${escapePointer(key)}`);
+          } else if (!apply(schema.unevaluatedProperties, 'unevaluatedProperties', errors, `${path}/${escapePointer(key)}`, data[key]).valid) {
+            evaluation.valid = false;
+          }
+        }
+        keys.forEach(key => evaluation.properties.add(key));
+      }
+    }
+
+    return evaluation;
+  }
+
+  private static matchesType(data: any, type: string): boolean {
+    switch (type) {
+      case 'null': return data === null;
+      case 'boolean': return typeof data === 'boolean';
+      case 'integer': return typeof data === 'number' && Number.isInteger(data);
+      case 'number': return typeof data === 'number' && Number.isFinite(data);
+      case 'string': return typeof data === 'string';
+      case 'array': return Array.isArray(data);
+      case 'object': return isPlainObject(data);
+      default: return false;
+    }
+  }
+
+  private static regexCache = new Map<string, RegExp>();
+
+  private static toRegExp(pattern: string): RegExp {
+    let regex = this.regexCache.get(pattern);
+    if (!regex) {
+      try {
+        regex = new RegExp(pattern, 'u');
+      } catch {
+        regex = new RegExp(pattern);
+      }
+      this.regexCache.set(pattern, regex);
+    }
+    return regex;
+  }
+
+  private static pushAll(errors: JsonSchemaError[], additional: JsonSchemaError[], context: ValidationContext): void {
+    for (const error of additional) {
+      if (errors.length >= context.maxErrors) return;
+      errors.push(error);
+    }
+  }
+
+  /**
+   * Record every $id resource and $anchor / $dynamicAnchor so references can
+   * be resolved without walking the schema again
+   */
+  private static indexResources(schema: Schema, resourceId: string, context: ValidationContext): void {
+    if (!schema || typeof schema !== 'object') return;
+
+    if (Array.isArray(schema)) {
+      schema.forEach(item => this.indexResources(item, resourceId, context));
+      return;
+    }
+
+    if (typeof schema.$id === 'string') {
+      resourceId = schema.$id.replace(/#$/, '');
+      context.resources.set(resourceId, schema);
+    }
+    for (const keyword of ['$anchor', '$dynamicAnchor']) {
+      if (typeof schema[keyword] === 'string') {
+        context.anchors.set(`${resourceId}#${schema[keyword]}`, schema);
+      }
+    }
+
+    for (const [key, value] of Object.entries(schema)) {
+      if (key !== 'enum' && key !== 'const' && value && typeof value === 'object') {
+        this.indexResources(value, resourceId, context);
+      }
+    }
+  }
+
+  private static resolveRef(
+    ref: string,
+    resource: Record<string, any>,
+    context: ValidationContext
+  ): { schema: Schema; resource: Record<string, any> } | undefined {
+    const hashIndex = ref.indexOf('#');
+    const base = hashIndex === -1 ? ref : ref.slice(0, hashIndex);
+    const fragment = hashIndex === -1 ? '' : ref.slice(hashIndex + 1);
+
+    let target: Record<string, any> | undefined;
+    let targetId = '';
+    if (base) {
+      targetId = [...context.resources.keys()].find(id => id === base || id.endsWith(`/${base}`)) ?? '';
+      target = targetId ? context.resources.get(targetId) : undefined;
+    } else {
+      target = resource;
+      targetId = typeof resource.$id === 'string' ? resource.$id.replace(/#$/, '') : '';
+    }
+    if (!target) return undefined;
+
+    if (!fragment) return { schema: target, resource: target };
+
+    if (!fragment.startsWith('/')) {
+      const anchored = context.anchors.get(`${targetId}#${fragment}`);
+      return anchored ? { schema: anchored, resource: target } : undefined;
+    }
+
+    let current: any = target;
+    for (const segment of fragment.slice(1).split('/')) {
+      const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+      if (current === null || typeof current !== 'object' || !(key in current)) return undefined;
+      current = current[key];
+    }
+    return current === true || current === false || (current && typeof current === 'object')
+      ? { schema: current, resource: target }
+      : undefined;
+  }
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function deepEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (typeof a !== typeof b || a === null || b === null || typeof a !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a)) {
+    return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+  }
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => key in b && deepEqual(a[key], b[key]));
+}
+
+function isValidDate(value: string): boolean {
+  const [year, month, day] = value.split('-').map(Number) as [number, number, number];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+function isValidIPv6(value: string): boolean {
+  if (!/^[0-9a-fA-F:.]+$/.test(value)) return false;
+  const doubleColon = value.split('::');
+  if (doubleColon.length > 2) return false;
+  const groups = value.split(':').filter(Boolean);
+  const last = groups[groups.length - 1];
+  const hasIPv4 = last !== undefined && last.includes('.');
+  if (hasIPv4 && !FORMAT_CHECKS.ipv4!(last!)) return false;
+  const hexGroups = hasIPv4 ? groups.slice(0, -1) : groups;
+  if (!hexGroups.every(group => /^[0-9a-fA-F]{1,4}$/.test(group))) return false;
+  const count = hexGroups.length + (hasIPv4 ? 2 : 0);
+  return doubleColon.length === 2 ? count < 8 : count === 8;
+}
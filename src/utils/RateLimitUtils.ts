@@ -0,0 +1,178 @@
+/**
+ * Rate Limit Utilities
+ * Parses provider rate-limit headers and decides whether and when to retry
+ */
+
+export interface RateLimitInfo {
+  limitRequests?: number;
+  remainingRequests?: number;
+  resetRequestsMs?: number; // Milliseconds until the request quota resets
+  limitTokens?: number;
+  remainingTokens?: number;
+  resetTokensMs?: number; // Milliseconds until the token quota resets
+  retryAfterMs?: number;
+}
+
+/**
+ * Error codes that fail the same way however often they are retried
+ */
+const NON_RETRYABLE_CODES = new Set([
+  'ABORTED',
+  'AUTHENTICATION_ERROR',
+  'PERMISSION_ERROR',
+  'MISSING_API_KEY',
+  'INVALID_REQUEST',
+  'INVALID_MODEL',
+  'UNSUPPORTED_MODEL',
+  'CONTEXT_LENGTH_EXCEEDED',
+  'CONTENT_FILTER_ERROR',
+  'INVALID_MESSAGES',
+  'INVALID_TOOL_CHOICE',
+  'UNSUPPORTED_TOOL_CHOICE',
+  'UNSUPPORTED_CONTENT'
+]);
+
+/**
+ * Codes of network failures and timeouts that carry no HTTP status but are
+ * worth another attempt. TIMEOUT is the code of a TimeoutError thrown when a
+ * request runs past its configured timeout.
+ */
+const RETRYABLE_NETWORK_CODES = new Set([
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ECONNREFUSED',
+  'EAI_AGAIN',
+  'TIMEOUT'
+]);
+
+/**
+ * Header names per quota, most specific first. OpenAI, Groq and xAI use the
+ * x-ratelimit-*-requests family; Anthropic uses anthropic-ratelimit-*;
+ * OpenRouter sends the unsuffixed x-ratelimit-* request quota.
+ */
+const RATE_LIMIT_HEADERS = {
+  limitRequests: ['x-ratelimit-limit-requests', 'anthropic-ratelimit-requests-limit', 'x-ratelimit-limit'],
+  remainingRequests: ['x-ratelimit-remaining-requests', 'anthropic-ratelimit-requests-remaining', 'x-ratelimit-remaining'],
+  resetRequestsMs: ['x-ratelimit-reset-requests', 'anthropic-ratelimit-requests-reset', 'x-ratelimit-reset'],
+  limitTokens: ['x-ratelimit-limit-tokens', 'anthropic-ratelimit-tokens-limit'],
+  remainingTokens: ['x-ratelimit-remaining-tokens', 'anthropic-ratelimit-tokens-remaining'],
+  resetTokensMs: ['x-ratelimit-reset-tokens', 'anthropic-ratelimit-tokens-reset']
+} as const;
+
+export class RateLimitUtils {
+  /**
+   * Read a header from a fetch Headers instance or a plain object
+   */
+  static getHeader(headers: any, name: string): string | undefined {
+    if (!headers) return undefined;
+    if (typeof headers.get === 'function') return headers.get(name) ?? undefined;
+    const key = Object.keys(headers).find(key => key.toLowerCase() === name);
+    return key !== undefined && headers[key] != null ? String(headers[key]) : undefined;
+  }
+
+  /**
+   * Parse the rate-limit state reported by a response, or undefined when the
+   * provider sent none of the known headers
+   */
+  static parseRateLimitHeaders(headers: any): RateLimitInfo | undefined {
+    const info: RateLimitInfo = {};
+
+    for (const [field, names] of Object.entries(RATE_LIMIT_HEADERS) as [keyof RateLimitInfo, readonly string[]][]) {
+      const raw = names.map(name => this.getHeader(headers, name)).find(value => value !== undefined);
+      if (raw === undefined) continue;
+      const value = field.startsWith('reset') ? this.parseResetMs(raw) : Number(raw);
+      if (value !== undefined && !isNaN(value)) info[field] = value;
+    }
+
+    const retryAfterMs = this.parseRetryAfter(headers);
+    if (retryAfterMs !== undefined) info.retryAfterMs = retryAfterMs;
+
+    return Object.keys(info).length > 0 ? info : undefined;
+  }
+
+  /**
+   * How long the provider asked us to wait, from retry-after-ms / retry-after,
+   * or from the reset time of an exhausted quota
+   */
+  static parseRetryAfter(headers: any): number | undefined {
+    const retryAfterMs = this.getHeader(headers, 'retry-after-ms');
+    if (retryAfterMs && !isNaN(Number(retryAfterMs))) return Number(retryAfterMs);
+
+    const retryAfter = this.getHeader(headers, 'retry-after');
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      if (!isNaN(seconds)) return seconds * 1000;
+      const date = Date.parse(retryAfter);
+      if (!isNaN(date)) return Math.max(0, date - Date.now());
+    }
+
+    const exhausted: number[] = [];
+    for (const [remaining, reset] of [['remainingRequests', 'resetRequestsMs'], ['remainingTokens', 'resetTokensMs']] as const) {
+      const remainingValue = RATE_LIMIT_HEADERS[remaining].map(name => this.getHeader(headers, name)).find(v => v !== undefined);
+      const resetValue = RATE_LIMIT_HEADERS[reset].map(name => this.getHeader(headers, name)).find(v => v !== undefined);
+      if (remainingValue !== undefined && Number(remainingValue) <= 0 && resetValue !== undefined) {
+        const resetMs = this.parseResetMs(resetValue);
+        if (resetMs !== undefined) exhausted.push(resetMs);
+      }
+    }
+    return exhausted.length > 0 ? Math.max(...exhausted) : undefined;
+  }
+
+  /**
+   * Delay requested by a failed call: a typed error's retryAfterMs, otherwise
+   * whatever its response headers say
+   */
+  static getRetryAfterMs(error: any): number | undefined {
+    if (typeof error?.retryAfterMs === 'number') return error.retryAfterMs;
+    return this.parseRetryAfter(error?.response?.headers ?? error?.headers ?? error?.originalError?.headers);
+  }
+
+  /**
+   * Whether a failed call is worth retrying. Rate limits, timeouts, conflicts
+   * and server errors are; every other 4xx and known client-side failure is not.
+   * Failures without a status are retried only for known network errors.
+   */
+  static isRetryable(error: any): boolean {
+    if (NON_RETRYABLE_CODES.has(error?.code)) return false;
+    const status = error?.status ?? error?.response?.status;
+    if (typeof status === 'number') {
+      return status === 408 || status === 409 || status === 429 || status >= 500;
+    }
+    return this.isNetworkFailure(error);
+  }
+
+  /**
+   * Connection resets, refusals, DNS lookups and timeouts, as a Node error code
+   * or fetch's `TypeError: fetch failed`, on the error or what it wraps
+   */
+  private static isNetworkFailure(error: any, depth = 0): boolean {
+    if (!error || depth > 3) return false;
+    if (RETRYABLE_NETWORK_CODES.has(error.code)) return true;
+    if (error instanceof TypeError && error.message === 'fetch failed') return true;
+    return this.isNetworkFailure(error.cause ?? error.originalError, depth + 1);
+  }
+
+  /**
+   * Reset values come as durations ("1s", "6m0s", "120ms"), seconds,
+   * epoch timestamps or ISO dates
+   */
+  private static parseResetMs(value: string): number | undefined {
+    const trimmed = value.trim();
+
+    if (/^\d+(\.\d+)?$/.test(trimmed)) {
+      const number = Number(trimmed);
+      if (number > 1e12) return Math.max(0, number - Date.now()); // Epoch milliseconds
+      if (number > 1e9) return Math.max(0, number * 1000 - Date.now()); // Epoch seconds
+      return number * 1000;
+    }
+
+    const duration = trimmed.match(/^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m(?!s))?(?:(\d+(?:\.\d+)?)s)?(?:(\d+(?:\.\d+)?)ms)?$/);
+    if (duration && trimmed !== '') {
+      const [, hours = '0', minutes = '0', seconds = '0', millis = '0'] = duration;
+      return Math.round(Number(hours) * 3600000 + Number(minutes) * 60000 + Number(seconds) * 1000 + Number(millis));
+    }
+
+    const date = Date.parse(trimmed);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+}
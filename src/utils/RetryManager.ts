@@ -5,6 +5,7 @@
  */
 
 import { createLogger } from './Logger';
+import { RateLimitUtils } from './RateLimitUtils';
 
 const logger = createLogger('RetryManager');
 
@@ -16,16 +17,39 @@ export interface RetryConfig {
   jitter: boolean;
   retryCondition?: (error: any) => boolean;
   onRetry?: (attempt: number, error: any) => void;
+  signal?: AbortSignal | undefined; // Stops further attempts and interrupts the wait between them
 }
 
 export interface CircuitBreakerConfig {
   failureThreshold: number;
   resetTimeout: number;
-  monitoringPeriod: number;
+  monitoringPeriod: number; // Failures older than this no longer count toward the threshold
+  isFailure?: (error: any) => boolean; // Errors that say nothing about the service's health can be excluded
 }
 
 export type CircuitState = 'closed' | 'open' | 'half-open';
 
+export interface CircuitStats {
+  state: CircuitState;
+  failureCount: number;
+  successCount: number;
+  totalRequests: number;
+  failureRate: number;
+  lastFailureTime: number;
+}
+
+/**
+ * Thrown instead of running the operation while a circuit is open
+ */
+export class CircuitOpenError extends Error {
+  readonly code = 'CIRCUIT_OPEN';
+
+  constructor(public circuitName: string, public retryAt: number) {
+    super(`Circuit breaker '${circuitName}' is open - operation not allowed`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
 export class RetryManager {
   private static instance: RetryManager;
   private circuitBreakers: Map<string, CircuitBreaker> = new Map();
@@ -60,6 +84,8 @@ export class RetryManager {
     let lastError: any;
     
     for (let attempt = 1; attempt <= finalConfig.maxAttempts; attempt++) {
+      this.throwIfAborted(finalConfig.signal);
+
       try {
         const result = await operation();
         
@@ -92,8 +118,8 @@ export class RetryManager {
         }
 
         // Wait before next attempt
-        const delay = this.calculateDelay(attempt, finalConfig);
-        await this.sleep(delay);
+        const delay = this.calculateDelay(attempt, finalConfig, error);
+        await this.sleep(delay, finalConfig.signal);
       }
     }
 
@@ -116,7 +142,7 @@ export class RetryManager {
     let circuitBreaker = this.circuitBreakers.get(circuitName);
     
     if (!circuitBreaker) {
-      circuitBreaker = new CircuitBreaker({
+      circuitBreaker = new CircuitBreaker(circuitName, {
         failureThreshold: 5,
         resetTimeout: 60000,
         monitoringPeriod: 120000,
@@ -165,7 +191,7 @@ export class RetryManager {
   /**
    * Get circuit breaker statistics
    */
-  getCircuitStats(circuitName: string): any {
+  getCircuitStats(circuitName: string): CircuitStats | null {
     const circuit = this.circuitBreakers.get(circuitName);
     return circuit ? circuit.getStats() : null;
   }
@@ -173,23 +199,22 @@ export class RetryManager {
   // Private helper methods
 
   private defaultRetryCondition(error: any): boolean {
-    // Retry on network errors, timeouts, and 5xx status codes
-    if (error.code === 'ENOTFOUND' || error.code === 'ECONNRESET' || error.code === 'ETIMEDOUT') {
-      return true;
-    }
-    
-    if (error.status >= 500 && error.status < 600) {
-      return true;
-    }
-    
-    if (error.status === 429) { // Rate limiting
+    // Retry on network errors, timeouts, rate limiting and 5xx status codes
+    if (['ENOTFOUND', 'ECONNRESET', 'ETIMEDOUT', 'NETWORK_ERROR', 'TIMEOUT'].includes(error.code)) {
       return true;
     }
     
-    return false;
+    const status = error.status ?? error.response?.status;
+    return typeof status === 'number' && RateLimitUtils.isRetryable(error);
   }
 
-  private calculateDelay(attempt: number, config: RetryConfig): number {
+  private calculateDelay(attempt: number, config: RetryConfig, error?: any): number {
+    // A delay requested by the provider replaces the backoff schedule
+    const retryAfterMs = RateLimitUtils.getRetryAfterMs(error);
+    if (retryAfterMs !== undefined) {
+      return Math.min(retryAfterMs, config.maxDelay);
+    }
+
     let delay = config.baseDelay * Math.pow(config.exponentialBase, attempt - 1);
     
     // Apply maximum delay
@@ -203,8 +228,36 @@ export class RetryManager {
     return Math.floor(delay);
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(this.abortReason(signal));
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(this.abortReason(signal!));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw this.abortReason(signal);
+    }
+  }
+
+  private abortReason(signal: AbortSignal): Error {
+    if (signal.reason instanceof Error) return signal.reason;
+    const error = new Error('The operation was aborted');
+    error.name = 'AbortError';
+    return error;
   }
 }
 
@@ -212,6 +265,7 @@ export class RetryManager {
  * Circuit Breaker implementation
  */
 class CircuitBreaker {
+  private name: string;
   private state: CircuitState = 'closed';
   private failureCount = 0;
   private lastFailureTime = 0;
@@ -219,7 +273,8 @@ class CircuitBreaker {
   private totalRequests = 0;
   private config: CircuitBreakerConfig;
 
-  constructor(config: CircuitBreakerConfig) {
+  constructor(name: string, config: CircuitBreakerConfig) {
+    this.name = name;
     this.config = config;
   }
 
@@ -227,9 +282,9 @@ class CircuitBreaker {
     if (this.state === 'open') {
       if (Date.now() - this.lastFailureTime > this.config.resetTimeout) {
         this.state = 'half-open';
-        logger.info('Circuit breaker moved to half-open state');
+        logger.info('Circuit breaker moved to half-open state', { circuit: this.name });
       } else {
-        throw new Error('Circuit breaker is open - operation not allowed');
+        throw new CircuitOpenError(this.name, this.lastFailureTime + this.config.resetTimeout);
       }
     }
 
@@ -240,7 +295,9 @@ class CircuitBreaker {
       this.onSuccess();
       return result;
     } catch (error) {
-      this.onFailure();
+      if (!this.config.isFailure || this.config.isFailure(error)) {
+        this.onFailure();
+      }
       throw error;
     }
   }
@@ -249,7 +306,7 @@ class CircuitBreaker {
     return this.state;
   }
 
-  getStats(): any {
+  getStats(): CircuitStats {
     return {
       state: this.state,
       failureCount: this.failureCount,
@@ -264,8 +321,9 @@ class CircuitBreaker {
     this.state = 'closed';
     this.failureCount = 0;
     this.successCount = 0;
+    this.totalRequests = 0;
     this.lastFailureTime = 0;
-    logger.info('Circuit breaker manually reset');
+    logger.info('Circuit breaker manually reset', { circuit: this.name });
   }
 
   private onSuccess(): void {
@@ -279,15 +337,19 @@ class CircuitBreaker {
   }
 
   private onFailure(): void {
+    const now = Date.now();
+    if (this.state === 'closed' && now - this.lastFailureTime > this.config.monitoringPeriod) {
+      this.failureCount = 0;
+    }
     this.failureCount++;
-    this.lastFailureTime = Date.now();
+    this.lastFailureTime = now;
     
     if (this.state === 'half-open') {
       this.state = 'open';
-      logger.warn('Circuit breaker opened after half-open failure');
+      logger.warn('Circuit breaker opened after half-open failure', { circuit: this.name });
     } else if (this.failureCount >= this.config.failureThreshold) {
       this.state = 'open';
-      logger.warn(`Circuit breaker opened after ${this.failureCount} failures`);
+      logger.warn(`Circuit breaker opened after ${this.failureCount} failures`, { circuit: this.name });
     }
   }
 }
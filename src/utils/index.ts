@@ -3,15 +3,17 @@
  * Essential utility functions and managers for the lab kit
  */
 
-export { ConfigManager, type LabKitConfig } from './ConfigManager';
+export { ConfigManager, DEFAULT_RETRY_CONFIG, type LabKitConfig, type RetryDefaults } from './ConfigManager';
 export { Logger, ComponentLogger, logger, createLogger, type LogLevel, type LogEntry } from './Logger';
 export { 
   RetryManager, 
   RetryPatterns, 
   retryManager, 
+  CircuitOpenError,
   type RetryConfig, 
   type CircuitBreakerConfig,
-  type CircuitState 
+  type CircuitState,
+  type CircuitStats
 } from './RetryManager';
 export { 
   ValidationUtils, 
@@ -19,6 +21,15 @@ export {
   type ValidationResult, 
   type SchemaValidationRule 
 } from './ValidationUtils';
+export { RateLimitUtils, type RateLimitInfo } from './RateLimitUtils';
+export { ApiKeyPool, type ApiKeyPoolOptions, type ApiKeyStats, type KeySelectionStrategy } from './ApiKeyPool';
+export { HttpTransport, type HttpTransportOptions, type FetchFunction } from './HttpTransport';
+export {
+  JsonSchemaValidator,
+  type JsonSchemaError,
+  type JsonSchemaValidationResult,
+  type JsonSchemaValidatorOptions
+} from './JsonSchemaValidator';
 export {
   CacheManager,
   LRUCache,